@@ -1,25 +1,17 @@
-import React, { useState } from 'react';
+import React, { useEffect } from 'react';
 import { Sidebar } from './components/Sidebar';
-import { VectorPlayground } from './components/VectorPlayground';
-import { MatrixTransformLevel } from './components/MatrixTransformLevel';
-import { MatrixMultiplicationLevel } from './components/MatrixMultiplicationLevel';
-import { GradientDescent } from './components/GradientDescent';
 import { LinearLevelSelector } from './components/LinearLevelSelector';
 import { CalculusLevelSelector } from './components/CalculusLevelSelector';
-import { DerivativeVisualizer } from './components/DerivativeVisualizer';
-import { IntegralVisualizer } from './components/IntegralVisualizer';
-import { CurlLevel } from './components/CurlLevel'; // New Import
-import { VectorVisualizer } from './components/VectorVisualizer';
-import { ScalarMultiplication } from './components/ScalarMultiplication';
-import { DotProductLevel } from './components/DotProductLevel';
-import { CrossProductLevel } from './components/CrossProductLevel';
-import { EigenvectorsLevel } from './components/EigenvectorsLevel';
-import { LineEquationLevel } from './components/LineEquationLevel';
 import { ComingSoon } from './components/ComingSoon';
+import { LockedLevel } from './components/LockedLevel';
 import { ViewState } from './types';
+import { useHashRoute } from './hooks/useHashRoute';
+import { LevelDefinition, WORLDS, getLevel, getNeighbours, levelCode } from './levelRegistry';
+import { useProgress } from './hooks/useProgress';
+import { isCompleted, isUnlocked } from './utils/progress';
 
 // Retro Landing Page Component
-const LandingPage: React.FC<{ onStart: (view: ViewState) => void }> = ({ onStart }) => {
+const LandingPage: React.FC<{ onStart: (view: ViewState) => void; lastLevel?: LevelDefinition }> = ({ onStart, lastLevel }) => {
   return (
     <div className="relative w-full h-full bg-[#101018] overflow-hidden flex flex-col items-center justify-center select-none">
       {/* Background Effects */}
@@ -78,6 +70,16 @@ const LandingPage: React.FC<{ onStart: (view: ViewState) => void }> = ({ onStart
            </button>
         </div>
 
+        {/* Resume where the player left off */}
+        {lastLevel && (
+          <button 
+            onClick={() => onStart(lastLevel.id)}
+            className="pixel-font text-[10px] text-slate-400 hover:text-yellow-400 transition-colors -mt-4"
+          >
+            CONTINUAR ► {levelCode(lastLevel)} {lastLevel.title}
+          </button>
+        )}
+
         {/* Footer */}
         <div className="mt-16 text-center">
           <p className="pixel-font text-yellow-400 text-sm blink">
@@ -93,91 +95,43 @@ const LandingPage: React.FC<{ onStart: (view: ViewState) => void }> = ({ onStart
 };
 
 export default function App() {
-  const [currentView, setView] = useState<ViewState>(ViewState.HOME);
+  const [currentView, setView] = useHashRoute();
+  const { progress, visit } = useProgress();
+  const canPlay = (id: ViewState) => {
+    const level = getLevel(id);
+    return level !== undefined && isUnlocked(progress, level.prerequisites);
+  };
+  const playable = canPlay(currentView);
+
+  // Remember the last level played (for CONTINUAR on the landing page)
+  useEffect(() => {
+    if (playable) visit(currentView);
+  }, [currentView, playable, visit]);
 
   const renderView = () => {
+    // --- LEVELS (see levelRegistry) ---
+    const level = getLevel(currentView);
+    if (level) {
+      // Deep links and the address bar get here too, not only the (locked) menus
+      if (!playable) {
+        const missing = level.prerequisites.filter(id => !isCompleted(progress, id)).map(id => getLevel(id)!);
+        return <LockedLevel level={level} missing={missing} onBack={() => setView(WORLDS[level.world].selectView)} />;
+      }
+      const { prev, next } = getNeighbours(level.id);
+      const LevelComponent = level.component;
+      return <LevelComponent
+                onPrevLevel={prev ? () => setView(prev) : undefined}
+                onNextLevel={next && canPlay(next) ? () => setView(next) : undefined}
+             />;
+    }
+
     switch (currentView) {
-      // --- LINEAR ALGEBRA WORLD ---
       case ViewState.LEVEL_SELECT_LIN_ALG: 
         return <LinearLevelSelector setView={setView} />;
-      
-      case ViewState.LEVEL_1_VECTOR: 
-        return <VectorVisualizer onNextLevel={() => setView(ViewState.VECTORS)} />;
-      
-      case ViewState.VECTORS: 
-        return <VectorPlayground 
-                  onPrevLevel={() => setView(ViewState.LEVEL_1_VECTOR)}
-                  onNextLevel={() => setView(ViewState.SCALAR_MULTIPLICATION)} 
-               />;
-      
-      case ViewState.SCALAR_MULTIPLICATION:
-        return <ScalarMultiplication 
-                  onPrevLevel={() => setView(ViewState.VECTORS)}
-                  onNextLevel={() => setView(ViewState.LINE_EQUATION)} 
-               />;
-      
-      case ViewState.LINE_EQUATION: 
-        return <LineEquationLevel 
-                  onPrevLevel={() => setView(ViewState.SCALAR_MULTIPLICATION)}
-                  onNextLevel={() => setView(ViewState.DOT_PRODUCT)}
-               />;
 
-      case ViewState.DOT_PRODUCT:
-        return <DotProductLevel 
-                  onPrevLevel={() => setView(ViewState.LINE_EQUATION)}
-                  onNextLevel={() => setView(ViewState.CROSS_PRODUCT)}
-               />;
-
-      case ViewState.CROSS_PRODUCT:
-        return <CrossProductLevel 
-                  onPrevLevel={() => setView(ViewState.DOT_PRODUCT)}
-                  onNextLevel={() => setView(ViewState.MATRICES)}
-               />;
-
-      case ViewState.MATRICES: 
-        return <MatrixTransformLevel 
-                  onPrevLevel={() => setView(ViewState.CROSS_PRODUCT)}
-                  onNextLevel={() => setView(ViewState.MATRIX_MULTIPLICATION)}
-               />;
-      
-      case ViewState.MATRIX_MULTIPLICATION:
-        return <MatrixMultiplicationLevel 
-                  onPrevLevel={() => setView(ViewState.MATRICES)}
-                  onNextLevel={() => setView(ViewState.EIGENVECTORS)}
-               />;
-
-      case ViewState.EIGENVECTORS:
-        return <EigenvectorsLevel 
-                  onPrevLevel={() => setView(ViewState.MATRIX_MULTIPLICATION)}
-               />;
-
-      // --- CALCULUS WORLD ---
       case ViewState.LEVEL_SELECT_CALCULUS:
         return <CalculusLevelSelector setView={setView} />;
 
-      case ViewState.DERIVATIVE_DEFINITION:
-        return <DerivativeVisualizer 
-                  onPrevLevel={() => setView(ViewState.LEVEL_SELECT_CALCULUS)}
-                  onNextLevel={() => setView(ViewState.INTEGRAL)}
-               />;
-
-      case ViewState.INTEGRAL:
-        return <IntegralVisualizer
-                  onPrevLevel={() => setView(ViewState.DERIVATIVE_DEFINITION)}
-                  onNextLevel={() => setView(ViewState.GRADIENT)}
-               />;
-
-      case ViewState.GRADIENT: 
-        return <GradientDescent 
-                  onPrevLevel={() => setView(ViewState.INTEGRAL)}
-                  onNextLevel={() => setView(ViewState.ROTATIONAL)}
-               />;
-      
-      case ViewState.ROTATIONAL:
-        return <CurlLevel
-                  onPrevLevel={() => setView(ViewState.GRADIENT)}
-               />;
-
       case ViewState.COMING_SOON: 
         return <ComingSoon onBack={() => setView(ViewState.HOME)} />;
         
@@ -188,7 +142,7 @@ export default function App() {
   if (currentView === ViewState.HOME) {
     return (
       <div className="w-full h-screen">
-        <LandingPage onStart={setView} />
+        <LandingPage onStart={setView} lastLevel={progress.lastVisited ? getLevel(progress.lastVisited) : undefined} />
       </div>
     );
   }
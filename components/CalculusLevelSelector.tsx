@@ -1,61 +1,27 @@
 import React from 'react';
 import { ViewState } from '../types';
+import { getWorldLevels, levelCode } from '../levelRegistry';
+import { useProgress } from '../hooks/useProgress';
+import { getBestScore, isCompleted, isUnlocked } from '../utils/progress';
 
 interface CalculusLevelSelectorProps {
   setView: (view: ViewState) => void;
 }
 
 export const CalculusLevelSelector: React.FC<CalculusLevelSelectorProps> = ({ setView }) => {
-  
-  const levels = [
-    {
-      id: 1,
-      title: "LA DERIVADA",
-      subtitle: "NIVEL 2-1",
-      icon: "slope", 
-      locked: false,
-      target: ViewState.DERIVATIVE_DEFINITION,
-      description: "Pendientes en el espacio 3D (Derivadas Parciales)."
-    },
-    {
-      id: 2,
-      title: "INTEGRAL DOBLE",
-      subtitle: "NIVEL 2-2",
-      icon: "blocks",
-      locked: false,
-      target: ViewState.INTEGRAL,
-      description: "Acumulación de volumen bajo una superficie."
-    },
-    {
-      id: 3,
-      title: "EL GRADIENTE",
-      subtitle: "NIVEL 2-3",
-      icon: "mount",
-      locked: false,
-      target: ViewState.GRADIENT, 
-      description: "La dirección de máximo ascenso."
-    },
-    {
-      id: 4,
-      title: "ROTACIONAL (CURL)",
-      subtitle: "NIVEL 2-4",
-      icon: "curl",
-      locked: false,
-      target: ViewState.ROTATIONAL,
-      description: "Turbulencia, giro y la regla de la mano derecha."
-    }
-  ];
+  const { progress } = useProgress();
 
-  const getIcon = (type: string) => {
-      switch(type) {
-          case 'slope': return <span className="text-5xl">📐</span>;
-          case 'mount': return <span className="text-5xl">🏔️</span>;
-          case 'blocks': return <span className="text-5xl">🧊</span>;
-          case 'div': return <span className="text-5xl">💥</span>;
-          case 'curl': return <span className="text-5xl">🌀</span>;
-          default: return <span>🔒</span>;
-      }
-  };
+  const levels = getWorldLevels(2).map(level => ({
+    id: level.id,
+    title: level.title,
+    subtitle: level.boss ? 'BOSS STAGE' : `NIVEL ${levelCode(level)}`,
+    icon: level.icon,
+    locked: !isUnlocked(progress, level.prerequisites),
+    completed: isCompleted(progress, level.id),
+    bestScore: getBestScore(progress, level.id),
+    target: level.id,
+    description: level.description
+  }));
 
   return (
     <div className="relative w-full h-full bg-[#0f172a] overflow-y-auto custom-scrollbar">
@@ -97,7 +63,7 @@ export const CalculusLevelSelector: React.FC<CalculusLevelSelectorProps> = ({ se
               <div className={`flex-1 flex items-center justify-center bg-slate-900/50 border-b-4 border-inherit
                 ${!level.locked && 'group-hover:bg-slate-900/80'}
               `}>
-                {getIcon(level.icon)}
+                <span className="text-5xl">{level.locked ? '🔒' : level.icon}</span>
               </div>
 
               {/* Card Body */}
@@ -106,7 +72,11 @@ export const CalculusLevelSelector: React.FC<CalculusLevelSelectorProps> = ({ se
                   <span className={`pixel-font text-[10px] ${level.locked ? 'text-slate-600' : 'text-purple-400'}`}>
                     {level.subtitle}
                   </span>
-                  {!level.locked && (
+                  {level.completed ? (
+                    <span className="pixel-font text-[10px] text-yellow-400">★</span>
+                  ) : level.bestScore !== undefined ? (
+                    <span className="pixel-font text-[10px] text-slate-400" title="Mejor partida: objetivos de la misión">{Math.round(level.bestScore * 100)}%</span>
+                  ) : !level.locked && (
                     <span className="animate-pulse w-2 h-2 rounded-full bg-pink-500"></span>
                   )}
                 </div>
@@ -0,0 +1,47 @@
+import React from 'react';
+import { CameraState, ProjectionMode, ViewPreset } from '../utils/camera';
+
+interface CameraControlsProps {
+  camera: CameraState;
+  onPreset: (preset: ViewPreset) => void;
+  onProjection: (mode: ProjectionMode) => void;
+  onReset?: () => void;
+}
+
+const PRESETS: { id: ViewPreset; label: string }[] = [
+  { id: 'top', label: 'SUP' },
+  { id: 'front', label: 'FRENTE' },
+  { id: 'side', label: 'LADO' },
+  { id: 'iso', label: 'ISO' },
+];
+
+// View presets + ortho/perspective toggle for 3D canvas levels
+export const CameraControls: React.FC<CameraControlsProps> = ({ camera, onPreset, onProjection, onReset }) => {
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-1">
+        {PRESETS.map(p => (
+          <button key={p.id} onClick={() => onPreset(p.id)}
+            className="flex-1 py-1 text-[9px] font-bold bg-slate-800 border border-slate-700 rounded text-slate-400 hover:text-cyan-400 hover:border-cyan-600 transition-colors">
+            {p.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-1">
+        <div className="flex flex-1 bg-slate-800 rounded p-0.5 border border-slate-700">
+          <button onClick={() => onProjection('orthographic')}
+            className={`flex-1 py-0.5 text-[9px] font-bold transition-colors ${camera.projection === 'orthographic' ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
+            ORTO
+          </button>
+          <button onClick={() => onProjection('perspective')}
+            className={`flex-1 py-0.5 text-[9px] font-bold transition-colors ${camera.projection === 'perspective' ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
+            PERSP
+          </button>
+        </div>
+        {onReset && (
+          <button onClick={onReset} className="px-2 text-[9px] text-slate-500 hover:text-cyan-400 font-bold">RESET</button>
+        )}
+      </div>
+    </div>
+  );
+};
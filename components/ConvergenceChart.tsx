@@ -0,0 +1,100 @@
+import React from 'react';
+
+export interface ChartSeries {
+  id: string;
+  color: string;
+  values: number[];        // One per iteration, starting at iteration 0 (or one per entry of xValues)
+  flag?: number | null;    // Iteration marked with a red ✕ (divergence)
+  faded?: boolean;         // Drawn thin and translucent, behind the others
+}
+
+interface ConvergenceChartProps {
+  series: ChartSeries[];
+  logScale?: boolean;      // For quantities spanning orders of magnitude (|∇f|, step size)
+  logFloor?: number;       // Smallest value drawn on a log scale; below it lines sit on the floor
+  xValues?: number[];      // X coordinate of each value, shared by all series (default: the iteration)
+  logX?: boolean;
+  xLabel?: string;
+  marker?: number | null;  // X coordinate of a vertical guide (e.g. the current setting)
+  emptyText?: string;
+}
+
+const WIDTH = 288;
+const HEIGHT = 140;
+const PAD = { left: 38, right: 8, top: 10, bottom: 16 };
+const LOG_FLOOR = 1e-6;
+
+const formatTick = (v: number, logScale: boolean): string => {
+  if (logScale) return `1e${Math.round(v)}`;
+  const abs = Math.abs(v);
+  return abs >= 1000 || (abs > 0 && abs < 0.01) ? v.toExponential(0) : parseFloat(v.toFixed(2)).toString();
+};
+
+// Line chart of a per-iteration (or per-setting, see xValues) metric, one line per series
+export const ConvergenceChart: React.FC<ConvergenceChartProps> = ({
+  series, logScale = false, logFloor = LOG_FLOOR, xValues, logX = false, xLabel = 'iteración', marker = null, emptyText = 'Sin datos'
+}) => {
+  const transform = (v: number) => logScale ? Math.log10(Math.max(Math.abs(v), logFloor)) : v;
+  const finite = series.flatMap(s => s.values.map(transform)).filter(Number.isFinite);
+  const xAt = (i: number) => xValues ? xValues[i] : i;
+  const transformX = (x: number) => logX ? Math.log10(x) : x;
+  const xMin = xValues ? xValues[0] : 0;
+  const xMax = xValues ? xValues[xValues.length - 1] : Math.max(1, ...series.map(s => s.values.length - 1));
+
+  if (finite.length === 0) {
+    return (
+      <div className="flex items-center justify-center text-[10px] text-slate-600 bg-slate-950/50 rounded border border-slate-800" style={{ height: HEIGHT }}>
+        {emptyText}
+      </div>
+    );
+  }
+
+  let min = Math.min(...finite);
+  let max = Math.max(...finite);
+  if (max - min < 1e-9) { min -= 1; max += 1; }
+
+  const toXValue = (x: number) => PAD.left + (transformX(x) - transformX(xMin)) / (transformX(xMax) - transformX(xMin)) * (WIDTH - PAD.left - PAD.right);
+  const toX = (i: number) => toXValue(xAt(i));
+  const toY = (v: number) => PAD.top + (1 - (v - min) / (max - min)) * (HEIGHT - PAD.top - PAD.bottom);
+  const ticks = [max, (min + max) / 2, min];
+
+  return (
+    <svg width={WIDTH} height={HEIGHT} className="bg-slate-950/50 rounded border border-slate-800">
+      {/* Grid + Y ticks */}
+      {ticks.map((v, i) => (
+        <g key={i}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={toY(v)} y2={toY(v)} stroke="#1e293b" />
+          <text x={PAD.left - 4} y={toY(v) + 3} textAnchor="end" fontSize="8" fill="#64748b" fontFamily="monospace">{formatTick(v, logScale)}</text>
+        </g>
+      ))}
+      {/* X ticks */}
+      <text x={PAD.left} y={HEIGHT - 4} fontSize="8" fill="#64748b" fontFamily="monospace">{xMin}</text>
+      <text x={WIDTH - PAD.right} y={HEIGHT - 4} textAnchor="end" fontSize="8" fill="#64748b" fontFamily="monospace">{xMax}</text>
+      <text x={(PAD.left + WIDTH) / 2} y={HEIGHT - 4} textAnchor="middle" fontSize="8" fill="#475569" fontFamily="monospace">{xLabel}</text>
+
+      {marker != null && (
+        <line x1={toXValue(marker)} x2={toXValue(marker)} y1={PAD.top} y2={HEIGHT - PAD.bottom} stroke="#e2e8f0" strokeOpacity={0.4} strokeDasharray="2 3" />
+      )}
+
+      {/* Lines, faded ones first so the highlighted ones stay on top */}
+      {[...series.filter(s => s.faded), ...series.filter(s => !s.faded)].map(s => (
+        <polyline
+          key={s.id}
+          fill="none"
+          stroke={s.color}
+          strokeWidth={s.faded ? 1 : 1.5}
+          strokeOpacity={s.faded ? 0.35 : 1}
+          points={s.values.map((v, i) => [i, transform(v)]).filter(([, v]) => Number.isFinite(v)).map(([i, v]) => `${toX(i)},${toY(v)}`).join(' ')}
+        />
+      ))}
+
+      {/* Divergence flags */}
+      {series.filter(s => s.flag != null).map(s => (
+        <g key={`flag-${s.id}`}>
+          <line x1={toX(s.flag!)} x2={toX(s.flag!)} y1={PAD.top} y2={HEIGHT - PAD.bottom} stroke="#ef4444" strokeDasharray="3 3" />
+          <text x={toX(s.flag!)} y={PAD.top + 8} textAnchor="middle" fontSize="10" fontWeight="bold" fill="#ef4444">✕</text>
+        </g>
+      ))}
+    </svg>
+  );
+};
@@ -1,54 +1,51 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { DraggableWindow } from './DraggableWindow';
+import { MissionPanel } from './MissionPanel';
+import { CameraControls } from './CameraControls';
+import { Vector3D, ViewState } from '../types';
+import { add3, cross3, norm3, dot3 } from '../utils/linearAlgebra';
+import { useCamera, getCanvasPoint } from '../hooks/useCamera';
+import { useMission } from '../hooks/useMission';
+import { Mission } from '../utils/missions';
 
 interface CrossProductLevelProps {
   onNextLevel?: () => void;
   onPrevLevel?: () => void;
 }
 
-interface Vector3 { x: number; y: number; z: number; }
-
-// Full 3D Rotation Matrix Logic
-const rotateX = (v: Vector3, angle: number): Vector3 => ({
-  x: v.x,
-  y: v.y * Math.cos(angle) - v.z * Math.sin(angle),
-  z: v.y * Math.sin(angle) + v.z * Math.cos(angle)
-});
-const rotateY = (v: Vector3, angle: number): Vector3 => ({
-  x: v.x * Math.cos(angle) + v.z * Math.sin(angle),
-  y: v.y,
-  z: -v.x * Math.sin(angle) + v.z * Math.cos(angle)
-});
+const CROSS_MISSION: Mission<{ vecA: Vector3D; vecB: Vector3D }> = {
+  level: ViewState.CROSS_PRODUCT,
+  objectives: [
+    {
+      id: 'parallel', label: 'Haz que A × B = 0 sin anular A ni B',
+      check: s => norm3(s.vecA) > 0.5 && norm3(s.vecB) > 0.5 && norm3(cross3(s.vecA, s.vecB)) < 0.1
+    },
+    {
+      id: 'perpendicular', label: 'Coloca A perpendicular a B (área = |A|·|B|)',
+      check: s => norm3(s.vecA) > 0.5 && norm3(s.vecB) > 0.5 && Math.abs(dot3(s.vecA, s.vecB)) < 0.1
+    },
+    { id: 'area', label: 'Consigue un paralelogramo de área mayor que 10', check: s => norm3(cross3(s.vecA, s.vecB)) > 10 }
+  ]
+};
 
 export const CrossProductLevel: React.FC<CrossProductLevelProps> = ({ onNextLevel, onPrevLevel }) => {
-  const [vecA, setVecA] = useState<Vector3>({ x: 2, y: 0, z: 1 });
-  const [vecB, setVecB] = useState<Vector3>({ x: 0, y: 2, z: 1 });
+  const [vecA, setVecA] = useState<Vector3D>({ x: 2, y: 0, z: 1 });
+  const [vecB, setVecB] = useState<Vector3D>({ x: 0, y: 2, z: 1 });
   
   // View State
-  const [camera, setCamera] = useState({ x: -0.5, y: 0.5 }); // Pitch, Yaw
-  const [scale, setScale] = useState(50);
+  const { camera, project, pick, orbit, zoom, setPreset, setProjection, reset } = useCamera({ pitch: -0.5, yaw: 0.5, scale: 50 });
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dragging, setDragging] = useState<'A' | 'B' | 'CAMERA' | null>(null);
-  const lastMouse = useRef({x:0, y:0});
+  const lastMouse = useRef({x:0, y:0}); // Canvas coordinates
 
-  // Calculate Cross Product
-  // Cx = AyBz - AzBy
-  // Cy = AzBx - AxBz
-  // Cz = AxBy - AyBx
-  const vecC = {
-      x: vecA.y * vecB.z - vecA.z * vecB.y,
-      y: vecA.z * vecB.x - vecA.x * vecB.z,
-      z: vecA.x * vecB.y - vecA.y * vecB.x
-  };
-  const magC = Math.sqrt(vecC.x**2 + vecC.y**2 + vecC.z**2);
+  // Mission
+  const mission = useMission(CROSS_MISSION, { vecA, vecB });
 
-  const project = useCallback((v: Vector3, w: number, h: number) => {
-      let p = rotateY(v, camera.y);
-      p = rotateX(p, camera.x);
-      return { x: w/2 + p.x * scale, y: h/2 - p.y * scale, z: p.z };
-  }, [camera, scale]);
+  // Calculate Cross Product
+  const vecC = cross3(vecA, vecB);
+  const magC = norm3(vecC);
 
   const draw = useCallback(() => {
     const canvas = canvasRef.current;
@@ -61,7 +58,7 @@ export const CrossProductLevel: React.FC<CrossProductLevelProps> = ({ onNextLeve
     ctx.fillStyle = '#0f172a'; ctx.fillRect(0,0,w,h);
 
     // Axes
-    const drawLine = (v1: Vector3, v2: Vector3, color: string) => {
+    const drawLine = (v1: Vector3D, v2: Vector3D, color: string) => {
         const p1 = project(v1, w, h); const p2 = project(v2, w, h);
         ctx.beginPath(); ctx.moveTo(p1.x, p1.y); ctx.lineTo(p2.x, p2.y);
         ctx.strokeStyle = color; ctx.stroke();
@@ -79,7 +76,7 @@ export const CrossProductLevel: React.FC<CrossProductLevelProps> = ({ onNextLeve
     const origin = project({x:0,y:0,z:0}, w, h);
     const tipA = project(vecA, w, h);
     const tipB = project(vecB, w, h);
-    const sum = { x: vecA.x + vecB.x, y: vecA.y + vecB.y, z: vecA.z + vecB.z };
+    const sum = add3(vecA, vecB);
     const tipSum = project(sum, w, h);
 
     ctx.beginPath();
@@ -93,7 +90,7 @@ export const CrossProductLevel: React.FC<CrossProductLevelProps> = ({ onNextLeve
     ctx.setLineDash([2,2]); ctx.strokeStyle = 'rgba(251, 191, 36, 0.5)'; ctx.stroke(); ctx.setLineDash([]);
 
     // Helper draw vector
-    const drawVec = (v: Vector3, color: string, label: string) => {
+    const drawVec = (v: Vector3D, color: string, label: string) => {
         const t = project(v, w, h);
         ctx.beginPath(); ctx.moveTo(origin.x, origin.y); ctx.lineTo(t.x, t.y);
         ctx.strokeStyle = color; ctx.lineWidth = 3; ctx.stroke();
@@ -137,9 +134,9 @@ export const CrossProductLevel: React.FC<CrossProductLevelProps> = ({ onNextLeve
   }, []);
 
   const handleMouseDown = (e: React.MouseEvent) => {
-      const rect = canvasRef.current!.getBoundingClientRect();
-      const mx = e.clientX - rect.left;
-      const my = e.clientY - rect.top;
+      const mouse = getCanvasPoint(e, canvasRef.current!);
+      const mx = mouse.x;
+      const my = mouse.y;
       const w = canvasRef.current!.width;
       const h = canvasRef.current!.height;
 
@@ -150,43 +147,33 @@ export const CrossProductLevel: React.FC<CrossProductLevelProps> = ({ onNextLeve
       else if (Math.hypot(mx - tB.x, my - tB.y) < 20) setDragging('B');
       else setDragging('CAMERA');
       
-      lastMouse.current = {x: e.clientX, y: e.clientY};
+      lastMouse.current = mouse;
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-      if (!dragging) return;
-      const dx = e.clientX - lastMouse.current.x;
-      const dy = e.clientY - lastMouse.current.y;
-      lastMouse.current = {x: e.clientX, y: e.clientY};
+      if (!dragging || !canvasRef.current) return;
+      const mouse = getCanvasPoint(e, canvasRef.current);
+      const { width, height } = canvasRef.current;
+      const prevMouse = lastMouse.current;
+      lastMouse.current = mouse;
 
       if (dragging === 'CAMERA') {
-          setCamera(prev => ({ x: prev.x + dy*0.01, y: prev.y + dx*0.01 }));
+          orbit(prevMouse, mouse, width, height);
       } else {
-          // Move Vectors
-          const sensitivity = 1.0 / scale;
-          // We map 2D mouse movement to 3D world movement relative to camera Yaw
-          // This is an approximation for intuitive dragging
-          const cosY = Math.cos(camera.y);
-          const sinY = Math.sin(camera.y);
-          
-          const dXWorld = (dx * cosY) * sensitivity;
-          const dZWorld = (dx * sinY) * sensitivity;
-          const dYWorld = -(dy * sensitivity); // Screen Y is down, World Y is up
-
+          // Move Vectors: the tip follows the cursor on the plane facing the camera
+          const hit = pick(mouse, width, height, dragging === 'A' ? vecA : vecB);
+          if (!hit) return;
           const updater = dragging === 'A' ? setVecA : setVecB;
-          updater(v => ({
-              x: v.x + dXWorld,
-              y: v.y + dYWorld,
-              z: v.z + dZWorld
-          }));
+          updater(hit);
       }
   };
 
   const handleMouseUp = () => setDragging(null);
 
   const handleWheel = (e: React.WheelEvent) => {
+    if (!canvasRef.current) return;
     const zoomFactor = e.deltaY < 0 ? 1.1 : 0.9;
-    setScale(prev => Math.max(10, Math.min(200, prev * zoomFactor)));
+    zoom(getCanvasPoint(e, canvasRef.current), zoomFactor, canvasRef.current.width, canvasRef.current.height);
   };
 
   // Helper for scrolling inputs
@@ -205,19 +192,19 @@ export const CrossProductLevel: React.FC<CrossProductLevelProps> = ({ onNextLeve
     name,
     readOnly = false
   }: { 
-    vec: Vector3, 
+    vec: Vector3D, 
     color: string, 
     label: string, 
-    onChange?: (v: Vector3) => void,
+    onChange?: (v: Vector3D) => void,
     name?: 'A' | 'B',
     readOnly?: boolean
   }) => {
     // Tailwind color mapping
     let textColor = color; 
 
-    const onScroll = (axis: keyof Vector3) => name && !readOnly ? handleInputScroll(name, axis) : undefined;
+    const onScroll = (axis: keyof Vector3D) => name && !readOnly ? handleInputScroll(name, axis) : undefined;
     
-    const handleChange = (axis: keyof Vector3, val: string) => {
+    const handleChange = (axis: keyof Vector3D, val: string) => {
         if(onChange) onChange({...vec, [axis]: parseFloat(val)||0});
     };
 
@@ -263,15 +250,20 @@ export const CrossProductLevel: React.FC<CrossProductLevelProps> = ({ onNextLeve
                      <ColumnVector vec={vecC} label="AxB" color="text-yellow-400" readOnly />
                  </div>
                  
+                 <CameraControls camera={camera} onPreset={setPreset} onProjection={setProjection} />
+
                  <div className="flex justify-between items-center pt-2">
-                     <span className="text-[9px] text-slate-500">ZOOM: {scale.toFixed(0)}</span>
-                     <button onClick={() => { setCamera({x: -0.5, y: 0.5}); setScale(50); }} className="text-[9px] text-cyan-400 hover:underline">
+                     <span className="text-[9px] text-slate-500">ZOOM: {camera.scale.toFixed(0)}</span>
+                     <button onClick={() => reset()} className="text-[9px] text-cyan-400 hover:underline">
                          RESET VIEW
                      </button>
                  </div>
             </div>
         </DraggableWindow>
 
+        {/* Mission */}
+        <MissionPanel status={mission} />
+
         {/* Legend Window - NEW */}
         <DraggableWindow title="GUÍA TEÓRICA: PRODUCTO CRUZ" initialPosition={{x: 350, y: 400}} width="w-80">
             <div className="text-xs text-slate-400 font-mono space-y-2">
@@ -1,87 +1,261 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { DraggableWindow } from './DraggableWindow'; 
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { DraggableWindow } from './DraggableWindow';
+import { MissionPanel } from './MissionPanel'; 
+import { FunctionInput } from './FunctionInput';
+import { CameraControls } from './CameraControls';
+import { Vector2D, Vector3D, ViewState } from '../types';
+import { norm3, normalize3, dot3, cross3 } from '../utils/linearAlgebra';
+import { ShareButton } from './ShareButton';
+import { useCamera, getCanvasPoint } from '../hooks/useCamera';
+import { useMission } from '../hooks/useMission';
+import { useCustomField } from '../hooks/useCustomField';
+import { useSharedScene, useSceneAutosave } from '../hooks/useSharedScene';
+import { CameraState } from '../utils/camera';
+import { SceneCodec, isRecord, readIndex, readBoolean, readNumber, readVector2, readCamera, readExpression } from '../utils/sceneState';
+import { Mission } from '../utils/missions';
+import {
+  FIELD_PRESETS, FieldPreset, FieldSources, analyzeField, compileField,
+  SPACE_FIELD_PRESETS, SpaceFieldPreset, analyzeSpaceField, compileSpaceField
+} from '../utils/vectorField';
+import { Particle, seedParticles, advectParticles, traceStreamline, speedColor, SPEED_GRADIENT } from '../utils/streamlines';
 
 interface CurlLevelProps {
   onPrevLevel?: () => void;
+  onNextLevel?: () => void;
 }
 
-interface Point { x: number; y: number; z: number; }
-
-// --- VECTOR FIELDS ---
-const FIELDS = [
-    {
-        id: 'vortex',
-        name: 'Remolino (Vortex)',
-        desc: 'Un campo clásico con rotación pura. El agua gira alrededor del centro.',
-        Fx: (x: number, y: number) => -y,
-        Fy: (x: number, y: number) => x,
-        dFy_dx: (x: number, y: number) => 1, // d(x)/dx
-        dFx_dy: (x: number, y: number) => -1, // d(-y)/dy
-        eq: 'F = <-y, x>',
-        curl_const: 2 // 1 - (-1)
-    },
-    {
-        id: 'shear',
-        name: 'Río (Cizalla)',
-        desc: 'Las líneas son rectas, pero la velocidad varía. Imagina una tabla flotando: un lado va más rápido que el otro, haciéndola girar.',
-        Fx: (x: number, y: number) => y, // Speed increases with Y
-        Fy: (x: number, y: number) => 0,
-        dFy_dx: (x: number, y: number) => 0,
-        dFx_dy: (x: number, y: number) => 1,
-        eq: 'F = <y, 0>',
-        curl_const: -1 // 0 - 1
-    },
-    {
-        id: 'expansion',
-        name: 'Explosión (Divergencia)',
-        desc: 'Todo se aleja del centro. Hay movimiento, pero NO hay giro. La rueda no rota.',
-        Fx: (x: number, y: number) => x,
-        Fy: (x: number, y: number) => y,
-        dFy_dx: (x: number, y: number) => 0,
-        dFx_dy: (x: number, y: number) => 0,
-        eq: 'F = <x, y>',
-        curl_const: 0
-    }
-];
-
-// --- 3D ENGINE ---
-const rotateX = (p: Point, angle: number): Point => ({
-    x: p.x,
-    y: p.y * Math.cos(angle) - p.z * Math.sin(angle),
-    z: p.y * Math.sin(angle) + p.z * Math.cos(angle)
-});
-const rotateY = (p: Point, angle: number): Point => ({
-    x: p.x * Math.cos(angle) + p.z * Math.sin(angle),
-    y: p.y,
-    z: -p.x * Math.sin(angle) + p.z * Math.cos(angle)
-});
-
-export const CurlLevel: React.FC<CurlLevelProps> = ({ onPrevLevel }) => {
+// Selector entry for the user-typed field, right after the presets
+const CUSTOM_INDEX = FIELD_PRESETS.length;
+const CUSTOM_DEFAULT: FieldSources = { P: '-y', Q: 'x*y', R: '' };
+
+const RANGE = 3.5;            // Half side of the field square
+
+// Flow visualisation
+const PARTICLE_COUNT = 300;
+const PARTICLE_DT = 0.016;    // Field time per animation frame
+const MAX_SEEDS = 12;         // Streamlines kept at once (the oldest goes first)
+const COLOR_BUCKETS = 16;     // Speed colors, to stroke every segment of one color in a single path
+
+// Space mode: fields F(x,y,z) in the box |x|, |y| <= RANGE, |z| <= HEIGHT_RANGE
+const SPACE_CUSTOM_INDEX = SPACE_FIELD_PRESETS.length;
+const SPACE_CUSTOM_DEFAULT: FieldSources = { P: 'y*z', Q: '-x', R: 'x*y' };
+const SPACE_VARIABLES = ['x', 'y', 'z'];
+const HEIGHT_RANGE = 2;
+const LATTICE_RANGE = 3;      // Half side of the 3D arrow lattice (horizontally)
+const LATTICE_STEP = 1;
+
+// Paddle wheel axis: along the curl at the probe, or fixed on a coordinate axis
+const WHEEL_AXES = ['curl', 'x', 'y', 'z'] as const;
+type WheelAxis = typeof WHEEL_AXES[number];
+const AXIS_VECTORS: Record<Exclude<WheelAxis, 'curl'>, Vector3D> = {
+  x: { x: 1, y: 0, z: 0 },
+  y: { x: 0, y: 1, z: 0 },
+  z: { x: 0, y: 0, z: 1 }
+};
+
+// Math point (x, y, z) in world coordinates, where Y is up: the field's z is the height
+const toWorld = (p: Vector3D): Vector3D => ({ x: p.x, y: p.z, z: p.y });
+
+// Right-handed frame (e1, e2, n) around the unit axis n: the blades turn from e1 towards e2 when
+// the spin is positive. For n = z it is (x, y, z), the plane wheel.
+const wheelFrame = (n: Vector3D): [Vector3D, Vector3D] => {
+  const u = Math.abs(n.x) < 0.9 ? AXIS_VECTORS.x : AXIS_VECTORS.y;
+  const along = dot3(u, n);
+  const e1 = normalize3({ x: u.x - along * n.x, y: u.y - along * n.y, z: u.z - along * n.z });
+  return [e1, cross3(n, e1)];
+};
+
+interface CurlScene {
+  fieldIndex: number;
+  custom: FieldSources; // Only meaningful when fieldIndex is CUSTOM_INDEX
+  position: { x: number; y: number }; // Probe position
+  is3D: boolean;
+  camera: CameraState;
+  showParticles: boolean;
+  seeds: Vector2D[];    // Streamline seed points
+  space: boolean;       // Space fields F(x,y,z) instead of the plane ones
+  spaceFieldIndex: number;
+  spaceCustom: FieldSources; // Only meaningful when spaceFieldIndex is SPACE_CUSTOM_INDEX
+  height: number;       // Probe z in space mode
+  axis: WheelAxis;
+}
+
+const readSources = (v: unknown, variables?: string[]): FieldSources | null => {
+  if (!isRecord(v)) return null;
+  const P = readExpression(v.P, variables);
+  const Q = readExpression(v.Q, variables);
+  const R = v.R === '' ? '' : readExpression(v.R, variables);
+  return P === null || Q === null || R === null ? null : { P, Q, R };
+};
+
+const readSeeds = (v: unknown): Vector2D[] | null => {
+  if (!Array.isArray(v) || v.length > MAX_SEEDS) return null;
+  const seeds = v.map(p => readVector2(p, RANGE));
+  return seeds.some(p => p === null) ? null : seeds as Vector2D[];
+};
+
+export const CURL_SCENE: SceneCodec<CurlScene> = {
+  level: ViewState.ROTATIONAL,
+  version: 1,
+  parse: raw => {
+    const fieldIndex = readIndex(raw.fieldIndex, FIELD_PRESETS.length + 1);
+    const position = readVector2(raw.position, RANGE);
+    const is3D = readBoolean(raw.is3D);
+    const camera = readCamera(raw.camera, 10, 200);
+    if (fieldIndex === null || !position || is3D === null || !camera) return null;
+    const showParticles = readBoolean(raw.showParticles);
+    const seeds = readSeeds(raw.seeds);
+    const custom = readSources(raw.custom);
+    const space = readBoolean(raw.space);
+    const spaceFieldIndex = readIndex(raw.spaceFieldIndex, SPACE_FIELD_PRESETS.length + 1);
+    const spaceCustom = readSources(raw.spaceCustom, SPACE_VARIABLES);
+    const height = readNumber(raw.height, -HEIGHT_RANGE, HEIGHT_RANGE);
+    const axis = WHEEL_AXES.find(a => a === raw.axis) ?? null;
+    if (showParticles === null || !seeds || !custom) return null;
+    if (space === null || spaceFieldIndex === null || !spaceCustom || height === null || !axis) return null;
+    return { fieldIndex, custom, position, is3D, camera, showParticles, seeds, space, spaceFieldIndex, spaceCustom, height, axis };
+  }
+};
+
+interface CurlMissionState {
+  fieldId: string;
+  curl: number;         // Spin of the wheel: the curl along its axis
+  is3D: boolean;
+  space: boolean;
+  aligned: boolean;     // Wheel axis along the curl
+  tilt: number;         // Horizontal part of the curl (space mode)
+}
+
+const CURL_MISSION: Mission<CurlMissionState> = {
+  level: ViewState.ROTATIONAL,
+  objectives: [
+    { id: 'clockwise', label: 'Encuentra un campo que gire en sentido horario (rotacional < 0)', check: s => s.curl < -0.1 },
+    { id: 'still', label: 'Encuentra un campo con movimiento pero sin giro', check: s => Math.abs(s.curl) < 0.01 && (!s.space || s.aligned) },
+    { id: 'vortex3d', label: 'Mira el remolino en 3D: el rotacional apunta fuera del plano', check: s => s.fieldId === 'vortex' && s.is3D && !s.space },
+    { id: 'rightHand', label: 'En el espacio, alinea la rueda con un rotacional que no sea vertical', check: s => s.space && s.aligned && s.tilt > 0.1 }
+  ]
+};
+
+export const CurlLevel: React.FC<CurlLevelProps> = ({ onPrevLevel, onNextLevel }) => {
   // State
-  const [fieldIndex, setFieldIndex] = useState(0);
-  const [position, setPosition] = useState({ x: 1.5, y: 1.5 }); // Probe position
-  const [is3D, setIs3D] = useState(false);
+  const shared = useSharedScene(CURL_SCENE);
+  const [fieldIndex, setFieldIndex] = useState(shared?.fieldIndex ?? 0);
+  const [position, setPosition] = useState(shared?.position ?? { x: 1.5, y: 1.5 }); // Probe position
+  const [is3D, setIs3D] = useState(shared?.is3D ?? false);
+  const custom = useCustomField(shared?.custom ?? CUSTOM_DEFAULT, compileField);
+
+  // Space mode: a field over x, y, z, the probe at a height, and a wheel that can point anywhere
+  const [space, setSpace] = useState(shared?.space ?? false);
+  const [spaceFieldIndex, setSpaceFieldIndex] = useState(shared?.spaceFieldIndex ?? 0);
+  const spaceCustom = useCustomField(shared?.spaceCustom ?? SPACE_CUSTOM_DEFAULT, compileSpaceField);
+  const [probeHeight, setProbeHeight] = useState(shared?.height ?? 0);
+  const [axis, setAxis] = useState<WheelAxis>(shared?.axis ?? 'curl');
+
+  // Flow: particles carried by the field, and streamlines through clicked seeds
+  const [showParticles, setShowParticles] = useState(shared?.showParticles ?? true);
+  const [seeds, setSeeds] = useState<Vector2D[]>(shared?.seeds ?? []);
+  const [seeding, setSeeding] = useState(false); // Clicks on the plane add seeds
+  const particles = useRef<Particle[]>([]);
+  const [frame, setFrame] = useState(0);         // Bumped every particle step, to redraw
   
   // Animation State for Paddlewheel
   const [paddleAngle, setPaddleAngle] = useState(0);
 
   // View State
-  const [camera, setCamera] = useState({ x: -0.6, y: 0.5 });
-  const [scale, setScale] = useState(50);
-  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const { camera, project, pick, orbit, zoom, setPreset, setProjection, reset } = useCamera({ pitch: -0.6, yaw: 0.5, scale: 50 }, {}, shared?.camera);
+
+  // Restorable scene: share links + saved progress
+  const scene = useMemo(() => ({
+      fieldIndex, custom: custom.compiled.sources, position, is3D, camera, showParticles, seeds,
+      space, spaceFieldIndex, spaceCustom: spaceCustom.compiled.sources, height: probeHeight, axis
+  }), [fieldIndex, custom.compiled.sources, position, is3D, camera, showParticles, seeds,
+      space, spaceFieldIndex, spaceCustom.compiled.sources, probeHeight, axis]);
+  useSceneAutosave(CURL_SCENE, scene);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dragging, setDragging] = useState<'ORBIT' | 'PROBE' | null>(null);
-  const lastMouse = useRef({ x: 0, y: 0 });
+  const lastMouse = useRef({ x: 0, y: 0 }); // Canvas coordinates
+
+  const customField = useMemo<FieldPreset>(() => {
+      const { P, Q, R } = custom.compiled.sources;
+      return {
+          ...custom.compiled.field,
+          id: 'custom',
+          name: '✎ Personalizado',
+          desc: 'Tu propio campo. Mueve la rueda: si el rotacional cambia de un punto a otro, la verás acelerar, frenar o invertir el giro.',
+          eq: R ? `F = <${P}, ${Q}, ${R}>` : `F = <${P}, ${Q}>`
+      };
+  }, [custom.compiled]);
 
-  const activeField = FIELDS[fieldIndex];
+  const activeField = fieldIndex === CUSTOM_INDEX ? customField : FIELD_PRESETS[fieldIndex];
 
-  // Calculate Curl at current position
-  // Curl 2D = dFy/dx - dFx/dy
-  const term1 = activeField.dFy_dx(position.x, position.y);
-  const term2 = activeField.dFx_dy(position.x, position.y);
-  const curlVal = term1 - term2;
+  // Curl and divergence at the probe, from the field itself
+  // Curl (plane part) = ∂Q/∂x - ∂P/∂y
+  const analysis = analyzeField(activeField, position.x, position.y);
+  const term1 = analysis.dQ_dx;
+  const term2 = analysis.dP_dy;
+  const curlVal = analysis.curl.z;
+
+  const spaceCustomField = useMemo<SpaceFieldPreset>(() => {
+      const { P, Q, R } = spaceCustom.compiled.sources;
+      return {
+          ...spaceCustom.compiled.field,
+          id: 'custom',
+          name: '✎ Personalizado',
+          desc: 'Tu propio campo F(x,y,z). Prueba la rueda en cada eje: gira más rápido a lo largo del rotacional y nada en perpendicular a él.',
+          eq: `F = <${P}, ${Q}, ${R || '0'}>`
+      };
+  }, [spaceCustom.compiled]);
+
+  const activeSpaceField = spaceFieldIndex === SPACE_CUSTOM_INDEX ? spaceCustomField : SPACE_FIELD_PRESETS[spaceFieldIndex];
+  const shownField = space ? activeSpaceField : activeField;
+
+  // The full curl at the probe, now at height z
+  const spaceAnalysis = analyzeSpaceField(activeSpaceField, { x: position.x, y: position.y, z: probeHeight });
+  const curl3 = spaceAnalysis.curl;
+  const curl3Valid = [curl3.x, curl3.y, curl3.z].every(Number.isFinite);
+
+  // Unit axis of the wheel. Aligned with a vanishing curl it has no direction: stay vertical
+  const wheelAxis = !space ? AXIS_VECTORS.z
+      : axis !== 'curl' ? AXIS_VECTORS[axis]
+      : curl3Valid && norm3(curl3) > 1e-6 ? normalize3(curl3) : AXIS_VECTORS.z;
+  // The wheel only feels the curl along its axis: (∇×F)·n
+  const spin = space ? dot3(curl3, wheelAxis) : curlVal;
+
+  // Fastest |F| on the 3D lattice, for its colors
+  const maxSpeed3 = useMemo(() => {
+      let max = 0;
+      for (let x = -LATTICE_RANGE; x <= LATTICE_RANGE; x += LATTICE_STEP) {
+          for (let y = -LATTICE_RANGE; y <= LATTICE_RANGE; y += LATTICE_STEP) {
+              for (let z = -HEIGHT_RANGE; z <= HEIGHT_RANGE; z += LATTICE_STEP) {
+                  const speed = Math.hypot(activeSpaceField.P(x, y, z), activeSpaceField.Q(x, y, z), activeSpaceField.R(x, y, z));
+                  if (Number.isFinite(speed)) max = Math.max(max, speed);
+              }
+          }
+      }
+      return max;
+  }, [activeSpaceField]);
+
+  // Fastest |F| on the grid: the top of the speed colormap
+  const maxSpeed = useMemo(() => {
+      let max = 0;
+      for (let x = -RANGE; x <= RANGE; x += 0.25) {
+          for (let y = -RANGE; y <= RANGE; y += 0.25) {
+              const speed = Math.hypot(activeField.P(x, y), activeField.Q(x, y));
+              if (Number.isFinite(speed)) max = Math.max(max, speed);
+          }
+      }
+      return max;
+  }, [activeField]);
+
+  const streamlines = useMemo(() => seeds.map(seed => traceStreamline(activeField, seed, RANGE)), [activeField, seeds]);
+
+  // Mission
+  const mission = useMission(CURL_MISSION, {
+      fieldId: shownField.id, curl: spin, is3D, space,
+      aligned: axis === 'curl', tilt: curl3Valid ? Math.hypot(curl3.x, curl3.y) : 0
+  });
 
   // Animation Loop
   useEffect(() => {
@@ -89,23 +263,27 @@ export const CurlLevel: React.FC<CurlLevelProps> = ({ onPrevLevel }) => {
       const loop = () => {
           // Rotate the paddlewheel based on curl value
           // Speed proportional to curl
-          setPaddleAngle(prev => prev + curlVal * 0.05);
+          // (a custom field can be undefined at the probe, e.g. log(x) for x < 0)
+          if (Number.isFinite(spin)) setPaddleAngle(prev => prev + spin * 0.05);
           raf = requestAnimationFrame(loop);
       };
       loop();
       return () => cancelAnimationFrame(raf);
-  }, [curlVal]);
+  }, [spin]);
 
-  // Projection
-  const project = useCallback((p: Point, w: number, h: number) => {
-      let r = rotateY(p, camera.y);
-      r = rotateX(r, camera.x);
-      return {
-          x: w/2 + pan.x + r.x * scale,
-          y: h/2 + pan.y - r.y * scale, 
-          z: r.z
+  // Particle advection: a fresh set for every field, one RK4 step per frame
+  useEffect(() => {
+      if (!showParticles || space) return;
+      particles.current = seedParticles(activeField, PARTICLE_COUNT, RANGE);
+      let raf: number;
+      const loop = () => {
+          particles.current = advectParticles(activeField, particles.current, PARTICLE_DT, RANGE);
+          setFrame(f => f + 1);
+          raf = requestAnimationFrame(loop);
       };
-  }, [camera, scale, pan]);
+      loop();
+      return () => cancelAnimationFrame(raf);
+  }, [activeField, showParticles, space]);
 
   // Draw Function
   const draw = useCallback(() => {
@@ -119,13 +297,13 @@ export const CurlLevel: React.FC<CurlLevelProps> = ({ onPrevLevel }) => {
       ctx.fillStyle = '#0f172a'; ctx.fillRect(0,0,w,h);
 
       // 1. Draw Vector Field Grid
-      const range = 3.5;
       const step = 0.5;
 
-      const drawArrow3D = (pos: Point, vec: Point, color: string) => {
+      const drawArrow3D = (pos: Vector3D, vec: Vector3D, color: string) => {
           const start = project(pos, w, h);
-          // Scale down the vector for visualization
-          const vecScaled = { x: vec.x * 0.2, y: vec.y * 0.2, z: vec.z * 0.2 };
+          // Scale down the vector for visualization (capped, custom fields can blow up)
+          const k = Math.min(0.2, 1.5 / (Math.hypot(vec.x, vec.y, vec.z) || 1));
+          const vecScaled = { x: vec.x * k, y: vec.y * k, z: vec.z * k };
           // Visualize vector on the plane (or 3D if vector has Z)
           const end3D = { x: pos.x + vecScaled.x, y: pos.y + vecScaled.y, z: pos.z + vecScaled.z };
           const end = project(end3D, w, h);
@@ -143,62 +321,142 @@ export const CurlLevel: React.FC<CurlLevelProps> = ({ onPrevLevel }) => {
           ctx.fillStyle = color; ctx.fill();
       };
 
-      for(let x = -range; x <= range; x += step) {
-          for(let y = -range; y <= range; y += step) {
-              const fx = activeField.Fx(x,y);
-              const fy = activeField.Fy(x,y);
-              // Draw field on Z=0 plane (visually floor)
-              // Note: In our 3D engine, Y is Up. So the plane is X-Z.
-              // Wait, previous levels used Y as depth? Let's check logic.
-              // In GradientDescent: x=x, y=height, z=y(depth).
-              // Let's match that. Input coordinates are (x, z_depth).
-              // F vector is <Fx, Fy>.
-              // So in 3D world: pos = {x: x, y: 0, z: y}. Vector = {x: fx, y: 0, z: fy}.
+      if (space) {
+          // 3D arrow lattice, colored by speed: the field at every height, not only on the floor
+          for (let x = -LATTICE_RANGE; x <= LATTICE_RANGE; x += LATTICE_STEP) {
+              for (let y = -LATTICE_RANGE; y <= LATTICE_RANGE; y += LATTICE_STEP) {
+                  for (let z = -HEIGHT_RANGE; z <= HEIGHT_RANGE; z += LATTICE_STEP) {
+                      const f = { x: activeSpaceField.P(x, y, z), y: activeSpaceField.Q(x, y, z), z: activeSpaceField.R(x, y, z) };
+                      const speed = norm3(f);
+                      if (!Number.isFinite(speed) || speed === 0) continue;
+                      // drawArrow3D scales by 0.2: the fastest arrow is 0.8 long
+                      const k = 4 / maxSpeed3;
+                      drawArrow3D(toWorld({ x, y, z }), toWorld({ x: f.x * k, y: f.y * k, z: f.z * k }), speedColor(speed, maxSpeed3, 0.75));
+                  }
+              }
+          }
+      } else {
+          for(let x = -RANGE; x <= RANGE; x += step) {
+              for(let y = -RANGE; y <= RANGE; y += step) {
+                  const fx = activeField.P(x,y);
+                  const fy = activeField.Q(x,y);
+                  const fz = activeField.R ? activeField.R(x,y) : 0;
+                  // Draw field on Z=0 plane (visually floor)
+                  // Note: In our 3D engine, Y is Up. So the plane is X-Z.
+                  // Wait, previous levels used Y as depth? Let's check logic.
+                  // In GradientDescent: x=x, y=height, z=y(depth).
+                  // Let's match that. Input coordinates are (x, z_depth).
+                  // F vector is <P, Q, R>.
+                  // So in 3D world: pos = {x: x, y: 0, z: y}. Vector = {x: fx, y: fz, z: fy}.
               
-              const pos3D = { x: x, y: 0, z: y };
-              const vec3D = { x: fx, y: 0, z: fy };
+                  const pos3D = { x: x, y: 0, z: y };
+                  const vec3D = { x: fx, y: fz, z: fy };
+                  if (![fx, fy, fz].every(Number.isFinite)) continue;
               
-              // Color based on magnitude
-              const mag = Math.sqrt(fx*fx + fy*fy);
-              const opacity = Math.min(1, mag / 3);
-              const color = `rgba(100, 116, 139, ${opacity})`;
+                  // Color based on magnitude
+                  const mag = norm3({ x: fx, y: fy, z: fz });
+                  const opacity = Math.min(1, mag / 3);
+                  const color = `rgba(100, 116, 139, ${opacity})`;
 
-              drawArrow3D(pos3D, vec3D, color);
+                  drawArrow3D(pos3D, vec3D, color);
+              }
+          }
+
+          // Segments on the floor, stroked one speed color at a time
+          const strokeBySpeed = (segments: { from: Vector2D; to: Vector2D; speed: number }[], width: number, alpha: number) => {
+              const buckets: { from: Vector2D; to: Vector2D }[][] = Array.from({ length: COLOR_BUCKETS }, () => []);
+              segments.forEach(s => {
+                  const bucket = Math.min(COLOR_BUCKETS - 1, Math.floor(maxSpeed > 0 ? s.speed / maxSpeed * COLOR_BUCKETS : 0));
+                  buckets[bucket].push(s);
+              });
+              ctx.lineWidth = width;
+              ctx.lineCap = 'round';
+              buckets.forEach((list, b) => {
+                  if (list.length === 0) return;
+                  ctx.beginPath();
+                  list.forEach(({ from, to }) => {
+                      const p1 = project({ x: from.x, y: 0, z: from.y }, w, h);
+                      const p2 = project({ x: to.x, y: 0, z: to.y }, w, h);
+                      ctx.moveTo(p1.x, p1.y); ctx.lineTo(p2.x, p2.y);
+                  });
+                  ctx.strokeStyle = speedColor((b + 0.5) / COLOR_BUCKETS * maxSpeed, maxSpeed, alpha);
+                  ctx.stroke();
+              });
+              ctx.lineCap = 'butt';
+          };
+
+          // Streamlines, with an arrow at the seed pointing downstream
+          streamlines.forEach((line, i) => {
+              strokeBySpeed(line.slice(1).map((p, k) => ({ from: line[k], to: p, speed: p.speed })), 2, 0.9);
+              const seed = seeds[i];
+              const pSeed = project({ x: seed.x, y: 0, z: seed.y }, w, h);
+              ctx.beginPath(); ctx.arc(pSeed.x, pSeed.y, 3, 0, Math.PI * 2);
+              ctx.fillStyle = '#fff'; ctx.fill();
+              const fx = activeField.P(seed.x, seed.y);
+              const fy = activeField.Q(seed.x, seed.y);
+              if (Number.isFinite(fx) && Number.isFinite(fy) && Math.hypot(fx, fy) > 0) {
+                  const k = 2 / Math.hypot(fx, fy); // drawArrow3D shrinks it to its 0.4 cap
+                  drawArrow3D({ x: seed.x, y: 0, z: seed.y }, { x: fx * k, y: 0, z: fy * k }, '#fff');
+              }
+          });
+
+          // Particles as short streaks from where they were a frame ago
+          if (showParticles) {
+              strokeBySpeed(particles.current.map(p => ({ from: p.previous, to: p.position, speed: p.speed })), 2.5, 0.85);
           }
       }
 
       // 2. Draw Probe (Paddlewheel)
-      const probePos3D = { x: position.x, y: 0, z: position.y };
-      const projProbe = project(probePos3D, w, h);
-
-      // Draw shadow/base
-      ctx.beginPath(); 
-      // Ellipse approximation
-      ctx.ellipse(projProbe.x, projProbe.y, 10, 5, 0, 0, Math.PI*2);
-      ctx.fillStyle = 'rgba(0,0,0,0.5)'; ctx.fill();
+      const center = { x: position.x, y: position.y, z: space ? probeHeight : 0 };
+      const projProbe = project(toWorld(center), w, h);
+      const [e1, e2] = wheelFrame(wheelAxis);
+      const onWheel = (theta: number, r: number) => project(toWorld({
+          x: center.x + r * (Math.cos(theta) * e1.x + Math.sin(theta) * e2.x),
+          y: center.y + r * (Math.cos(theta) * e1.y + Math.sin(theta) * e2.y),
+          z: center.z + r * (Math.cos(theta) * e1.z + Math.sin(theta) * e2.z)
+      }), w, h);
+
+      if (space) {
+          // Drop line to the floor of the box, to read the height
+          const floor = project(toWorld({ ...center, z: -HEIGHT_RANGE }), w, h);
+          ctx.beginPath(); ctx.moveTo(projProbe.x, projProbe.y); ctx.lineTo(floor.x, floor.y);
+          ctx.setLineDash([2, 3]); ctx.strokeStyle = '#475569'; ctx.lineWidth = 1; ctx.stroke(); ctx.setLineDash([]);
+
+          // The wheel's axis through the hub and its rim, in the plane perpendicular to it
+          const a1 = project(toWorld({ x: center.x - wheelAxis.x * 0.6, y: center.y - wheelAxis.y * 0.6, z: center.z - wheelAxis.z * 0.6 }), w, h);
+          const a2 = project(toWorld({ x: center.x + wheelAxis.x * 0.6, y: center.y + wheelAxis.y * 0.6, z: center.z + wheelAxis.z * 0.6 }), w, h);
+          ctx.beginPath(); ctx.moveTo(a1.x, a1.y); ctx.lineTo(a2.x, a2.y);
+          ctx.setLineDash([4, 3]); ctx.strokeStyle = '#e2e8f0'; ctx.lineWidth = 1.5; ctx.stroke(); ctx.setLineDash([]);
+          ctx.beginPath();
+          for (let i = 0; i <= 32; i++) {
+              const p = onWheel(i / 32 * Math.PI * 2, 0.3);
+              if (i === 0) ctx.moveTo(p.x, p.y); else ctx.lineTo(p.x, p.y);
+          }
+          ctx.strokeStyle = 'rgba(148, 163, 184, 0.5)'; ctx.stroke();
+      } else {
+          // Draw shadow/base
+          ctx.beginPath(); 
+          // Ellipse approximation
+          ctx.ellipse(projProbe.x, projProbe.y, 10, 5, 0, 0, Math.PI*2);
+          ctx.fillStyle = 'rgba(0,0,0,0.5)'; ctx.fill();
+      }
 
       // Draw The "Wheel"
       // We simulate rotation by drawing lines rotating around center
-      const wheelRadius = 15;
       const numBlades = 4;
       
-      // Determine color based on Curl direction
-      // Positive (CCW) = Green, Negative (CW) = Pink, Zero = Gray
+      // Determine color based on the spin direction
+      // Positive (CCW seen from the tip of the axis) = Green, Negative (CW) = Pink, Zero = Gray
       let wheelColor = '#94a3b8';
-      if (curlVal > 0.1) wheelColor = '#4ade80'; // Green
-      if (curlVal < -0.1) wheelColor = '#f472b6'; // Pink
+      if (spin > 0.1) wheelColor = '#4ade80'; // Green
+      if (spin < -0.1) wheelColor = '#f472b6'; // Pink
 
       // Draw blades
       for(let i=0; i<numBlades; i++) {
           const theta = paddleAngle + (i * (Math.PI*2 / numBlades));
           
-          // In 2D view, simple rotation. In 3D, we project the blade tips.
-          // Blade tip in local coordinates
-          const tipLocalX = Math.cos(theta) * 0.3; // 0.3 world units
-          const tipLocalZ = Math.sin(theta) * 0.3;
-          
-          const tip3D = { x: position.x + tipLocalX, y: 0, z: position.y + tipLocalZ };
-          const projTip = project(tip3D, w, h);
+          // Blade tip 0.3 world units away, in the plane of the wheel
+          const projTip = onWheel(theta, 0.3);
 
           ctx.beginPath();
           ctx.moveTo(projProbe.x, projProbe.y);
@@ -218,13 +476,12 @@ export const CurlLevel: React.FC<CurlLevelProps> = ({ onPrevLevel }) => {
       ctx.fillStyle = '#fff'; ctx.fill(); ctx.strokeStyle = wheelColor; ctx.stroke();
 
       // 3. Draw Curl Vector (In 3D only)
-      if (is3D && Math.abs(curlVal) > 0.1) {
-          // Curl points UP (Y) or DOWN (-Y)
-          const vecStart = probePos3D;
-          const vecEnd = { x: position.x, y: curlVal * 0.5, z: position.y }; // Scale height
-          
-          const pStart = project(vecStart, w, h);
-          const pEnd = project(vecEnd, w, h);
+      const curl = space ? curl3 : analysis.curl;
+      if ((is3D || space) && norm3(curl) > 0.1 && [curl.x, curl.y, curl.z].every(Number.isFinite)) {
+          // Plane fields curl UP or DOWN; an R component, or a space field, tilts it
+          const k = Math.min(0.5, 2 / norm3(curl)); // Capped, custom fields can blow up
+          const pStart = projProbe;
+          const pEnd = project(toWorld({ x: center.x + curl.x * k, y: center.y + curl.y * k, z: center.z + curl.z * k }), w, h);
 
           ctx.beginPath(); ctx.moveTo(pStart.x, pStart.y); ctx.lineTo(pEnd.x, pEnd.y);
           ctx.strokeStyle = wheelColor; ctx.lineWidth = 4; ctx.stroke();
@@ -242,18 +499,22 @@ export const CurlLevel: React.FC<CurlLevelProps> = ({ onPrevLevel }) => {
           ctx.fillText("ROT", pEnd.x+5, pEnd.y);
       }
 
-      // Draw Grid Frame
-      const drawLine = (p1: Point, p2: Point, color: string) => {
+      // Draw Grid Frame (in space, the box of the lattice)
+      const drawLine = (p1: Vector3D, p2: Vector3D, color: string) => {
           const pr1 = project(p1, w, h); const pr2 = project(p2, w, h);
           ctx.beginPath(); ctx.moveTo(pr1.x, pr1.y); ctx.lineTo(pr2.x, pr2.y);
-          ctx.strokeStyle = color; ctx.stroke();
+          ctx.strokeStyle = color; ctx.lineWidth = 1; ctx.stroke();
       };
-      drawLine({x:-range, y:0, z:-range}, {x:range, y:0, z:-range}, '#334155');
-      drawLine({x:-range, y:0, z:range}, {x:range, y:0, z:range}, '#334155');
-      drawLine({x:-range, y:0, z:-range}, {x:-range, y:0, z:range}, '#334155');
-      drawLine({x:range, y:0, z:-range}, {x:range, y:0, z:range}, '#334155');
+      const corners = [[-RANGE, -RANGE], [RANGE, -RANGE], [RANGE, RANGE], [-RANGE, RANGE]];
+      const levels = space ? [-HEIGHT_RANGE, HEIGHT_RANGE] : [0];
+      corners.forEach(([x, z], i) => {
+          const [nx, nz] = corners[(i + 1) % corners.length];
+          levels.forEach(y => drawLine({ x, y, z }, { x: nx, y, z: nz }, '#334155'));
+          if (space) drawLine({ x, y: -HEIGHT_RANGE, z }, { x, y: HEIGHT_RANGE, z }, '#334155');
+      });
 
-  }, [activeField, position, paddleAngle, is3D, camera, scale, pan, project, curlVal]);
+  }, [activeField, position, paddleAngle, is3D, project, analysis, streamlines, seeds, showParticles, frame, maxSpeed,
+      space, activeSpaceField, maxSpeed3, probeHeight, wheelAxis, curl3, spin]);
 
   // Handlers
   useEffect(() => {
@@ -269,55 +530,59 @@ export const CurlLevel: React.FC<CurlLevelProps> = ({ onPrevLevel }) => {
   useEffect(() => draw(), [draw]);
 
   const handleMouseDown = (e: React.MouseEvent) => {
-      const rect = canvasRef.current!.getBoundingClientRect();
-      const mx = e.clientX - rect.left;
-      const my = e.clientY - rect.top;
+      const mouse = getCanvasPoint(e, canvasRef.current!);
+      const mx = mouse.x;
+      const my = mouse.y;
       const w = canvasRef.current!.width;
       const h = canvasRef.current!.height;
 
       // Check collision with probe
-      const probePos3D = { x: position.x, y: 0, z: position.y };
-      const proj = project(probePos3D, w, h);
+      const proj = project(toWorld({ x: position.x, y: position.y, z: space ? probeHeight : 0 }), w, h);
       
       if (Math.hypot(mx - proj.x, my - proj.y) < 30) {
           setDragging('PROBE');
+      } else if (seeding && !space) {
+          // Seed a streamline where the click lands on the floor
+          const hit = pick(mouse, w, h, { x: 0, y: 0, z: 0 }, { x: 0, y: 1, z: 0 });
+          if (hit && Math.abs(hit.x) <= RANGE && Math.abs(hit.z) <= RANGE) {
+              setSeeds(prev => [...prev, { x: hit.x, y: hit.z }].slice(-MAX_SEEDS));
+          }
       } else {
           setDragging('ORBIT');
       }
-      lastMouse.current = { x: e.clientX, y: e.clientY };
+      lastMouse.current = mouse;
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-      if (!dragging) return;
-      const dx = e.clientX - lastMouse.current.x;
-      const dy = e.clientY - lastMouse.current.y;
-      lastMouse.current = { x: e.clientX, y: e.clientY };
+      if (!dragging || !canvasRef.current) return;
+      const mouse = getCanvasPoint(e, canvasRef.current);
+      const { width, height } = canvasRef.current;
+      const prevMouse = lastMouse.current;
+      lastMouse.current = mouse;
 
       if (dragging === 'ORBIT') {
-          setCamera(prev => ({ x: prev.x + dy * 0.01, y: prev.y + dx * 0.01 }));
+          orbit(prevMouse, mouse, width, height);
       } else {
-          // Drag Probe on Floor (XZ plane)
-          // Simplified projection inverse for dragging
-          const sensitivity = 1.0 / scale;
-          const cosY = Math.cos(camera.y);
-          const sinY = Math.sin(camera.y);
-          
-          // Rotate input vector by camera yaw to match ground movement
-          const dX = (dx * cosY + dy * sinY) * sensitivity;
-          const dZ = (dy * cosY - dx * sinY) * sensitivity;
-
-          setPosition(prev => ({
-              x: Math.max(-3.5, Math.min(3.5, prev.x + dX)),
-              y: Math.max(-3.5, Math.min(3.5, prev.y + dZ))
-          }));
+          // Drag Probe on its horizontal plane (the floor, or z = height in space): it lands under the cursor
+          const hit = pick(mouse, width, height, { x: 0, y: space ? probeHeight : 0, z: 0 }, { x: 0, y: 1, z: 0 });
+          if (!hit) return;
+          setPosition({
+              x: Math.max(-RANGE, Math.min(RANGE, hit.x)),
+              y: Math.max(-RANGE, Math.min(RANGE, hit.z))
+          });
       }
   };
 
   const handleMouseUp = () => setDragging(null);
+  const handleWheel = (e: React.WheelEvent) => {
+      if (!canvasRef.current) return;
+      const zoomFactor = e.deltaY < 0 ? 1.1 : 0.9;
+      zoom(getCanvasPoint(e, canvasRef.current), zoomFactor, canvasRef.current.width, canvasRef.current.height);
+  };
 
   return (
-    <div ref={containerRef} className="relative w-full h-full bg-slate-900 cursor-move" 
-        onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp}>
+    <div ref={containerRef} className={`relative w-full h-full bg-slate-900 ${seeding ? 'cursor-crosshair' : 'cursor-move'}`}
+        onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp} onWheel={handleWheel}>
         <canvas ref={canvasRef} className="block w-full h-full" />
         
         {/* CONTROLS */}
@@ -326,69 +591,215 @@ export const CurlLevel: React.FC<CurlLevelProps> = ({ onPrevLevel }) => {
                 {/* Selector */}
                 <div className="space-y-1">
                     <label className="text-[9px] font-bold text-slate-500">CAMPO VECTORIAL</label>
-                    <select 
-                        value={fieldIndex} 
-                        onChange={(e) => setFieldIndex(parseInt(e.target.value))}
-                        className="w-full bg-slate-800 text-white text-xs p-2 rounded border border-slate-700 outline-none hover:border-cyan-400"
-                    >
-                        {FIELDS.map((f, i) => <option key={i} value={i}>{f.name}</option>)}
-                    </select>
+                    {space ? (
+                        <select 
+                            value={spaceFieldIndex} 
+                            onChange={(e) => setSpaceFieldIndex(parseInt(e.target.value))}
+                            className="w-full bg-slate-800 text-white text-xs p-2 rounded border border-slate-700 outline-none hover:border-cyan-400"
+                        >
+                            {SPACE_FIELD_PRESETS.map((f, i) => <option key={i} value={i}>{f.name}</option>)}
+                            <option value={SPACE_CUSTOM_INDEX}>{spaceCustomField.name}</option>
+                        </select>
+                    ) : (
+                        <select 
+                            value={fieldIndex} 
+                            onChange={(e) => setFieldIndex(parseInt(e.target.value))}
+                            className="w-full bg-slate-800 text-white text-xs p-2 rounded border border-slate-700 outline-none hover:border-cyan-400"
+                        >
+                            {FIELD_PRESETS.map((f, i) => <option key={i} value={i}>{f.name}</option>)}
+                            <option value={CUSTOM_INDEX}>{customField.name}</option>
+                        </select>
+                    )}
+                    {space && spaceFieldIndex === SPACE_CUSTOM_INDEX && (
+                        <div className="space-y-1 pt-1">
+                            {(['P', 'Q', 'R'] as const).map(c => (
+                                <FunctionInput
+                                    key={c}
+                                    label={`${c}(x,y,z) =`}
+                                    placeholder={c === 'R' ? '0 (opcional)' : c === 'P' ? 'y*z' : '-x'}
+                                    value={spaceCustom.sources[c]}
+                                    error={spaceCustom.error?.component === c ? spaceCustom.error.message : null}
+                                    onChange={text => spaceCustom.setComponent(c, text)}
+                                    hint={c === 'R'}
+                                />
+                            ))}
+                        </div>
+                    )}
+                    {!space && fieldIndex === CUSTOM_INDEX && (
+                        <div className="space-y-1 pt-1">
+                            {(['P', 'Q', 'R'] as const).map(c => (
+                                <FunctionInput
+                                    key={c}
+                                    label={`${c}(x,y) =`}
+                                    placeholder={c === 'R' ? '0 (opcional)' : c === 'P' ? '-y' : 'x'}
+                                    value={custom.sources[c]}
+                                    error={custom.error?.component === c ? custom.error.message : null}
+                                    onChange={text => custom.setComponent(c, text)}
+                                    hint={c === 'R'}
+                                />
+                            ))}
+                        </div>
+                    )}
+                    <div className="text-[10px] text-slate-400 font-mono text-center pt-1">{shownField.eq}</div>
                 </div>
 
                 {/* View Toggles */}
                 <div className="flex bg-slate-800 p-1 rounded border border-slate-700">
-                    <button onClick={() => { setIs3D(false); setCamera({x:-0.6, y:0.5}); }}
-                        className={`flex-1 py-1 text-[10px] font-bold transition-colors ${!is3D ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
+                    <button onClick={() => { setIs3D(false); setSpace(false); reset(); }}
+                        className={`flex-1 py-1 text-[10px] font-bold transition-colors ${!is3D && !space ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
                         2D (PLANO)
                     </button>
-                    <button onClick={() => { setIs3D(true); setCamera({x:-0.6, y:0.5}); }}
-                        className={`flex-1 py-1 text-[10px] font-bold transition-colors ${is3D ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
+                    <button onClick={() => { setIs3D(true); setSpace(false); reset(); }}
+                        className={`flex-1 py-1 text-[10px] font-bold transition-colors ${is3D && !space ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
                         3D (VECTOR)
                     </button>
+                    <button onClick={() => { setIs3D(true); setSpace(true); setSeeding(false); reset(); }}
+                        className={`flex-1 py-1 text-[10px] font-bold transition-colors ${space ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
+                        3D (ESPACIO)
+                    </button>
                 </div>
+                <CameraControls camera={camera} onPreset={setPreset} onProjection={setProjection} />
+
+                {/* Space probe: height and wheel axis */}
+                {space && (
+                    <div className="space-y-2">
+                        <div className="space-y-1">
+                            <div className="flex justify-between text-[9px] font-bold text-slate-500">
+                                <span>ALTURA DE LA SONDA</span>
+                                <span className="font-mono text-white">z = {probeHeight.toFixed(1)}</span>
+                            </div>
+                            <input type="range" min={-HEIGHT_RANGE} max={HEIGHT_RANGE} step={0.1} value={probeHeight}
+                                onChange={e => setProbeHeight(parseFloat(e.target.value))} className="w-full accent-cyan-400" />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-[9px] font-bold text-slate-500">EJE DE LA RUEDA</label>
+                            <div className="flex bg-slate-800 p-1 rounded border border-slate-700">
+                                {WHEEL_AXES.map(a => (
+                                    <button key={a} onClick={() => setAxis(a)}
+                                        className={`flex-1 py-1 text-[10px] font-bold transition-colors ${axis === a ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
+                                        {a === 'curl' ? '∥ ∇×F' : a.toUpperCase()}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {/* Flow (plane fields only) */}
+                {!space && <div className="space-y-2">
+                    <label className="text-[9px] font-bold text-slate-500">FLUJO</label>
+                    <label className="flex items-center gap-2 text-[10px] text-slate-400 cursor-pointer">
+                        <input type="checkbox" checked={showParticles} onChange={e => setShowParticles(e.target.checked)} />
+                        Partículas arrastradas por el campo (RK4)
+                    </label>
+                    <div className="flex gap-2">
+                        <button onClick={() => setSeeding(!seeding)}
+                            className={`flex-1 py-1 text-[10px] font-bold rounded border transition-colors ${seeding ? 'border-cyan-400 bg-cyan-900/30 text-cyan-300' : 'border-slate-600 text-slate-400 hover:bg-slate-800'}`}>
+                            {seeding ? '✓ CLIC PARA SEMBRAR' : '✎ LÍNEAS DE CORRIENTE'}
+                        </button>
+                        <button onClick={() => setSeeds([])} disabled={seeds.length === 0}
+                            className="py-1 px-2 text-[10px] font-bold rounded border border-slate-600 text-slate-400 hover:bg-slate-800 disabled:opacity-30 disabled:cursor-not-allowed">
+                            BORRAR
+                        </button>
+                    </div>
+                    <div className="space-y-0.5">
+                        <div className="h-2 rounded" style={{ background: SPEED_GRADIENT }} />
+                        <div className="flex justify-between text-[9px] font-mono text-slate-500">
+                            <span>lento</span>
+                            <span>|F| = {maxSpeed.toFixed(1)}</span>
+                        </div>
+                    </div>
+                </div>}
 
                 {/* Math Display */}
                 <div className="bg-slate-950/80 p-3 rounded border border-slate-800 space-y-2 text-center">
-                    <div className="text-[10px] text-slate-500 font-mono">VALOR DEL ROTACIONAL</div>
-                    <div className={`text-3xl font-bold pixel-font ${Math.abs(curlVal) < 0.1 ? 'text-slate-500' : (curlVal > 0 ? 'text-green-400' : 'text-pink-400')}`}>
-                        {curlVal.toFixed(2)}
+                    <div className="text-[10px] text-slate-500 font-mono">{space ? 'GIRO DE LA RUEDA (∇×F)·n' : 'VALOR DEL ROTACIONAL'}</div>
+                    <div className={`text-3xl font-bold pixel-font ${Math.abs(spin) < 0.1 ? 'text-slate-500' : (spin > 0 ? 'text-green-400' : 'text-pink-400')}`}>
+                        {spin.toFixed(2)}
                     </div>
                     <div className="text-[10px] text-slate-400 italic">
-                        {curlVal > 0.1 ? "Giro Anti-horario (Positivo)" : curlVal < -0.1 ? "Giro Horario (Negativo)" : "Sin Rotación"}
+                        {spin > 0.1 ? "Giro Anti-horario (Positivo)" : spin < -0.1 ? "Giro Horario (Negativo)" : "Sin Rotación"}
+                        {space && Math.abs(spin) > 0.1 && ', visto desde la punta del eje'}
                     </div>
                 </div>
 
                 <div className="text-xs text-slate-400 italic border-t border-slate-700 pt-2">
-                    {activeField.desc}
+                    {shownField.desc}
                 </div>
+
+                <ShareButton codec={CURL_SCENE} scene={scene} />
             </div>
         </DraggableWindow>
 
         {/* MATH BREAKDOWN */}
         <DraggableWindow title="CÁLCULO MATEMÁTICO" initialPosition={{x: 20, y: 400}} width="w-80">
+            {space ? (
+            <div className="space-y-3 font-mono text-xs">
+                 <div className="p-2 bg-slate-800 rounded text-center text-[10px] text-white">
+                     ∇×F = (∂R/∂y - ∂Q/∂z, ∂P/∂z - ∂R/∂x, ∂Q/∂x - ∂P/∂y)
+                 </div>
+
+                 {/* One row per component: jacobian[i][j] = ∂(P, Q, R)[i] / ∂(x, y, z)[j] */}
+                 {([['x', 2, 1, 1, 2], ['y', 0, 2, 2, 0], ['z', 1, 0, 0, 1]] as const).map(([c, i1, j1, i2, j2]) => (
+                     <div key={c} className="flex justify-between items-center bg-slate-950 px-2 py-1 rounded border border-slate-800">
+                         <span className="text-slate-500">(∇×F)<sub>{c}</sub></span>
+                         <span>
+                             <span className="text-cyan-400">{spaceAnalysis.jacobian[i1][j1].toFixed(1)}</span>
+                             <span className="text-slate-500 mx-1">-</span>
+                             <span className="text-pink-400">({spaceAnalysis.jacobian[i2][j2].toFixed(1)})</span>
+                             <span className="text-slate-500 mx-1">=</span>
+                             <span className="text-white font-bold">{curl3[c].toFixed(2)}</span>
+                         </span>
+                     </div>
+                 ))}
+
+                 <div className="space-y-1 text-[10px]">
+                     <div className="flex justify-between">
+                         <span className="text-slate-400">|∇×F|</span>
+                         <span className="text-white">{norm3(curl3).toFixed(2)}</span>
+                     </div>
+                     <div className="flex justify-between">
+                         <span className="text-slate-400">Eje n</span>
+                         <span className="text-white">({wheelAxis.x.toFixed(2)}, {wheelAxis.y.toFixed(2)}, {wheelAxis.z.toFixed(2)})</span>
+                     </div>
+                     <div className="flex justify-between">
+                         <span className="text-green-400 font-bold">Giro (∇×F)·n</span>
+                         <span className="text-white font-bold">{spin.toFixed(2)}</span>
+                     </div>
+                     <p className="text-[8px] text-slate-500">
+                         La rueda gira más rápido con el eje alineado con el rotacional, y nada con el eje perpendicular a él.
+                     </p>
+                 </div>
+
+                 <div className="border-t border-slate-700 pt-2 flex justify-between text-[10px]">
+                     <span className="text-yellow-400 font-bold">DIVERGENCIA ∂P/∂x + ∂Q/∂y + ∂R/∂z</span>
+                     <span className="text-white font-bold">{spaceAnalysis.divergence.toFixed(2)}</span>
+                 </div>
+            </div>
+            ) : (
             <div className="space-y-3 font-mono text-xs">
                  <div className="flex justify-center items-center gap-2 p-2 bg-slate-800 rounded text-sm text-white">
                      <span>Rot</span>
                      <span>=</span>
                      <div className="flex flex-col items-center">
-                         <span className="border-b border-white mb-0.5">∂Fy</span>
+                         <span className="border-b border-white mb-0.5">∂Q</span>
                          <span>∂x</span>
                      </div>
                      <span>-</span>
                      <div className="flex flex-col items-center">
-                         <span className="border-b border-white mb-0.5">∂Fx</span>
+                         <span className="border-b border-white mb-0.5">∂P</span>
                          <span>∂y</span>
                      </div>
                  </div>
 
                  <div className="grid grid-cols-2 gap-4 text-center">
                      <div>
-                         <span className="block text-[9px] text-cyan-400">∂Fy/∂x</span>
+                         <span className="block text-[9px] text-cyan-400">∂Q/∂x</span>
                          <span className="text-white">{term1.toFixed(1)}</span>
                          <p className="text-[8px] text-slate-500 mt-1">¿Cuánto cambia la fuerza Y al moverte en X?</p>
                      </div>
                      <div>
-                         <span className="block text-[9px] text-pink-400">∂Fx/∂y</span>
+                         <span className="block text-[9px] text-pink-400">∂P/∂y</span>
                          <span className="text-white">{term2.toFixed(1)}</span>
                          <p className="text-[8px] text-slate-500 mt-1">¿Cuánto cambia la fuerza X al moverte en Y?</p>
                      </div>
@@ -401,9 +812,31 @@ export const CurlLevel: React.FC<CurlLevelProps> = ({ onPrevLevel }) => {
                      <span className="text-slate-500 mx-2">=</span>
                      <span className="text-white font-bold">{curlVal.toFixed(1)}</span>
                  </div>
+
+                 {/* Full curl vector, only tilted when the field has a vertical component */}
+                 {activeField.R && (
+                     <div className="flex justify-between text-[10px] text-slate-400">
+                         <span>∇×F = (∂R/∂y, -∂R/∂x, Rot)</span>
+                         <span className="text-white">({analysis.curl.x.toFixed(1)}, {analysis.curl.y.toFixed(1)}, {analysis.curl.z.toFixed(1)})</span>
+                     </div>
+                 )}
+
+                 <div className="border-t border-slate-700 pt-2 space-y-1">
+                     <div className="flex justify-between text-[10px]">
+                         <span className="text-yellow-400 font-bold">DIVERGENCIA ∂P/∂x + ∂Q/∂y</span>
+                         <span className="text-white font-bold">{analysis.divergence.toFixed(2)}</span>
+                     </div>
+                     <p className="text-[8px] text-slate-500">
+                         {analysis.divergence > 0.1 ? 'El fluido sale de este punto (fuente).' : analysis.divergence < -0.1 ? 'El fluido se acumula en este punto (sumidero).' : 'Entra tanto como sale.'}
+                     </p>
+                 </div>
             </div>
+            )}
         </DraggableWindow>
 
+        {/* Mission */}
+        <MissionPanel status={mission} />
+
         {/* Theoretical Guide */}
         <DraggableWindow title="GUÍA TEÓRICA: ROTACIONAL" initialPosition={{x: 350, y: 500}} width="w-96">
             <div className="text-xs text-slate-400 font-mono space-y-2">
@@ -412,7 +845,10 @@ export const CurlLevel: React.FC<CurlLevelProps> = ({ onPrevLevel }) => {
                 <ul className="list-disc pl-4 space-y-1 text-[10px]">
                     <li><strong className="text-white">Remolino:</strong> Es obvio. Todo gira.</li>
                     <li><strong className="text-white">Río (Shear):</strong> ¡Contraintuitivo! El agua va recta, pero la rueda gira. ¿Por qué? Porque el agua golpea las paletas de arriba más fuerte que las de abajo.</li>
+                    <li><strong className="text-white">Giro Variable:</strong> El rotacional es una función del punto, no un número fijo. Escribe tu propio campo en <em>✎ Personalizado</em> para explorarlo.</li>
+                    <li><strong className="text-white">Flujo:</strong> Las partículas siguen dr/dt = F y las líneas de corriente dibujan su trayectoria completa. En el Río van rectas pero a distinta velocidad (color): de ahí sale el giro.</li>
                     <li><strong className="text-white">3D:</strong> El rotacional es en realidad un <span className="text-green-400">Vector</span> que sale de la pantalla (eje Z). Usa la vista 3D para verlo.</li>
+                    <li><strong className="text-white">Espacio:</strong> Si F depende también de z, el rotacional puede apuntar en cualquier dirección. La rueda gira a ritmo (∇×F)·n: alinéala con el rotacional y comprueba la regla de la mano derecha (pulgar en el eje, los dedos giran como las paletas).</li>
                 </ul>
             </div>
         </DraggableWindow>
@@ -434,6 +870,22 @@ export const CurlLevel: React.FC<CurlLevelProps> = ({ onPrevLevel }) => {
                 </button>
             </div>
         )}
+        {onNextLevel && (
+            <div className="absolute bottom-4 right-4 z-50 flex gap-4">
+                <button 
+                    onClick={onNextLevel}
+                    className="group flex flex-row-reverse items-center gap-3 px-4 py-2 bg-slate-900 border border-slate-700 hover:border-pink-500 hover:bg-slate-800 transition-all rounded-r-full shadow-lg"
+                >
+                    <div className="w-8 h-8 rounded-full border border-pink-500/50 flex items-center justify-center bg-pink-900/20 group-hover:bg-pink-400/20">
+                        <span className="text-pink-500 animate-pulse text-lg">➔</span>
+                    </div>
+                    <div className="text-left pr-2 hidden md:block">
+                        <span className="block text-[9px] text-slate-500 pixel-font">SIGUIENTE NIVEL</span>
+                        <span className="block text-xs text-pink-500 font-bold">DIVERGENCIA</span>
+                    </div>
+                </button>
+            </div>
+        )}
 
     </div>
   );
@@ -1,13 +1,24 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { DraggableWindow } from './DraggableWindow';
+import { MissionPanel } from './MissionPanel';
+import { FunctionInput } from './FunctionInput';
+import { DirectionalPolarPlot } from './DirectionalPolarPlot';
+import { ConvergenceChart } from './ConvergenceChart';
+import { ViewState } from '../types';
+import { CameraControls } from './CameraControls';
+import { createCamera, projectPoint } from '../utils/camera';
+import { useCamera, getCanvasPoint } from '../hooks/useCamera';
+import { useMission } from '../hooks/useMission';
+import { useCustomSurface } from '../hooks/useCustomSurface';
+import { Mission, near } from '../utils/missions';
+import { CRITICAL_GRADIENT, CRITICAL_KINDS, analyzeHessian, findCriticalPoint } from '../utils/curvature';
+import { MIN_H_EXPONENT, MAX_H_EXPONENT, SWEEP_EXPONENTS, TABLE_EXPONENTS, differenceQuotient, quotientTable } from '../utils/differenceQuotient';
 
 interface DerivativeVisualizerProps {
     onNextLevel?: () => void;
     onPrevLevel?: () => void;
 }
 
-interface Point { x: number; y: number; z: number; }
-
 // --- MATH DEFINITIONS ---
 const FUNCTIONS = [
     {
@@ -19,6 +30,11 @@ const FUNCTIONS = [
         f: (x: number, y: number) => Math.sin(x) + Math.cos(y),
         df_dx: (x: number, y: number) => Math.cos(x),
         df_dy: (x: number, y: number) => -Math.sin(y),
+        hessian: {
+            xx: { formula: '-sin(x)', evaluate: (x: number, y: number) => -Math.sin(x) },
+            xy: { formula: '0', evaluate: () => 0 },
+            yy: { formula: '-cos(y)', evaluate: (x: number, y: number) => -Math.cos(y) }
+        },
         range: 3.5
     },
     {
@@ -30,6 +46,11 @@ const FUNCTIONS = [
         f: (x: number, y: number) => (x*x + y*y) / 4,
         df_dx: (x: number, y: number) => x / 2,
         df_dy: (x: number, y: number) => y / 2,
+        hessian: {
+            xx: { formula: '1/2', evaluate: () => 1 / 2 },
+            xy: { formula: '0', evaluate: () => 0 },
+            yy: { formula: '1/2', evaluate: () => 1 / 2 }
+        },
         range: 3.5
     },
     {
@@ -41,6 +62,12 @@ const FUNCTIONS = [
         f: (x: number, y: number) => (x*x - y*y) / 4,
         df_dx: (x: number, y: number) => x / 2,
         df_dy: (x: number, y: number) => -y / 2,
+        // Constant Hessian diag(1/2, -1/2): opposite signs, so the origin is a saddle
+        hessian: {
+            xx: { formula: '1/2', evaluate: () => 1 / 2 },
+            xy: { formula: '0', evaluate: () => 0 },
+            yy: { formula: '-1/2', evaluate: () => -1 / 2 }
+        },
         range: 3.5
     },
     {
@@ -52,30 +79,45 @@ const FUNCTIONS = [
         f: (x: number, y: number) => (x * y) / 4,
         df_dx: (x: number, y: number) => y / 4,
         df_dy: (x: number, y: number) => x / 4,
+        // Also a saddle, with its principal directions along the diagonals
+        hessian: {
+            xx: { formula: '0', evaluate: () => 0 },
+            xy: { formula: '1/4', evaluate: () => 1 / 4 },
+            yy: { formula: '0', evaluate: () => 0 }
+        },
         range: 3.5
     }
 ];
 
-// --- 3D ENGINE HELPER ---
-const rotateX = (p: Point, angle: number): Point => ({
-    x: p.x,
-    y: p.y * Math.cos(angle) - p.z * Math.sin(angle),
-    z: p.y * Math.sin(angle) + p.z * Math.cos(angle)
-});
-const rotateY = (p: Point, angle: number): Point => ({
-    x: p.x * Math.cos(angle) + p.z * Math.sin(angle),
-    y: p.y,
-    z: -p.x * Math.sin(angle) + p.z * Math.cos(angle)
-});
-const project = (p: Point, w: number, h: number, cam: {x:number, y:number}, scale: number, pan: {x:number, y:number}) => {
-    let r = rotateY(p, cam.y);
-    r = rotateX(r, cam.x);
-    return {
-        x: w/2 + pan.x + r.x * scale,
-        y: h/2 + pan.y - r.y * scale, 
-        z: r.z
-    };
-};
+type SurfaceFunction = typeof FUNCTIONS[number];
+
+// Selector entry for the user-typed f(x,y), right after the presets
+const CUSTOM_INDEX = FUNCTIONS.length;
+const CUSTOM_DEFAULT = 'x^2/4 - x*y/4 + sin(y)';
+
+// Directional derivative overlay (world units)
+const DIRECTION_LENGTH = 1.5;   // Length of the u arrow, also the draggable handle at its tip
+const PLANE_HALF = 1.2;         // The tangent plane patch covers |x - x₀|, |y - y₀| <= PLANE_HALF
+const PLANE_LINES = 5;
+
+// Secant mode: h shrinks by SHRINK_FACTOR every SHRINK_INTERVAL ms (a tenth of a decade)
+const SHRINK_FACTOR = 10 ** -0.1;
+const SHRINK_INTERVAL = 60;
+const MIN_H = 10 ** MIN_H_EXPONENT;
+const SECANT_REACH = 1.5;       // The secant is drawn this far past both points
+const SECANT_COLOR = '#fb923c';
+
+type SecantAxis = 'x' | 'y';
+
+// Principal directions are drawn as curves on the surface, this far each way from the point
+const CURVATURE_REACH = 1.2;
+const CURVATURE_SAMPLES = 24;
+const curvatureColor = (lambda: number) => Math.abs(lambda) < 1e-6 ? '#94a3b8' : lambda > 0 ? '#4ade80' : '#f87171';
+
+const formatH = (h: number) => Math.abs(h) < 1e-3 ? h.toExponential(1) : h.toFixed(3);
+
+// Fixed camera for mini views
+const MINI_CAMERA = createCamera({ pitch: -0.5, yaw: 0.5, scale: 20 });
 
 // --- REUSABLE SURFACE COMPONENT ---
 interface MiniSurfaceProps {
@@ -93,10 +135,6 @@ interface MiniSurfaceProps {
 const MiniSurface: React.FC<MiniSurfaceProps> = ({ func, range, position, color, label, height = 150, showTangent, tangentSlope, tangentType }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const zVal = func(position.x, position.y);
-    
-    // Fixed camera for mini views
-    const cam = { x: -0.5, y: 0.5 };
-    const scale = 20;
 
     useEffect(() => {
         const canvas = canvasRef.current;
@@ -122,7 +160,7 @@ const MiniSurface: React.FC<MiniSurfaceProps> = ({ func, range, position, color,
             let first = true;
             for(let x = -range; x <= range; x += step) {
                 const p = { x, y: func(x,y), z: y };
-                const proj = project(p, w, h, cam, scale, {x:0, y:0});
+                const proj = projectPoint(MINI_CAMERA, p, { width: w, height: h });
                 if (first) { ctx.moveTo(proj.x, proj.y); first = false; }
                 else ctx.lineTo(proj.x, proj.y);
             }
@@ -135,7 +173,7 @@ const MiniSurface: React.FC<MiniSurfaceProps> = ({ func, range, position, color,
             let first = true;
             for(let y = -range; y <= range; y += step) {
                 const p = { x, y: func(x,y), z: y };
-                const proj = project(p, w, h, cam, scale, {x:0, y:0});
+                const proj = projectPoint(MINI_CAMERA, p, { width: w, height: h });
                 if (first) { ctx.moveTo(proj.x, proj.y); first = false; }
                 else ctx.lineTo(proj.x, proj.y);
             }
@@ -145,11 +183,11 @@ const MiniSurface: React.FC<MiniSurfaceProps> = ({ func, range, position, color,
 
         // Current Point
         const pt = { x: position.x, y: zVal, z: position.y };
-        const projPt = project(pt, w, h, cam, scale, {x:0, y:0});
+        const projPt = projectPoint(MINI_CAMERA, pt, { width: w, height: h });
         
         // Drop Line
         const floorPt = { x: position.x, y: -range, z: position.y };
-        const projFloor = project(floorPt, w, h, cam, scale, {x:0, y:0});
+        const projFloor = projectPoint(MINI_CAMERA, floorPt, { width: w, height: h });
         ctx.beginPath(); ctx.moveTo(projPt.x, projPt.y); ctx.lineTo(projFloor.x, projFloor.y);
         ctx.strokeStyle = 'rgba(255,255,255,0.2)'; ctx.setLineDash([2,2]); ctx.stroke(); ctx.setLineDash([]);
 
@@ -164,8 +202,8 @@ const MiniSurface: React.FC<MiniSurfaceProps> = ({ func, range, position, color,
                  start = { x: position.x, y: zVal - tangentSlope * len, z: position.y - len };
                  end   = { x: position.x, y: zVal + tangentSlope * len, z: position.y + len };
             }
-            const pStart = project(start, w, h, cam, scale, {x:0, y:0});
-            const pEnd = project(end, w, h, cam, scale, {x:0, y:0});
+            const pStart = projectPoint(MINI_CAMERA, start, { width: w, height: h });
+            const pEnd = projectPoint(MINI_CAMERA, end, { width: w, height: h });
             ctx.beginPath(); ctx.moveTo(pStart.x, pStart.y); ctx.lineTo(pEnd.x, pEnd.y);
             ctx.strokeStyle = '#ffffff'; ctx.lineWidth = 2; ctx.stroke();
         }
@@ -190,6 +228,59 @@ const MiniSurface: React.FC<MiniSurfaceProps> = ({ func, range, position, color,
 };
 
 
+interface DerivativeMissionState {
+  func: SurfaceFunction;
+  position: { x: number; y: number };
+  angle: number; // Direction of u
+  secant: { h: number; error: number } | null; // Difference quotient, while in secant mode
+}
+
+const slopesAt = ({ func, position }: DerivativeMissionState) => ({
+  id: func.id,
+  dx: func.df_dx(position.x, position.y),
+  dy: func.df_dy(position.x, position.y)
+});
+
+const DERIVATIVE_MISSION: Mission<DerivativeMissionState> = {
+  level: ViewState.DERIVATIVE_DEFINITION,
+  objectives: [
+    {
+      id: 'crest', label: 'Ondas: encuentra un punto donde ∂f/∂x = 0',
+      check: s => { const d = slopesAt(s); return d.id === 'waves' && Math.abs(d.dx) < 0.05; }
+    },
+    {
+      id: 'slope', label: 'Paraboloide: encuentra un punto con ∂f/∂x = 1',
+      check: s => { const d = slopesAt(s); return d.id === 'bowl' && near(d.dx, 1); }
+    },
+    {
+      id: 'saddle', label: 'Silla de montar: encuentra un punto donde ambas pendientes sean positivas',
+      check: s => { const d = slopesAt(s); return d.id === 'saddle' && d.dx > 0.1 && d.dy > 0.1; }
+    },
+    {
+      id: 'steepest', label: 'Gira u hasta la máxima pendiente: D_u f = |∇f| (con |∇f| > 0.5)',
+      check: s => {
+        const d = slopesAt(s);
+        const magnitude = Math.hypot(d.dx, d.dy);
+        return magnitude > 0.5 && d.dx * Math.cos(s.angle) + d.dy * Math.sin(s.angle) > 0.99 * magnitude;
+      }
+    },
+    {
+      id: 'saddlePoint', label: 'Silla de montar: lleva el punto a su punto crítico y comprueba que λ₁ > 0 > λ₂',
+      check: s => {
+        const d = slopesAt(s);
+        const { hessian } = s.func;
+        const at = (e: typeof hessian.xx) => e.evaluate(s.position.x, s.position.y);
+        return d.id === 'saddle' && Math.hypot(d.dx, d.dy) < CRITICAL_GRADIENT
+          && analyzeHessian({ xx: at(hessian.xx), xy: at(hessian.xy), yy: at(hessian.yy) }).kind === 'saddle';
+      }
+    },
+    {
+      id: 'limit', label: 'Secante: lleva h por debajo de 10⁻⁶ y comprueba que el cociente tiende a la derivada (error < 10⁻⁵)',
+      check: s => s.secant !== null && Math.abs(s.secant.h) < 1e-6 && s.secant.error < 1e-5
+    }
+  ]
+};
+
 // --- MAIN COMPONENT ---
 export const DerivativeVisualizer: React.FC<DerivativeVisualizerProps> = ({ onNextLevel, onPrevLevel }) => {
   // State
@@ -197,24 +288,98 @@ export const DerivativeVisualizer: React.FC<DerivativeVisualizerProps> = ({ onNe
   const [position, setPosition] = useState({ x: 0, y: 0 }); // Input coordinates
   const [showTangentX, setShowTangentX] = useState(true);
   const [showTangentY, setShowTangentY] = useState(true);
+  const [angle, setAngle] = useState(Math.PI / 4); // Direction of u, from +x towards +y
+  const [showDirection, setShowDirection] = useState(true);
+  const [showPlane, setShowPlane] = useState(false);
+  const [showGradient, setShowGradient] = useState(true);
+  const [showCurvature, setShowCurvature] = useState(false);
+  const [secantMode, setSecantMode] = useState(false);
+  const [secantAxis, setSecantAxis] = useState<SecantAxis>('x');
+  const [secantH, setSecantH] = useState(1); // The h of the difference quotient
+  const [isShrinking, setIsShrinking] = useState(false);
   
-  const activeFunc = FUNCTIONS[funcIndex];
+  // Custom f(x,y), differentiated symbolically
+  const custom = useCustomSurface(CUSTOM_DEFAULT);
+  const customFunc = useMemo<SurfaceFunction>(() => ({
+      id: 'custom',
+      name: '✎ Personalizada',
+      eq: `f(x,y) = ${custom.surface.formula}`,
+      dx_str: custom.surface.dx.formula,
+      dy_str: custom.surface.dy.formula,
+      f: custom.surface.f,
+      df_dx: custom.surface.dx.evaluate,
+      df_dy: custom.surface.dy.evaluate,
+      hessian: custom.surface.hessian,
+      range: 3.5
+  }), [custom.surface]);
+
+  const activeFunc = funcIndex === CUSTOM_INDEX ? customFunc : FUNCTIONS[funcIndex];
+  const hessian = activeFunc.hessian;
 
   // View State (Main Canvas)
-  const [camera, setCamera] = useState({ x: -0.4, y: 0.5 });
-  const [scale, setScale] = useState(50);
-  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const { camera, project, pick, pickSurface, orbit, zoom, setPreset, setProjection, reset } = useCamera({ pitch: -0.4, yaw: 0.5, scale: 50 }, { minScale: 20, maxScale: 150 });
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [dragging, setDragging] = useState<'POINT' | 'CAMERA' | null>(null);
-  const lastMouse = useRef({ x: 0, y: 0 });
+  const [dragging, setDragging] = useState<'POINT' | 'DIRECTION' | 'SECANT' | 'CAMERA' | null>(null);
+  const lastMouse = useRef({ x: 0, y: 0 }); // Canvas coordinates
 
   // Current Values
   const zVal = activeFunc.f(position.x, position.y);
   const slopeX = activeFunc.df_dx(position.x, position.y);
   const slopeY = activeFunc.df_dy(position.x, position.y);
 
+  // Secant along x (or y): f restricted to that line through the point, g(t)
+  const section = useMemo(() => secantAxis === 'x'
+      ? { g: (t: number) => activeFunc.f(t, position.y), t0: position.x, exact: activeFunc.df_dx(position.x, position.y) }
+      : { g: (t: number) => activeFunc.f(position.x, t), t0: position.y, exact: activeFunc.df_dy(position.x, position.y) },
+    [secantAxis, activeFunc, position]);
+  const quotient = differenceQuotient(section.g, section.t0, secantH);
+  const quotientError = Math.abs(quotient - section.exact);
+  const secantTip = secantAxis === 'x'
+      ? { x: position.x + secantH, y: section.g(section.t0 + secantH), z: position.y }
+      : { x: position.x, y: section.g(section.t0 + secantH), z: position.y + secantH };
+  const errorSweep = useMemo(() => secantMode ? quotientTable(section.g, section.t0, section.exact, SWEEP_EXPONENTS) : [], [secantMode, section]);
+  const table = useMemo(() => secantMode ? quotientTable(section.g, section.t0, section.exact, TABLE_EXPONENTS) : [], [secantMode, section]);
+  const nearestRow = TABLE_EXPONENTS.reduce((best, e, i) =>
+      Math.abs(e - Math.log10(Math.abs(secantH))) < Math.abs(TABLE_EXPONENTS[best] - Math.log10(Math.abs(secantH))) ? i : best, 0);
+
+  // h → 0, a tenth of a decade per tick
+  useEffect(() => {
+    if (!isShrinking) return;
+    const interval = setInterval(() => setSecantH(prev => Math.abs(prev * SHRINK_FACTOR) < MIN_H ? Math.sign(prev) * MIN_H : prev * SHRINK_FACTOR), SHRINK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isShrinking]);
+
+  useEffect(() => {
+    if (Math.abs(secantH) <= MIN_H) setIsShrinking(false);
+  }, [secantH]);
+
+  const toggleShrink = () => {
+      if (!isShrinking && Math.abs(secantH) <= MIN_H) setSecantH(Math.sign(secantH));
+      setIsShrinking(!isShrinking);
+  };
+
+  // Mission
+  const mission = useMission(DERIVATIVE_MISSION, {
+      func: activeFunc, position, angle, secant: secantMode ? { h: secantH, error: quotientError } : null
+  });
+  const u = { x: Math.cos(angle), y: Math.sin(angle) };
+  const directional = slopeX * u.x + slopeY * u.y; // D_u f = ∇f · u
+  const gradientNorm = Math.hypot(slopeX, slopeY);
+  // Second order: Hessian at the probe, its eigen-decomposition and the critical point test
+  const hessianAt = useCallback((x: number, y: number) => ({ xx: hessian.xx.evaluate(x, y), xy: hessian.xy.evaluate(x, y), yy: hessian.yy.evaluate(x, y) }), [hessian]);
+  const curvature = analyzeHessian(hessianAt(position.x, position.y));
+  const isCritical = gradientNorm < CRITICAL_GRADIENT;
+  const [criticalMessage, setCriticalMessage] = useState<string | null>(null);
+  const goToCriticalPoint = () => {
+      const gradient = (x: number, y: number) => ({ x: activeFunc.df_dx(x, y), y: activeFunc.df_dy(x, y) });
+      const found = findCriticalPoint(gradient, hessianAt, position, activeFunc.range);
+      setCriticalMessage(found ? null : 'Newton no encontró un punto crítico cerca: prueba desde otro punto.');
+      if (found) setPosition(found);
+  };
+  const directionTip = { x: position.x + DIRECTION_LENGTH * u.x, y: zVal, z: position.y + DIRECTION_LENGTH * u.y };
+
   // Main Draw Loop
   const drawMain = useCallback(() => {
       const canvas = canvasRef.current;
@@ -237,7 +402,7 @@ export const DerivativeVisualizer: React.FC<DerivativeVisualizerProps> = ({ onNe
           let first = true;
           for(let x = -range; x <= range; x += step) {
               const p = { x, y: activeFunc.f(x,y), z: y }; 
-              const proj = project(p, w, h, camera, scale, pan);
+              const proj = project(p, w, h);
               if (first) { ctx.moveTo(proj.x, proj.y); first = false; }
               else ctx.lineTo(proj.x, proj.y);
           }
@@ -251,7 +416,7 @@ export const DerivativeVisualizer: React.FC<DerivativeVisualizerProps> = ({ onNe
           let first = true;
           for(let y = -range; y <= range; y += step) {
               const p = { x, y: activeFunc.f(x,y), z: y };
-              const proj = project(p, w, h, camera, scale, pan);
+              const proj = project(p, w, h);
               if (first) { ctx.moveTo(proj.x, proj.y); first = false; }
               else ctx.lineTo(proj.x, proj.y);
           }
@@ -260,10 +425,10 @@ export const DerivativeVisualizer: React.FC<DerivativeVisualizerProps> = ({ onNe
       }
 
       // 2. Axes
-      const origin = project({x:0, y:0, z:0}, w, h, camera, scale, pan);
-      const xAxis = project({x:4, y:0, z:0}, w, h, camera, scale, pan);
-      const yAxis = project({x:0, y:4, z:0}, w, h, camera, scale, pan); // Visual Y (Function value)
-      const zAxis = project({x:0, y:0, z:4}, w, h, camera, scale, pan); // Visual Z (Input y)
+      const origin = project({x:0, y:0, z:0}, w, h);
+      const xAxis = project({x:4, y:0, z:0}, w, h);
+      const yAxis = project({x:0, y:4, z:0}, w, h); // Visual Y (Function value)
+      const zAxis = project({x:0, y:0, z:4}, w, h); // Visual Z (Input y)
 
       ctx.beginPath(); ctx.moveTo(origin.x, origin.y); ctx.lineTo(xAxis.x, xAxis.y); ctx.strokeStyle = '#ef4444'; ctx.lineWidth=2; ctx.stroke(); // X
       ctx.beginPath(); ctx.moveTo(origin.x, origin.y); ctx.lineTo(yAxis.x, yAxis.y); ctx.strokeStyle = '#22c55e'; ctx.lineWidth=2; ctx.stroke(); // Y
@@ -271,10 +436,10 @@ export const DerivativeVisualizer: React.FC<DerivativeVisualizerProps> = ({ onNe
 
       // 3. Current Point
       const pt3D = { x: position.x, y: zVal, z: position.y };
-      const ptProj = project(pt3D, w, h, camera, scale, pan);
+      const ptProj = project(pt3D, w, h);
 
       // Drop Line
-      const floorProj = project({x: position.x, y: -3, z: position.y}, w, h, camera, scale, pan);
+      const floorProj = project({x: position.x, y: -3, z: position.y}, w, h);
       ctx.beginPath(); ctx.moveTo(ptProj.x, ptProj.y); ctx.lineTo(floorProj.x, floorProj.y);
       ctx.setLineDash([2,4]); ctx.strokeStyle = 'rgba(255,255,255,0.5)'; ctx.lineWidth=1; ctx.stroke(); ctx.setLineDash([]);
 
@@ -284,8 +449,8 @@ export const DerivativeVisualizer: React.FC<DerivativeVisualizerProps> = ({ onNe
       if (showTangentX) {
           const tX_start = { x: position.x - tangentLength, y: zVal - slopeX * tangentLength, z: position.y };
           const tX_end   = { x: position.x + tangentLength, y: zVal + slopeX * tangentLength, z: position.y };
-          const pStart = project(tX_start, w, h, camera, scale, pan);
-          const pEnd   = project(tX_end, w, h, camera, scale, pan);
+          const pStart = project(tX_start, w, h);
+          const pEnd   = project(tX_end, w, h);
           
           ctx.beginPath(); ctx.moveTo(pStart.x, pStart.y); ctx.lineTo(pEnd.x, pEnd.y);
           ctx.strokeStyle = '#f472b6'; // Pink
@@ -295,20 +460,127 @@ export const DerivativeVisualizer: React.FC<DerivativeVisualizerProps> = ({ onNe
       if (showTangentY) {
           const tY_start = { x: position.x, y: zVal - slopeY * tangentLength, z: position.y - tangentLength };
           const tY_end   = { x: position.x, y: zVal + slopeY * tangentLength, z: position.y + tangentLength };
-          const pStart = project(tY_start, w, h, camera, scale, pan);
-          const pEnd   = project(tY_end, w, h, camera, scale, pan);
+          const pStart = project(tY_start, w, h);
+          const pEnd   = project(tY_end, w, h);
 
           ctx.beginPath(); ctx.moveTo(pStart.x, pStart.y); ctx.lineTo(pEnd.x, pEnd.y);
           ctx.strokeStyle = '#22d3ee'; // Cyan
           ctx.lineWidth = 4; ctx.stroke();
       }
 
+      // 5. Tangent plane: z = f(x₀,y₀) + ∂f/∂x·(x - x₀) + ∂f/∂y·(y - y₀)
+      if (showPlane) {
+          const planeAt = (dx: number, dy: number) =>
+              project({ x: position.x + dx, y: zVal + slopeX * dx + slopeY * dy, z: position.y + dy }, w, h);
+          const corners = [planeAt(-PLANE_HALF, -PLANE_HALF), planeAt(PLANE_HALF, -PLANE_HALF), planeAt(PLANE_HALF, PLANE_HALF), planeAt(-PLANE_HALF, PLANE_HALF)];
+          ctx.beginPath();
+          corners.forEach((c, i) => { if (i === 0) ctx.moveTo(c.x, c.y); else ctx.lineTo(c.x, c.y); });
+          ctx.closePath();
+          ctx.fillStyle = 'rgba(167, 139, 250, 0.2)'; ctx.fill();
+          ctx.strokeStyle = 'rgba(167, 139, 250, 0.8)'; ctx.lineWidth = 1; ctx.stroke();
+          ctx.strokeStyle = 'rgba(167, 139, 250, 0.35)';
+          for (let k = 1; k < PLANE_LINES; k++) {
+              const t = -PLANE_HALF + 2 * PLANE_HALF * k / PLANE_LINES;
+              const a = planeAt(t, -PLANE_HALF), b = planeAt(t, PLANE_HALF);
+              const c = planeAt(-PLANE_HALF, t), d = planeAt(PLANE_HALF, t);
+              ctx.beginPath(); ctx.moveTo(a.x, a.y); ctx.lineTo(b.x, b.y); ctx.moveTo(c.x, c.y); ctx.lineTo(d.x, d.y); ctx.stroke();
+          }
+      }
+
+      // Horizontal arrow from the point, at its height
+      const drawArrow = (dirX: number, dirY: number, color: string) => {
+          const tipProj = project({ x: position.x + dirX, y: zVal, z: position.y + dirY }, w, h);
+          ctx.beginPath(); ctx.moveTo(ptProj.x, ptProj.y); ctx.lineTo(tipProj.x, tipProj.y);
+          ctx.strokeStyle = color; ctx.lineWidth = 3; ctx.stroke();
+
+          // Arrowhead
+          const heading = Math.atan2(tipProj.y - ptProj.y, tipProj.x - ptProj.x);
+          ctx.beginPath();
+          ctx.moveTo(tipProj.x, tipProj.y);
+          ctx.lineTo(tipProj.x - 8*Math.cos(heading-Math.PI/6), tipProj.y - 8*Math.sin(heading-Math.PI/6));
+          ctx.lineTo(tipProj.x - 8*Math.cos(heading+Math.PI/6), tipProj.y - 8*Math.sin(heading+Math.PI/6));
+          ctx.fillStyle = color; ctx.fill();
+      };
+
+      // 6. Gradient: the direction of steepest ascent, |∇f| long
+      if (showGradient && gradientNorm > 1e-6) drawArrow(slopeX, slopeY, '#4ade80');
+
+      // 7. Direction u, its handle, and the tangent line along it (slope D_u f)
+      if (showDirection) {
+          const tDStart = { x: position.x - tangentLength * u.x, y: zVal - directional * tangentLength, z: position.y - tangentLength * u.y };
+          const tDEnd   = { x: position.x + tangentLength * u.x, y: zVal + directional * tangentLength, z: position.y + tangentLength * u.y };
+          const pStart = project(tDStart, w, h);
+          const pEnd   = project(tDEnd, w, h);
+          ctx.beginPath(); ctx.moveTo(pStart.x, pStart.y); ctx.lineTo(pEnd.x, pEnd.y);
+          ctx.strokeStyle = '#facc15'; // Yellow
+          ctx.lineWidth = 4; ctx.stroke();
+
+          drawArrow(DIRECTION_LENGTH * u.x, DIRECTION_LENGTH * u.y, 'rgba(250, 204, 21, 0.6)');
+          const handle = project({ x: position.x + DIRECTION_LENGTH * u.x, y: zVal, z: position.y + DIRECTION_LENGTH * u.y }, w, h);
+          ctx.beginPath(); ctx.arc(handle.x, handle.y, 5, 0, Math.PI*2);
+          ctx.fillStyle = '#facc15'; ctx.fill(); ctx.strokeStyle = '#fff'; ctx.lineWidth = 1; ctx.stroke();
+          ctx.fillStyle = '#facc15'; ctx.font = 'bold 11px monospace';
+          ctx.fillText('u', handle.x + 8, handle.y - 4);
+      }
+
+      // 8. Secant through f(t) and f(t + h), with its run h and rise Δf
+      if (secantMode) {
+          const along = (s: number, height: number) => secantAxis === 'x'
+              ? { x: position.x + s, y: height, z: position.y }
+              : { x: position.x, y: height, z: position.y + s };
+          const from = Math.min(0, secantH) - SECANT_REACH;
+          const to = Math.max(0, secantH) + SECANT_REACH;
+          const pStart = project(along(from, zVal + quotient * from), w, h);
+          const pEnd = project(along(to, zVal + quotient * to), w, h);
+          ctx.beginPath(); ctx.moveTo(pStart.x, pStart.y); ctx.lineTo(pEnd.x, pEnd.y);
+          ctx.strokeStyle = SECANT_COLOR; ctx.lineWidth = 2; ctx.stroke();
+
+          const corner = project(along(secantH, zVal), w, h);
+          const tipProj = project(secantTip, w, h);
+          ctx.beginPath(); ctx.moveTo(ptProj.x, ptProj.y); ctx.lineTo(corner.x, corner.y); ctx.lineTo(tipProj.x, tipProj.y);
+          ctx.setLineDash([3,3]); ctx.strokeStyle = 'rgba(251, 146, 60, 0.7)'; ctx.lineWidth = 1; ctx.stroke(); ctx.setLineDash([]);
+          ctx.fillStyle = SECANT_COLOR; ctx.font = 'bold 11px monospace';
+          ctx.fillText('h', (ptProj.x + corner.x) / 2, (ptProj.y + corner.y) / 2 + 12);
+          ctx.fillText('Δf', corner.x + 6, (corner.y + tipProj.y) / 2);
+
+          ctx.beginPath(); ctx.arc(tipProj.x, tipProj.y, 5, 0, Math.PI*2);
+          ctx.fillStyle = SECANT_COLOR; ctx.fill(); ctx.strokeStyle = '#fff'; ctx.lineWidth = 1; ctx.stroke();
+      }
+
+      // 9. Principal directions of the Hessian, as curves on the surface: they bend up (green) or down (red)
+      if (showCurvature) {
+          curvature.directions.forEach((e, k) => {
+              const lambda = curvature.eigenvalues[k];
+              const points = Array.from({ length: CURVATURE_SAMPLES + 1 }, (_, i) => {
+                  const s = -CURVATURE_REACH + 2 * CURVATURE_REACH * i / CURVATURE_SAMPLES;
+                  const x = position.x + s * e.x, y = position.y + s * e.y;
+                  return project({ x, y: activeFunc.f(x, y), z: y }, w, h);
+              });
+              ctx.beginPath();
+              points.forEach((p, i) => { if (i === 0) ctx.moveTo(p.x, p.y); else ctx.lineTo(p.x, p.y); });
+              ctx.strokeStyle = curvatureColor(lambda); ctx.lineWidth = 3; ctx.stroke();
+
+              // Arrowhead at the + end of the eigenvector
+              const tip = points[points.length - 1];
+              const prev = points[points.length - 2];
+              const heading = Math.atan2(tip.y - prev.y, tip.x - prev.x);
+              ctx.beginPath();
+              ctx.moveTo(tip.x, tip.y);
+              ctx.lineTo(tip.x - 9*Math.cos(heading-Math.PI/6), tip.y - 9*Math.sin(heading-Math.PI/6));
+              ctx.lineTo(tip.x - 9*Math.cos(heading+Math.PI/6), tip.y - 9*Math.sin(heading+Math.PI/6));
+              ctx.fillStyle = curvatureColor(lambda); ctx.fill();
+              ctx.font = 'bold 11px monospace';
+              ctx.fillText(`λ${k === 0 ? '₁' : '₂'}`, tip.x + 6, tip.y - 6);
+          });
+      }
+
       // Draw Point
       ctx.beginPath(); ctx.arc(ptProj.x, ptProj.y, 6, 0, Math.PI*2);
       ctx.fillStyle = '#fff'; ctx.fill(); 
       ctx.strokeStyle = '#000'; ctx.stroke();
 
-  }, [position, zVal, slopeX, slopeY, showTangentX, showTangentY, camera, scale, pan, activeFunc]);
+  }, [position, zVal, slopeX, slopeY, showTangentX, showTangentY, project, activeFunc, u.x, u.y, directional, gradientNorm, showDirection, showPlane, showGradient,
+      secantMode, secantAxis, secantH, quotient, secantTip.x, secantTip.y, secantTip.z, showCurvature, curvature]);
 
   // Event Loop
   useEffect(() => {
@@ -325,50 +597,60 @@ export const DerivativeVisualizer: React.FC<DerivativeVisualizerProps> = ({ onNe
 
   // Interaction
   const handleMouseDown = (e: React.MouseEvent) => {
-      const rect = canvasRef.current!.getBoundingClientRect();
-      const mx = e.clientX - rect.left;
-      const my = e.clientY - rect.top;
+      const mouse = getCanvasPoint(e, canvasRef.current!);
+      const mx = mouse.x;
+      const my = mouse.y;
       const w = canvasRef.current!.width;
       const h = canvasRef.current!.height;
 
-      const ptProj = project({ x: position.x, y: zVal, z: position.y }, w, h, camera, scale, pan);
+      const ptProj = project({ x: position.x, y: zVal, z: position.y }, w, h);
+      const handleProj = project(directionTip, w, h);
+      
+      const secantProj = project(secantTip, w, h);
       
-      if (Math.hypot(mx - ptProj.x, my - ptProj.y) < 20) {
+      if (secantMode && Math.hypot(mx - secantProj.x, my - secantProj.y) < 15) {
+          setDragging('SECANT');
+          setIsShrinking(false);
+      } else if (showDirection && Math.hypot(mx - handleProj.x, my - handleProj.y) < 15) {
+          setDragging('DIRECTION');
+      } else if (Math.hypot(mx - ptProj.x, my - ptProj.y) < 20) {
           setDragging('POINT');
       } else {
           setDragging('CAMERA');
       }
-      lastMouse.current = { x: e.clientX, y: e.clientY };
+      lastMouse.current = mouse;
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-      if (!dragging) return;
-      const dx = e.clientX - lastMouse.current.x;
-      const dy = e.clientY - lastMouse.current.y;
-      lastMouse.current = { x: e.clientX, y: e.clientY };
+      if (!dragging || !canvasRef.current) return;
+      const mouse = getCanvasPoint(e, canvasRef.current);
+      const { width, height } = canvasRef.current;
+      const prevMouse = lastMouse.current;
+      lastMouse.current = mouse;
 
       if (dragging === 'CAMERA') {
-          setCamera(prev => ({ x: prev.x + dy * 0.01, y: prev.y + dx * 0.01 }));
+          orbit(prevMouse, mouse, width, height);
+      } else if (dragging === 'SECANT') {
+          // f(t + h) slides along the surface, on the line through the point
+          const hit = pickSurface(mouse, width, height, activeFunc.f, 3);
+          const next = hit ? (secantAxis === 'x' ? hit.x - position.x : hit.z - position.y) : 0;
+          if (Math.abs(next) >= MIN_H) setSecantH(next);
+      } else if (dragging === 'DIRECTION') {
+          // u turns in the horizontal plane through the point, towards the cursor
+          const hit = pick(mouse, width, height, { x: position.x, y: zVal, z: position.y }, { x: 0, y: 1, z: 0 });
+          if (hit && Math.hypot(hit.x - position.x, hit.z - position.y) > 1e-3) setAngle(Math.atan2(hit.z - position.y, hit.x - position.x));
       } else {
-          // Drag Point Logic
-          const sensitivity = 1.0 / scale;
-          const cosY = Math.cos(camera.y);
-          const sinY = Math.sin(camera.y);
-          const dX = (dx * cosY) * sensitivity;
-          const dZ = (dx * sinY) * sensitivity; 
-          const dZ2 = -(dy * sensitivity); 
-
-          setPosition(prev => ({
-              x: Math.max(-3, Math.min(3, prev.x + dX)),
-              y: Math.max(-3, Math.min(3, prev.y + dZ + dZ2))
-          }));
+          // The point slides on the surface, right under the cursor (visual Z = input y)
+          const hit = pickSurface(mouse, width, height, activeFunc.f, 3);
+          if (hit) setPosition({ x: hit.x, y: hit.z });
       }
   };
 
   const handleMouseUp = () => setDragging(null);
   const handleWheel = (e: React.WheelEvent) => {
+      if (!canvasRef.current) return;
       const zoomFactor = e.deltaY < 0 ? 1.1 : 0.9;
-      setScale(prev => Math.max(20, Math.min(150, prev * zoomFactor)));
+      zoom(getCanvasPoint(e, canvasRef.current), zoomFactor, canvasRef.current.width, canvasRef.current.height);
   };
 
   return (
@@ -385,15 +667,19 @@ export const DerivativeVisualizer: React.FC<DerivativeVisualizerProps> = ({ onNe
                     <div className="relative">
                         <select 
                             value={funcIndex} 
-                            onChange={(e) => { setFuncIndex(parseInt(e.target.value)); setPosition({x:0, y:0}); }}
+                            onChange={(e) => { setFuncIndex(parseInt(e.target.value)); setPosition({x:0, y:0}); setCriticalMessage(null); }}
                             className="w-full bg-slate-800 text-white text-xs p-2 rounded border border-slate-700 outline-none appearance-none cursor-pointer hover:border-cyan-400 transition-colors"
                         >
                             {FUNCTIONS.map((func, i) => (
                                 <option key={func.id} value={i}>{func.name}</option>
                             ))}
+                            <option value={CUSTOM_INDEX}>{customFunc.name}</option>
                         </select>
                         <div className="absolute right-2 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400 text-xs">▼</div>
                     </div>
+                    {funcIndex === CUSTOM_INDEX && (
+                        <FunctionInput value={custom.source} error={custom.error} onChange={custom.setSource} />
+                    )}
                 </div>
 
                 {/* Main Math Display */}
@@ -404,11 +690,11 @@ export const DerivativeVisualizer: React.FC<DerivativeVisualizerProps> = ({ onNe
                     <div className="grid grid-cols-2 gap-4 pt-1">
                         <div className="flex flex-col items-center">
                             <div className="text-[10px] text-pink-400 font-bold font-sans mb-1">PARCIAL X</div>
-                            <div className="text-white text-sm italic">∂f/∂x = {activeFunc.dx_str}</div>
+                            <div className="text-white text-sm italic text-center break-words">∂f/∂x = {activeFunc.dx_str}</div>
                         </div>
                         <div className="flex flex-col items-center border-l border-slate-800">
                             <div className="text-[10px] text-cyan-400 font-bold font-sans mb-1">PARCIAL Y</div>
-                            <div className="text-white text-sm italic">∂f/∂y = {activeFunc.dy_str}</div>
+                            <div className="text-white text-sm italic text-center break-words">∂f/∂y = {activeFunc.dy_str}</div>
                         </div>
                     </div>
                 </div>
@@ -429,6 +715,8 @@ export const DerivativeVisualizer: React.FC<DerivativeVisualizerProps> = ({ onNe
                          <div className="text-right text-[9px] text-slate-400 mt-1">y = {position.y.toFixed(1)}</div>
                     </div>
                 </div>
+
+                <CameraControls camera={camera} onPreset={setPreset} onProjection={setProjection} onReset={() => reset()} />
             </div>
         </DraggableWindow>
 
@@ -471,9 +759,207 @@ export const DerivativeVisualizer: React.FC<DerivativeVisualizerProps> = ({ onNe
                         height={100}
                     />
                 </div>
+
+                {/* HESSIAN */}
+                <div className="space-y-1 pt-2 border-t border-slate-700">
+                    <span className="text-[10px] font-bold text-yellow-400">MATRIZ HESSIANA (curvatura)</span>
+                    <div className="grid grid-cols-2 gap-1 font-mono text-[9px]">
+                        {([['∂²f/∂x²', hessian.xx], ['∂²f/∂x∂y', hessian.xy], ['∂²f/∂y∂x', hessian.xy], ['∂²f/∂y²', hessian.yy]] as const).map(([label, entry]) => (
+                            <div key={label} className="bg-slate-950/60 border border-slate-800 rounded p-1">
+                                <div className="text-slate-500">{label}</div>
+                                <div className="text-slate-300 break-words">{entry.formula}</div>
+                                <div className="text-white text-right">{entry.evaluate(position.x, position.y).toFixed(2)}</div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                {/* EIGENVALUES AND CRITICAL POINT TEST */}
+                <div className="space-y-2 pt-2 border-t border-slate-700">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="checkbox" checked={showCurvature} onChange={e => setShowCurvature(e.target.checked)} className="accent-green-400" />
+                        <span className="text-[10px] font-bold text-green-400">VER DIRECCIONES PRINCIPALES</span>
+                    </label>
+                    <div className="grid grid-cols-2 gap-1 font-mono text-[9px]">
+                        {curvature.eigenvalues.map((lambda, k) => (
+                            <div key={k} className="bg-slate-950/60 border border-slate-800 rounded p-1">
+                                <div style={{ color: curvatureColor(lambda) }}>λ{k === 0 ? '₁' : '₂'} = {lambda.toFixed(3)}</div>
+                                <div className="text-slate-500">e = ({curvature.directions[k].x.toFixed(2)}, {curvature.directions[k].y.toFixed(2)})</div>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="text-[9px] font-mono text-slate-500 flex justify-between">
+                        <span>det H = λ₁λ₂ = {curvature.determinant.toFixed(3)}</span>
+                        <span>tr H = {curvature.trace.toFixed(3)}</span>
+                    </div>
+                    <div className="p-2 rounded border bg-slate-950/60 text-[10px]" style={{ borderColor: CRITICAL_KINDS[curvature.kind].color }}>
+                        <div className="flex justify-between font-bold" style={{ color: CRITICAL_KINDS[curvature.kind].color }}>
+                            <span>{isCritical ? `PUNTO CRÍTICO: ${CRITICAL_KINDS[curvature.kind].name.toUpperCase()}` : `Si fuera crítico: ${CRITICAL_KINDS[curvature.kind].name.toLowerCase()}`}</span>
+                            <span className="font-mono">{CRITICAL_KINDS[curvature.kind].rule}</span>
+                        </div>
+                        <p className="text-slate-400 text-[9px] leading-tight mt-1">
+                            {isCritical
+                                ? CRITICAL_KINDS[curvature.kind].description
+                                : `Aquí |∇f| = ${gradientNorm.toFixed(2)} ≠ 0: no es un punto crítico, pero la Hessiana ya dice cómo se curva f.`}
+                        </p>
+                    </div>
+                    <button onClick={goToCriticalPoint}
+                        className="w-full py-1 text-[10px] font-bold rounded bg-slate-800 border border-slate-700 text-slate-300 hover:text-white hover:border-green-400">
+                        ⌖ IR AL PUNTO CRÍTICO MÁS CERCANO (NEWTON)
+                    </button>
+                    {criticalMessage && <p className="text-[9px] text-yellow-400">{criticalMessage}</p>}
+                </div>
             </div>
         </DraggableWindow>
 
+        {/* DIRECTIONAL DERIVATIVE */}
+        <DraggableWindow title="DERIVADA DIRECCIONAL" initialPosition={{x: 350, y: 20}} width="w-72">
+            <div className="space-y-3">
+                <div className="grid grid-cols-3 gap-1">
+                    {([
+                        ['VER u', showDirection, setShowDirection, 'text-yellow-400', 'accent-yellow-400'],
+                        ['VER ∇f', showGradient, setShowGradient, 'text-green-400', 'accent-green-400'],
+                        ['PLANO', showPlane, setShowPlane, 'text-violet-400', 'accent-violet-400']
+                    ] as const).map(([label, checked, set, text, accent]) => (
+                        <label key={label} className="flex items-center gap-1 p-1 rounded border border-slate-700 bg-slate-800 cursor-pointer">
+                            <input type="checkbox" checked={checked} onChange={e => set(e.target.checked)} className={accent} />
+                            <span className={`text-[9px] font-bold ${text}`}>{label}</span>
+                        </label>
+                    ))}
+                </div>
+
+                <div className="space-y-1">
+                    <div className="flex justify-between text-[10px]">
+                        <span className="font-bold text-yellow-400">DIRECCIÓN u</span>
+                        <span className="font-mono text-slate-300">({u.x.toFixed(2)}, {u.y.toFixed(2)}) · {((angle * 180 / Math.PI + 360) % 360).toFixed(0)}°</span>
+                    </div>
+                    <input
+                        type="range" min="0" max="360" step="1"
+                        value={Math.round((angle * 180 / Math.PI + 360) % 360)}
+                        onChange={(e) => setAngle(Number(e.target.value) * Math.PI / 180)}
+                        className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-yellow-400"
+                    />
+                </div>
+
+                <div className="bg-slate-950/80 p-2 rounded border border-slate-800 font-mono text-[10px] space-y-1">
+                    <div className="flex justify-between">
+                        <span className="text-green-400">∇f = (∂f/∂x, ∂f/∂y)</span>
+                        <span className="text-white">({slopeX.toFixed(2)}, {slopeY.toFixed(2)})</span>
+                    </div>
+                    <div className="flex justify-between">
+                        <span className="text-yellow-400">D_u f = ∇f · u</span>
+                        <span className="text-white">{directional.toFixed(3)}</span>
+                    </div>
+                    <div className="flex justify-between text-slate-500">
+                        <span>máx = |∇f|</span>
+                        <span>{gradientNorm.toFixed(3)}</span>
+                    </div>
+                </div>
+
+                <DirectionalPolarPlot gradient={{ x: slopeX, y: slopeY }} angle={angle} onAngleChange={setAngle} />
+                <p className="text-[9px] text-slate-500 leading-tight">
+                    Distancia al centro = |D_u f| al girar u (verde: sube, rojo: baja). La curva es |∇f|·|cos α|: el máximo está justo en la dirección de ∇f y es cero en perpendicular.
+                </p>
+            </div>
+        </DraggableWindow>
+
+        {/* LIMIT DEFINITION */}
+        <DraggableWindow title="DEFINICIÓN: LÍMITE DEL COCIENTE" initialPosition={{x: 680, y: 20}} width="w-80">
+            <div className="space-y-3">
+                <button onClick={() => { setSecantMode(!secantMode); setIsShrinking(false); }}
+                    className={`w-full py-1.5 text-[10px] font-bold rounded border transition-colors ${secantMode ? 'bg-orange-600/20 text-orange-300 border-orange-500' : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-white'}`}>
+                    {secantMode ? 'MODO SECANTE ACTIVO' : 'VER LA SECANTE'}
+                </button>
+                {secantMode ? (
+                    <>
+                        <div className="flex bg-slate-800 p-1 rounded border border-slate-700">
+                            {(['x', 'y'] as SecantAxis[]).map(axis => (
+                                <button key={axis} onClick={() => setSecantAxis(axis)}
+                                    className={`flex-1 py-1 text-[9px] font-bold transition-colors ${secantAxis === axis ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
+                                    ∂f/∂{axis}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-center font-serif italic text-white text-sm">
+                            ∂f/∂{secantAxis} = lím<sub>h→0</sub> [f({secantAxis === 'x' ? 'x + h, y' : 'x, y + h'}) − f(x, y)] / h
+                        </p>
+
+                        <div className="space-y-1">
+                            <div className="flex justify-between text-[10px]">
+                                <span className="font-bold text-orange-400">h</span>
+                                <span className="font-mono text-white">{formatH(secantH)}</span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <button onClick={toggleShrink}
+                                    className="px-2 py-1 text-[10px] font-bold rounded bg-slate-800 border border-slate-700 text-orange-300 hover:border-orange-400">
+                                    {isShrinking ? '⏸' : '▶ h → 0'}
+                                </button>
+                                <button onClick={() => setSecantH(-secantH)} title="Cambiar el signo de h"
+                                    className="px-2 py-1 text-[10px] font-bold rounded bg-slate-800 border border-slate-700 text-slate-300 hover:text-white">±</button>
+                                <input
+                                    type="range" min={MIN_H_EXPONENT} max={MAX_H_EXPONENT} step="0.1"
+                                    value={Math.log10(Math.abs(secantH))}
+                                    onChange={(e) => { setIsShrinking(false); setSecantH(Math.sign(secantH) * 10 ** Number(e.target.value)); }}
+                                    className="flex-1 h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-orange-400"
+                                />
+                            </div>
+                            <p className="text-[9px] text-slate-600">Escala logarítmica. También puedes arrastrar el punto naranja sobre la superficie.</p>
+                        </div>
+
+                        <div className="bg-slate-950/80 p-2 rounded border border-slate-800 font-mono text-[10px] space-y-1">
+                            <div className="flex justify-between">
+                                <span className="text-orange-400">Cociente Δf / h</span>
+                                <span className="text-white">{quotient.toPrecision(12)}</span>
+                            </div>
+                            <div className="flex justify-between">
+                                <span className="text-slate-400">Derivada exacta</span>
+                                <span className="text-white">{section.exact.toPrecision(12)}</span>
+                            </div>
+                            <div className="flex justify-between text-slate-500">
+                                <span>Error</span>
+                                <span>{quotientError.toExponential(2)}</span>
+                            </div>
+                        </div>
+
+                        <table className="w-full text-[9px] font-mono">
+                            <thead>
+                                <tr className="text-slate-500"><th className="text-left">h</th><th className="text-right">Δf / h</th><th className="text-right">error</th></tr>
+                            </thead>
+                            <tbody>
+                                {table.map((row, i) => (
+                                    <tr key={row.h} className={i === nearestRow ? 'text-orange-300 bg-slate-800' : 'text-slate-400'}>
+                                        <td>1e{TABLE_EXPONENTS[i]}</td>
+                                        <td className="text-right">{row.quotient.toPrecision(10)}</td>
+                                        <td className="text-right">{row.error.toExponential(1)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+
+                        <ConvergenceChart
+                            series={[{ id: 'error', color: SECANT_COLOR, values: errorSweep.map(r => r.error) }]}
+                            logScale
+                            logFloor={1e-17}
+                            xValues={errorSweep.map(r => r.h)}
+                            logX
+                            xLabel="h (log)"
+                            marker={Math.abs(secantH)}
+                        />
+                        <p className="text-[9px] text-slate-500 leading-tight">
+                            Al bajar h el error cae (la secante se acerca a la tangente) hasta h ≈ 10⁻⁸. Más abajo f(x + h) y f(x) coinciden en casi todas sus cifras: al restarlas se pierden (cancelación) y el redondeo, dividido por h, domina.
+                        </p>
+                    </>
+                ) : (
+                    <p className="text-[9px] text-slate-500 leading-tight">
+                        La derivada es el límite de las pendientes de las secantes. Activa el modo secante y haz que h tienda a 0.
+                    </p>
+                )}
+            </div>
+        </DraggableWindow>
+
+        {/* Mission */}
+        <MissionPanel status={mission} />
+
         {/* Theoretical Guide */}
         <DraggableWindow title="GUÍA TEÓRICA: DERIVADAS" initialPosition={{x: 350, y: 500}} width="w-96">
             <div className="text-xs text-slate-400 font-mono space-y-2">
@@ -483,6 +969,15 @@ export const DerivativeVisualizer: React.FC<DerivativeVisualizerProps> = ({ onNe
                     <li>Si la <strong className="text-pink-400">tangente rosa</strong> apunta hacia arriba, el punto en la <strong className="text-pink-400">gráfica de abajo</strong> estará ALTO (positivo).</li>
                     <li>Si la tangente apunta hacia abajo, el punto en la gráfica de derivada estará BAJO (negativo).</li>
                     <li>Si estás en una cima o valle, la derivada cruza CERO (altura media).</li>
+                    <li>La <strong className="text-orange-400">secante</strong> por f(x) y f(x + h) tiene pendiente Δf / h; cuando h → 0 gira hasta ser la tangente. En el ordenador h no puede bajar sin límite: la resta pierde cifras.</li>
+                </ul>
+                <p className="text-white font-bold mt-2">Cualquier dirección</p>
+                <ul className="list-disc pl-4 space-y-1 text-[10px]">
+                    <li>La <strong className="text-yellow-400">derivada direccional</strong> D_u f = ∇f · u es la pendiente al caminar en la dirección unitaria u. Las parciales son los casos u = (1, 0) y u = (0, 1).</li>
+                    <li>Como ∇f · u = |∇f|·cos α, la pendiente máxima es |∇f| y se alcanza cuando u apunta como el <strong className="text-green-400">gradiente</strong>.</li>
+                    <li>La <strong className="text-yellow-400">Hessiana</strong> reúne las segundas derivadas. Sus autovalores λ₁ ≥ λ₂ miden la curvatura en las dos direcciones principales (perpendiculares).</li>
+                    <li>En un punto crítico (∇f = 0): ambos λ &gt; 0 → mínimo, ambos &lt; 0 → máximo, signos opuestos → silla (det H &lt; 0), algún λ = 0 → el test no decide.</li>
+                    <li>Todas las rectas tangentes viven en el <strong className="text-violet-400">plano tangente</strong>: es la mejor aproximación lineal de f cerca del punto.</li>
                 </ul>
             </div>
         </DraggableWindow>
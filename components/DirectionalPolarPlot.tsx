@@ -0,0 +1,79 @@
+import React from 'react';
+import { Vector2D } from '../types';
+
+interface DirectionalPolarPlotProps {
+  gradient: Vector2D;                   // ∇f at the point
+  angle: number;                        // Direction of u (rad, from +x towards +y)
+  onAngleChange: (angle: number) => void;
+}
+
+const SIZE = 200;
+const CENTER = SIZE / 2;
+const RADIUS = 80;                      // |∇f| is drawn at this radius
+const SAMPLES = 180;
+const FLAT = 1e-6;                      // |∇f| below this: every direction is flat
+
+const toScreen = (r: number, theta: number): Vector2D => ({ x: CENTER + r * Math.cos(theta), y: CENTER - r * Math.sin(theta) });
+
+// |D_u f| = |∇f·u| as u turns around the point: two touching circles, the positive one along ∇f.
+// Click or drag to point u.
+export const DirectionalPolarPlot: React.FC<DirectionalPolarPlotProps> = ({ gradient, angle, onAngleChange }) => {
+  const magnitude = Math.hypot(gradient.x, gradient.y);
+  const scale = magnitude > FLAT ? RADIUS / magnitude : 0;
+  const derivative = (theta: number) => gradient.x * Math.cos(theta) + gradient.y * Math.sin(theta);
+
+  // One path per sign, restarting wherever D_u f changes sign
+  const lobes = (sign: 1 | -1) => {
+    let d = '';
+    let drawing = false;
+    for (let k = 0; k <= SAMPLES; k++) {
+      const theta = 2 * Math.PI * k / SAMPLES;
+      const value = derivative(theta) * sign;
+      if (value < 0) { drawing = false; continue; }
+      const p = toScreen(value * scale, theta);
+      d += `${drawing ? 'L' : 'M'}${p.x},${p.y} `;
+      drawing = true;
+    }
+    return d;
+  };
+
+  const current = derivative(angle);
+  const tip = toScreen(Math.abs(current) * scale, angle);
+  const uEnd = toScreen(RADIUS, angle);
+  const steepest = Math.atan2(gradient.y, gradient.x);
+  const gradientEnd = toScreen(RADIUS, steepest);
+
+  const handlePointer = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (e.type === 'mousemove' && !(e.buttons & 1)) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onAngleChange(Math.atan2(CENTER - (e.clientY - rect.top), e.clientX - rect.left - CENTER));
+  };
+
+  return (
+    <svg width={SIZE} height={SIZE} className="bg-slate-950/50 rounded border border-slate-800 cursor-pointer mx-auto block"
+      onMouseDown={handlePointer} onMouseMove={handlePointer}>
+      {/* Reference: |∇f|, the largest possible slope */}
+      <circle cx={CENTER} cy={CENTER} r={RADIUS} fill="none" stroke="#334155" strokeDasharray="3 3" />
+      <line x1={CENTER - RADIUS - 8} x2={CENTER + RADIUS + 8} y1={CENTER} y2={CENTER} stroke="#1e293b" />
+      <line x1={CENTER} x2={CENTER} y1={CENTER - RADIUS - 8} y2={CENTER + RADIUS + 8} stroke="#1e293b" />
+      <text x={SIZE - 6} y={CENTER - 3} textAnchor="end" fontSize="8" fill="#ef4444" fontFamily="monospace">x</text>
+      <text x={CENTER + 3} y={10} fontSize="8" fill="#3b82f6" fontFamily="monospace">y</text>
+
+      {scale > 0 ? (
+        <>
+          <path d={lobes(1)} fill="rgba(74, 222, 128, 0.15)" stroke="#4ade80" strokeWidth={1.5} />
+          <path d={lobes(-1)} fill="rgba(248, 113, 113, 0.1)" stroke="#f87171" strokeWidth={1} strokeDasharray="3 2" />
+          <line x1={CENTER} y1={CENTER} x2={gradientEnd.x} y2={gradientEnd.y} stroke="#4ade80" strokeWidth={2} />
+          <text x={gradientEnd.x} y={gradientEnd.y - 4} textAnchor="middle" fontSize="8" fill="#4ade80" fontFamily="monospace">∇f</text>
+        </>
+      ) : (
+        <text x={CENTER} y={SIZE - 8} textAnchor="middle" fontSize="8" fill="#64748b" fontFamily="monospace">∇f = 0: todas las direcciones son planas</text>
+      )}
+
+      {/* Current direction */}
+      <line x1={CENTER} y1={CENTER} x2={uEnd.x} y2={uEnd.y} stroke="#facc15" strokeDasharray="4 2" />
+      <circle cx={tip.x} cy={tip.y} r={4} fill={current >= 0 ? '#4ade80' : '#f87171'} stroke="#fff" />
+      <text x={uEnd.x} y={uEnd.y + 10} textAnchor="middle" fontSize="8" fill="#facc15" fontFamily="monospace">u</text>
+    </svg>
+  );
+};
@@ -0,0 +1,674 @@
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { DraggableWindow } from './DraggableWindow';
+import { MissionPanel } from './MissionPanel';
+import { FunctionInput } from './FunctionInput';
+import { CameraControls } from './CameraControls';
+import { Vector2D, ViewState } from '../types';
+import { ShareButton } from './ShareButton';
+import { useCamera, getCanvasPoint } from '../hooks/useCamera';
+import { useMission } from '../hooks/useMission';
+import { useCustomField } from '../hooks/useCustomField';
+import { useSharedScene, useSceneAutosave } from '../hooks/useSharedScene';
+import { usePolygonDraft, MAX_POLYGON_VERTICES } from '../hooks/usePolygonDraft';
+import { CameraState } from '../utils/camera';
+import { SceneCodec, isRecord, readIndex, readBoolean, readNumber, readVector2, readCamera, readExpression } from '../utils/sceneState';
+import { Mission } from '../utils/missions';
+import { FieldSources, VectorField, analyzeField, compileField } from '../utils/vectorField';
+import { circleFlux, polygonFlux, divergenceIntegral, signedArea, edgeNormal, isSimplePath } from '../utils/flux';
+
+interface DivergenceLevelProps {
+  onPrevLevel?: () => void;
+  onNextLevel?: () => void;
+}
+
+// --- VECTOR FIELDS ---
+// F = <P, Q> on the plane; a probe circle measures how much of it leaves through the boundary
+interface FieldDefinition extends VectorField {
+    id: string;
+    name: string;
+    desc: string;
+    eq: string;
+}
+
+const FIELDS: FieldDefinition[] = [
+    {
+        id: 'source',
+        name: 'Explosión (Fuente)',
+        desc: 'Todo se aleja del centro. Cualquier círculo, esté donde esté, deja salir más fluido del que entra: la divergencia vale 2 en todas partes.',
+        P: (x: number, y: number) => x,
+        Q: (x: number, y: number) => y,
+        eq: 'F = <x, y>'
+    },
+    {
+        id: 'sink',
+        name: 'Desagüe (Sumidero)',
+        desc: 'Todo converge hacia el centro. Entra más de lo que sale: el fluido se acumula (o se escapa por un desagüe que no vemos).',
+        P: (x: number, y: number) => -x,
+        Q: (x: number, y: number) => -y,
+        eq: 'F = <-x, -y>'
+    },
+    {
+        id: 'vortex',
+        name: 'Remolino (Vortex)',
+        desc: 'Mucho movimiento y flujo neto cero: lo que entra por un lado del círculo sale por el otro. Girar no es divergir.',
+        P: (x: number, y: number) => -y,
+        Q: (x: number, y: number) => x,
+        eq: 'F = <-y, x>'
+    },
+    {
+        id: 'traffic',
+        name: 'Tráfico (Frena y Acelera)',
+        desc: 'Todo avanza hacia la derecha, pero a la izquierda del eje y el fluido frena y se amontona (sumidero) y a la derecha acelera y se dispersa (fuente). Divergencia 2x.',
+        P: (x: number, y: number) => x * x,
+        Q: (x: number, y: number) => 0,
+        eq: 'F = <x², 0>'
+    },
+    {
+        id: 'cells',
+        name: 'Fuentes y Sumideros',
+        desc: 'Una red de fuentes y sumideros alternados. La divergencia cos x - sin y cambia de signo de una celda a otra.',
+        P: (x: number, y: number) => Math.sin(x),
+        Q: (x: number, y: number) => Math.cos(y),
+        eq: 'F = <sin x, cos y>'
+    }
+];
+
+// Selector entry for the user-typed field, right after the presets
+const CUSTOM_INDEX = FIELDS.length;
+const CUSTOM_DEFAULT: FieldSources = { P: 'x*y', Q: 'y - x', R: '' };
+
+const RANGE = 3.5;            // Half side of the field square
+const ARROW_STEP = 0.5;
+const HEAT_STEP = 0.25;       // Side of the divergence shading cells
+const HEAT_FLOOR = 0.5;       // |div| normalisation never goes below this, so div ≈ 0 stays unshaded
+const MIN_RADIUS = 0.1;
+const MAX_RADIUS = 2;
+const PROBE_NORMALS = 16;     // F·n arrows around the probe
+const BOUNDARY_SPACING = 0.35; // Between F·n arrows along the region boundary
+const CLOSE_DISTANCE = 12;    // Pixels from the first vertex that close the region
+const FLAT = 0.01;            // |flux| below this reads as "entra tanto como sale"
+
+const SOURCE_COLOR = '#fb923c';
+const SINK_COLOR = '#22d3ee';
+const NEUTRAL_COLOR = '#94a3b8';
+
+const fluxColor = (flux: number) => flux > FLAT ? SOURCE_COLOR : flux < -FLAT ? SINK_COLOR : NEUTRAL_COLOR;
+const formatFlux = (value: number, digits = 3) => Number.isFinite(value) ? value.toFixed(digits) : '—';
+
+const DEFAULT_REGION: Vector2D[] = [
+    { x: -1, y: -1 }, { x: 1.5, y: -1.2 }, { x: 2, y: 1 }, { x: 0.2, y: 2 }, { x: -1.5, y: 0.6 }
+];
+
+interface DivergenceScene {
+  fieldIndex: number;
+  custom: FieldSources; // Only meaningful when fieldIndex is CUSTOM_INDEX
+  position: Vector2D;   // Probe center
+  radius: number;
+  region: Vector2D[];   // Closed simple polygon, or empty
+  showHeat: boolean;
+  camera: CameraState;
+}
+
+const readRegion = (v: unknown): Vector2D[] | null => {
+  if (!Array.isArray(v) || v.length > MAX_POLYGON_VERTICES) return null;
+  const vertices = v.map(p => readVector2(p, RANGE));
+  if (vertices.some(p => p === null)) return null;
+  const region = vertices as Vector2D[];
+  if (region.length === 0) return region;
+  return region.length >= 3 && isSimplePath(region, true) ? region : null;
+};
+
+const DIVERGENCE_SCENE: SceneCodec<DivergenceScene> = {
+  level: ViewState.DIVERGENCE,
+  version: 1,
+  parse: raw => {
+    const fieldIndex = readIndex(raw.fieldIndex, FIELDS.length + 1);
+    const position = readVector2(raw.position, RANGE);
+    const radius = readNumber(raw.radius, MIN_RADIUS, MAX_RADIUS);
+    const region = readRegion(raw.region);
+    const showHeat = readBoolean(raw.showHeat);
+    const camera = readCamera(raw.camera, 10, 200);
+    if (fieldIndex === null || !position || radius === null || !region || showHeat === null || !camera || !isRecord(raw.custom)) return null;
+    const P = readExpression(raw.custom.P);
+    const Q = readExpression(raw.custom.Q);
+    if (P === null || Q === null) return null;
+    return { fieldIndex, custom: { P, Q, R: '' }, position, radius, region, showHeat, camera };
+  }
+};
+
+interface DivergenceMissionState {
+  flux: number;          // Through the probe
+  speed: number;         // |F| at the probe center
+  drawn: boolean;        // The region was drawn by the player
+  regionFlux: number;
+  regionIntegral: number;
+}
+
+const DIVERGENCE_MISSION: Mission<DivergenceMissionState> = {
+  level: ViewState.DIVERGENCE,
+  objectives: [
+    { id: 'source', label: 'Coloca la sonda sobre una fuente: sale más de lo que entra (flujo > 0)', check: s => s.flux > 0.1 },
+    { id: 'sink', label: 'Encuentra un sumidero (flujo neto < 0)', check: s => s.flux < -0.1 },
+    { id: 'balanced', label: 'Encuentra un punto donde el fluido se mueve pero el flujo neto es 0', check: s => Math.abs(s.flux) < FLAT && s.speed > 0.5 },
+    {
+      id: 'theorem',
+      label: 'Dibuja tu propia región y comprueba que ∮ F·n ds = ∬ div F dA',
+      check: s => s.drawn && Math.abs(s.regionFlux) > 0.1 && Math.abs(s.regionFlux - s.regionIntegral) < 1e-4 * Math.max(1, Math.abs(s.regionFlux))
+    }
+  ]
+};
+
+export const DivergenceLevel: React.FC<DivergenceLevelProps> = ({ onPrevLevel, onNextLevel }) => {
+  // State
+  const shared = useSharedScene(DIVERGENCE_SCENE);
+  const [fieldIndex, setFieldIndex] = useState(shared?.fieldIndex ?? 0);
+  const [position, setPosition] = useState(shared?.position ?? { x: -2, y: 2 }); // Probe center
+  const [radius, setRadius] = useState(shared?.radius ?? 0.6);
+  const [region, setRegion] = useState<Vector2D[]>(shared?.region ?? DEFAULT_REGION);
+  const [showHeat, setShowHeat] = useState(shared?.showHeat ?? true);
+  const custom = useCustomField(shared?.custom ?? CUSTOM_DEFAULT, compileField);
+
+  // Region drawing: vertices placed so far (null when not drawing)
+  const [drawn, setDrawn] = useState(false);
+  const polygon = usePolygonDraft(vertices => { setRegion(vertices); setDrawn(true); });
+  const { draft, hover } = polygon;
+
+  // View State: from above, the plane reads like a map
+  const { camera, project, pick, orbit, zoom, setPreset, setProjection, reset } = useCamera({ pitch: -Math.PI / 2, yaw: 0, scale: 60 }, {}, shared?.camera);
+
+  // Restorable scene: share links + saved progress
+  const scene = useMemo(() => ({ fieldIndex, custom: custom.compiled.sources, position, radius, region, showHeat, camera }),
+      [fieldIndex, custom.compiled.sources, position, radius, region, showHeat, camera]);
+  useSceneAutosave(DIVERGENCE_SCENE, scene);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState<'ORBIT' | 'PROBE' | null>(null);
+  const lastMouse = useRef({ x: 0, y: 0 }); // Canvas coordinates
+
+  const customField = useMemo<FieldDefinition>(() => {
+      const { P, Q } = custom.compiled.sources;
+      return {
+          ...custom.compiled.field,
+          id: 'custom',
+          name: '✎ Personalizado',
+          desc: 'Tu propio campo. Busca dónde la divergencia cambia de signo y encierra esa zona en una región.',
+          eq: `F = <${P}, ${Q}>`
+      };
+  }, [custom.compiled]);
+
+  const activeField = fieldIndex === CUSTOM_INDEX ? customField : FIELDS[fieldIndex];
+
+  // Probe: flux through the circle against the divergence at its center times its area
+  const analysis = analyzeField(activeField, position.x, position.y);
+  const divergence = analysis.divergence;
+  const flux = useMemo(() => circleFlux(activeField, position, radius), [activeField, position, radius]);
+  const probeArea = Math.PI * radius * radius;
+  const speed = Math.hypot(activeField.P(position.x, position.y), activeField.Q(position.x, position.y));
+
+  // Divergence theorem over the region
+  const regionFlux = useMemo(() => region.length >= 3 ? polygonFlux(activeField, region) : NaN, [activeField, region]);
+  const regionIntegral = useMemo(() => region.length >= 3 ? divergenceIntegral(activeField, region) : NaN, [activeField, region]);
+  const regionArea = Math.abs(signedArea(region));
+
+  // Divergence at the center of every shading cell
+  const heat = useMemo(() => {
+      const cells: { x: number; y: number; div: number }[] = [];
+      for (let x = -RANGE; x < RANGE - 1e-9; x += HEAT_STEP) {
+          for (let y = -RANGE; y < RANGE - 1e-9; y += HEAT_STEP) {
+              const div = analyzeField(activeField, x + HEAT_STEP / 2, y + HEAT_STEP / 2).divergence;
+              if (Number.isFinite(div)) cells.push({ x, y, div });
+          }
+      }
+      const scale = Math.max(HEAT_FLOOR, ...cells.map(c => Math.abs(c.div)));
+      return { cells, scale };
+  }, [activeField]);
+
+  // Mission
+  const mission = useMission(DIVERGENCE_MISSION, { flux, speed, drawn, regionFlux, regionIntegral });
+
+  // Draw Function
+  const draw = useCallback(() => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      const w = canvas.width;
+      const h = canvas.height;
+
+      ctx.fillStyle = '#0f172a'; ctx.fillRect(0,0,w,h);
+
+      // The plane point (x, y) lives on the floor: world {x, 0, z: y}
+      const toScreen = (p: Vector2D) => project({ x: p.x, y: 0, z: p.y }, w, h);
+
+      const tracePolygon = (points: Vector2D[]) => {
+          ctx.beginPath();
+          points.forEach((p, k) => {
+              const s = toScreen(p);
+              if (k === 0) ctx.moveTo(s.x, s.y); else ctx.lineTo(s.x, s.y);
+          });
+      };
+
+      const drawArrow = (from: Vector2D, vec: Vector2D, color: string, width: number, headLen: number) => {
+          const start = toScreen(from);
+          const end = toScreen({ x: from.x + vec.x, y: from.y + vec.y });
+          ctx.beginPath(); ctx.moveTo(start.x, start.y); ctx.lineTo(end.x, end.y);
+          ctx.strokeStyle = color; ctx.lineWidth = width; ctx.stroke();
+
+          // Arrowhead
+          const heading = Math.atan2(end.y - start.y, end.x - start.x);
+          ctx.beginPath();
+          ctx.moveTo(end.x, end.y);
+          ctx.lineTo(end.x - headLen * Math.cos(heading - Math.PI/6), end.y - headLen * Math.sin(heading - Math.PI/6));
+          ctx.lineTo(end.x - headLen * Math.cos(heading + Math.PI/6), end.y - headLen * Math.sin(heading + Math.PI/6));
+          ctx.fillStyle = color; ctx.fill();
+      };
+
+      // Normal component F·n as an arrow along n: outward (source side) or inward (sink side)
+      const drawNormalFlow = (p: Vector2D, n: Vector2D) => {
+          const fn = activeField.P(p.x, p.y) * n.x + activeField.Q(p.x, p.y) * n.y;
+          if (!Number.isFinite(fn) || Math.abs(fn) < 1e-6) return;
+          const length = Math.sign(fn) * Math.min(0.6, 0.25 * Math.abs(fn));
+          drawArrow(p, { x: n.x * length, y: n.y * length }, fluxColor(fn), 2, 5);
+      };
+
+      // 1. Sources and sinks: div F shading
+      if (showHeat) {
+          heat.cells.forEach(({ x, y, div }) => {
+              const alpha = Math.min(1, Math.abs(div) / heat.scale) * 0.45;
+              if (alpha < 0.01) return;
+              tracePolygon([{ x, y }, { x: x + HEAT_STEP, y }, { x: x + HEAT_STEP, y: y + HEAT_STEP }, { x, y: y + HEAT_STEP }]);
+              ctx.fillStyle = div > 0 ? `rgba(251, 146, 60, ${alpha})` : `rgba(34, 211, 238, ${alpha})`;
+              ctx.fill();
+          });
+      }
+
+      // 2. Vector Field Grid
+      for (let x = -RANGE; x <= RANGE; x += ARROW_STEP) {
+          for (let y = -RANGE; y <= RANGE; y += ARROW_STEP) {
+              const fx = activeField.P(x, y);
+              const fy = activeField.Q(x, y);
+              if (!Number.isFinite(fx) || !Number.isFinite(fy)) continue;
+              const mag = Math.hypot(fx, fy);
+              if (mag < 1e-9) continue;
+              // Scale down for visualization (capped, custom fields can blow up)
+              const k = Math.min(0.2, 1.5 / mag);
+              drawArrow({ x, y }, { x: fx * k, y: fy * k }, `rgba(148, 163, 184, ${Math.min(1, 0.25 + mag / 3)})`, 1, 3);
+          }
+      }
+
+      // 3. Region of the divergence theorem, with F·n along its boundary
+      if (region.length >= 3) {
+          tracePolygon(region); ctx.closePath();
+          ctx.fillStyle = 'rgba(250, 204, 21, 0.08)'; ctx.fill();
+          ctx.strokeStyle = '#facc15'; ctx.lineWidth = 2; ctx.stroke();
+
+          const orientation = Math.sign(signedArea(region)) || 1;
+          region.forEach((a, k) => {
+              const b = region[(k + 1) % region.length];
+              const n = edgeNormal(a, b, orientation);
+              const count = Math.max(1, Math.round(Math.hypot(b.x - a.x, b.y - a.y) / BOUNDARY_SPACING));
+              for (let i = 0; i < count; i++) {
+                  const t = (i + 0.5) / count;
+                  drawNormalFlow({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }, n);
+              }
+          });
+      }
+
+      // 4. Region being drawn, with a rubber band to the cursor
+      if (draft && draft.length > 0) {
+          tracePolygon(hover ? [...draft, hover] : draft);
+          ctx.setLineDash([5, 4]);
+          ctx.strokeStyle = '#facc15'; ctx.lineWidth = 1.5; ctx.stroke();
+          ctx.setLineDash([]);
+          draft.forEach((p, k) => {
+              const s = toScreen(p);
+              ctx.beginPath(); ctx.arc(s.x, s.y, k === 0 ? 6 : 3, 0, Math.PI * 2);
+              ctx.fillStyle = k === 0 ? 'rgba(250, 204, 21, 0.4)' : '#facc15'; ctx.fill();
+          });
+      }
+
+      // 5. Probe circle: boundary colored by the sign of the net flux, F·n around it
+      const circle = Array.from({ length: 64 }, (_, k) => {
+          const theta = 2 * Math.PI * k / 64;
+          return { x: position.x + radius * Math.cos(theta), y: position.y + radius * Math.sin(theta) };
+      });
+      const probeColor = fluxColor(flux);
+      tracePolygon(circle); ctx.closePath();
+      ctx.fillStyle = 'rgba(15, 23, 42, 0.35)'; ctx.fill();
+      ctx.strokeStyle = probeColor; ctx.lineWidth = 2.5; ctx.stroke();
+      for (let k = 0; k < PROBE_NORMALS; k++) {
+          const theta = 2 * Math.PI * k / PROBE_NORMALS;
+          const n = { x: Math.cos(theta), y: Math.sin(theta) };
+          drawNormalFlow({ x: position.x + radius * n.x, y: position.y + radius * n.y }, n);
+      }
+      const center = toScreen(position);
+      ctx.beginPath(); ctx.arc(center.x, center.y, 5, 0, Math.PI * 2);
+      ctx.fillStyle = '#fff'; ctx.fill(); ctx.strokeStyle = probeColor; ctx.lineWidth = 2; ctx.stroke();
+
+      // Grid Frame
+      tracePolygon([{ x: -RANGE, y: -RANGE }, { x: RANGE, y: -RANGE }, { x: RANGE, y: RANGE }, { x: -RANGE, y: RANGE }]);
+      ctx.closePath();
+      ctx.strokeStyle = '#334155'; ctx.lineWidth = 1; ctx.stroke();
+
+  }, [activeField, position, radius, flux, region, draft, hover, showHeat, heat, project]);
+
+  // Handlers
+  useEffect(() => {
+    const handleResize = () => { if(canvasRef.current && containerRef.current) {
+        canvasRef.current.width = containerRef.current.clientWidth;
+        canvasRef.current.height = containerRef.current.clientHeight;
+        draw();
+    }};
+    window.addEventListener('resize', handleResize); handleResize();
+    return () => window.removeEventListener('resize', handleResize);
+  }, [draw]);
+
+  useEffect(() => draw(), [draw]);
+
+  // Point of the plane under the cursor, inside the field square
+  const pickPlane = (mouse: Vector2D): Vector2D | null => {
+      const { width, height } = canvasRef.current!;
+      const hit = pick(mouse, width, height, { x: 0, y: 0, z: 0 }, { x: 0, y: 1, z: 0 });
+      if (!hit) return null;
+      return {
+          x: Math.max(-RANGE, Math.min(RANGE, hit.x)),
+          y: Math.max(-RANGE, Math.min(RANGE, hit.z))
+      };
+  };
+
+  // Click while drawing: add a vertex, or close the region on its first vertex
+  const addVertex = (mouse: Vector2D) => {
+      if (!draft) return;
+      const { width, height } = canvasRef.current!;
+      const first = draft.length > 0 ? project({ x: draft[0].x, y: 0, z: draft[0].y }, width, height) : null;
+      const p = pickPlane(mouse);
+      if (p) polygon.addVertex(p, !!first && Math.hypot(mouse.x - first.x, mouse.y - first.y) < CLOSE_DISTANCE);
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+      const mouse = getCanvasPoint(e, canvasRef.current!);
+      lastMouse.current = mouse;
+      if (draft) { addVertex(mouse); return; }
+
+      // Check collision with probe center
+      const proj = project({ x: position.x, y: 0, z: position.y }, canvasRef.current!.width, canvasRef.current!.height);
+      setDragging(Math.hypot(mouse.x - proj.x, mouse.y - proj.y) < 30 ? 'PROBE' : 'ORBIT');
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+      if (!canvasRef.current) return;
+      const mouse = getCanvasPoint(e, canvasRef.current);
+      if (draft) { polygon.setHover(pickPlane(mouse)); return; }
+      if (!dragging) return;
+      const { width, height } = canvasRef.current;
+      const prevMouse = lastMouse.current;
+      lastMouse.current = mouse;
+
+      if (dragging === 'ORBIT') {
+          orbit(prevMouse, mouse, width, height);
+      } else {
+          // Drag Probe on Floor: the center lands under the cursor
+          const p = pickPlane(mouse);
+          if (p) setPosition(p);
+      }
+  };
+
+  const handleMouseUp = () => setDragging(null);
+  const handleWheel = (e: React.WheelEvent) => {
+      if (!canvasRef.current) return;
+      const zoomFactor = e.deltaY < 0 ? 1.1 : 0.9;
+      zoom(getCanvasPoint(e, canvasRef.current), zoomFactor, canvasRef.current.width, canvasRef.current.height);
+  };
+
+  const difference = Math.abs(regionFlux - regionIntegral);
+
+  return (
+    <div ref={containerRef} className={`relative w-full h-full bg-slate-900 ${draft ? 'cursor-crosshair' : 'cursor-move'}`}
+        onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp} onWheel={handleWheel}>
+        <canvas ref={canvasRef} className="block w-full h-full" />
+
+        {/* CONTROLS */}
+        <DraggableWindow title="DIVERGENCIA Y FLUJO" initialPosition={{x:20, y:20}} width="w-80">
+            <div className="space-y-4">
+                {/* Selector */}
+                <div className="space-y-1">
+                    <label className="text-[9px] font-bold text-slate-500">CAMPO VECTORIAL</label>
+                    <select
+                        value={fieldIndex}
+                        onChange={(e) => setFieldIndex(parseInt(e.target.value))}
+                        className="w-full bg-slate-800 text-white text-xs p-2 rounded border border-slate-700 outline-none hover:border-cyan-400"
+                    >
+                        {FIELDS.map((f, i) => <option key={i} value={i}>{f.name}</option>)}
+                        <option value={CUSTOM_INDEX}>{customField.name}</option>
+                    </select>
+                    {fieldIndex === CUSTOM_INDEX && (
+                        <div className="space-y-1 pt-1">
+                            {(['P', 'Q'] as const).map(c => (
+                                <FunctionInput
+                                    key={c}
+                                    label={`${c}(x,y) =`}
+                                    placeholder={c === 'P' ? 'x*y' : 'y - x'}
+                                    value={custom.sources[c]}
+                                    error={custom.error?.component === c ? custom.error.message : null}
+                                    onChange={text => custom.setComponent(c, text)}
+                                    hint={c === 'Q'}
+                                />
+                            ))}
+                        </div>
+                    )}
+                    <div className="text-[10px] text-slate-400 font-mono text-center pt-1">{activeField.eq}</div>
+                </div>
+
+                <label className="flex items-center gap-2 text-[10px] text-slate-400 cursor-pointer">
+                    <input type="checkbox" checked={showHeat} onChange={e => setShowHeat(e.target.checked)} />
+                    Sombrear fuentes (<span style={{ color: SOURCE_COLOR }}>naranja</span>) y sumideros (<span style={{ color: SINK_COLOR }}>cian</span>)
+                </label>
+
+                <div className="space-y-1">
+                    <div className="flex justify-between text-[9px] font-bold text-slate-500">
+                        <span>RADIO DE LA SONDA</span>
+                        <span className="text-white font-mono">r = {radius.toFixed(2)}</span>
+                    </div>
+                    <input type="range" min={MIN_RADIUS} max={MAX_RADIUS} step={0.05} value={radius}
+                        onChange={e => setRadius(parseFloat(e.target.value))} className="w-full accent-orange-400" />
+                </div>
+
+                <CameraControls camera={camera} onPreset={setPreset} onProjection={setProjection} onReset={() => reset()} />
+
+                {/* Probe readout */}
+                <div className="bg-slate-950/80 p-3 rounded border border-slate-800 space-y-2 text-center">
+                    <div className="text-[10px] text-slate-500 font-mono">FLUJO NETO HACIA AFUERA ∮ F·n ds</div>
+                    <div className="text-3xl font-bold pixel-font" style={{ color: fluxColor(flux) }}>
+                        {formatFlux(flux, 2)}
+                    </div>
+                    <div className="text-[10px] text-slate-400 italic">
+                        {!Number.isFinite(flux) ? 'El campo no está definido en todo el círculo.'
+                          : flux > FLAT ? 'Sale más de lo que entra: fuente'
+                          : flux < -FLAT ? 'Entra más de lo que sale: sumidero'
+                          : 'Entra tanto como sale'}
+                    </div>
+                </div>
+
+                <div className="text-xs text-slate-400 italic border-t border-slate-700 pt-2">
+                    {activeField.desc}
+                </div>
+
+                <ShareButton codec={DIVERGENCE_SCENE} scene={scene} />
+            </div>
+        </DraggableWindow>
+
+        {/* MATH BREAKDOWN */}
+        <DraggableWindow title="CÁLCULO MATEMÁTICO" initialPosition={{x: 350, y: 20}} width="w-80">
+            <div className="space-y-3 font-mono text-xs">
+                 <div className="flex justify-center items-center gap-2 p-2 bg-slate-800 rounded text-sm text-white">
+                     <span>div F</span>
+                     <span>=</span>
+                     <div className="flex flex-col items-center">
+                         <span className="border-b border-white mb-0.5">∂P</span>
+                         <span>∂x</span>
+                     </div>
+                     <span>+</span>
+                     <div className="flex flex-col items-center">
+                         <span className="border-b border-white mb-0.5">∂Q</span>
+                         <span>∂y</span>
+                     </div>
+                 </div>
+
+                 <div className="grid grid-cols-2 gap-4 text-center">
+                     <div>
+                         <span className="block text-[9px] text-orange-400">∂P/∂x</span>
+                         <span className="text-white">{analysis.dP_dx.toFixed(2)}</span>
+                         <p className="text-[8px] text-slate-500 mt-1">¿Se estira el flujo horizontal al moverte en X?</p>
+                     </div>
+                     <div>
+                         <span className="block text-[9px] text-cyan-400">∂Q/∂y</span>
+                         <span className="text-white">{analysis.dQ_dy.toFixed(2)}</span>
+                         <p className="text-[8px] text-slate-500 mt-1">¿Se estira el flujo vertical al moverte en Y?</p>
+                     </div>
+                 </div>
+
+                 <div className="bg-slate-950 p-2 rounded text-center border border-slate-800">
+                     <span className="text-orange-400">{analysis.dP_dx.toFixed(2)}</span>
+                     <span className="text-slate-500 mx-2">+</span>
+                     <span className="text-cyan-400">({analysis.dQ_dy.toFixed(2)})</span>
+                     <span className="text-slate-500 mx-2">=</span>
+                     <span className="text-white font-bold">{divergence.toFixed(2)}</span>
+                 </div>
+
+                 {/* The definition: flux per unit area as the circle shrinks */}
+                 <div className="border-t border-slate-700 pt-2 space-y-1 text-[10px]">
+                     <div className="flex justify-between">
+                         <span className="text-slate-400">Flujo / área (πr² = {probeArea.toFixed(3)})</span>
+                         <span className="text-white">{formatFlux(flux / probeArea)}</span>
+                     </div>
+                     <div className="flex justify-between">
+                         <span className="text-slate-400">div F en el centro</span>
+                         <span className="text-white">{formatFlux(divergence)}</span>
+                     </div>
+                     <p className="text-[8px] text-slate-500">
+                         Achica la sonda: div F = lím (1/πr²)·∮ F·n ds cuando r → 0.
+                     </p>
+                 </div>
+            </div>
+        </DraggableWindow>
+
+        {/* DIVERGENCE THEOREM */}
+        <DraggableWindow title="TEOREMA DE LA DIVERGENCIA" initialPosition={{x: 680, y: 20}} width="w-72">
+            <div className="space-y-3 text-xs">
+                <p className="text-[10px] text-slate-400">
+                    Lo que sale por la frontera es la suma de todas las fuentes y sumideros de adentro.
+                </p>
+
+                {draft ? (
+                    <div className="space-y-2">
+                        <p className="text-[10px] text-yellow-400">
+                            Haz clic en el plano para poner vértices ({draft.length}/{MAX_POLYGON_VERTICES}). Clic en el primero para cerrar.
+                        </p>
+                        <div className="flex gap-2">
+                            <button onClick={() => polygon.close(draft)} disabled={draft.length < 3}
+                                className="flex-1 py-1 text-[10px] font-bold rounded border border-yellow-500/60 text-yellow-400 hover:bg-yellow-500/10 disabled:opacity-30 disabled:cursor-not-allowed">
+                                CERRAR REGIÓN
+                            </button>
+                            <button onClick={polygon.cancel}
+                                className="flex-1 py-1 text-[10px] font-bold rounded border border-slate-600 text-slate-400 hover:bg-slate-800">
+                                CANCELAR
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="flex gap-2">
+                        <button onClick={polygon.start}
+                            className="flex-1 py-1 text-[10px] font-bold rounded border border-yellow-500/60 text-yellow-400 hover:bg-yellow-500/10">
+                            ✎ DIBUJAR REGIÓN
+                        </button>
+                        <button onClick={() => setRegion([])} disabled={region.length === 0}
+                            className="py-1 px-2 text-[10px] font-bold rounded border border-slate-600 text-slate-400 hover:bg-slate-800 disabled:opacity-30 disabled:cursor-not-allowed">
+                            BORRAR
+                        </button>
+                    </div>
+                )}
+                {polygon.error && <p className="text-[10px] text-red-400">{polygon.error}</p>}
+
+                {region.length >= 3 ? (
+                    <div className="bg-slate-950/80 p-2 rounded border border-slate-800 font-mono space-y-1">
+                        <div className="flex justify-between text-[10px]">
+                            <span className="text-slate-400">∮ F·n ds (frontera)</span>
+                            <span style={{ color: fluxColor(regionFlux) }}>{formatFlux(regionFlux, 6)}</span>
+                        </div>
+                        <div className="flex justify-between text-[10px]">
+                            <span className="text-slate-400">∬ div F dA (interior)</span>
+                            <span className="text-white">{formatFlux(regionIntegral, 6)}</span>
+                        </div>
+                        <div className="flex justify-between text-[10px] border-t border-slate-800 pt-1">
+                            <span className="text-slate-500">Diferencia</span>
+                            <span className={difference < 1e-4 ? 'text-green-400' : 'text-slate-400'}>{Number.isFinite(difference) ? difference.toExponential(1) : '—'}</span>
+                        </div>
+                        <div className="flex justify-between text-[9px] text-slate-500">
+                            <span>Área de la región</span>
+                            <span>{regionArea.toFixed(3)}</span>
+                        </div>
+                        {!Number.isFinite(regionFlux + regionIntegral) && (
+                            <p className="text-[9px] text-red-400">El campo no está definido en toda la región: el teorema no aplica.</p>
+                        )}
+                    </div>
+                ) : !draft && (
+                    <p className="text-[10px] text-slate-500 italic">No hay región. Dibuja una para comparar ambos lados.</p>
+                )}
+            </div>
+        </DraggableWindow>
+
+        {/* Mission */}
+        <MissionPanel status={mission} />
+
+        {/* Theoretical Guide */}
+        <DraggableWindow title="GUÍA TEÓRICA: DIVERGENCIA" initialPosition={{x: 350, y: 500}} width="w-96">
+            <div className="text-xs text-slate-400 font-mono space-y-2">
+                <p className="text-white font-bold">¿Cuánto fluido nace aquí?</p>
+                <p>La divergencia mide cuánto fluido sale de un punto por unidad de área: el flujo neto a través de un círculo diminuto, dividido por su área.</p>
+                <ul className="list-disc pl-4 space-y-1 text-[10px]">
+                    <li><strong className="text-white">Flechas de la sonda:</strong> muestran F·n, la parte del campo que cruza el borde. <span style={{ color: SOURCE_COLOR }}>Hacia afuera</span> suma, <span style={{ color: SINK_COLOR }}>hacia adentro</span> resta.</li>
+                    <li><strong className="text-white">Remolino:</strong> el fluido se mueve mucho, pero corre a lo largo del borde: F·n = 0 y no hay divergencia. Es el caso opuesto al del nivel de rotacional.</li>
+                    <li><strong className="text-white">Tráfico:</strong> todo va hacia la derecha y aun así hay sumideros. Lo que importa no es hacia dónde va el fluido, sino si sale más rápido de lo que entra.</li>
+                    <li><strong className="text-white">Teorema:</strong> ∮ F·n ds = ∬ div F dA. Dibuja una región: las fuentes de adentro se cancelan con los sumideros y solo cuenta lo que cruza la frontera.</li>
+                </ul>
+            </div>
+        </DraggableWindow>
+
+        {/* Nav */}
+        {onPrevLevel && (
+            <div className="absolute bottom-4 left-4 z-50 flex gap-4">
+                <button
+                    onClick={onPrevLevel}
+                    className="group flex items-center gap-3 px-4 py-2 bg-slate-900 border border-slate-700 hover:border-pink-500 hover:bg-slate-800 transition-all rounded-l-full shadow-lg"
+                >
+                    <div className="w-8 h-8 rounded-full border border-pink-500/50 flex items-center justify-center bg-pink-900/20 group-hover:bg-pink-400/20">
+                        <span className="text-pink-500 text-lg transform rotate-180">➔</span>
+                    </div>
+                    <div className="text-right pl-2 hidden md:block">
+                        <span className="block text-[9px] text-slate-500 pixel-font">NIVEL ANTERIOR</span>
+                        <span className="block text-xs text-pink-500 font-bold">ROTACIONAL</span>
+                    </div>
+                </button>
+            </div>
+        )}
+        {onNextLevel && (
+            <div className="absolute bottom-4 right-4 z-50 flex gap-4">
+                <button
+                    onClick={onNextLevel}
+                    className="group flex flex-row-reverse items-center gap-3 px-4 py-2 bg-slate-900 border border-slate-700 hover:border-pink-500 hover:bg-slate-800 transition-all rounded-r-full shadow-lg"
+                >
+                    <div className="w-8 h-8 rounded-full border border-pink-500/50 flex items-center justify-center bg-pink-900/20 group-hover:bg-pink-400/20">
+                        <span className="text-pink-500 animate-pulse text-lg">➔</span>
+                    </div>
+                    <div className="text-left pr-2 hidden md:block">
+                        <span className="block text-[9px] text-slate-500 pixel-font">SIGUIENTE NIVEL</span>
+                        <span className="block text-xs text-pink-500 font-bold">GREEN</span>
+                    </div>
+                </button>
+            </div>
+        )}
+
+    </div>
+  );
+};
@@ -1,55 +1,90 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { DraggableWindow } from './DraggableWindow';
+import { MissionPanel } from './MissionPanel';
+import { CameraControls } from './CameraControls';
+import { Vector3D, ViewState } from '../types';
+import { dot3, norm3, angleBetween3, project3 } from '../utils/linearAlgebra';
+import { ShareButton } from './ShareButton';
+import { useCamera, getCanvasPoint } from '../hooks/useCamera';
+import { useMission } from '../hooks/useMission';
+import { useSharedScene, useSceneAutosave } from '../hooks/useSharedScene';
+import { CameraState } from '../utils/camera';
+import { SceneCodec, readVector3, readBoolean, readCamera } from '../utils/sceneState';
+import { Mission } from '../utils/missions';
+
+const VIEW_3D = { pitch: 0, yaw: -0.3 };
+
+interface DotProductScene {
+  vecA: Vector3D;
+  vecB: Vector3D;
+  is3D: boolean;
+  camera: CameraState;
+}
+
+const DOT_SCENE: SceneCodec<DotProductScene> = {
+  level: ViewState.DOT_PRODUCT,
+  version: 1,
+  parse: raw => {
+    const vecA = readVector3(raw.vecA, 20);
+    const vecB = readVector3(raw.vecB, 20);
+    const is3D = readBoolean(raw.is3D);
+    const camera = readCamera(raw.camera, 10, 200);
+    if (!vecA || !vecB || is3D === null || !camera) return null;
+    return { vecA, vecB, is3D, camera };
+  }
+};
 
 interface DotProductLevelProps {
   onNextLevel?: () => void;
   onPrevLevel?: () => void;
 }
 
-interface Vector3 { x: number; y: number; z: number; }
-
-const rotateY = (v: Vector3, angle: number): Vector3 => ({
-  x: v.x * Math.cos(angle) + v.z * Math.sin(angle),
-  y: v.y,
-  z: -v.x * Math.sin(angle) + v.z * Math.cos(angle)
-});
+const DOT_MISSION: Mission<{ vecA: Vector3D; vecB: Vector3D }> = {
+  level: ViewState.DOT_PRODUCT,
+  objectives: [
+    {
+      id: 'orthogonal', label: 'Haz que A · B = 0 (vectores ortogonales)',
+      check: s => norm3(s.vecA) > 0.5 && norm3(s.vecB) > 0.5 && Math.abs(dot3(s.vecA, s.vecB)) < 0.1
+    },
+    { id: 'negative', label: 'Consigue un producto punto negativo', check: s => dot3(s.vecA, s.vecB) < 0 },
+    {
+      id: 'aligned', label: 'Alinea A con B: ángulo menor de 2°',
+      check: s => norm3(s.vecA) > 0.5 && norm3(s.vecB) > 0.5 && angleBetween3(s.vecA, s.vecB) < 2 * Math.PI / 180
+    }
+  ]
+};
 
 export const DotProductLevel: React.FC<DotProductLevelProps> = ({ onNextLevel, onPrevLevel }) => {
-  const [vecA, setVecA] = useState<Vector3>({ x: 3, y: 2, z: 0 });
-  const [vecB, setVecB] = useState<Vector3>({ x: 4, y: 0, z: 0 });
-  const [is3D, setIs3D] = useState(false);
-  const [cameraY, setCameraY] = useState(-0.3);
+  const shared = useSharedScene(DOT_SCENE);
+  const [vecA, setVecA] = useState<Vector3D>(shared?.vecA ?? { x: 3, y: 2, z: 0 });
+  const [vecB, setVecB] = useState<Vector3D>(shared?.vecB ?? { x: 4, y: 0, z: 0 });
+  const [is3D, setIs3D] = useState(shared?.is3D ?? false);
   
   // View State
-  const [scale, setScale] = useState(40);
-  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const { camera, project, pick, orbit, pan, zoom, setPreset, setProjection, reset } = useCamera({ scale: 40 }, {}, shared?.camera);
+
+  // Restorable scene: share links + saved progress
+  const scene = useMemo(() => ({ vecA, vecB, is3D, camera }), [vecA, vecB, is3D, camera]);
+  useSceneAutosave(DOT_SCENE, scene);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dragging, setDragging] = useState<'A' | 'B' | 'PAN' | null>(null);
-  const lastMousePos = useRef({ x: 0, y: 0 });
+  const lastMousePos = useRef({ x: 0, y: 0 }); // Canvas coordinates
+
+  // Mission
+  const mission = useMission(DOT_MISSION, { vecA, vecB });
 
   // Math
-  const dotProduct = vecA.x * vecB.x + vecA.y * vecB.y + vecA.z * vecB.z;
-  const magA = Math.sqrt(vecA.x**2 + vecA.y**2 + vecA.z**2);
-  const magB = Math.sqrt(vecB.x**2 + vecB.y**2 + vecB.z**2);
-  const angleRad = Math.acos(Math.min(1, Math.max(-1, dotProduct / ((magA * magB) || 1))));
+  const dotProduct = dot3(vecA, vecB);
+  const magA = norm3(vecA);
+  const magB = norm3(vecB);
+  const angleRad = angleBetween3(vecA, vecB);
   const angleDeg = angleRad * (180 / Math.PI);
 
   // Projection Vector P (Shadow of A onto B)
   // P = ( (A . B) / |B|^2 ) * B
-  const scalarProj = dotProduct / (magB**2 || 1);
-  const vecProj = { x: vecB.x * scalarProj, y: vecB.y * scalarProj, z: vecB.z * scalarProj };
-
-  const project = useCallback((v: Vector3, width: number, height: number) => {
-    let p = { ...v };
-    if (is3D) p = rotateY(p, cameraY);
-    
-    return {
-      x: width/2 + pan.x + p.x * scale,
-      y: height/2 + pan.y - p.y * scale
-    };
-  }, [is3D, cameraY, scale, pan]);
+  const vecProj = project3(vecA, vecB);
 
   const draw = useCallback(() => {
     const canvas = canvasRef.current;
@@ -68,7 +103,7 @@ export const DotProductLevel: React.FC<DotProductLevelProps> = ({ onNextLevel, o
     
     // Simple Grid Visualization
     const gridSize = 20;
-    const drawLine = (start: Vector3, end: Vector3, color: string) => {
+    const drawLine = (start: Vector3D, end: Vector3D, color: string) => {
         const p1 = project(start, w, h);
         const p2 = project(end, w, h);
         // Culling simple
@@ -91,7 +126,7 @@ export const DotProductLevel: React.FC<DotProductLevelProps> = ({ onNextLevel, o
     }
     
     // Draw Vectors helper
-    const drawVec = (v: Vector3, color: string, label: string, widthLine = 3, dashed = false) => {
+    const drawVec = (v: Vector3D, color: string, label: string, widthLine = 3, dashed = false) => {
         const start = project({x:0,y:0,z:0}, w, h);
         const end = project(v, w, h);
         ctx.beginPath(); ctx.moveTo(start.x, start.y); ctx.lineTo(end.x, end.y);
@@ -153,9 +188,9 @@ export const DotProductLevel: React.FC<DotProductLevelProps> = ({ onNextLevel, o
   useEffect(() => draw(), [draw]);
 
   const handleMouseDown = (e: React.MouseEvent) => {
-      const rect = canvasRef.current!.getBoundingClientRect();
-      const mx = e.clientX - rect.left; 
-      const my = e.clientY - rect.top;
+      const mouse = getCanvasPoint(e, canvasRef.current!);
+      const mx = mouse.x; 
+      const my = mouse.y;
       const w = canvasRef.current!.width; 
       const h = canvasRef.current!.height;
 
@@ -167,45 +202,43 @@ export const DotProductLevel: React.FC<DotProductLevelProps> = ({ onNextLevel, o
       else {
           setDragging('PAN');
       }
-      lastMousePos.current = { x: e.clientX, y: e.clientY };
+      lastMousePos.current = mouse;
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-      const dx = e.clientX - lastMousePos.current.x;
-      const dy = e.clientY - lastMousePos.current.y;
-      lastMousePos.current = { x: e.clientX, y: e.clientY };
-
-      if (!dragging) return;
+      if (!dragging || !canvasRef.current) return;
+      const mouse = getCanvasPoint(e, canvasRef.current);
+      const { width, height } = canvasRef.current;
+      const prevMouse = lastMousePos.current;
+      lastMousePos.current = mouse;
 
       if (dragging === 'PAN') {
           if (is3D) {
               // Orbit in 3D
-              setCameraY(prev => prev + dx * 0.01);
+              orbit(prevMouse, mouse, width, height);
           } else {
               // Pan in 2D
-              setPan(prev => ({ x: prev.x + dx, y: prev.y + dy }));
+              pan(mouse.x - prevMouse.x, mouse.y - prevMouse.y);
           }
           return;
       }
 
-      // Vector Dragging
-      const sensitivity = 1.0 / scale;
-      const vx = dx * sensitivity;
-      const vy = -(dy * sensitivity);
-      
-      // In 3D we rotate the input based on camera for Y-axis visual consistency (simplified)
-      const inputDx = is3D ? (dx * Math.cos(cameraY)) * sensitivity : vx;
-      const inputDy = vy;
+      // Vector Dragging: tip follows the cursor on the plane facing the camera
+      const vec = dragging === 'A' ? vecA : vecB;
+      const hit = pick(mouse, width, height, vec);
+      if (!hit) return;
+      const target = is3D ? hit : { ...vec, x: hit.x, y: hit.y };
 
-      if (dragging === 'A') setVecA(prev => ({...prev, x: prev.x + inputDx, y: prev.y + inputDy}));
-      if (dragging === 'B') setVecB(prev => ({...prev, x: prev.x + inputDx, y: prev.y + inputDy}));
+      if (dragging === 'A') setVecA(target);
+      if (dragging === 'B') setVecB(target);
   };
 
   const handleMouseUp = () => setDragging(null);
 
   const handleWheel = (e: React.WheelEvent) => {
+      if (!canvasRef.current) return;
       const zoomFactor = e.deltaY < 0 ? 1.1 : 0.9;
-      setScale(prev => Math.max(10, Math.min(200, prev * zoomFactor)));
+      zoom(getCanvasPoint(e, canvasRef.current), zoomFactor, canvasRef.current.width, canvasRef.current.height);
   };
 
   // Helper for scrolling inputs
@@ -228,17 +261,17 @@ export const DotProductLevel: React.FC<DotProductLevelProps> = ({ onNextLevel, o
     onChange,
     name 
   }: { 
-    vec: Vector3, 
+    vec: Vector3D, 
     color: string, 
     label: string, 
-    onChange: (v: Vector3) => void,
+    onChange: (v: Vector3D) => void,
     name: 'A' | 'B'
   }) => {
     const textColor = color; 
 
-    const onScroll = (axis: keyof Vector3) => handleInputScroll(name, axis);
+    const onScroll = (axis: keyof Vector3D) => handleInputScroll(name, axis);
     
-    const handleChange = (axis: keyof Vector3, val: string) => {
+    const handleChange = (axis: keyof Vector3D, val: string) => {
         onChange({...vec, [axis]: parseFloat(val)||0});
     };
 
@@ -311,16 +344,21 @@ export const DotProductLevel: React.FC<DotProductLevelProps> = ({ onNextLevel, o
                 </div>
 
                 <div className="flex gap-2">
-                    <button onClick={() => setIs3D(!is3D)} className="flex-1 py-1 bg-slate-700 hover:bg-slate-600 rounded text-white border border-slate-600">
+                    <button onClick={() => { reset(is3D ? {} : VIEW_3D); setIs3D(!is3D); }} className="flex-1 py-1 bg-slate-700 hover:bg-slate-600 rounded text-white border border-slate-600">
                         {is3D ? "VISTA 2D" : "VISTA 3D"}
                     </button>
-                    <button onClick={() => { setScale(40); setPan({x:0, y:0}); setCameraY(-0.3); }} className="px-2 py-1 text-slate-500 hover:text-cyan-400">
+                    <button onClick={() => reset(is3D ? VIEW_3D : {})} className="px-2 py-1 text-slate-500 hover:text-cyan-400">
                         ⟲
                     </button>
                 </div>
+                {is3D && <CameraControls camera={camera} onPreset={setPreset} onProjection={setProjection} />}
+                <ShareButton codec={DOT_SCENE} scene={scene} />
             </div>
         </DraggableWindow>
 
+        {/* Mission */}
+        <MissionPanel status={mission} />
+
         {/* Legend Window - NEW */}
         <DraggableWindow title="GUÍA TEÓRICA: PRODUCTO PUNTO" initialPosition={{x:300, y: 400}} width="w-80">
             <div className="text-xs text-slate-400 space-y-2 font-mono">
@@ -1,81 +1,182 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { DraggableWindow } from './DraggableWindow';
+import { MissionPanel } from './MissionPanel';
+import { CameraControls } from './CameraControls';
+import { Vector2D, Vector3D, Matrix2x2, Matrix3x3, ViewState } from '../types';
+import {
+    lerp2x2, lerp3x3, transform2x2, transform3x3, IDENTITY_2X2, IDENTITY_3X3,
+    toMatrixN, toVectorN, norm3, normalize3, cross3, scale3, add3
+} from '../utils/linearAlgebra';
+import { eigen2x2, eigen3x3, complexOrbit2D, complexOrbit3D, isEigenvector, EigenKind, ComplexPair } from '../utils/eigen';
+import { useCamera, getCanvasPoint } from '../hooks/useCamera';
+import { useMission } from '../hooks/useMission';
+import { Mission } from '../utils/missions';
 
 interface EigenvectorsLevelProps {
     onPrevLevel?: () => void;
 }
 
-interface Matrix2x2 { a: number; b: number; c: number; d: number; }
-interface Vector2 { x: number; y: number; }
+const VIEW_3D = { pitch: -0.4, yaw: 0.6 };
 
-// Presets with pre-calculated eigen info for teaching purposes
-const PRESETS = [
+// Selected when the user edits the matrix by hand
+const CUSTOM_ID = 'CUSTOM';
+
+interface EigenPreset<M> {
+    id: string;
+    name: string;
+    matrix: M;
+    desc: string;
+}
+
+// Teaching presets; their eigenvalues and tracks are computed like any typed matrix
+const PRESETS: EigenPreset<Matrix2x2>[] = [
     {
         id: 'SCALE_X',
         name: 'ESTIRAMIENTO X',
         matrix: { a: 2, b: 0, c: 0, d: 1 },
-        eigenLines: [{ x: 1, y: 0 }, { x: 0, y: 1 }], // X axis and Y axis
         desc: "El eje X se estira (λ=2). El eje Y no cambia (λ=1)."
     },
     {
         id: 'SCALE_UNIFORM',
         name: 'ESCALADO UNIFORME',
         matrix: { a: 2, b: 0, c: 0, d: 2 },
-        eigenLines: [{ x: 1, y: 0 }, { x: 0, y: 1 }, { x: 1, y: 1 }], // Technically all vectors are eigenvectors
         desc: "Todos los vectores son Eigenvectors. Todo se escala igual (λ=2)."
     },
     {
         id: 'SHEAR',
         name: 'CIZALLA (SHEAR)',
         matrix: { a: 1, b: 1, c: 0, d: 1 },
-        eigenLines: [{ x: 1, y: 0 }], // Only X axis is stable
         desc: "Solo el eje X sobrevive a la deformación (λ=1). Los demás rotan."
     },
     {
         id: 'DIAGONAL',
         name: 'ESTIRAMIENTO DIAG.',
         matrix: { a: 2, b: 1, c: 1, d: 2 },
-        eigenLines: [{ x: 1, y: 1 }, { x: -1, y: 1 }],
         desc: "Estiramiento a lo largo de y=x (λ=3) y y=-x (λ=1)."
+    },
+    {
+        id: 'ROTATION_SCALE',
+        name: 'ROTACIÓN + ESCALA',
+        matrix: { a: 1, b: -1, c: 1, d: 1 },
+        desc: "λ = 1 ± i: cada aplicación gira 45° y escala ×1.41. Ninguna línea sobrevive: los vectores giran en espiral."
     }
 ];
 
+const PRESETS_3D: EigenPreset<Matrix3x3>[] = [
+    {
+        id: 'STRETCH_3D',
+        name: 'ESTIRAMIENTO 3D',
+        matrix: { a: 2, b: 0, c: 0, d: 0, e: 1, f: 0, g: 0, h: 0, i: 0.5 },
+        desc: "Cada eje es un eigenvector: X se estira (λ=2), Y no cambia (λ=1) y Z se encoge (λ=0.5)."
+    },
+    {
+        id: 'SHEAR_3D',
+        name: 'CIZALLA 3D',
+        matrix: { a: 1, b: 1, c: 0, d: 0, e: 1, f: 0, g: 0, h: 0, i: 1 },
+        desc: "λ=1 triple, pero solo el plano y=0 son eigenvectors: le falta una dirección (defectiva)."
+    },
+    {
+        id: 'SPIRAL_3D',
+        name: 'ESPIRAL 3D',
+        matrix: { a: 1, b: -0.5, c: 0, d: 0.5, e: 1, f: 0, g: 0, h: 0, i: 1.5 },
+        desc: "El eje Z es eigenvector (λ=1.5). El plano XY gira 26.6° y escala ×1.12 en cada aplicación (λ = 1 ± 0.5i)."
+    },
+    {
+        id: 'SYMMETRIC_3D',
+        name: 'SIMÉTRICA',
+        matrix: { a: 2, b: 1, c: 0, d: 1, e: 2, f: 1, g: 0, h: 1, i: 2 },
+        desc: "Matriz simétrica: tres eigenvalores reales (2+√2, 2, 2-√2) con eigenvectors perpendiculares."
+    }
+];
+
+const KIND_INFO: Record<EigenKind, { label: string; color: string; note: string }> = {
+    distinct: { label: 'REALES DISTINTOS', color: 'text-green-400', note: 'Cada eigenvalor tiene su propia línea de eigenvectors.' },
+    repeated: { label: 'REPETIDOS', color: 'text-cyan-400', note: 'Un eigenvalor se repite y todo un plano (o el espacio entero) son eigenvectors.' },
+    defective: { label: 'DEFECTIVA', color: 'text-orange-400', note: 'Un eigenvalor repetido con menos eigenvectors que su multiplicidad: faltan direcciones, como en la cizalla.' },
+    complex: { label: 'COMPLEJOS CONJUGADOS', color: 'text-purple-400', note: 'Sin líneas invariantes en el plano de giro: la matriz rota y escala, y los vectores siguen una espiral.' }
+};
+
+const fmt = (v: number) => (Math.abs(v) < 0.005 ? 0 : v).toFixed(2);
+const fmtVec = (v: Vector2D | Vector3D) => `[${toVectorN(v).map(fmt).join(', ')}]`;
+const toWorld = (v: Vector2D | Vector3D): Vector3D => 'z' in v ? v : { x: v.x, y: v.y, z: 0 };
+
+// Points of the spiral s ↦ A^s·v (s >= 0), about two turns, stopping when it leaves the view or collapses
+const spiralPoints = (pair: ComplexPair<unknown>, at: (s: number) => Vector3D | null): Vector3D[] => {
+    const end = Math.min(4 * Math.PI / pair.angle, 12);
+    const points: Vector3D[] = [];
+    for (let s = 0; s <= end; s += end / 240) {
+        const p = at(s);
+        if (!p || norm3(p) > 60 || norm3(p) < 0.01) break;
+        points.push(p);
+    }
+    return points;
+};
+
+interface EigenMissionState {
+  presetId: string;
+  t: number;
+  isAligned: boolean;
+  complex: boolean;
+}
+
+// The probe only counts once the transformation has fully played out
+const EIGEN_MISSION: Mission<EigenMissionState> = {
+  level: ViewState.EIGENVECTORS,
+  objectives: [
+    { id: 'span', label: 'Encuentra un vector que se quede en su span durante toda la transformación', check: s => s.isAligned && s.t >= 0.99 },
+    { id: 'shear', label: 'CIZALLA: encuentra su único eigenvector', check: s => s.presetId === 'SHEAR' && s.isAligned && s.t >= 0.99 },
+    { id: 'diagonal', label: 'ESTIRAMIENTO DIAG.: encuentra un eigenvector fuera de los ejes', check: s => s.presetId === 'DIAGONAL' && s.isAligned && s.t >= 0.99 },
+    { id: 'complex', label: 'Escribe una matriz con eigenvalores complejos y observa la espiral', check: s => s.complex && s.presetId === CUSTOM_ID }
+  ]
+};
+
 export const EigenvectorsLevel: React.FC<EigenvectorsLevelProps> = ({ onPrevLevel }) => {
   // State
-  const [currentPreset, setCurrentPreset] = useState(PRESETS[0]);
+  const [is3D, setIs3D] = useState(false);
+  const [matrix2D, setMatrix2D] = useState<Matrix2x2>(PRESETS[0].matrix);
+  const [matrix3D, setMatrix3D] = useState<Matrix3x3>(PRESETS_3D[0].matrix);
+  const [preset2D, setPreset2D] = useState(PRESETS[0].id);
+  const [preset3D, setPreset3D] = useState(PRESETS_3D[0].id);
   const [t, setT] = useState(0); // Time/Progress of transformation (0 to 1)
   const [isPlaying, setIsPlaying] = useState(false);
   
   // A probe vector set by the user at t=0
-  const [probeBase, setProbeBase] = useState<Vector2>({ x: 1, y: 2 });
+  const [probe2D, setProbe2D] = useState<Vector2D>({ x: 1, y: 2 });
+  const [probe3D, setProbe3D] = useState<Vector3D>({ x: 1, y: 2, z: 1 });
 
   // View State
-  const [scale, setScale] = useState(40);
-  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const { camera, project, pick, orbit, pan, zoom, setPreset: setViewPreset, setProjection, reset } = useCamera({ scale: 40 });
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dragging, setDragging] = useState<'PROBE' | 'PAN' | null>(null);
-  const lastMouse = useRef({ x: 0, y: 0 });
+  const lastMouse = useRef({ x: 0, y: 0 }); // Canvas coordinates
+
+  // Eigen decomposition of the target matrix, recomputed on every edit
+  const eigen2D = useMemo(() => eigen2x2(matrix2D), [matrix2D]);
+  const eigen3D = useMemo(() => eigen3x3(matrix3D), [matrix3D]);
+  const eigen = is3D ? eigen3D : eigen2D;
+  const presetId = is3D ? preset3D : preset2D;
+  const preset = is3D ? PRESETS_3D.find(p => p.id === preset3D) : PRESETS.find(p => p.id === preset2D);
 
-  // Math Helpers
-  const lerp = (start: number, end: number, amt: number) => start + (end - start) * amt;
-  
   // Calculate Matrix at current time t (Interpolate between Identity and Target)
-  const currentMatrix: Matrix2x2 = {
-      a: lerp(1, currentPreset.matrix.a, t),
-      b: lerp(0, currentPreset.matrix.b, t),
-      c: lerp(0, currentPreset.matrix.c, t),
-      d: lerp(1, currentPreset.matrix.d, t)
-  };
+  const currentMatrix2D = lerp2x2(IDENTITY_2X2, matrix2D, t);
+  const currentMatrix3D = lerp3x3(IDENTITY_3X3, matrix3D, t);
 
-  const transform = (v: Vector2, m: Matrix2x2): Vector2 => ({
-      x: m.a * v.x + m.b * v.y,
-      y: m.c * v.x + m.d * v.y
-  });
+  // Matrix at t applied to a world point (2D ignores z)
+  const applyCurrent = (v: Vector3D): Vector3D => is3D ? transform3x3(v, currentMatrix3D) : toWorld(transform2x2(v, currentMatrix2D));
 
-  // Calculate probe position at current t
-  const currentProbe = transform(probeBase, currentMatrix);
+  // Probe at t=0 and at the current t, in world coordinates
+  const probeBase = is3D ? probe3D : toWorld(probe2D);
+  const currentProbe = applyCurrent(probeBase);
+
+  // Probe stays on its own line under the target matrix
+  const isAligned = is3D
+      ? isEigenvector(toMatrixN(matrix3D), toVectorN(probe3D))
+      : isEigenvector(toMatrixN(matrix2D), toVectorN(probe2D));
+
+  // Mission
+  const mission = useMission(EIGEN_MISSION, { presetId, t, isAligned, complex: eigen.complex !== null });
 
   // Animation Loop
   useEffect(() => {
@@ -106,98 +207,158 @@ export const EigenvectorsLevel: React.FC<EigenvectorsLevelProps> = ({ onPrevLeve
       
       const w = canvas.width; 
       const h = canvas.height;
-      const cx = w/2 + pan.x; 
-      const cy = h/2 + pan.y;
 
       ctx.fillStyle = '#0f172a'; ctx.fillRect(0,0,w,h);
 
-      // 1. Draw Static Eigen Lines (The "Tracks")
+      const drawLine = (from: Vector3D, to: Vector3D, color: string, width = 1, dash: number[] = []) => {
+          const p1 = project(from, w, h);
+          const p2 = project(to, w, h);
+          ctx.beginPath(); ctx.moveTo(p1.x, p1.y); ctx.lineTo(p2.x, p2.y);
+          ctx.strokeStyle = color; ctx.lineWidth = width; ctx.setLineDash(dash); ctx.stroke(); ctx.setLineDash([]);
+      };
+      const drawPath = (points: Vector3D[], color: string) => {
+          if (points.length < 2) return;
+          ctx.beginPath();
+          points.forEach((p, i) => { const s = project(p, w, h); if (i === 0) ctx.moveTo(s.x, s.y); else ctx.lineTo(s.x, s.y); });
+          ctx.strokeStyle = color; ctx.lineWidth = 2; ctx.setLineDash([4, 4]); ctx.stroke(); ctx.setLineDash([]);
+      };
+      // Faint grid on the plane spanned by the unit vectors u, v
+      const drawPlane = (u: Vector3D, v: Vector3D, color: string) => {
+          const L = 5;
+          for (let i = -L; i <= L; i++) {
+              drawLine(add3(scale3(u, i), scale3(v, -L)), add3(scale3(u, i), scale3(v, L)), color);
+              drawLine(add3(scale3(u, -L), scale3(v, i)), add3(scale3(u, L), scale3(v, i)), color);
+          }
+      };
+
+      // 1. Draw the Eigen Tracks (computed from the matrix)
       // These show the infinite span where eigenvectors SHOULD live
       const far = 100;
-      currentPreset.eigenLines.forEach(dir => {
-          ctx.beginPath();
-          ctx.moveTo(cx - dir.x * far * scale, cy + dir.y * far * scale);
-          ctx.lineTo(cx + dir.x * far * scale, cy - dir.y * far * scale);
-          ctx.strokeStyle = 'rgba(74, 222, 128, 0.2)'; // Green low opacity
-          ctx.lineWidth = 4;
-          ctx.setLineDash([10, 10]);
-          ctx.stroke();
-          ctx.setLineDash([]);
+      const TRACK = 'rgba(74, 222, 128, 0.2)'; // Green low opacity
+      eigen.spaces.forEach(space => {
+          const basis = space.basis.map(toWorld);
+          if (basis.length === 1) {
+              drawLine(scale3(basis[0], -far), scale3(basis[0], far), TRACK, 4, [10, 10]);
+          } else if (!is3D) {
+              // Every direction of the plane is an eigenvector: a fan of tracks
+              for (let k = 0; k < 12; k++) {
+                  const angle = k * Math.PI / 12;
+                  const dir = { x: Math.cos(angle), y: Math.sin(angle), z: 0 };
+                  drawLine(scale3(dir, -far), scale3(dir, far), 'rgba(74, 222, 128, 0.1)', 2, [10, 10]);
+              }
+          } else if (basis.length === 2) {
+              drawPlane(basis[0], basis[1], 'rgba(74, 222, 128, 0.12)');
+          } else {
+              // λI in 3D: the whole space, marked along the axes
+              basis.forEach(dir => drawLine(scale3(dir, -far), scale3(dir, far), TRACK, 4, [10, 10]));
+          }
       });
 
-      // 2. Draw Transformed Grid
-      const drawGridLine = (p1: Vector2, p2: Vector2, color: string) => {
-          const t1 = transform(p1, currentMatrix);
-          const t2 = transform(p2, currentMatrix);
-          ctx.beginPath();
-          ctx.moveTo(cx + t1.x * scale, cy - t1.y * scale);
-          ctx.lineTo(cx + t2.x * scale, cy - t2.y * scale);
-          ctx.strokeStyle = color;
-          ctx.lineWidth = 1;
-          ctx.stroke();
-      };
+      // 2. Draw Transformed Grid (2D) / Transformed Unit Cube (3D)
+      if (is3D) {
+          const G = 10;
+          for (let i = -G; i <= G; i += 2) {
+              drawLine({ x: i, y: 0, z: -G }, { x: i, y: 0, z: G }, '#1e293b');
+              drawLine({ x: -G, y: 0, z: i }, { x: G, y: 0, z: i }, '#1e293b');
+          }
+          const corner = (x: number, y: number, z: number) => transform3x3({ x, y, z }, currentMatrix3D);
+          for (let a = 0; a <= 1; a++) {
+              for (let b = 0; b <= 1; b++) {
+                  drawLine(corner(0, a, b), corner(1, a, b), '#475569');
+                  drawLine(corner(a, 0, b), corner(a, 1, b), '#475569');
+                  drawLine(corner(a, b, 0), corner(a, b, 1), '#475569');
+              }
+          }
+          // Axes (transforming)
+          drawLine({ x: 0, y: 0, z: 0 }, corner(3, 0, 0), 'rgba(248, 113, 113, 0.6)');
+          drawLine({ x: 0, y: 0, z: 0 }, corner(0, 3, 0), 'rgba(74, 222, 128, 0.6)');
+          drawLine({ x: 0, y: 0, z: 0 }, corner(0, 0, 3), 'rgba(96, 165, 250, 0.6)');
+      } else {
+          const drawGridLine = (p1: Vector2D, p2: Vector2D, color: string) =>
+              drawLine(toWorld(transform2x2(p1, currentMatrix2D)), toWorld(transform2x2(p2, currentMatrix2D)), color);
+
+          const G = 10;
+          for(let i=-G; i<=G; i++) {
+              // Vertical lines (transforming)
+              drawGridLine({x: i, y: -G}, {x: i, y: G}, '#1e293b');
+              // Horizontal lines (transforming)
+              drawGridLine({x: -G, y: i}, {x: G, y: i}, '#1e293b');
+          }
 
-      const G = 10;
-      for(let i=-G; i<=G; i++) {
-          // Vertical lines (transforming)
-          drawGridLine({x: i, y: -G}, {x: i, y: G}, '#1e293b');
-          // Horizontal lines (transforming)
-          drawGridLine({x: -G, y: i}, {x: G, y: i}, '#1e293b');
+          // Axes (transforming)
+          drawGridLine({x:0, y:-G}, {x:0, y:G}, '#475569');
+          drawGridLine({x:-G, y:0}, {x:G, y:0}, '#475569');
       }
-      
-      // Axes (transforming)
-      drawGridLine({x:0, y:-G}, {x:0, y:G}, '#475569');
-      drawGridLine({x:-G, y:0}, {x:G, y:0}, '#475569');
-
-      // 3. Draw Vectors
-      const drawVec = (v: Vector2, color: string, label: string, glow: boolean = false) => {
-          const ex = cx + v.x * scale;
-          const ey = cy - v.y * scale;
+
+      // 3. Complex Eigenvalues: rotation + scaling spiral v, Av, A²v, ...
+      const SPIRAL = '#c084fc';
+      let spiral: Vector3D[] = [];
+      let steps: Vector3D[] = [];
+      if (!is3D && eigen2D.complex) {
+          const pair = eigen2D.complex;
+          const at = (s: number) => { const p = complexOrbit2D(pair, probe2D, s); return p && toWorld(p); };
+          spiral = spiralPoints(pair, at);
+          steps = [1, 2, 3, 4].map(at).filter((p): p is Vector3D => p !== null && norm3(p) < 60);
+      } else if (is3D && eigen3D.complex) {
+          // Spiral drawn on the invariant plane, starting at a vector of length 2
+          const pair = eigen3D.complex;
+          const k = 2 / norm3(pair.real);
+          const at = (s: number) => scale3(complexOrbit3D(pair, s), k);
+          const normal = cross3(pair.real, pair.imag);
+          drawPlane(normalize3(pair.real), normalize3(cross3(normal, pair.real)), 'rgba(192, 132, 252, 0.1)');
+          spiral = spiralPoints(pair, at);
+          steps = [0, 1, 2, 3, 4].map(at).filter(p => norm3(p) < 60);
+      }
+      drawPath(spiral, SPIRAL);
+      steps.forEach((p, i) => {
+          const s = project(p, w, h);
+          ctx.beginPath(); ctx.arc(s.x, s.y, 4, 0, Math.PI*2); ctx.fillStyle = SPIRAL; ctx.fill();
+          const k = is3D ? i : i + 1;
+          ctx.font = '10px monospace'; ctx.fillText(k === 0 ? 'u' : `A${k > 1 ? ['²', '³', '⁴'][k - 2] : ''}${is3D ? 'u' : 'v'}`, s.x + 6, s.y - 6);
+      });
+
+      // 4. Draw Vectors
+      const drawVec = (v: Vector3D, color: string, label: string, glow: boolean = false) => {
+          const start = project({ x: 0, y: 0, z: 0 }, w, h);
+          const end = project(v, w, h);
           
-          ctx.beginPath(); ctx.moveTo(cx, cy); ctx.lineTo(ex, ey);
+          ctx.beginPath(); ctx.moveTo(start.x, start.y); ctx.lineTo(end.x, end.y);
           ctx.strokeStyle = color; ctx.lineWidth = 3; ctx.stroke();
           
           // Head
-          ctx.beginPath(); ctx.arc(ex, ey, 5, 0, Math.PI*2); ctx.fillStyle = color; ctx.fill();
+          ctx.beginPath(); ctx.arc(end.x, end.y, 5, 0, Math.PI*2); ctx.fillStyle = color; ctx.fill();
           
           if(glow) {
               ctx.shadowColor = color; ctx.shadowBlur = 15; ctx.stroke(); ctx.shadowBlur = 0;
           }
           if(label) {
-              ctx.fillStyle = color; ctx.font = 'bold 12px monospace'; ctx.fillText(label, ex+10, ey);
+              ctx.fillStyle = color; ctx.font = 'bold 12px monospace'; ctx.fillText(label, end.x+10, end.y);
           }
-          return {x: ex, y: ey};
+          return end;
       };
 
-      // Draw "True" Eigenvectors (visual guides on the lines)
-      currentPreset.eigenLines.forEach((dir, i) => {
-          // We calculate their position based on current t
-          const pos = transform(dir, currentMatrix);
-          drawVec(pos, '#4ade80', t > 0.9 ? `λv${i}` : '', true); // Green glowing
+      // Draw "True" Eigenvectors (visual guides on the tracks)
+      eigen.spaces.forEach((space, i) => {
+          space.basis.forEach(dir => {
+              // We calculate their position based on current t
+              drawVec(applyCurrent(toWorld(dir)), '#4ade80', t > 0.9 ? `λ${i + 1}=${fmt(space.value)}` : '', true); // Green glowing
+          });
       });
 
       // Draw User Probe
-      // Check if probe aligns with any eigen line
-      let isAligned = false;
-      currentPreset.eigenLines.forEach(line => {
-          const cross = probeBase.x * line.y - probeBase.y * line.x;
-          if (Math.abs(cross) < 0.1) isAligned = true;
-      });
-
       const probeTip = drawVec(currentProbe, isAligned ? '#fbbf24' : '#f472b6', 'v', isAligned); // Yellow if eigen, Pink if not
 
       // Draw ghost of initial position if t > 0
       if (t > 0) {
-          const startX = cx + probeBase.x * scale;
-          const startY = cy - probeBase.y * scale;
-          ctx.beginPath(); ctx.arc(startX, startY, 3, 0, Math.PI*2); 
+          const start = project(probeBase, w, h);
+          ctx.beginPath(); ctx.arc(start.x, start.y, 3, 0, Math.PI*2); 
           ctx.fillStyle = 'rgba(255,255,255,0.3)'; ctx.fill();
           // Dotted line path
-          ctx.beginPath(); ctx.moveTo(startX, startY); ctx.lineTo(probeTip.x, probeTip.y);
+          ctx.beginPath(); ctx.moveTo(start.x, start.y); ctx.lineTo(probeTip.x, probeTip.y);
           ctx.strokeStyle = 'rgba(255,255,255,0.2)'; ctx.setLineDash([2,4]); ctx.stroke(); ctx.setLineDash([]);
       }
 
-  }, [currentPreset, t, currentMatrix, probeBase, scale, pan]);
+  }, [is3D, eigen, eigen2D, eigen3D, t, currentMatrix2D, currentMatrix3D, probe2D, probeBase, currentProbe, isAligned, project]);
 
   // Boilerplate Event Listeners
   useEffect(() => {
@@ -214,54 +375,79 @@ export const EigenvectorsLevel: React.FC<EigenvectorsLevelProps> = ({ onPrevLeve
 
   // Interaction
   const handleMouseDown = (e: React.MouseEvent) => {
-      const rect = canvasRef.current!.getBoundingClientRect();
-      const mx = e.clientX - rect.left;
-      const my = e.clientY - rect.top;
+      const mouse = getCanvasPoint(e, canvasRef.current!);
       const w = canvasRef.current!.width;
       const h = canvasRef.current!.height;
-      const cx = w/2 + pan.x;
-      const cy = h/2 + pan.y;
 
       // Check probe tip (hit test against CURRENT position)
-      const tX = cx + currentProbe.x * scale;
-      const tY = cy - currentProbe.y * scale;
+      const tip = project(currentProbe, w, h);
 
-      if (Math.hypot(mx - tX, my - tY) < 20) {
+      if (Math.hypot(mouse.x - tip.x, mouse.y - tip.y) < 20) {
           // Only allow dragging if t is close to 0, otherwise reset t
           if (t > 0.1) setT(0);
           setDragging('PROBE');
       } else {
           setDragging('PAN');
       }
-      lastMouse.current = { x: e.clientX, y: e.clientY };
+      lastMouse.current = mouse;
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-      if (!dragging) return;
-      const dx = e.clientX - lastMouse.current.x;
-      const dy = e.clientY - lastMouse.current.y;
-      lastMouse.current = { x: e.clientX, y: e.clientY };
+      if (!dragging || !canvasRef.current) return;
+      const mouse = getCanvasPoint(e, canvasRef.current);
+      const { width, height } = canvasRef.current;
+      const prevMouse = lastMouse.current;
+      lastMouse.current = mouse;
 
       if (dragging === 'PAN') {
-          setPan(p => ({ x: p.x + dx, y: p.y + dy }));
-      } else {
-          // Update Base Vector
-          // Logic: Mouse moves current tip -> Inverse transform to find base? 
-          // Simplification: Dragging resets T to 0, so we just set base directly.
-          if (t > 0) setT(0); 
-          setProbeBase(prev => ({
-              x: prev.x + dx / scale,
-              y: prev.y - dy / scale
-          }));
+          if (is3D) orbit(prevMouse, mouse, width, height);
+          else pan(mouse.x - prevMouse.x, mouse.y - prevMouse.y);
+          return;
       }
+
+      // Dragging resets t to 0, so the tip follows the cursor on the plane facing the camera
+      if (t > 0) setT(0);
+      const hit = pick(mouse, width, height, probeBase);
+      if (!hit) return;
+      if (is3D) setProbe3D(hit);
+      else setProbe2D({ x: hit.x, y: hit.y });
   };
 
   const handleMouseUp = () => setDragging(null);
   const handleWheel = (e: React.WheelEvent) => {
+      if (!canvasRef.current) return;
       const zoomFactor = e.deltaY < 0 ? 1.1 : 0.9;
-      setScale(prev => Math.max(10, Math.min(200, prev * zoomFactor)));
+      zoom(getCanvasPoint(e, canvasRef.current), zoomFactor, canvasRef.current.width, canvasRef.current.height);
+  };
+
+  // Matrix editing: any change turns the matrix into a custom one
+  const update2D = (key: keyof Matrix2x2, val: number) => {
+      setMatrix2D(prev => ({ ...prev, [key]: val }));
+      setPreset2D(CUSTOM_ID);
+  };
+  const update3D = (key: keyof Matrix3x3, val: number) => {
+      setMatrix3D(prev => ({ ...prev, [key]: val }));
+      setPreset3D(CUSTOM_ID);
+  };
+  const nudge = (value: number, e: React.WheelEvent) => Number((value + (e.deltaY > 0 ? -0.1 : 0.1)).toFixed(1));
+
+  const selectPreset = (id: string) => {
+      const p2 = PRESETS.find(p => p.id === id);
+      const p3 = PRESETS_3D.find(p => p.id === id);
+      if (p2) { setMatrix2D(p2.matrix); setPreset2D(id); }
+      if (p3) { setMatrix3D(p3.matrix); setPreset3D(id); }
+      setT(0);
   };
 
+  const switchMode = (to3D: boolean) => {
+      setIs3D(to3D);
+      setIsPlaying(false);
+      setT(0);
+      reset(to3D ? VIEW_3D : {});
+  };
+
+  const inputClass = "bg-slate-800 text-center font-bold p-1 rounded outline-none border border-transparent focus:border-cyan-500";
+
   return (
     <div ref={containerRef} className="relative w-full h-full bg-slate-900 cursor-crosshair" 
         onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp} onWheel={handleWheel}>
@@ -269,6 +455,45 @@ export const EigenvectorsLevel: React.FC<EigenvectorsLevelProps> = ({ onPrevLeve
         
         <DraggableWindow title="VISUALIZADOR DE EIGENVECTORS" initialPosition={{x: 20, y: 20}} width="w-80">
             <div className="space-y-4">
+
+                {/* Mode Toggle */}
+                <div className="flex bg-slate-800 p-1 rounded border border-slate-700">
+                    <button onClick={() => switchMode(false)}
+                        className={`flex-1 py-1 text-[10px] font-bold transition-colors ${!is3D ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
+                        2x2 (PLANO)
+                    </button>
+                    <button onClick={() => switchMode(true)}
+                        className={`flex-1 py-1 text-[10px] font-bold transition-colors ${is3D ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
+                        3x3 (R³)
+                    </button>
+                </div>
+                {is3D && <CameraControls camera={camera} onPreset={setViewPreset} onProjection={setProjection} onReset={() => reset(VIEW_3D)} />}
+
+                {/* Matrix Input */}
+                <div className="flex items-center justify-center gap-2 p-2 bg-slate-950/50 rounded-lg border border-slate-800">
+                    <span className="text-xl font-serif font-bold text-slate-500 italic">A =</span>
+                    <div className="flex items-stretch">
+                        <div className="w-2 border-l-2 border-t-2 border-b-2 border-slate-500 rounded-l-md my-1"></div>
+                        {!is3D ? (
+                            <div className="grid grid-cols-2 gap-2 p-2">
+                                {(['a', 'b', 'c', 'd'] as const).map(k => (
+                                    <input key={k} type="number" step="0.1" value={matrix2D[k].toFixed(1)}
+                                        onChange={e => update2D(k, parseFloat(e.target.value) || 0)} onWheel={e => update2D(k, nudge(matrix2D[k], e))}
+                                        className={`w-16 text-xs text-white ${inputClass}`} />
+                                ))}
+                            </div>
+                        ) : (
+                            <div className="grid grid-cols-3 gap-1 p-2">
+                                {(['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i'] as const).map(k => (
+                                    <input key={k} type="number" step="0.1" value={matrix3D[k].toFixed(1)}
+                                        onChange={e => update3D(k, parseFloat(e.target.value) || 0)} onWheel={e => update3D(k, nudge(matrix3D[k], e))}
+                                        className={`w-14 text-xs text-white ${inputClass}`} />
+                                ))}
+                            </div>
+                        )}
+                        <div className="w-2 border-r-2 border-t-2 border-b-2 border-slate-500 rounded-r-md my-1"></div>
+                    </div>
+                </div>
                 
                 {/* Timeline Control */}
                 <div className="bg-slate-950/50 p-3 rounded border border-slate-800">
@@ -302,11 +527,11 @@ export const EigenvectorsLevel: React.FC<EigenvectorsLevelProps> = ({ onPrevLeve
                 <div className="space-y-2">
                     <span className="text-[10px] text-slate-500 font-bold">SELECCIONAR MATRIZ</span>
                     <div className="grid grid-cols-2 gap-2">
-                        {PRESETS.map(p => (
+                        {(is3D ? PRESETS_3D : PRESETS).map(p => (
                             <button 
                                 key={p.id}
-                                onClick={() => { setCurrentPreset(p); setT(0); }}
-                                className={`p-2 text-[9px] rounded border transition-all ${currentPreset.id === p.id 
+                                onClick={() => selectPreset(p.id)}
+                                className={`p-2 text-[9px] rounded border transition-all ${presetId === p.id 
                                     ? 'bg-cyan-900/30 border-cyan-500 text-cyan-300' 
                                     : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'}`}
                             >
@@ -319,7 +544,7 @@ export const EigenvectorsLevel: React.FC<EigenvectorsLevelProps> = ({ onPrevLeve
                 {/* Legend / Info */}
                 <div className="text-xs space-y-2 border-t border-slate-700 pt-3">
                     <p className="text-slate-300 italic leading-relaxed">
-                        {currentPreset.desc}
+                        {preset ? preset.desc : 'Matriz personalizada: los eigenvalores se calculan en vivo.'}
                     </p>
                     <div className="flex items-center gap-2">
                         <div className="w-3 h-3 rounded-full bg-green-500 shadow-[0_0_10px_#22c55e]"></div>
@@ -329,21 +554,63 @@ export const EigenvectorsLevel: React.FC<EigenvectorsLevelProps> = ({ onPrevLeve
                         <div className="w-3 h-3 rounded-full bg-pink-400"></div>
                         <span className="text-slate-400 text-[10px]">Vector Normal (Es empujado fuera de su línea)</span>
                     </div>
+                    <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 rounded-full bg-purple-400"></div>
+                        <span className="text-slate-400 text-[10px]">Espiral (λ complejos): aplicar A una y otra vez</span>
+                    </div>
                 </div>
             </div>
         </DraggableWindow>
 
+        <DraggableWindow title="EIGENVALORES" initialPosition={{x: 350, y: 20}} width="w-72">
+            <div className="space-y-3 text-xs font-mono">
+                <div>
+                    <span className={`font-bold ${KIND_INFO[eigen.kind].color}`}>{KIND_INFO[eigen.kind].label}</span>
+                    <p className="text-[10px] text-slate-400 leading-tight mt-1">{KIND_INFO[eigen.kind].note}</p>
+                </div>
+                {eigen.spaces.map((space, i) => (
+                    <div key={i} className="bg-slate-950/50 p-2 rounded border border-slate-800 space-y-1">
+                        <div className="flex justify-between">
+                            <span className="text-green-400 font-bold">λ{i + 1} = {fmt(space.value)}</span>
+                            {space.multiplicity > 1 && <span className="text-slate-500">×{space.multiplicity}</span>}
+                        </div>
+                        {space.basis.length === (is3D ? 3 : 2) ? (
+                            <p className="text-[10px] text-cyan-400">Todo vector es eigenvector</p>
+                        ) : space.basis.map((v, j) => (
+                            <p key={j} className="text-[10px] text-white">v = {fmtVec(v)}</p>
+                        ))}
+                        {space.basis.length === 2 && is3D && <p className="text-[10px] text-cyan-400">Plano de eigenvectors</p>}
+                        {space.basis.length < space.multiplicity && (
+                            <p className="text-[10px] text-orange-400">Falta{space.multiplicity - space.basis.length > 1 ? 'n' : ''} {space.multiplicity - space.basis.length} eigenvector{space.multiplicity - space.basis.length > 1 ? 's' : ''}</p>
+                        )}
+                    </div>
+                ))}
+                {eigen.complex && (
+                    <div className="bg-purple-900/20 p-2 rounded border border-purple-900 space-y-1">
+                        <span className="text-purple-300 font-bold">λ = {fmt(eigen.complex.re)} ± {fmt(eigen.complex.im)}i</span>
+                        <p className="text-[10px] text-slate-300">Giro: {(eigen.complex.angle * 180 / Math.PI).toFixed(1)}° · Escala: ×{fmt(eigen.complex.modulus)}</p>
+                        <p className="text-[10px] text-slate-500 leading-tight">
+                            {eigen.complex.modulus > 1.005 ? 'La espiral se abre' : eigen.complex.modulus < 0.995 ? 'La espiral se cierra hacia el origen' : 'Rotación pura: la espiral es una elipse'}
+                        </p>
+                    </div>
+                )}
+            </div>
+        </DraggableWindow>
+
         <DraggableWindow title="TU VECTOR (v)" initialPosition={{x: 20, y: 550}} width="w-60">
              <div className="text-center">
                  <p className="text-[10px] text-slate-400 mb-2">
-                     Arrastra el vector rosa. Si lo colocas sobre la línea punteada verde, ¡se convierte en amarillo!
+                     Arrastra el vector rosa. Si lo colocas sobre un eigenvector (línea punteada verde), ¡se convierte en amarillo!
                  </p>
                  <div className="font-mono text-white bg-slate-800 rounded p-1 inline-block px-3">
-                     v = [{probeBase.x.toFixed(1)}, {probeBase.y.toFixed(1)}]
+                     v = [{is3D ? `${probe3D.x.toFixed(1)}, ${probe3D.y.toFixed(1)}, ${probe3D.z.toFixed(1)}` : `${probe2D.x.toFixed(1)}, ${probe2D.y.toFixed(1)}`}]
                  </div>
              </div>
         </DraggableWindow>
 
+        {/* Mission */}
+        <MissionPanel status={mission} />
+
         {/* Legend Window - NEW */}
         <DraggableWindow title="GUÍA TEÓRICA: EIGENVECTORS" initialPosition={{x: 350, y: 500}} width="w-80">
             <div className="text-xs text-slate-400 font-mono space-y-2">
@@ -354,6 +621,8 @@ export const EigenvectorsLevel: React.FC<EigenvectorsLevelProps> = ({ onPrevLeve
                     <li>Arrastra el vector rosa hasta que coincida con las líneas punteadas verdes.</li>
                     <li>Cuando coincide, se vuelve <strong className="text-yellow-400">amarillo</strong>: ¡Encontraste un Eigenvector!</li>
                     <li>Fíjate que solo se estira o encoge, pero no gira.</li>
+                    <li>Escribe tu propia matriz: las líneas verdes se calculan solas. Si faltan líneas la matriz es <strong className="text-orange-400">defectiva</strong>.</li>
+                    <li>Con eigenvalores <strong className="text-purple-400">complejos</strong> no hay líneas: todo gira y escala, y v traza una espiral.</li>
                 </ul>
             </div>
         </DraggableWindow>
@@ -0,0 +1,35 @@
+import React from 'react';
+
+interface FunctionInputProps {
+  value: string;
+  error: string | null;
+  onChange: (source: string) => void;
+  disabled?: boolean;
+  label?: string;
+  placeholder?: string;
+  hint?: boolean;         // Syntax reminder under the box when there is no error
+}
+
+// Text box for a custom f(x,y), with the parser error (or a syntax reminder) underneath
+export const FunctionInput: React.FC<FunctionInputProps> = ({ value, error, onChange, disabled, label = 'f(x,y) =', placeholder = 'x^2 - 3*x*y + sin(y)', hint = true }) => (
+  <div className="space-y-1">
+    <div className={`flex items-center gap-2 bg-slate-950 rounded border px-2 ${error ? 'border-red-500/70' : 'border-slate-700 focus-within:border-cyan-400'}`}>
+      <span className="text-[10px] font-mono text-slate-500 whitespace-nowrap">{label}</span>
+      <input
+        type="text"
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        disabled={disabled}
+        spellCheck={false}
+        autoComplete="off"
+        placeholder={placeholder}
+        className="flex-1 min-w-0 bg-transparent text-white text-xs font-mono py-2 outline-none disabled:opacity-50"
+      />
+    </div>
+    {error ? (
+      <p className="text-[9px] text-red-400 leading-tight">{error}</p>
+    ) : hint && (
+      <p className="text-[9px] text-slate-600 leading-tight">+ - * / ^ · sin cos tan exp log sqrt abs · pi e</p>
+    )}
+  </div>
+);
@@ -1,13 +1,30 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { DraggableWindow } from './DraggableWindow'; 
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { DraggableWindow } from './DraggableWindow';
+import { MissionPanel } from './MissionPanel'; 
+import { FunctionInput } from './FunctionInput';
+import { CameraControls } from './CameraControls';
+import { Vector2D, Vector3D, ViewState } from '../types';
+import { norm2 } from '../utils/linearAlgebra';
+import { Schedule, ScheduleId, SCHEDULES, SCHEDULE_IDS, getSchedule } from '../utils/learningRate';
+import { CostSurface, Optimizer, OptimizerId, OptimizerState, OPTIMIZERS, OPTIMIZER_IDS, getOptimizer, initialOptimizerState } from '../utils/optimizers';
+import { CRITICAL_KINDS, analyzeHessian } from '../utils/curvature';
+import { Dataset, DatasetError, DATASETS, MAX_DATASET_POINTS, buildRegression, lossSurface, parseCsvDataset, sampleBatch } from '../utils/regression';
+import { ShareButton } from './ShareButton';
+import { ConvergenceChart } from './ConvergenceChart';
+import { RegressionPlot } from './RegressionPlot';
+import { useCamera, getCanvasPoint } from '../hooks/useCamera';
+import { useMission } from '../hooks/useMission';
+import { useCustomSurface } from '../hooks/useCustomSurface';
+import { useSharedScene, useSceneAutosave } from '../hooks/useSharedScene';
+import { CameraState } from '../utils/camera';
+import { SceneCodec, isRecord, readIndex, readNumber, readVector2, readCamera, readExpression, readIdList } from '../utils/sceneState';
+import { Mission } from '../utils/missions';
 
 interface GradientDescentProps {
   onPrevLevel?: () => void;
   onNextLevel?: () => void;
 }
 
-interface Point { x: number; y: number; z: number; }
-
 // --- MATH DEFINITIONS ---
 const FUNCTIONS = [
     {
@@ -17,92 +34,322 @@ const FUNCTIONS = [
         f: (x: number, y: number) => (x*x + y*y) / 4,
         df_dx: (x: number, y: number) => x / 2,
         df_dy: (x: number, y: number) => y / 2,
+        hessian: () => ({ xx: 1/2, xy: 0, yy: 1/2 }),
         start: { x: 3, y: 3 },
         range: 4
     },
     {
         id: 'waves',
         name: 'Valle de Ondas (Mínimos Locales)',
-        eq: 'f(x,y) = cos(x) + cos(y) + (x²+y²)/10',
-        f: (x: number, y: number) => Math.cos(x) + Math.cos(y) + (x*x + y*y)/10,
-        df_dx: (x: number, y: number) => -Math.sin(x) + x/5,
-        df_dy: (x: number, y: number) => -Math.sin(y) + y/5,
+        eq: 'f(x,y) = (cos(4x) + cos(4y))/5 + (x²+y²)/5',
+        // A bowl with ripples: every ripple is a local minimum, the deepest ones are near the center.
+        // Narrow, shallow ripples so the optimizers tell apart: from (2.5, 2.5) at lr 0.1 GD, RMSProp and
+        // Newton stop in the first one while Momentum, Nesterov and Adam roll on to deeper ones
+        f: (x: number, y: number) => (Math.cos(4*x) + Math.cos(4*y))/5 + (x*x + y*y)/5,
+        df_dx: (x: number, y: number) => -4*Math.sin(4*x)/5 + 2*x/5,
+        df_dy: (x: number, y: number) => -4*Math.sin(4*y)/5 + 2*y/5,
+        hessian: (x: number, y: number) => ({ xx: -16*Math.cos(4*x)/5 + 2/5, xy: 0, yy: -16*Math.cos(4*y)/5 + 2/5 }),
         start: { x: 2.5, y: 2.5 },
         range: 4
     },
     {
         id: 'saddle',
         name: 'Silla de Montar',
-        eq: 'f(x,y) = x² - y²',
+        eq: 'f(x,y) = (x² - y²)/4',
         f: (x: number, y: number) => (x*x - y*y)/4,
         df_dx: (x: number, y: number) => x/2,
         df_dy: (x: number, y: number) => -y/2,
-        start: { x: 0.1, y: 3 },
+        hessian: () => ({ xx: 1/2, xy: 0, yy: -1/2 }),
+        // Almost on the ridge: the escape direction has a tiny slope, so the race shows who finds it
+        // (from y = 3 every optimizer escaped within a few steps; Newton jumps onto the saddle point)
+        start: { x: 3, y: 0.02 },
         range: 4
     }
 ];
 
-// --- 3D UTILS ---
-const rotateX = (p: Point, angle: number): Point => ({
-    x: p.x,
-    y: p.y * Math.cos(angle) - p.z * Math.sin(angle),
-    z: p.y * Math.sin(angle) + p.z * Math.cos(angle)
-});
-const rotateY = (p: Point, angle: number): Point => ({
-    x: p.x * Math.cos(angle) + p.z * Math.sin(angle),
-    y: p.y,
-    z: -p.x * Math.sin(angle) + p.z * Math.cos(angle)
+type SurfaceFunction = typeof FUNCTIONS[number];
+
+// Selector entry for the user-typed cost surface, right after the presets
+const CUSTOM_INDEX = FUNCTIONS.length;
+const CUSTOM_DEFAULT = '(x^2 + y^2)/8 + sin(x)*cos(y)';
+const CUSTOM_START = { x: 3, y: 3 };
+const CUSTOM_RANGE = 4;
+
+// Selector entry for the MSE of a linear regression, after the custom surface: the ball is (w, b)
+const REGRESSION_INDEX = CUSTOM_INDEX + 1;
+const REGRESSION_START = { x: -2, y: 2 }; // A line sloping the wrong way
+const REGRESSION_MAX_RANGE = 8;
+const CSV_DATASET_ID = 'csv';
+
+// Optimizers are stopped once they wander this far off the drawn surface
+const ESCAPE_FACTOR = 3;
+const MAX_ITERATIONS = 300;
+// The loss rising this many iterations in a row, above where it started, counts as divergence
+const RISING_ITERATIONS = 5;
+
+type RunStatus = 'running' | 'converged' | 'diverged' | 'escaped' | 'stalled';
+
+// What the diagnostics chart plots, per iteration
+interface IterationStats {
+  loss: number;
+  gradNorm: number;
+  step: number;   // |Δx| actually taken
+  rate: number;   // Scheduled α
+}
+
+type ChartMetric = keyof IterationStats;
+
+// One optimizer racing on the surface
+interface Runner {
+  optimizer: Optimizer;
+  state: OptimizerState;
+  path: Vector2D[];             // Positions visited, start included
+  history: IterationStats[];    // Same length as path, plus the step that diverged (if any)
+  status: RunStatus;
+}
+
+const statsAt = (func: SurfaceFunction, p: Vector2D, step: number, rate: number): IterationStats => ({
+  loss: func.f(p.x, p.y),
+  gradNorm: norm2({ x: func.df_dx(p.x, p.y), y: func.df_dy(p.x, p.y) }),
+  step, rate
 });
 
+const startRunners = (ids: OptimizerId[], start: Vector2D, func: SurfaceFunction, rate: number): Runner[] =>
+  ids.map(id => ({
+    optimizer: getOptimizer(id), state: initialOptimizerState(start),
+    path: [start], history: [statsAt(func, start, 0, rate)], status: 'running'
+  }));
+
+// `batch` is the surface whose gradient drives the step (a random mini-batch of the data when
+// training stochastically); the stats always measure the full function.
+const advanceRunner = (runner: Runner, func: SurfaceFunction, learningRate: number, schedule: Schedule, batch: CostSurface = func): Runner => {
+  if (runner.status !== 'running') return runner;
+  if (runner.state.step >= MAX_ITERATIONS) return { ...runner, status: 'stalled' };
+
+  const prev = runner.state.position;
+  const rate = schedule.rate(learningRate, runner.state.step);
+  const next = runner.optimizer.update(runner.state, batch, rate);
+  const p = next.position;
+  const stats = statsAt(func, p, norm2({ x: p.x - prev.x, y: p.y - prev.y }), rate);
+
+  // Divergence: the numbers blow up (or leave the domain of a custom f), or the loss keeps climbing.
+  // The ball stays where it was; the history keeps the offending step (the chart skips non-finite values).
+  const history = [...runner.history, stats];
+  if (!Number.isFinite(stats.loss) || !Number.isFinite(stats.gradNorm) || !Number.isFinite(stats.step)) {
+    return { ...runner, history, status: 'diverged' };
+  }
+  const recent = history.slice(-RISING_ITERATIONS - 1);
+  const climbing = recent.length > RISING_ITERATIONS && recent.every((h, i) => i === 0 || h.loss > recent[i - 1].loss) && stats.loss > history[0].loss;
+  if (stats.step > 10 || stats.gradNorm > 1e3 || climbing) return { ...runner, history, status: 'diverged' };
+
+  // Left the map: the loss may just keep decreasing forever (e.g. the saddle)
+  const limit = ESCAPE_FACTOR * func.range;
+  if (Math.abs(p.x) > limit || Math.abs(p.y) > limit) return { ...runner, history, status: 'escaped' };
+
+  // Converged: barely moving on flat ground (momentum methods also move slowly while turning around)
+  const converged = stats.step < 0.001 && stats.gradNorm < 0.01;
+  return { ...runner, state: next, path: [...runner.path, p], history, status: converged ? 'converged' : 'running' };
+};
+
+const STATUS_INFO: Record<RunStatus, { icon: string; label: string; color: string }> = {
+  running: { icon: '…', label: 'En marcha', color: 'text-slate-400' },
+  converged: { icon: '✓', label: 'Convergió', color: 'text-green-400' },
+  diverged: { icon: '⚠', label: 'Divergió', color: 'text-red-400' },
+  escaped: { icon: '↗', label: 'Salió del mapa', color: 'text-yellow-400' },
+  stalled: { icon: '■', label: `Sin converger tras ${MAX_ITERATIONS} iteraciones`, color: 'text-slate-500' }
+};
+
+const CHART_METRICS: { id: ChartMetric; label: string; logScale: boolean }[] = [
+  { id: 'loss', label: 'ERROR f', logScale: false },
+  { id: 'gradNorm', label: '|∇f|', logScale: true },
+  { id: 'step', label: 'PASO |Δx|', logScale: true },
+  { id: 'rate', label: 'α', logScale: false }
+];
+
+interface GradientScene {
+  funcIndex: number;
+  expression: string; // Custom f(x,y), only meaningful when funcIndex is CUSTOM_INDEX
+  learningRate: number;
+  schedule: ScheduleId;
+  optimizers: OptimizerId[];
+  dataset: string; // Bundled dataset id, or CSV_DATASET_ID
+  csv: Dataset | null; // A loaded CSV travels inside the link
+  batchSize: number; // Mini-batch size, clamped to the dataset size
+  position: { x: number; y: number }; // Starting point of the ball
+  camera: CameraState;
+}
+
+const readCsvDataset = (v: unknown): Dataset | null => {
+  if (!isRecord(v) || typeof v.name !== 'string' || typeof v.xLabel !== 'string' || typeof v.yLabel !== 'string' || !Array.isArray(v.points)) return null;
+  if (v.points.length < 2 || v.points.length > MAX_DATASET_POINTS) return null;
+  const points = v.points.map(p => readVector2(p));
+  if (points.some(p => p === null) || points.every(p => p!.x === points[0]!.x)) return null;
+  return { id: CSV_DATASET_ID, name: v.name, xLabel: v.xLabel, yLabel: v.yLabel, points: points as Vector2D[] };
+};
+
+export const GRADIENT_SCENE: SceneCodec<GradientScene> = {
+  level: ViewState.GRADIENT,
+  version: 1,
+  parse: raw => {
+    const funcIndex = readIndex(raw.funcIndex, FUNCTIONS.length + 2);
+    const learningRate = readNumber(raw.learningRate, 0.01, 1);
+    if (funcIndex === null || learningRate === null) return null;
+    const expression = readExpression(raw.expression);
+    const optimizers = readIdList(raw.optimizers, OPTIMIZER_IDS);
+    const schedule = SCHEDULE_IDS.find(id => id === raw.schedule) ?? null;
+    if (expression === null || optimizers === null || schedule === null) return null;
+    const csv = raw.csv === null ? null : readCsvDataset(raw.csv);
+    if (raw.csv !== null && !csv) return null;
+    const datasetIds = csv ? [...DATASETS.map(d => d.id), CSV_DATASET_ID] : DATASETS.map(d => d.id);
+    const dataset = datasetIds.find(id => id === raw.dataset) ?? null;
+    const batchSize = readNumber(raw.batchSize, 1, MAX_DATASET_POINTS);
+    if (dataset === null || batchSize === null) return null;
+    const range = funcIndex === CUSTOM_INDEX ? CUSTOM_RANGE : funcIndex === REGRESSION_INDEX ? REGRESSION_MAX_RANGE : FUNCTIONS[funcIndex].range;
+    const position = readVector2(raw.position, range);
+    const camera = readCamera(raw.camera, 20, 150);
+    if (!position || !camera) return null;
+    return { funcIndex, expression, learningRate, schedule, optimizers, dataset, csv, batchSize: Math.round(batchSize), position, camera };
+  }
+};
+
+interface GradientMissionState {
+  func: SurfaceFunction;
+  runs: { position: { x: number; y: number }; iteration: number }[]; // One per optimizer (just the ball before starting)
+}
+
+const GRADIENT_MISSION: Mission<GradientMissionState> = {
+  level: ViewState.GRADIENT,
+  objectives: [
+    {
+      id: 'fast', label: 'Copa: llega al mínimo (error < 0.01) en menos de 20 iteraciones',
+      check: ({ func, runs }) =>
+        func.id === 'bowl' && runs.some(({ position: p, iteration }) => iteration > 0 && iteration < 20 && func.f(p.x, p.y) < 0.01)
+    },
+    {
+      id: 'valley', label: 'Valle de ondas: alcanza un mínimo (∇f ≈ 0)',
+      check: ({ func, runs }) =>
+        func.id === 'waves' && runs.some(({ position: p, iteration }) => iteration > 0 && norm2({ x: func.df_dx(p.x, p.y), y: func.df_dy(p.x, p.y) }) < 0.02)
+    },
+    {
+      id: 'saddle', label: 'Silla de montar: descubre por dónde escapa la bola (|y| > 4)',
+      check: s => s.func.id === 'saddle' && s.runs.some(r => Math.abs(r.position.y) > 4)
+    },
+    {
+      id: 'regression', label: 'Regresión lineal: ajusta la recta a los datos (|∇L| < 0.01)',
+      check: ({ func, runs }) =>
+        func.id === 'regression' && runs.some(({ position: p, iteration }) => iteration > 0 && norm2({ x: func.df_dx(p.x, p.y), y: func.df_dy(p.x, p.y) }) < 0.01)
+    }
+  ]
+};
+
 export const GradientDescent: React.FC<GradientDescentProps> = ({ onPrevLevel, onNextLevel }) => {
   // Config State
-  const [funcIndex, setFuncIndex] = useState(0);
-  const [learningRate, setLearningRate] = useState(0.1);
+  const shared = useSharedScene(GRADIENT_SCENE);
+  const [funcIndex, setFuncIndex] = useState(shared?.funcIndex ?? 0);
+  const [learningRate, setLearningRate] = useState(shared?.learningRate ?? 0.1);
+  const [scheduleId, setScheduleId] = useState<ScheduleId>(shared?.schedule ?? 'constant');
+  const [selected, setSelected] = useState<OptimizerId[]>(shared?.optimizers ?? ['gd']);
+  const [chartMetric, setChartMetric] = useState<ChartMetric>('loss');
+  const schedule = getSchedule(scheduleId);
   const [isRunning, setIsRunning] = useState(false);
   
+  // Custom cost surface; step() follows its symbolic gradient
+  const custom = useCustomSurface(shared?.expression ?? CUSTOM_DEFAULT);
+  const customFunc = useMemo<SurfaceFunction>(() => ({
+      id: 'custom',
+      name: '✎ Personalizada',
+      eq: `f(x,y) = ${custom.surface.formula}`,
+      f: custom.surface.f,
+      df_dx: custom.surface.dx.evaluate,
+      df_dy: custom.surface.dy.evaluate,
+      hessian: (x: number, y: number) => ({
+          xx: custom.surface.hessian.xx.evaluate(x, y),
+          xy: custom.surface.hessian.xy.evaluate(x, y),
+          yy: custom.surface.hessian.yy.evaluate(x, y)
+      }),
+      start: CUSTOM_START,
+      range: CUSTOM_RANGE
+  }), [custom.surface]);
+
+  // Linear regression: the cost is the MSE over a dataset (bundled or loaded from a CSV)
+  const [datasetId, setDatasetId] = useState(shared?.dataset ?? DATASETS[0].id);
+  const [csv, setCsv] = useState<Dataset | null>(shared?.csv ?? null);
+  const [csvError, setCsvError] = useState<string | null>(null);
+  const [batchSize, setBatchSize] = useState(shared?.batchSize ?? MAX_DATASET_POINTS);
+  const [lastBatch, setLastBatch] = useState<Vector2D[] | null>(null); // Points behind the last stochastic step
+  const dataset = (datasetId === CSV_DATASET_ID && csv) || DATASETS.find(d => d.id === datasetId) || DATASETS[0];
+  const regression = useMemo(() => buildRegression(dataset), [dataset]);
+  const batchCount = Math.min(batchSize, regression.points.length);
+  const regressionFunc = useMemo<SurfaceFunction>(() => ({
+      id: 'regression',
+      name: '📈 Regresión lineal (datos)',
+      eq: 'L(w,b) = 1/(2n)·Σ(w·xᵢ + b - yᵢ)²',
+      ...regression.loss,
+      start: REGRESSION_START,
+      // Wide enough to show the minimum: the data is rescaled, so it is usually close to the origin
+      range: Math.min(REGRESSION_MAX_RANGE, Math.max(3, Math.ceil(Math.max(Math.abs(regression.optimum.x), Math.abs(regression.optimum.y)) + 1)))
+  }), [regression]);
+
   // Algorithm State
-  const activeFunc = FUNCTIONS[funcIndex];
-  const [position, setPosition] = useState(activeFunc.start);
-  const [path, setPath] = useState<Point[]>([]);
-  const [iteration, setIteration] = useState(0);
+  const activeFunc = funcIndex === CUSTOM_INDEX ? customFunc : funcIndex === REGRESSION_INDEX ? regressionFunc : FUNCTIONS[funcIndex];
+  const isRegression = activeFunc === regressionFunc;
+  const [start, setStart] = useState(shared?.position ?? activeFunc.start);
+  const [runners, setRunners] = useState<Runner[]>([]); // Empty until the race starts
 
   // View State
-  const [camera, setCamera] = useState({ x: -0.5, y: 0.5 });
-  const [scale, setScale] = useState(40);
-  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const { camera, project, pickSurface, orbit, zoom, setPreset, setProjection, reset: resetView } = useCamera({ pitch: -0.5, yaw: 0.5, scale: 40 }, { minScale: 20, maxScale: 150 }, shared?.camera);
+
+  // Restorable scene: share links + saved progress
+  const scene = useMemo(() => ({
+    funcIndex, learningRate, camera,
+    schedule: scheduleId,
+    optimizers: selected,
+    expression: custom.surface.source,
+    dataset: dataset.id,
+    csv: dataset.id === CSV_DATASET_ID ? dataset : null,
+    batchSize,
+    position: start // Where the race starts
+  }), [funcIndex, learningRate, camera, scheduleId, selected, custom.surface.source, dataset, batchSize, start]);
+  useSceneAutosave(GRADIENT_SCENE, scene);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dragging, setDragging] = useState<'ORBIT' | 'BALL' | null>(null);
-  const lastMouse = useRef({ x: 0, y: 0 });
-  const requestIdRef = useRef<number | null>(null);
+  const lastMouse = useRef({ x: 0, y: 0 }); // Canvas coordinates
+
+  // Mission
+  const runs = runners.length > 0
+    ? runners.map(r => ({ position: r.state.position, iteration: r.state.step }))
+    : [{ position: start, iteration: 0 }];
+  const mission = useMission(GRADIENT_MISSION, { func: activeFunc, runs });
 
   // --- ALGORITHM LOGIC ---
+  // Every optimizer takes one step (see utils/optimizers.ts)
   const step = useCallback(() => {
-    setPosition(prev => {
-      // Calculate Gradient (Slope) at current position
-      const gradX = activeFunc.df_dx(prev.x, prev.y);
-      const gradY = activeFunc.df_dy(prev.x, prev.y);
-      
-      // Gradient Descent Step: x_new = x_old - learning_rate * gradient
-      const nextX = prev.x - learningRate * gradX;
-      const nextY = prev.y - learningRate * gradY;
-
-      // Stop condition (convergence or divergence)
-      const dist = Math.sqrt((nextX-prev.x)**2 + (nextY-prev.y)**2);
-      if (dist < 0.001 || dist > 10) {
-        setIsRunning(false);
-        return prev;
-      }
-      
-      // Store history for the trail
-      const currentZ = activeFunc.f(prev.x, prev.y);
-      setPath(old => [...old, { x: prev.x, y: currentZ, z: prev.y }]);
-      setIteration(i => i + 1);
+    // Stochastic mini-batch: this tick every optimizer follows the gradient of the same random sample
+    const sample = isRegression && batchCount < regression.points.length ? sampleBatch(regression.points, batchCount) : null;
+    const batch = sample ? lossSurface(sample) : activeFunc;
+    setLastBatch(sample);
+    setRunners(prev => prev.map(r => advanceRunner(r, activeFunc, learningRate, schedule, batch)));
+  }, [activeFunc, learningRate, schedule, isRegression, batchCount, regression]);
+
+  // The race ends when every optimizer has converged or stopped
+  useEffect(() => {
+    if (isRunning && runners.length > 0 && runners.every(r => r.status !== 'running')) setIsRunning(false);
+  }, [isRunning, runners]);
 
-      return { x: nextX, y: nextY };
-    });
-  }, [activeFunc, learningRate]);
+  const toggleRun = () => {
+    if (!isRunning && (runners.length === 0 || runners.every(r => r.status !== 'running'))) {
+      setRunners(startRunners(selected, start, activeFunc, schedule.rate(learningRate, 0)));
+    }
+    setIsRunning(!isRunning);
+  };
+
+  // Changing the line-up clears the race
+  const toggleOptimizer = (id: OptimizerId) => {
+    setSelected(prev => prev.includes(id) ? (prev.length > 1 ? prev.filter(o => o !== id) : prev) : OPTIMIZER_IDS.filter(o => o === id || prev.includes(o)));
+    setRunners([]);
+  };
 
   // Animation Loop for Algorithm
   useEffect(() => {
@@ -115,28 +362,34 @@ export const GradientDescent: React.FC<GradientDescentProps> = ({ onPrevLevel, o
     }
   }, [isRunning, step]);
 
-  // Reset when function changes
+  // Reset when the function (or the custom expression) changes, not on mount, so a shared starting point survives
+  const lastFunc = useRef(activeFunc);
   useEffect(() => {
+      if (lastFunc.current === activeFunc) return;
+      lastFunc.current = activeFunc;
       reset();
-  }, [funcIndex]);
+  }, [activeFunc]);
 
   const reset = () => {
       setIsRunning(false);
-      setPosition(activeFunc.start);
-      setPath([]);
-      setIteration(0);
+      setStart(activeFunc.start);
+      setRunners([]);
+      setLastBatch(null);
   };
 
-  // --- PROJECTION ---
-  const project = useCallback((p: Point, w: number, h: number) => {
-      let r = rotateY(p, camera.y);
-      r = rotateX(r, camera.x);
-      return {
-          x: w/2 + pan.x + r.x * scale,
-          y: h/2 + pan.y - r.y * scale, 
-          z: r.z
-      };
-  }, [camera, scale, pan]);
+  const loadCsv = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // So the same file can be picked again
+      if (!file) return;
+      try {
+          setCsv(parseCsvDataset(await file.text(), file.name));
+          setDatasetId(CSV_DATASET_ID);
+          setCsvError(null);
+      } catch (err) {
+          if (!(err instanceof DatasetError)) throw err;
+          setCsvError(err.message);
+      }
+  };
 
   // --- DRAW LOOP ---
   const draw = useCallback(() => {
@@ -150,11 +403,11 @@ export const GradientDescent: React.FC<GradientDescentProps> = ({ onPrevLevel, o
       ctx.fillStyle = '#0f172a'; ctx.fillRect(0,0,w,h);
 
       const range = activeFunc.range;
-      const stepSize = 0.5;
+      const stepSize = 0.25;
 
       // 1. Draw Surface (Grid)
       // Helper to draw projected lines
-      const drawLine3D = (p1: Point, p2: Point, color: string) => {
+      const drawLine3D = (p1: Vector3D, p2: Vector3D, color: string) => {
           const pr1 = project(p1, w, h);
           const pr2 = project(p2, w, h);
           ctx.beginPath(); ctx.moveTo(pr1.x, pr1.y); ctx.lineTo(pr2.x, pr2.y);
@@ -196,45 +449,54 @@ export const GradientDescent: React.FC<GradientDescentProps> = ({ onPrevLevel, o
       drawLine3D(origin, {x:0, y:range, z:0}, '#22c55e');
       drawLine3D(origin, {x:0, y:0, z:range}, '#3b82f6');
 
-      // 3. Draw Path (History)
-      if (path.length > 1) {
+      const at = (p: Vector2D): Vector3D => ({ x: p.x, y: activeFunc.f(p.x, p.y), z: p.y });
+
+      // 3. Draw Paths (History), one color per optimizer
+      runners.forEach(r => {
+          if (r.path.length < 2) return;
           ctx.beginPath();
-          path.forEach((p, i) => {
-              const proj = project(p, w, h);
+          r.path.forEach((p, i) => {
+              const proj = project(at(p), w, h);
               if (i===0) ctx.moveTo(proj.x, proj.y); else ctx.lineTo(proj.x, proj.y);
           });
-          // Connect to current pos
-          const currZ = activeFunc.f(position.x, position.y);
-          const currProj = project({x:position.x, y:currZ, z:position.y}, w, h);
-          ctx.lineTo(currProj.x, currProj.y);
-
-          ctx.strokeStyle = '#22d3ee';
+          ctx.strokeStyle = r.optimizer.color;
           ctx.lineWidth = 2;
           ctx.stroke();
+      });
+
+      // 4. Draw Balls: the start point before the race, one per optimizer during it
+      const drawBall = (p: Vector2D, color: string) => {
+          const ballProj = project(at(p), w, h);
+
+          // Draw shadow on "floor" (y=min) for depth cue
+          const shadowProj = project({ x: p.x, y: -2, z: p.y }, w, h);
+          ctx.beginPath(); ctx.moveTo(ballProj.x, ballProj.y); ctx.lineTo(shadowProj.x, shadowProj.y);
+          ctx.strokeStyle = 'rgba(255,255,255,0.2)'; ctx.setLineDash([2,4]); ctx.stroke(); ctx.setLineDash([]);
+
+          ctx.beginPath(); ctx.arc(ballProj.x, ballProj.y, 6, 0, Math.PI*2);
+          ctx.fillStyle = color; ctx.fill();
+          ctx.strokeStyle = '#22d3ee'; ctx.lineWidth = 1; ctx.stroke();
+      };
+
+      if (runners.length === 0) {
+          drawBall(start, dragging === 'BALL' ? '#fde047' : '#fff'); // Yellow when dragging
+      } else {
+          runners.forEach(r => drawBall(r.state.position, r.optimizer.color));
       }
 
-      // 4. Draw Current Position (Ball)
-      const currentZ = activeFunc.f(position.x, position.y);
-      const pos3D = { x: position.x, y: currentZ, z: position.y };
-      const ballProj = project(pos3D, w, h);
-
-      // Draw shadow on "floor" (y=min) for depth cue
-      const shadowProj = project({ x: position.x, y: -2, z: position.y }, w, h);
-      ctx.beginPath(); ctx.moveTo(ballProj.x, ballProj.y); ctx.lineTo(shadowProj.x, shadowProj.y);
-      ctx.strokeStyle = 'rgba(255,255,255,0.2)'; ctx.setLineDash([2,4]); ctx.stroke(); ctx.setLineDash([]);
-
-      // Ball
-      ctx.beginPath(); ctx.arc(ballProj.x, ballProj.y, 6, 0, Math.PI*2);
-      ctx.fillStyle = dragging === 'BALL' ? '#fde047' : '#fff'; // Yellow when dragging
-      ctx.fill();
-      ctx.strokeStyle = '#22d3ee'; ctx.stroke();
-      
       // Hover/Drag indicator
       if (dragging === 'BALL') {
+          const ballProj = project(at(start), w, h);
           ctx.beginPath(); ctx.arc(ballProj.x, ballProj.y, 10, 0, Math.PI*2);
           ctx.strokeStyle = 'rgba(255,255,255,0.5)'; ctx.stroke();
       }
 
+      // Gradient arrows only while a single ball is on the surface
+      if (runners.length > 1) return;
+      const position = runners.length === 1 ? runners[0].state.position : start;
+      const currentZ = activeFunc.f(position.x, position.y);
+      const ballProj = project(at(position), w, h);
+
       // 5. Draw Gradient Vectors
       const gx = activeFunc.df_dx(position.x, position.y);
       const gy = activeFunc.df_dy(position.x, position.y);
@@ -274,7 +536,7 @@ export const GradientDescent: React.FC<GradientDescentProps> = ({ onPrevLevel, o
       // Draw Descent Direction (Downhill - Cyan/Green) - This is where we are going!
       drawArrow(-gx, -gy, '#22d3ee');
 
-  }, [activeFunc, position, path, camera, scale, pan, project, dragging]);
+  }, [activeFunc, start, runners, project, dragging]);
 
   // Event Listeners
   useEffect(() => {
@@ -291,60 +553,53 @@ export const GradientDescent: React.FC<GradientDescentProps> = ({ onPrevLevel, o
 
   // Interactions
   const handleMouseDown = (e: React.MouseEvent) => {
-    const rect = canvasRef.current!.getBoundingClientRect();
-    const mx = e.clientX - rect.left;
-    const my = e.clientY - rect.top;
+    const mouse = getCanvasPoint(e, canvasRef.current!);
+    const mx = mouse.x;
+    const my = mouse.y;
     const w = canvasRef.current!.width;
     const h = canvasRef.current!.height;
 
-    // Check collision with ball
-    const currentZ = activeFunc.f(position.x, position.y);
-    const ballPos3D = { x: position.x, y: currentZ, z: position.y };
-    const proj = project(ballPos3D, w, h);
-
-    const dist = Math.sqrt((mx - proj.x)**2 + (my - proj.y)**2);
+    // Check collision with any ball
+    const balls = runners.length > 0 ? runners.map(r => r.state.position) : [start];
+    const hit = balls.some(p => {
+        const proj = project({ x: p.x, y: activeFunc.f(p.x, p.y), z: p.y }, w, h);
+        return Math.sqrt((mx - proj.x)**2 + (my - proj.y)**2) < 15;
+    });
 
-    if (dist < 15) {
+    if (hit) {
         setDragging('BALL');
-        setIsRunning(false); // Stop algorithm when moving manually
-        setPath([]); // Clear path
-        setIteration(0);
+        setIsRunning(false); // Stop the race when moving manually
+        setRunners([]); // Clear paths
+        setLastBatch(null);
     } else {
         setDragging('ORBIT');
     }
 
-    lastMouse.current = { x: e.clientX, y: e.clientY };
+    lastMouse.current = mouse;
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (!dragging) return;
-    const dx = e.clientX - lastMouse.current.x;
-    const dy = e.clientY - lastMouse.current.y;
-    lastMouse.current = { x: e.clientX, y: e.clientY };
+    if (!dragging || !canvasRef.current) return;
+    const mouse = getCanvasPoint(e, canvasRef.current);
+    const { width, height } = canvasRef.current;
+    const prevMouse = lastMouse.current;
+    lastMouse.current = mouse;
 
     if (dragging === 'ORBIT') {
-        setCamera(prev => ({ x: prev.x + dy * 0.01, y: prev.y + dx * 0.01 }));
+        orbit(prevMouse, mouse, width, height);
     } else if (dragging === 'BALL') {
-        const sensitivity = 1.0 / scale;
-        // Map screen XY to World XZ based on Camera Yaw
-        const cosY = Math.cos(camera.y);
-        const sinY = Math.sin(camera.y);
-
-        // This approximates moving along the "Floor" relative to view
-        const dX = (dx * cosY + dy * sinY) * sensitivity;
-        const dY = (dy * cosY - dx * sinY) * sensitivity; // Note: In this component, visual Y (depth) corresponds to state.y
-
-        setPosition(prev => ({
-            x: Math.max(-4, Math.min(4, prev.x + dX)),
-            y: Math.max(-4, Math.min(4, prev.y + dY))
-        }));
+        // The ball sits on the surface right under the cursor
+        // Note: In this component, visual Z (depth) corresponds to state.y
+        const hit = pickSurface(mouse, width, height, activeFunc.f, activeFunc.range);
+        if (hit) setStart({ x: hit.x, y: hit.z });
     }
   };
 
   const handleMouseUp = () => setDragging(null);
   const handleWheel = (e: React.WheelEvent) => {
+    if (!canvasRef.current) return;
     const zoomFactor = e.deltaY < 0 ? 1.1 : 0.9;
-    setScale(prev => Math.max(20, Math.min(150, prev * zoomFactor)));
+    zoom(getCanvasPoint(e, canvasRef.current), zoomFactor, canvasRef.current.width, canvasRef.current.height);
   };
 
   return (
@@ -367,7 +622,15 @@ export const GradientDescent: React.FC<GradientDescentProps> = ({ onPrevLevel, o
                         {FUNCTIONS.map((func, i) => (
                             <option key={func.id} value={i}>{func.name}</option>
                         ))}
+                        <option value={CUSTOM_INDEX}>{customFunc.name}</option>
+                        <option value={REGRESSION_INDEX}>{regressionFunc.name}</option>
                     </select>
+                    {funcIndex === CUSTOM_INDEX && (
+                        <FunctionInput value={custom.source} error={custom.error} onChange={custom.setSource} disabled={isRunning} />
+                    )}
+                    {isRegression && (
+                        <p className="text-[9px] font-mono text-slate-500">{regressionFunc.eq} · bola = (w, b)</p>
+                    )}
                 </div>
 
                 {/* Parameters */}
@@ -377,18 +640,47 @@ export const GradientDescent: React.FC<GradientDescentProps> = ({ onPrevLevel, o
                         <span className="text-cyan-400">{learningRate}</span>
                     </div>
                     <input 
-                        type="range" min="0.01" max="0.5" step="0.01" 
+                        type="range" min="0.01" max="1" step="0.01" 
                         value={learningRate} 
                         onChange={(e) => setLearningRate(parseFloat(e.target.value))}
                         disabled={isRunning}
                         className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-400"
                     />
+                    <div className="flex items-center gap-2">
+                        <label className="text-[9px] font-bold text-slate-500 whitespace-nowrap">PROGRAMACIÓN</label>
+                        <select
+                            value={scheduleId}
+                            onChange={(e) => setScheduleId(e.target.value as ScheduleId)}
+                            disabled={isRunning}
+                            className="flex-1 bg-slate-800 text-white text-[10px] p-1 rounded border border-slate-700 outline-none hover:border-cyan-400 disabled:opacity-50"
+                        >
+                            {SCHEDULES.map(sc => <option key={sc.id} value={sc.id}>{sc.name}</option>)}
+                        </select>
+                    </div>
+                    <p className="text-[9px] font-mono text-slate-500">{schedule.formula}</p>
+                </div>
+
+                {/* Optimizer Line-up */}
+                <div className="space-y-1 border-t border-slate-700 pt-2">
+                    <label className="text-[9px] font-bold text-slate-500">OPTIMIZADORES (UNO O VARIOS A LA VEZ)</label>
+                    <div className="grid grid-cols-3 gap-1">
+                        {OPTIMIZERS.map(o => {
+                            const active = selected.includes(o.id);
+                            return (
+                                <button key={o.id} onClick={() => toggleOptimizer(o.id)} disabled={isRunning} title={o.rule}
+                                    className={`flex items-center gap-1 px-1 py-1 rounded border text-[9px] font-bold transition-colors disabled:opacity-50 ${active ? 'bg-slate-700 border-slate-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-500 hover:text-slate-300'}`}>
+                                    <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: active ? o.color : 'transparent', border: `1px solid ${o.color}` }}></span>
+                                    {o.name}
+                                </button>
+                            );
+                        })}
+                    </div>
                 </div>
 
                 {/* Actions */}
                 <div className="flex gap-2">
                     <button 
-                        onClick={() => setIsRunning(!isRunning)}
+                        onClick={toggleRun}
                         className={`flex-1 py-2 rounded font-bold text-xs transition-all ${isRunning ? 'bg-red-500 hover:bg-red-600 text-white' : 'bg-cyan-600 hover:bg-cyan-500 text-white'}`}
                     >
                         {isRunning ? '⏸ PAUSAR' : '▶ INICIAR'}
@@ -401,14 +693,142 @@ export const GradientDescent: React.FC<GradientDescentProps> = ({ onPrevLevel, o
                     </button>
                 </div>
 
-                {/* Stats */}
-                <div className="grid grid-cols-2 gap-2 text-[10px] font-mono text-slate-400 bg-slate-950/50 p-2 rounded">
-                    <div>ITERACIÓN: <span className="text-white">{iteration}</span></div>
-                    <div>ERROR (z): <span className="text-white">{activeFunc.f(position.x, position.y).toFixed(3)}</span></div>
+                {/* Stats: one row per optimizer */}
+                <div className="text-[10px] font-mono text-slate-400 bg-slate-950/50 p-2 rounded space-y-1">
+                    <div className="grid grid-cols-[1fr_3rem_4rem_1rem] gap-1 text-[9px] text-slate-500">
+                        <span>OPTIMIZADOR</span><span className="text-right">ITER.</span><span className="text-right">ERROR (z)</span><span></span>
+                    </div>
+                    {runners.length === 0 ? (
+                        <div className="grid grid-cols-[1fr_3rem_4rem_1rem] gap-1">
+                            <span className="text-slate-500">inicio</span>
+                            <span className="text-right text-white">0</span>
+                            <span className="text-right text-white">{activeFunc.f(start.x, start.y).toFixed(3)}</span>
+                            <span></span>
+                        </div>
+                    ) : runners.map(r => (
+                        <div key={r.optimizer.id} className="grid grid-cols-[1fr_3rem_4rem_1rem] gap-1">
+                            <span style={{ color: r.optimizer.color }}>{r.optimizer.name}</span>
+                            <span className="text-right text-white">{r.state.step}</span>
+                            <span className="text-right text-white">{activeFunc.f(r.state.position.x, r.state.position.y).toFixed(3)}</span>
+                            <span className={`text-center ${STATUS_INFO[r.status].color}`} title={STATUS_INFO[r.status].label}>{STATUS_INFO[r.status].icon}</span>
+                        </div>
+                    ))}
+                    {/* Where the converged ones stopped, by the signs of the Hessian's eigenvalues */}
+                    {runners.filter(r => r.status === 'converged').map(r => {
+                        const { x, y } = r.state.position;
+                        const { eigenvalues, kind } = analyzeHessian(activeFunc.hessian(x, y));
+                        return (
+                            <div key={`kind-${r.optimizer.id}`} className="text-[9px] text-slate-500">
+                                <span style={{ color: r.optimizer.color }}>{r.optimizer.name}</span> se detuvo en:{' '}
+                                <span style={{ color: CRITICAL_KINDS[kind].color }}>{CRITICAL_KINDS[kind].name}</span>{' '}
+                                (λ = {eigenvalues[0].toFixed(2)}, {eigenvalues[1].toFixed(2)})
+                            </div>
+                        );
+                    })}
                 </div>
+
+                {/* Divergence is reported, never silent */}
+                {runners.some(r => r.status === 'diverged') && (
+                    <div className="p-2 rounded border border-red-500/70 bg-red-900/20 text-[10px] text-red-300 space-y-1">
+                        <p className="font-bold">⚠ DIVERGENCIA</p>
+                        {runners.filter(r => r.status === 'diverged').map(r => (
+                            <p key={r.optimizer.id}>{r.optimizer.name}: el error explotó en la iteración {r.history.length - 1}.</p>
+                        ))}
+                        <p className="text-red-400/80">Baja α o prueba la programación de calentamiento.</p>
+                    </div>
+                )}
+
+                <CameraControls camera={camera} onPreset={setPreset} onProjection={setProjection} onReset={() => resetView()} />
+                <ShareButton codec={GRADIENT_SCENE} scene={scene} />
+            </div>
+        </DraggableWindow>
+
+        {/* Convergence Diagnostics */}
+        <DraggableWindow title="DIAGNÓSTICO DE CONVERGENCIA" initialPosition={{x: 350, y: 20}} width="w-80">
+            <div className="space-y-2">
+                <div className="flex bg-slate-800 p-1 rounded border border-slate-700">
+                    {CHART_METRICS.map(m => (
+                        <button key={m.id} onClick={() => setChartMetric(m.id)}
+                            className={`flex-1 py-1 text-[9px] font-bold transition-colors ${chartMetric === m.id ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
+                            {m.label}
+                        </button>
+                    ))}
+                </div>
+                <ConvergenceChart
+                    series={runners.map(r => ({
+                        id: r.optimizer.id,
+                        color: r.optimizer.color,
+                        values: r.history.map(h => h[chartMetric]),
+                        flag: r.status === 'diverged' ? r.history.length - 1 : null
+                    }))}
+                    logScale={CHART_METRICS.find(m => m.id === chartMetric)!.logScale}
+                    emptyText="Pulsa INICIAR para ver las curvas"
+                />
+                <p className="text-[9px] text-slate-500 leading-tight">
+                    <span className="text-red-400 font-bold">✕</span> marca la iteración en la que un optimizador divergió. |∇f| y el paso usan escala logarítmica.
+                </p>
             </div>
         </DraggableWindow>
 
+        {/* Regression data, synced with the balls */}
+        {isRegression && (
+            <DraggableWindow title="DATOS Y RECTA AJUSTADA" initialPosition={{x: 680, y: 20}} width="w-72">
+                <div className="space-y-2">
+                    <div className="flex gap-1">
+                        <select
+                            value={dataset.id}
+                            onChange={(e) => setDatasetId(e.target.value)}
+                            disabled={isRunning}
+                            className="flex-1 min-w-0 bg-slate-800 text-white text-[10px] p-1 rounded border border-slate-700 outline-none hover:border-cyan-400 disabled:opacity-50"
+                        >
+                            {DATASETS.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                            {csv && <option value={CSV_DATASET_ID}>📄 {csv.name}</option>}
+                        </select>
+                        <label className={`px-2 py-1 bg-slate-800 border border-slate-600 rounded text-[10px] font-bold text-slate-300 ${isRunning ? 'opacity-50' : 'cursor-pointer hover:text-white hover:border-cyan-400'}`}
+                            title={`Dos columnas numéricas x, y (cabecera opcional, máximo ${MAX_DATASET_POINTS} filas)`}>
+                            CSV
+                            <input type="file" accept=".csv,.tsv,.txt,text/csv" onChange={loadCsv} disabled={isRunning} className="hidden" />
+                        </label>
+                    </div>
+                    {csvError && <p className="text-[10px] text-red-400">{csvError}</p>}
+
+                    <RegressionPlot
+                        problem={regression}
+                        highlight={lastBatch}
+                        lines={[
+                            { id: 'optimum', color: '#e2e8f0', params: regression.optimum, dashed: true },
+                            ...(runners.length === 0
+                                ? [{ id: 'start', color: '#ffffff', params: start }]
+                                : runners.map(r => ({ id: r.optimizer.id, color: r.optimizer.color, params: r.state.position })))
+                        ]}
+                    />
+                    <p className="text-[9px] font-mono text-slate-500">
+                        Óptimo (ecuaciones normales): w = {regression.optimum.x.toFixed(3)}, b = {regression.optimum.y.toFixed(3)}. Datos reescalados a [-1, 1].
+                    </p>
+
+                    <div className="space-y-1 border-t border-slate-700 pt-2">
+                        <div className="flex justify-between text-[10px] text-slate-400 font-bold">
+                            <span>MINI-BATCH</span>
+                            <span className="text-yellow-300">{batchCount === regression.points.length ? `${batchCount} (todos)` : `${batchCount} de ${regression.points.length}`}</span>
+                        </div>
+                        <input
+                            type="range" min="1" max={regression.points.length} step="1"
+                            value={batchCount}
+                            onChange={(e) => setBatchSize(parseInt(e.target.value))}
+                            disabled={isRunning}
+                            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-yellow-300"
+                        />
+                        <p className="text-[9px] text-slate-500 leading-tight">
+                            Con lotes pequeños cada paso usa el gradiente de unos pocos puntos (en amarillo): es barato pero ruidoso, y la trayectoria zigzaguea.
+                        </p>
+                    </div>
+                </div>
+            </DraggableWindow>
+        )}
+
+        {/* Mission */}
+        <MissionPanel status={mission} />
+
         {/* Legend / Info */}
         <DraggableWindow title="GUÍA TEÓRICA: OPTIMIZACIÓN" initialPosition={{x: 350, y: 500}} width="w-96">
             <div className="text-xs text-slate-400 font-mono space-y-2">
@@ -419,6 +839,18 @@ export const GradientDescent: React.FC<GradientDescentProps> = ({ onPrevLevel, o
                     <li><strong className="text-cyan-400">Flecha Cian ($-\nabla f$):</strong> Es la dirección opuesta. La IA da un paso en esta dirección.</li>
                     <li><strong>Learning Rate ($\alpha$):</strong> El tamaño del paso. Si es muy grande, podrías saltarte el valle. Si es muy pequeño, tardarás una eternidad.</li>
                 </ul>
+                <p className="text-white font-bold mt-2">Carrera de optimizadores:</p>
+                <ul className="list-disc pl-4 space-y-1 text-[10px]">
+                    <li><strong className="text-orange-400">Momentum / Nesterov:</strong> acumulan velocidad y ruedan por encima de las ondas pequeñas.</li>
+                    <li><strong className="text-purple-400">RMSProp / Adam:</strong> dividen el paso por el tamaño típico del gradiente: en la silla escapan por la pendiente casi plana donde el GD clásico se queda parado.</li>
+                    <li><strong className="text-yellow-400">Programación de α:</strong> reducir α con el tiempo (escalonada, exponencial, coseno) afina el final; el calentamiento empieza con pasos pequeños para no divergir al principio.</li>
+                    <li><strong className="text-blue-400">Newton:</strong> usa la curvatura (Hessiana) y salta al punto crítico más cercano... aunque sea una silla.</li>
+                </ul>
+                <p className="text-white font-bold mt-2">Con datos reales:</p>
+                <ul className="list-disc pl-4 space-y-1 text-[10px]">
+                    <li><strong className="text-green-400">Regresión lineal:</strong> cada punto (w, b) de la superficie es una recta y = w·x + b; la altura es su error cuadrático medio sobre los datos. Bajar la colina es ajustar la recta.</li>
+                    <li><strong className="text-yellow-300">Descenso estocástico:</strong> con mini-batches el gradiente es una estimación ruidosa; una α decreciente calma el ruido al final.</li>
+                </ul>
                 <div className="mt-2 p-2 bg-slate-800 border-l-2 border-yellow-400">
                     <p className="text-[9px] italic">
                         <strong className="text-yellow-400">INTERACCIÓN:</strong> ¡Arrastra la bola blanca con el mouse! En el mapa de "Ondas", prueba soltarla en diferentes laderas para ver cómo cae en distintos valles (Mínimos Locales).
@@ -0,0 +1,646 @@
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { DraggableWindow } from './DraggableWindow';
+import { MissionPanel } from './MissionPanel';
+import { FunctionInput } from './FunctionInput';
+import { CameraControls } from './CameraControls';
+import { WorkPlot } from './WorkPlot';
+import { Vector2D, ViewState } from '../types';
+import { ShareButton } from './ShareButton';
+import { useCamera, getCanvasPoint } from '../hooks/useCamera';
+import { useMission } from '../hooks/useMission';
+import { useCustomField } from '../hooks/useCustomField';
+import { useSharedScene, useSceneAutosave } from '../hooks/useSharedScene';
+import { usePolygonDraft, MAX_POLYGON_VERTICES } from '../hooks/usePolygonDraft';
+import { CameraState } from '../utils/camera';
+import { SceneCodec, isRecord, readIndex, readBoolean, readVector2, readCamera, readExpression } from '../utils/sceneState';
+import { Mission } from '../utils/missions';
+import { FIELD_PRESETS, FieldPreset, FieldSources, analyzeField, compileField } from '../utils/vectorField';
+import { loopWork, workAlong, curlIntegral, signedArea, isSimplePath } from '../utils/flux';
+
+interface GreenLevelProps {
+  onPrevLevel?: () => void;
+}
+
+// Selector entry for the user-typed field, right after the Curl level's presets
+const CUSTOM_INDEX = FIELD_PRESETS.length;
+const CUSTOM_DEFAULT: FieldSources = { P: '-y^3', Q: 'x', R: '' };
+
+// What to look for in each field when it goes around a loop
+const CIRCULATION_NOTES: Record<string, string> = {
+    vortex: 'El campo empuja siempre en el sentido del giro: en un lazo antihorario cada tramo suma trabajo. El rotacional vale 2, así que ∮ = 2·Área.',
+    shear: 'Abajo el río va hacia la izquierda y arriba hacia la derecha: un lazo antihorario va contra la corriente en ambos tramos. El rotacional vale -1 en todas partes.',
+    expansion: 'Es el gradiente de (x² + y²)/2: lo que el campo da en un tramo lo quita en otro. En cualquier lazo el trabajo total es 0.',
+    varying: 'El rotacional 3x cambia de signo en el eje y: un lazo a la derecha suma, uno a la izquierda resta y uno centrado da 0.',
+    custom: 'Tu propio campo. Dibuja un camino y compara ambos lados del teorema.'
+};
+
+// --- PATHS ---
+// Closed polygons, travelled in the order of their vertices
+interface PathDefinition {
+    id: string;
+    name: string;
+    vertices: Vector2D[];
+}
+
+const CIRCLE_SEGMENTS = 48;
+
+const circlePath = (center: Vector2D, radius: number): Vector2D[] =>
+    Array.from({ length: CIRCLE_SEGMENTS }, (_, k) => {
+        const theta = 2 * Math.PI * k / CIRCLE_SEGMENTS;
+        return { x: center.x + radius * Math.cos(theta), y: center.y + radius * Math.sin(theta) };
+    });
+
+const SQUARE: Vector2D[] = [{ x: -1, y: -1 }, { x: 1, y: -1 }, { x: 1, y: 1 }, { x: -1, y: 1 }];
+
+const PATHS: PathDefinition[] = [
+    { id: 'circle', name: 'Círculo centrado (antihorario)', vertices: circlePath({ x: 0, y: 0 }, 1.5) },
+    { id: 'right', name: 'Círculo a la derecha', vertices: circlePath({ x: 1.8, y: 0 }, 1.2) },
+    { id: 'square', name: 'Cuadrado (antihorario)', vertices: SQUARE },
+    { id: 'clockwise', name: 'Cuadrado (horario)', vertices: [...SQUARE].reverse() },
+    { id: 'triangle', name: 'Triángulo', vertices: [{ x: -2, y: -1.5 }, { x: 2, y: -1.5 }, { x: 0, y: 2 }] }
+];
+
+// Selector entry for the path drawn by the player
+const DRAWN_INDEX = PATHS.length;
+const DRAWN_DEFAULT: Vector2D[] = [
+    { x: -2, y: -2 }, { x: 1, y: -2 }, { x: 1, y: -0.5 }, { x: -0.5, y: -0.5 }, { x: -0.5, y: 2 }, { x: -2, y: 2 }
+];
+
+const RANGE = 3.5;            // Half side of the field square
+const ARROW_STEP = 0.5;
+const SHADE_STEP = 0.25;      // Side of the curl shading cells
+const SHADE_FLOOR = 0.5;      // |curl| normalisation never goes below this, so curl ≈ 0 stays unshaded
+const WORK_SAMPLES = 120;     // Nodes of the W(s) curve
+const TRAVEL_STEP = 0.004;    // Fraction of the loop per animation tick
+const CLOSE_DISTANCE = 12;    // Pixels from the first vertex that close the path
+const AGREEMENT = 1e-4;       // Relative gap under which both sides of the theorem count as equal
+
+const POSITIVE_COLOR = '#4ade80';
+const NEGATIVE_COLOR = '#f472b6';
+const TARGET_COLOR = '#c084fc';
+
+const formatWork = (value: number, digits = 3) => Number.isFinite(value) ? value.toFixed(digits) : '—';
+
+interface GreenScene {
+  fieldIndex: number;
+  custom: FieldSources;  // Only meaningful when fieldIndex is CUSTOM_INDEX
+  pathIndex: number;
+  drawnPath: Vector2D[]; // Only meaningful when pathIndex is DRAWN_INDEX
+  showCurl: boolean;
+  camera: CameraState;
+}
+
+const readPath = (v: unknown): Vector2D[] | null => {
+  if (!Array.isArray(v) || v.length < 3 || v.length > MAX_POLYGON_VERTICES) return null;
+  const vertices = v.map(p => readVector2(p, RANGE));
+  if (vertices.some(p => p === null)) return null;
+  const path = vertices as Vector2D[];
+  return isSimplePath(path, true) ? path : null;
+};
+
+const GREEN_SCENE: SceneCodec<GreenScene> = {
+  level: ViewState.GREEN,
+  version: 1,
+  parse: raw => {
+    const fieldIndex = readIndex(raw.fieldIndex, FIELD_PRESETS.length + 1);
+    const pathIndex = readIndex(raw.pathIndex, PATHS.length + 1);
+    const drawnPath = readPath(raw.drawnPath);
+    const showCurl = readBoolean(raw.showCurl);
+    const camera = readCamera(raw.camera, 10, 200);
+    if (fieldIndex === null || pathIndex === null || !drawnPath || showCurl === null || !camera || !isRecord(raw.custom)) return null;
+    const P = readExpression(raw.custom.P);
+    const Q = readExpression(raw.custom.Q);
+    if (P === null || Q === null) return null;
+    return { fieldIndex, custom: { P, Q, R: '' }, pathIndex, drawnPath, showCurl, camera };
+  }
+};
+
+interface GreenMissionState {
+  progress: number;      // Fraction of the loop travelled
+  orientation: number;   // +1 counterclockwise, -1 clockwise
+  total: number;         // ∮ F·dr
+  predicted: number;     // orientation · ∬ curl dA
+  drawn: boolean;        // The path was drawn by the player
+}
+
+const agree = (s: GreenMissionState) =>
+  Math.abs(s.total - s.predicted) < AGREEMENT * Math.max(1, Math.abs(s.total));
+
+const GREEN_MISSION: Mission<GreenMissionState> = {
+  level: ViewState.GREEN,
+  objectives: [
+    { id: 'loop', label: 'Deja que la partícula dé una vuelta completa', check: s => s.progress >= 1 },
+    { id: 'clockwise', label: 'Recorre un lazo en sentido horario: el trabajo cambia de signo', check: s => s.progress >= 1 && s.orientation < 0 && Math.abs(s.total) > 0.1 },
+    { id: 'conservative', label: 'Encuentra un campo donde el trabajo en el lazo es 0', check: s => s.progress >= 1 && Math.abs(s.total) < 1e-3 },
+    { id: 'green', label: 'Dibuja tu propio camino y comprueba que ∮ F·dr = ∬ rot F dA', check: s => s.drawn && s.progress >= 1 && Math.abs(s.total) > 0.1 && agree(s) }
+  ]
+};
+
+export const GreenLevel: React.FC<GreenLevelProps> = ({ onPrevLevel }) => {
+  // State
+  const shared = useSharedScene(GREEN_SCENE);
+  const [fieldIndex, setFieldIndex] = useState(shared?.fieldIndex ?? 0);
+  const [pathIndex, setPathIndex] = useState(shared?.pathIndex ?? 0);
+  const [drawnPath, setDrawnPath] = useState<Vector2D[]>(shared?.drawnPath ?? DRAWN_DEFAULT);
+  const [showCurl, setShowCurl] = useState(shared?.showCurl ?? true);
+  const custom = useCustomField(shared?.custom ?? CUSTOM_DEFAULT, compileField);
+
+  // The particle: fraction of the loop travelled
+  const [progress, setProgress] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const [drawn, setDrawn] = useState(false);
+  const polygon = usePolygonDraft(vertices => {
+      setDrawnPath(vertices);
+      setPathIndex(DRAWN_INDEX);
+      setDrawn(true);
+      setProgress(0);
+      setIsPlaying(false);
+  });
+  const { draft, hover } = polygon;
+
+  // View State: from above, the plane reads like a map
+  const { camera, project, pick, orbit, zoom, setPreset, setProjection, reset } = useCamera({ pitch: -Math.PI / 2, yaw: 0, scale: 60 }, {}, shared?.camera);
+
+  // Restorable scene: share links + saved progress
+  const scene = useMemo(() => ({ fieldIndex, custom: custom.compiled.sources, pathIndex, drawnPath, showCurl, camera }),
+      [fieldIndex, custom.compiled.sources, pathIndex, drawnPath, showCurl, camera]);
+  useSceneAutosave(GREEN_SCENE, scene);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const lastMouse = useRef({ x: 0, y: 0 }); // Canvas coordinates
+
+  const customField = useMemo<FieldPreset>(() => {
+      const { P, Q } = custom.compiled.sources;
+      return {
+          ...custom.compiled.field,
+          id: 'custom',
+          name: '✎ Personalizado',
+          desc: CIRCULATION_NOTES.custom,
+          eq: `F = <${P}, ${Q}>`
+      };
+  }, [custom.compiled]);
+
+  const activeField = fieldIndex === CUSTOM_INDEX ? customField : FIELD_PRESETS[fieldIndex];
+  const vertices = pathIndex === DRAWN_INDEX ? drawnPath : PATHS[pathIndex].vertices;
+
+  // Both sides of Green's theorem
+  const orientation = Math.sign(signedArea(vertices)) || 1;
+  const loop = useMemo(() => loopWork(activeField, vertices), [activeField, vertices]);
+  const curlTotal = useMemo(() => curlIntegral(activeField, vertices), [activeField, vertices]);
+  const predicted = orientation * curlTotal;
+  const works = useMemo(() => Array.from({ length: WORK_SAMPLES + 1 }, (_, k) => workAlong(activeField, loop, k / WORK_SAMPLES).work), [activeField, loop]);
+
+  // The particle and what the field does to it there
+  const particle = workAlong(activeField, loop, progress);
+  const force = { x: activeField.P(particle.point.x, particle.point.y), y: activeField.Q(particle.point.x, particle.point.y) };
+  const tangential = force.x * particle.tangent.x + force.y * particle.tangent.y;
+  const curlHere = analyzeField(activeField, particle.point.x, particle.point.y).curl.z;
+
+  // Curl at the center of every shading cell
+  const shade = useMemo(() => {
+      const cells: { x: number; y: number; curl: number }[] = [];
+      for (let x = -RANGE; x < RANGE - 1e-9; x += SHADE_STEP) {
+          for (let y = -RANGE; y < RANGE - 1e-9; y += SHADE_STEP) {
+              const curl = analyzeField(activeField, x + SHADE_STEP / 2, y + SHADE_STEP / 2).curl.z;
+              if (Number.isFinite(curl)) cells.push({ x, y, curl });
+          }
+      }
+      const scale = Math.max(SHADE_FLOOR, ...cells.map(c => Math.abs(c.curl)));
+      return { cells, scale };
+  }, [activeField]);
+
+  // Mission
+  const mission = useMission(GREEN_MISSION, { progress, orientation, total: loop.total, predicted, drawn });
+
+  // Particle animation
+  useEffect(() => {
+      if (!isPlaying) return;
+      const timer = setInterval(() => setProgress(p => Math.min(1, p + TRAVEL_STEP)), 30);
+      return () => clearInterval(timer);
+  }, [isPlaying]);
+
+  // Stop once around
+  useEffect(() => {
+      if (isPlaying && progress >= 1) setIsPlaying(false);
+  }, [isPlaying, progress]);
+
+  const togglePlay = () => {
+      if (!isPlaying && progress >= 1) setProgress(0);
+      setIsPlaying(!isPlaying);
+  };
+
+  const selectPath = (index: number) => {
+      setPathIndex(index);
+      setProgress(0);
+      setIsPlaying(false);
+  };
+
+  // Draw Function
+  const draw = useCallback(() => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      const w = canvas.width;
+      const h = canvas.height;
+
+      ctx.fillStyle = '#0f172a'; ctx.fillRect(0,0,w,h);
+
+      // The plane point (x, y) lives on the floor: world {x, 0, z: y}
+      const toScreen = (p: Vector2D) => project({ x: p.x, y: 0, z: p.y }, w, h);
+
+      const tracePolygon = (points: Vector2D[]) => {
+          ctx.beginPath();
+          points.forEach((p, k) => {
+              const s = toScreen(p);
+              if (k === 0) ctx.moveTo(s.x, s.y); else ctx.lineTo(s.x, s.y);
+          });
+      };
+
+      const drawArrow = (from: Vector2D, vec: Vector2D, color: string, width: number, headLen: number) => {
+          const start = toScreen(from);
+          const end = toScreen({ x: from.x + vec.x, y: from.y + vec.y });
+          ctx.beginPath(); ctx.moveTo(start.x, start.y); ctx.lineTo(end.x, end.y);
+          ctx.strokeStyle = color; ctx.lineWidth = width; ctx.stroke();
+
+          // Arrowhead
+          const heading = Math.atan2(end.y - start.y, end.x - start.x);
+          ctx.beginPath();
+          ctx.moveTo(end.x, end.y);
+          ctx.lineTo(end.x - headLen * Math.cos(heading - Math.PI/6), end.y - headLen * Math.sin(heading - Math.PI/6));
+          ctx.lineTo(end.x - headLen * Math.cos(heading + Math.PI/6), end.y - headLen * Math.sin(heading + Math.PI/6));
+          ctx.fillStyle = color; ctx.fill();
+      };
+
+      // 1. Curl shading: counterclockwise spin green, clockwise pink (as in the Curl level)
+      if (showCurl) {
+          shade.cells.forEach(({ x, y, curl }) => {
+              const alpha = Math.min(1, Math.abs(curl) / shade.scale) * 0.4;
+              if (alpha < 0.01) return;
+              tracePolygon([{ x, y }, { x: x + SHADE_STEP, y }, { x: x + SHADE_STEP, y: y + SHADE_STEP }, { x, y: y + SHADE_STEP }]);
+              ctx.fillStyle = curl > 0 ? `rgba(74, 222, 128, ${alpha})` : `rgba(244, 114, 182, ${alpha})`;
+              ctx.fill();
+          });
+      }
+
+      // 2. Vector Field Grid
+      for (let x = -RANGE; x <= RANGE; x += ARROW_STEP) {
+          for (let y = -RANGE; y <= RANGE; y += ARROW_STEP) {
+              const fx = activeField.P(x, y);
+              const fy = activeField.Q(x, y);
+              if (!Number.isFinite(fx) || !Number.isFinite(fy)) continue;
+              const mag = Math.hypot(fx, fy);
+              if (mag < 1e-9) continue;
+              // Scale down for visualization (capped, custom fields can blow up)
+              const k = Math.min(0.2, 1.5 / mag);
+              drawArrow({ x, y }, { x: fx * k, y: fy * k }, `rgba(148, 163, 184, ${Math.min(1, 0.25 + mag / 3)})`, 1, 3);
+          }
+      }
+
+      // 3. The loop: enclosed region, direction of travel, and the stretch already travelled
+      tracePolygon(vertices); ctx.closePath();
+      ctx.fillStyle = 'rgba(192, 132, 252, 0.08)'; ctx.fill();
+      ctx.strokeStyle = '#64748b'; ctx.lineWidth = 2; ctx.stroke();
+
+      vertices.forEach((a, k) => {
+          const b = vertices[(k + 1) % vertices.length];
+          if (vertices.length > 12 && k % 4 !== 0) return; // Circles: a chevron every few sides
+          const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+          const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+          drawArrow({ x: mid.x - (b.x - a.x) / length * 0.05, y: mid.y - (b.y - a.y) / length * 0.05 },
+              { x: (b.x - a.x) / length * 0.1, y: (b.y - a.y) / length * 0.1 }, '#94a3b8', 1, 6);
+      });
+
+      const travelled = [vertices[0]];
+      let walked = 0;
+      for (let k = 0; k < loop.lengths.length && walked + loop.lengths[k] < progress * loop.perimeter; k++) {
+          walked += loop.lengths[k];
+          travelled.push(vertices[(k + 1) % vertices.length]);
+      }
+      travelled.push(particle.point);
+      tracePolygon(travelled);
+      ctx.strokeStyle = '#facc15'; ctx.lineWidth = 3; ctx.stroke();
+
+      const start = toScreen(vertices[0]);
+      ctx.beginPath(); ctx.arc(start.x, start.y, 4, 0, Math.PI * 2);
+      ctx.fillStyle = '#facc15'; ctx.fill();
+
+      // 4. Path being drawn, with a rubber band to the cursor
+      if (draft && draft.length > 0) {
+          tracePolygon(hover ? [...draft, hover] : draft);
+          ctx.setLineDash([5, 4]);
+          ctx.strokeStyle = '#facc15'; ctx.lineWidth = 1.5; ctx.stroke();
+          ctx.setLineDash([]);
+          draft.forEach((p, k) => {
+              const s = toScreen(p);
+              ctx.beginPath(); ctx.arc(s.x, s.y, k === 0 ? 6 : 3, 0, Math.PI * 2);
+              ctx.fillStyle = k === 0 ? 'rgba(250, 204, 21, 0.4)' : '#facc15'; ctx.fill();
+          });
+      }
+
+      // 5. Particle: the force on it and the part of it along the path (the part that does work)
+      if (Number.isFinite(force.x) && Number.isFinite(force.y)) {
+          const k = Math.min(0.5, 1.5 / (Math.hypot(force.x, force.y) || 1));
+          drawArrow(particle.point, { x: force.x * k, y: force.y * k }, '#e2e8f0', 1.5, 6);
+          if (Math.abs(tangential) > 1e-6) {
+              drawArrow(particle.point, { x: particle.tangent.x * tangential * k, y: particle.tangent.y * tangential * k },
+                  tangential > 0 ? POSITIVE_COLOR : NEGATIVE_COLOR, 3, 8);
+          }
+      }
+      const p = toScreen(particle.point);
+      ctx.beginPath(); ctx.arc(p.x, p.y, 6, 0, Math.PI * 2);
+      ctx.fillStyle = '#fff'; ctx.fill(); ctx.strokeStyle = '#facc15'; ctx.lineWidth = 2; ctx.stroke();
+
+      // Grid Frame
+      tracePolygon([{ x: -RANGE, y: -RANGE }, { x: RANGE, y: -RANGE }, { x: RANGE, y: RANGE }, { x: -RANGE, y: RANGE }]);
+      ctx.closePath();
+      ctx.strokeStyle = '#334155'; ctx.lineWidth = 1; ctx.stroke();
+
+  }, [activeField, vertices, loop, progress, particle, force, tangential, draft, hover, showCurl, shade, project]);
+
+  // Handlers
+  useEffect(() => {
+    const handleResize = () => { if(canvasRef.current && containerRef.current) {
+        canvasRef.current.width = containerRef.current.clientWidth;
+        canvasRef.current.height = containerRef.current.clientHeight;
+        draw();
+    }};
+    window.addEventListener('resize', handleResize); handleResize();
+    return () => window.removeEventListener('resize', handleResize);
+  }, [draw]);
+
+  useEffect(() => draw(), [draw]);
+
+  // Point of the plane under the cursor, inside the field square
+  const pickPlane = (mouse: Vector2D): Vector2D | null => {
+      const { width, height } = canvasRef.current!;
+      const hit = pick(mouse, width, height, { x: 0, y: 0, z: 0 }, { x: 0, y: 1, z: 0 });
+      if (!hit) return null;
+      return {
+          x: Math.max(-RANGE, Math.min(RANGE, hit.x)),
+          y: Math.max(-RANGE, Math.min(RANGE, hit.z))
+      };
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+      const mouse = getCanvasPoint(e, canvasRef.current!);
+      lastMouse.current = mouse;
+      if (!draft) { setDragging(true); return; }
+
+      // Drawing: add a vertex, or close the path on its first vertex
+      const { width, height } = canvasRef.current!;
+      const first = draft.length > 0 ? project({ x: draft[0].x, y: 0, z: draft[0].y }, width, height) : null;
+      const p = pickPlane(mouse);
+      if (p) polygon.addVertex(p, !!first && Math.hypot(mouse.x - first.x, mouse.y - first.y) < CLOSE_DISTANCE);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+      if (!canvasRef.current) return;
+      const mouse = getCanvasPoint(e, canvasRef.current);
+      if (draft) { polygon.setHover(pickPlane(mouse)); return; }
+      if (!dragging) return;
+      const prevMouse = lastMouse.current;
+      lastMouse.current = mouse;
+      orbit(prevMouse, mouse, canvasRef.current.width, canvasRef.current.height);
+  };
+
+  const handleMouseUp = () => setDragging(false);
+  const handleWheel = (e: React.WheelEvent) => {
+      if (!canvasRef.current) return;
+      const zoomFactor = e.deltaY < 0 ? 1.1 : 0.9;
+      zoom(getCanvasPoint(e, canvasRef.current), zoomFactor, canvasRef.current.width, canvasRef.current.height);
+  };
+
+  const difference = Math.abs(loop.total - predicted);
+
+  return (
+    <div ref={containerRef} className={`relative w-full h-full bg-slate-900 ${draft ? 'cursor-crosshair' : 'cursor-move'}`}
+        onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp} onWheel={handleWheel}>
+        <canvas ref={canvasRef} className="block w-full h-full" />
+
+        {/* CONTROLS */}
+        <DraggableWindow title="INTEGRAL DE LÍNEA" initialPosition={{x:20, y:20}} width="w-80">
+            <div className="space-y-4">
+                {/* Field */}
+                <div className="space-y-1">
+                    <label className="text-[9px] font-bold text-slate-500">CAMPO VECTORIAL</label>
+                    <select
+                        value={fieldIndex}
+                        onChange={(e) => setFieldIndex(parseInt(e.target.value))}
+                        className="w-full bg-slate-800 text-white text-xs p-2 rounded border border-slate-700 outline-none hover:border-cyan-400"
+                    >
+                        {FIELD_PRESETS.map((f, i) => <option key={i} value={i}>{f.name}</option>)}
+                        <option value={CUSTOM_INDEX}>{customField.name}</option>
+                    </select>
+                    {fieldIndex === CUSTOM_INDEX && (
+                        <div className="space-y-1 pt-1">
+                            {(['P', 'Q'] as const).map(c => (
+                                <FunctionInput
+                                    key={c}
+                                    label={`${c}(x,y) =`}
+                                    placeholder={c === 'P' ? '-y^3' : 'x'}
+                                    value={custom.sources[c]}
+                                    error={custom.error?.component === c ? custom.error.message : null}
+                                    onChange={text => custom.setComponent(c, text)}
+                                    hint={c === 'Q'}
+                                />
+                            ))}
+                        </div>
+                    )}
+                    <div className="text-[10px] text-slate-400 font-mono text-center pt-1">{activeField.eq}</div>
+                </div>
+
+                {/* Path */}
+                <div className="space-y-1">
+                    <label className="text-[9px] font-bold text-slate-500">CAMINO CERRADO</label>
+                    <select
+                        value={pathIndex}
+                        onChange={(e) => selectPath(parseInt(e.target.value))}
+                        className="w-full bg-slate-800 text-white text-xs p-2 rounded border border-slate-700 outline-none hover:border-yellow-400"
+                    >
+                        {PATHS.map((p, i) => <option key={p.id} value={i}>{p.name}</option>)}
+                        <option value={DRAWN_INDEX}>✎ Dibujado</option>
+                    </select>
+                    {draft ? (
+                        <div className="space-y-2 pt-1">
+                            <p className="text-[10px] text-yellow-400">
+                                Haz clic en el plano para poner vértices ({draft.length}/{MAX_POLYGON_VERTICES}), en el orden del recorrido. Clic en el primero para cerrar.
+                            </p>
+                            <div className="flex gap-2">
+                                <button onClick={() => polygon.close(draft)} disabled={draft.length < 3}
+                                    className="flex-1 py-1 text-[10px] font-bold rounded border border-yellow-500/60 text-yellow-400 hover:bg-yellow-500/10 disabled:opacity-30 disabled:cursor-not-allowed">
+                                    CERRAR CAMINO
+                                </button>
+                                <button onClick={polygon.cancel}
+                                    className="flex-1 py-1 text-[10px] font-bold rounded border border-slate-600 text-slate-400 hover:bg-slate-800">
+                                    CANCELAR
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <button onClick={polygon.start}
+                            className="w-full py-1 text-[10px] font-bold rounded border border-yellow-500/60 text-yellow-400 hover:bg-yellow-500/10">
+                            ✎ DIBUJAR CAMINO
+                        </button>
+                    )}
+                    {polygon.error && <p className="text-[10px] text-red-400">{polygon.error}</p>}
+                </div>
+
+                <label className="flex items-center gap-2 text-[10px] text-slate-400 cursor-pointer">
+                    <input type="checkbox" checked={showCurl} onChange={e => setShowCurl(e.target.checked)} />
+                    Sombrear rotacional (<span style={{ color: POSITIVE_COLOR }}>antihorario</span> / <span style={{ color: NEGATIVE_COLOR }}>horario</span>)
+                </label>
+
+                <CameraControls camera={camera} onPreset={setPreset} onProjection={setProjection} onReset={() => reset()} />
+
+                {/* Travel */}
+                <div className="space-y-2">
+                    <div className="flex gap-2">
+                        <button onClick={togglePlay}
+                            className="flex-1 py-1 text-[10px] font-bold rounded border border-yellow-500/60 text-yellow-400 hover:bg-yellow-500/10">
+                            {isPlaying ? '❚❚ PAUSA' : progress >= 1 ? '↺ OTRA VUELTA' : '▶ RECORRER'}
+                        </button>
+                        <button onClick={() => { setIsPlaying(false); setProgress(0); }}
+                            className="py-1 px-2 text-[10px] font-bold rounded border border-slate-600 text-slate-400 hover:bg-slate-800">
+                            REINICIAR
+                        </button>
+                    </div>
+                    <input type="range" min={0} max={1} step={0.001} value={progress}
+                        onChange={e => { setIsPlaying(false); setProgress(parseFloat(e.target.value)); }} className="w-full accent-yellow-400" />
+                </div>
+
+                <div className="bg-slate-950/80 p-3 rounded border border-slate-800 space-y-2 text-center">
+                    <div className="text-[10px] text-slate-500 font-mono">TRABAJO ACUMULADO ∫ F·dr</div>
+                    <div className={`text-3xl font-bold pixel-font ${Math.abs(particle.work) < 0.01 ? 'text-slate-500' : particle.work > 0 ? 'text-green-400' : 'text-pink-400'}`}>
+                        {formatWork(particle.work, 2)}
+                    </div>
+                    <div className="text-[10px] text-slate-400 italic">
+                        {Math.abs(tangential) < 1e-6 ? 'Aquí el campo es perpendicular al camino: no hace trabajo'
+                          : tangential > 0 ? 'El campo empuja a favor del recorrido' : 'El campo frena a la partícula'}
+                    </div>
+                </div>
+
+                <div className="text-xs text-slate-400 italic border-t border-slate-700 pt-2">
+                    {CIRCULATION_NOTES[activeField.id] ?? activeField.desc}
+                </div>
+
+                <ShareButton codec={GREEN_SCENE} scene={scene} />
+            </div>
+        </DraggableWindow>
+
+        {/* MATH BREAKDOWN */}
+        <DraggableWindow title="CÁLCULO MATEMÁTICO" initialPosition={{x: 350, y: 20}} width="w-80">
+            <div className="space-y-3 font-mono text-xs">
+                 <div className="flex justify-center items-center gap-2 p-2 bg-slate-800 rounded text-sm text-white">
+                     <span>W = ∮ F·dr = ∮ P dx + Q dy</span>
+                 </div>
+
+                 <div className="space-y-1 text-[10px]">
+                     <div className="flex justify-between">
+                         <span className="text-slate-400">Partícula en</span>
+                         <span className="text-white">({particle.point.x.toFixed(2)}, {particle.point.y.toFixed(2)})</span>
+                     </div>
+                     <div className="flex justify-between">
+                         <span className="text-slate-400">F ahí</span>
+                         <span className="text-white">({formatWork(force.x, 2)}, {formatWork(force.y, 2)})</span>
+                     </div>
+                     <div className="flex justify-between">
+                         <span className="text-slate-400">Dirección del camino T</span>
+                         <span className="text-white">({particle.tangent.x.toFixed(2)}, {particle.tangent.y.toFixed(2)})</span>
+                     </div>
+                 </div>
+
+                 <div className="bg-slate-950 p-2 rounded text-center border border-slate-800">
+                     <span className="text-slate-500">dW/ds = F·T = </span>
+                     <span className={tangential > 0 ? 'text-green-400 font-bold' : 'text-pink-400 font-bold'}>{formatWork(tangential)}</span>
+                 </div>
+
+                 <div className="border-t border-slate-700 pt-2 space-y-1 text-[10px]">
+                     <div className="flex justify-between">
+                         <span className="text-slate-400">rot F = ∂Q/∂x - ∂P/∂y aquí</span>
+                         <span className="text-white">{formatWork(curlHere)}</span>
+                     </div>
+                     <p className="text-[8px] text-slate-500">
+                         Cada pedacito de la región gira con su rotacional; los giros de pedazos vecinos se cancelan en su borde común y solo sobrevive el de la frontera.
+                     </p>
+                 </div>
+            </div>
+        </DraggableWindow>
+
+        {/* GREEN'S THEOREM */}
+        <DraggableWindow title="TEOREMA DE GREEN" initialPosition={{x: 680, y: 20}} width="w-72">
+            <div className="space-y-3 text-xs">
+                <WorkPlot works={works} progress={progress} work={particle.work} target={predicted} />
+
+                <div className="bg-slate-950/80 p-2 rounded border border-slate-800 font-mono space-y-1">
+                    <div className="flex justify-between text-[10px]">
+                        <span className="text-slate-400">∮ F·dr (vuelta completa)</span>
+                        <span className="text-yellow-400">{formatWork(loop.total, 6)}</span>
+                    </div>
+                    <div className="flex justify-between text-[10px]">
+                        <span className="text-slate-400">∬ rot F dA</span>
+                        <span className="text-white">{formatWork(curlTotal, 6)}</span>
+                    </div>
+                    <div className="flex justify-between text-[10px]">
+                        <span className="text-slate-400">Sentido</span>
+                        <span className="text-white">{orientation > 0 ? 'antihorario (+)' : 'horario (−)'}</span>
+                    </div>
+                    <div className="flex justify-between text-[10px]">
+                        <span style={{ color: TARGET_COLOR }}>{orientation > 0 ? '+' : '−'}∬ rot F dA</span>
+                        <span style={{ color: TARGET_COLOR }}>{formatWork(predicted, 6)}</span>
+                    </div>
+                    <div className="flex justify-between text-[10px] border-t border-slate-800 pt-1">
+                        <span className="text-slate-500">Diferencia</span>
+                        <span className={difference < AGREEMENT ? 'text-green-400' : 'text-slate-400'}>{Number.isFinite(difference) ? difference.toExponential(1) : '—'}</span>
+                    </div>
+                    {!Number.isFinite(loop.total + curlTotal) && (
+                        <p className="text-[9px] text-red-400">El campo no está definido en todo el camino o la región: el teorema no aplica.</p>
+                    )}
+                </div>
+                <p className="text-[10px] text-slate-500">
+                    El trabajo de la vuelta completa se conoce sin recorrerla: es el rotacional sumado sobre la región encerrada.
+                </p>
+            </div>
+        </DraggableWindow>
+
+        {/* Mission */}
+        <MissionPanel status={mission} />
+
+        {/* Theoretical Guide */}
+        <DraggableWindow title="GUÍA TEÓRICA: TEOREMA DE GREEN" initialPosition={{x: 350, y: 500}} width="w-96">
+            <div className="text-xs text-slate-400 font-mono space-y-2">
+                <p className="text-white font-bold">Del giro local a la circulación</p>
+                <p>La integral de línea ∮ F·dr suma, a lo largo del camino, la parte del campo que empuja en la dirección del movimiento: el trabajo hecho sobre la partícula.</p>
+                <ul className="list-disc pl-4 space-y-1 text-[10px]">
+                    <li><strong className="text-white">Flechas de la partícula:</strong> la blanca es F; la de color es F·T, la única parte que trabaja. <span style={{ color: POSITIVE_COLOR }}>Verde</span> suma, <span style={{ color: NEGATIVE_COLOR }}>rosa</span> resta.</li>
+                    <li><strong className="text-white">Green:</strong> ∮ F·dr = ∬ (∂Q/∂x - ∂P/∂y) dA para un lazo antihorario. Cada rueda de paletas del nivel anterior aporta su giro.</li>
+                    <li><strong className="text-white">Sentido:</strong> recorrer el lazo al revés cambia el signo del trabajo, y el teorema lo cambia también.</li>
+                    <li><strong className="text-white">Campos sin giro:</strong> si el rotacional es 0 en toda la región, el trabajo en el lazo es 0: el campo es conservativo.</li>
+                </ul>
+            </div>
+        </DraggableWindow>
+
+        {/* Nav */}
+        {onPrevLevel && (
+            <div className="absolute bottom-4 left-4 z-50 flex gap-4">
+                <button
+                    onClick={onPrevLevel}
+                    className="group flex items-center gap-3 px-4 py-2 bg-slate-900 border border-slate-700 hover:border-pink-500 hover:bg-slate-800 transition-all rounded-l-full shadow-lg"
+                >
+                    <div className="w-8 h-8 rounded-full border border-pink-500/50 flex items-center justify-center bg-pink-900/20 group-hover:bg-pink-400/20">
+                        <span className="text-pink-500 text-lg transform rotate-180">➔</span>
+                    </div>
+                    <div className="text-right pl-2 hidden md:block">
+                        <span className="block text-[9px] text-slate-500 pixel-font">NIVEL ANTERIOR</span>
+                        <span className="block text-xs text-pink-500 font-bold">DIVERGENCIA</span>
+                    </div>
+                </button>
+            </div>
+        )}
+
+    </div>
+  );
+};
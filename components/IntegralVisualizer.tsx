@@ -1,82 +1,200 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { DraggableWindow } from './DraggableWindow';
+import { MissionPanel } from './MissionPanel';
+import { FunctionInput } from './FunctionInput';
+import { ConvergenceChart } from './ConvergenceChart';
+import { SliceAreaPlot } from './SliceAreaPlot';
+import { ViewState } from '../types';
+import { CameraControls } from './CameraControls';
+import { useCamera, getCanvasPoint } from '../hooks/useCamera';
+import { useMission } from '../hooks/useMission';
+import { useCustomSurface } from '../hooks/useCustomSurface';
+import { useCustomRegion } from '../hooks/useCustomRegion';
+import { Mission, near } from '../utils/missions';
+import { RiemannRuleId, RIEMANN_RULES, ERROR_FLOOR, STUDY_RESOLUTIONS, getRiemannRule, riemannSum, adaptiveIntegral2D, convergenceStudy } from '../utils/quadrature';
+import { RegionBound, RegionKind, REGION_PRESETS, REGION_VARIABLES } from '../utils/region';
+import { SliceAxis, fubiniSweep, sliceIntervals, sectionArea, slicePosition, accumulatedTo } from '../utils/fubini';
 
 interface IntegralVisualizerProps {
     onNextLevel?: () => void;
     onPrevLevel?: () => void;
 }
 
-interface Point { x: number; y: number; z: number; }
-
-// Rotation Helpers
-const rotateX = (p: Point, angle: number): Point => ({
-    x: p.x,
-    y: p.y * Math.cos(angle) - p.z * Math.sin(angle),
-    z: p.y * Math.sin(angle) + p.z * Math.cos(angle)
-});
-const rotateY = (p: Point, angle: number): Point => ({
-    x: p.x * Math.cos(angle) + p.z * Math.sin(angle),
-    y: p.y,
-    z: -p.x * Math.sin(angle) + p.z * Math.cos(angle)
-});
-
 // --- MATH DEFINITIONS ---
 const FUNCTIONS = [
     {
         name: 'Paraboloide',
         eq: 'z = 1 + (x² + y²)/8',
-        f: (x: number, y: number) => 1 + (x*x + y*y) / 8,
-        range: 3
+        f: (x: number, y: number) => 1 + (x*x + y*y) / 8
     },
     {
         name: 'Plano Inclinado',
         eq: 'z = 2 + 0.3x + 0.3y',
-        f: (x: number, y: number) => 2 + 0.3*x + 0.3*y,
-        range: 3
+        f: (x: number, y: number) => 2 + 0.3*x + 0.3*y
     },
     {
         name: 'Ondas (Sin)',
         eq: 'z = 2 + sin(x)·cos(y)',
-        f: (x: number, y: number) => 2 + Math.sin(x) * Math.cos(y),
-        range: 3
+        f: (x: number, y: number) => 2 + Math.sin(x) * Math.cos(y)
+    },
+    {
+        // No symmetry to hide behind: every method shows its textbook order here
+        name: 'Colina Desplazada',
+        eq: 'z = 1.5 + 0.2x + 1.5·e^(-((x-1)² + (y-0.5)²)/2)',
+        f: (x: number, y: number) => 1.5 + 0.2*x + 1.5 * Math.exp(-((x-1)**2 + (y-0.5)**2) / 2)
     }
 ];
 
+type SurfaceFunction = typeof FUNCTIONS[number];
+
+// Selector entry for the user-typed surface, right after the presets
+const CUSTOM_INDEX = FUNCTIONS.length;
+const CUSTOM_DEFAULT = '3 - (x^2 + y^2)/6';
+
+// Region selector entry for user-typed bounds, after the presets
+const CUSTOM_REGION = 'custom';
+const REGION_KINDS: { id: RegionKind; label: string }[] = [
+  { id: 'typeI', label: 'TIPO I' },
+  { id: 'typeII', label: 'TIPO II' },
+  { id: 'polar', label: 'POLAR' }
+];
+
+// Cell edges are drawn as polylines so strips follow curved bounds and polar cells become wedges
+const EDGE_SEGMENTS = 4;
+
+// Fubini sweep: the plane advances SWEEP_STEP of the way every SWEEP_INTERVAL ms
+const SWEEP_STEP = 0.01;
+const SWEEP_INTERVAL = 50;
+const SECTION_SAMPLES = 40;   // Points along the top edge of a section
+const GHOST_SLICES = 12;      // Faint sections left behind by the plane
+const SLICE_COLOR = '#22d3ee';
+const REFERENCE_DELAY = 300;  // ms of quiet typing before the adaptive reference is recomputed
+
+interface IntegralMissionState {
+  funcIndex: number;
+  regionId: string; // Preset id, or CUSTOM_REGION
+  resolution: number;
+  rule: RiemannRuleId;
+  volume: number;
+  error: number; // Against the adaptive quadrature
+}
+
+// Exact volumes over [-3, 3]²: paraboloid 36 + 216/8 = 63, waves 72 (sin x integrates to 0).
+// Over the disk r ≤ 2.5 the paraboloid encloses 2π(2.5²/2 + 2.5⁴/32) ≈ 27.30.
+const INTEGRAL_MISSION: Mission<IntegralMissionState> = {
+  level: ViewState.INTEGRAL,
+  objectives: [
+    { id: 'coarse', label: 'Baja la resolución al mínimo (2 × 2) y observa el error', check: s => s.resolution === 2 },
+    {
+      id: 'precise', label: 'Paraboloide: aproxima su volumen (63 u³) con error < 0.1%',
+      check: s => s.funcIndex === 0 && s.regionId === 'square' && Math.abs(s.volume - 63) / 63 < 0.001
+    },
+    { id: 'waves', label: 'Ondas: comprueba que encierran 72 u³', check: s => s.funcIndex === 2 && s.regionId === 'square' && near(s.volume, 72) },
+    {
+      id: 'simpson', label: 'Colina desplazada: error < 10⁻⁵ con Simpson',
+      check: s => s.funcIndex === 3 && s.regionId === 'square' && s.rule === 'simpson' && s.error < 1e-5
+    },
+    {
+      id: 'polar', label: 'Paraboloide sobre el disco r ≤ 2.5 en polares (r dr dθ): error < 0.1%',
+      check: s => s.funcIndex === 0 && s.regionId === 'disk' && s.error / s.volume < 0.001
+    }
+  ]
+};
+
 export const IntegralVisualizer: React.FC<IntegralVisualizerProps> = ({ onNextLevel, onPrevLevel }) => {
   const [resolution, setResolution] = useState(6); // Grid subdivisions
   const [funcIndex, setFuncIndex] = useState(0);
-  const [totalVolume, setTotalVolume] = useState(0);
+  const [ruleId, setRuleId] = useState<RiemannRuleId>('midpoint');
+  const [seed, setSeed] = useState(1); // Monte Carlo draw
   const [showSample, setShowSample] = useState(true); // Show a specific "dA" element
+  const [regionId, setRegionId] = useState(REGION_PRESETS[0].id);
+  const customRegion = useCustomRegion(REGION_PRESETS[0].sources);
+  const region = customRegion.region;
+  const variables = REGION_VARIABLES[region.sources.kind];
+  const [fubini, setFubini] = useState(false); // Slicing mode
+  const [sliceAxis, setSliceAxis] = useState<SliceAxis>('x');
+  const [sliceFraction, setSliceFraction] = useState(0.5); // How far the plane has swept, 0..1
+  const [isSweeping, setIsSweeping] = useState(false);
+  const [showStudy, setShowStudy] = useState(false);
   
   // View State
-  const [camera, setCamera] = useState({ x: -0.5, y: 0.6 });
-  const [scale, setScale] = useState(45);
-  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const { camera, project, orbit, zoom, setPreset, setProjection, reset } = useCamera({ pitch: -0.5, yaw: 0.6, scale: 45 }, { minScale: 20, maxScale: 150 });
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dragging, setDragging] = useState<'ORBIT' | null>(null);
-  const lastMouse = useRef({ x: 0, y: 0 });
-
-  const activeFunc = FUNCTIONS[funcIndex];
-
-  // Derived Values for Math Display
-  const range = activeFunc.range; // -3 to 3
-  const totalWidth = range * 2;   // 6
-  const dx = totalWidth / resolution;
-  const dy = totalWidth / resolution;
-  const dA = dx * dy;
-
-  // Projection
-  const project = useCallback((p: Point, w: number, h: number) => {
-      let r = rotateY(p, camera.y);
-      r = rotateX(r, camera.x);
-      return {
-          x: w/2 + pan.x + r.x * scale,
-          y: h/2 + pan.y - r.y * scale, 
-          z: r.z
-      };
-  }, [camera, scale, pan]);
+  const lastMouse = useRef({ x: 0, y: 0 }); // Canvas coordinates
+
+  const custom = useCustomSurface(CUSTOM_DEFAULT);
+  const customFunc = useMemo<SurfaceFunction>(() => ({
+      name: '✎ Personalizada',
+      eq: `z = ${custom.surface.source}`,
+      f: custom.surface.f
+  }), [custom.surface]);
+
+  const activeFunc = funcIndex === CUSTOM_INDEX ? customFunc : FUNCTIONS[funcIndex];
+  const rule = getRiemannRule(ruleId);
+
+  // The volume above the floor, as drawn: heights <= 0 (or outside the domain of a custom f) count as 0
+  const integrand = useMemo(() => (x: number, y: number) => {
+      const z = activeFunc.f(x, y);
+      return z > 0 ? z : 0;
+  }, [activeFunc]);
+  const sum = useMemo(() => riemannSum(integrand, region, resolution, ruleId, seed), [integrand, region, resolution, ruleId, seed]);
+  // The adaptive reference takes up to a few hundred ms: follow the formula once typing pauses, not on every keystroke
+  const [reference, setReference] = useState({ integrand, region });
+  useEffect(() => {
+    const timer = setTimeout(() => setReference({ integrand, region }), REFERENCE_DELAY);
+    return () => clearTimeout(timer);
+  }, [integrand, region]);
+  const referenceReady = reference.integrand === integrand && reference.region === region;
+  const exact = useMemo(() => adaptiveIntegral2D(reference.integrand, reference.region), [reference]);
+  const error = referenceReady ? Math.abs(sum.volume - exact) : NaN; // NaN fails every mission check until it settles
+  // Every method at every resolution of the study, against the same reference. Only computed while the chart is open.
+  const study = useMemo(() => showStudy ? convergenceStudy(reference.integrand, reference.region, exact) : null, [showStudy, reference, exact]);
+
+  // Mission
+  const mission = useMission(INTEGRAL_MISSION, { funcIndex, regionId, resolution, rule: ruleId, volume: sum.volume, error });
+
+  // Derived Values for Math Display: the highlighted cell sits in the middle of the parameter grid
+  const sampleIndex = Math.floor(resolution / 2);
+  const sampleCell = sum.cells.find(c => c.i === sampleIndex && c.j === sampleIndex)!;
+  const outerStep = (region.outer.max - region.outer.min) / resolution;
+  const innerStep = region.innerSpan === null ? null : region.innerSpan / resolution;
+
+  const selectRegion = (id: string) => {
+      setRegionId(id);
+      const preset = REGION_PRESETS.find(p => p.id === id);
+      if (preset) customRegion.setSources(preset.sources);
+  };
+  const boundError = (bound: RegionBound) => customRegion.error?.bound === bound ? customRegion.error.message : null;
+
+  // Fubini: the volume as ∫ A(x) dx and as ∫ A(y) dy. Only computed while slicing.
+  const sweeps = useMemo(() => fubini ? { x: fubiniSweep(integrand, region, 'x'), y: fubiniSweep(integrand, region, 'y') } : null, [fubini, integrand, region]);
+  const sweep = sweeps?.[sliceAxis] ?? null;
+  const slice = useMemo(() => {
+      if (!sweep) return null;
+      const t = slicePosition(sweep, sliceFraction);
+      const area = sectionArea(integrand, region, sweep.axis, t);
+      return { t, area, intervals: sliceIntervals(region, sweep.axis, t), accumulated: accumulatedTo(sweep, t, area) };
+  }, [sweep, sliceFraction, integrand, region]);
+  const otherAxis: SliceAxis = sliceAxis === 'x' ? 'y' : 'x';
+
+  useEffect(() => {
+    if (!isSweeping) return;
+    const interval = setInterval(() => setSliceFraction(f => Math.min(1, f + SWEEP_STEP)), SWEEP_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isSweeping]);
+
+  // The plane stops at the end of the region
+  useEffect(() => {
+    if (sliceFraction >= 1) setIsSweeping(false);
+  }, [sliceFraction]);
+
+  const toggleSweep = () => {
+      if (!isSweeping && sliceFraction >= 1) setSliceFraction(0);
+      setIsSweeping(!isSweeping);
+  };
 
   // Draw Loop
   const draw = useCallback(() => {
@@ -89,10 +207,6 @@ export const IntegralVisualizer: React.FC<IntegralVisualizerProps> = ({ onNextLe
 
       ctx.fillStyle = '#0f172a'; ctx.fillRect(0,0,w,h);
 
-      const step = (range * 2) / resolution;
-      
-      let vol = 0;
-      
       // Store prisms to draw them sorted by Z (Painter's Algorithm)
       const prisms: {
           centerZ: number, 
@@ -100,98 +214,134 @@ export const IntegralVisualizer: React.FC<IntegralVisualizerProps> = ({ onNextLe
           draw: () => void
       }[] = [];
 
-      // Determine center index for "Sample Prism" highlight
-      // We want the prism closest to (0,0)
-      const sampleThreshold = step / 1.5;
-
-      // Loop through grid
-      for(let x = -range; x < range; x += step) {
-          for(let y = -range; y < range; y += step) {
-              // Midpoint Riemann Sum
-              const midX = x + step/2;
-              const midY = y + step/2;
-              const height = activeFunc.f(midX, midY);
-              
-              if(height <= 0) continue; 
-
-              vol += height * (step * step);
-
-              const isSample = showSample && Math.abs(midX) < sampleThreshold && Math.abs(midY) < sampleThreshold;
-
-              const corners = [
-                  {x: x, y: 0, z: y},           
-                  {x: x+step, y: 0, z: y},      
-                  {x: x+step, y: 0, z: y+step}, 
-                  {x: x, y: 0, z: y+step},      
-                  {x: x, y: height, z: y},           
-                  {x: x+step, y: height, z: y},      
-                  {x: x+step, y: height, z: y+step}, 
-                  {x: x, y: height, z: y+step},      
-              ];
-
-              const projCorners = corners.map(p => project(p, w, h));
-              const avgZ = projCorners.reduce((acc, p) => acc + p.z, 0) / 8;
-
-              // Color Logic
-              let fillStyle, strokeStyle;
-              
-              if (isSample) {
-                  // The "Sample" is bright yellow
-                  fillStyle = `rgba(250, 204, 21, 0.9)`;
-                  strokeStyle = `rgba(255, 255, 255, 1)`;
-              } else {
-                  // Regular Heatmap
-                  const hue = Math.max(0, Math.min(240, 240 - (height * 60))); 
-                  fillStyle = `hsla(${hue}, 70%, 50%, 0.7)`;
-                  strokeStyle = `hsla(${hue}, 80%, 30%, 0.3)`;
-              }
+      // Region boundary on the floor
+      ctx.beginPath();
+      region.outline.forEach((p, i) => {
+          const pr = project({ x: p.x, y: 0, z: p.y }, w, h);
+          if (i === 0) ctx.moveTo(pr.x, pr.y); else ctx.lineTo(pr.x, pr.y);
+      });
+      ctx.closePath();
+      ctx.strokeStyle = 'rgba(255,255,255,0.5)'; ctx.lineWidth = 1; ctx.setLineDash([4,4]); ctx.stroke(); ctx.setLineDash([]);
+
+      // Cell boundary in the plane: the image of its square in (u, v), corners at 0, S, 2S and 3S
+      const step = 1 / resolution;
+      const cellOutline = (i: number, j: number) => {
+          const corners = [[i, j], [i+1, j], [i+1, j+1], [i, j+1]];
+          return corners.flatMap(([ui, vj], k) => {
+              const [ui2, vj2] = corners[(k + 1) % 4];
+              return Array.from({ length: EDGE_SEGMENTS }, (_, s) => {
+                  const t = s / EDGE_SEGMENTS;
+                  return region.map((ui + (ui2 - ui) * t) * step, (vj + (vj2 - vj) * t) * step);
+              });
+          });
+      };
 
-              prisms.push({
-                  centerZ: avgZ,
-                  isSample,
-                  draw: () => {
-                      ctx.strokeStyle = strokeStyle;
-                      ctx.fillStyle = fillStyle;
-                      ctx.lineWidth = isSample ? 2 : 1;
+      // One prism per term of the sum (see utils/quadrature.ts for how each method picks its height)
+      sum.cells.forEach(cell => {
+          const height = cell.height;
+          
+          if(!(height > 0)) return; // Empty Monte Carlo cells, or the surface under the floor
+
+          const isSample = showSample && cell.i === sampleIndex && cell.j === sampleIndex;
+
+          const outline = cellOutline(cell.i, cell.j);
+          const projBase = outline.map(p => project({ x: p.x, y: 0, z: p.y }, w, h));
+          const projTop = outline.map(p => project({ x: p.x, y: height, z: p.y }, w, h));
+          const corners = [0, EDGE_SEGMENTS, 2 * EDGE_SEGMENTS, 3 * EDGE_SEGMENTS];
+          const avgZ = corners.reduce((acc, k) => acc + projBase[k].z + projTop[k].z, 0) / 8;
+
+          // Color Logic
+          let fillStyle, strokeStyle;
+          
+          if (isSample) {
+              // The "Sample" is bright yellow
+              fillStyle = `rgba(250, 204, 21, 0.9)`;
+              strokeStyle = `rgba(255, 255, 255, 1)`;
+          } else {
+              // Regular Heatmap
+              const hue = Math.max(0, Math.min(240, 240 - (height * 60))); 
+              fillStyle = `hsla(${hue}, 70%, 50%, 0.7)`;
+              strokeStyle = `hsla(${hue}, 80%, 30%, 0.3)`;
+          }
 
-                      // Top Face
+          prisms.push({
+              centerZ: avgZ,
+              isSample,
+              draw: () => {
+                  ctx.strokeStyle = strokeStyle;
+                  ctx.fillStyle = fillStyle;
+                  ctx.lineWidth = isSample ? 2 : 1;
+
+                  // Top Face
+                  ctx.beginPath();
+                  projTop.forEach((p, k) => { if (k === 0) ctx.moveTo(p.x, p.y); else ctx.lineTo(p.x, p.y); });
+                  ctx.closePath();
+                  ctx.fill();
+                  ctx.stroke();
+
+                  // Vertical Pillars (Simplified wireframe look for density)
+                  // Only draw verticals if resolution is low OR if it's the sample
+                  if (resolution < 20 || isSample) {
                       ctx.beginPath();
-                      ctx.moveTo(projCorners[4].x, projCorners[4].y);
-                      ctx.lineTo(projCorners[5].x, projCorners[5].y);
-                      ctx.lineTo(projCorners[6].x, projCorners[6].y);
-                      ctx.lineTo(projCorners[7].x, projCorners[7].y);
-                      ctx.closePath();
-                      ctx.fill();
+                      corners.forEach(k => { ctx.moveTo(projBase[k].x, projBase[k].y); ctx.lineTo(projTop[k].x, projTop[k].y); });
                       ctx.stroke();
+                  }
+                  
+                  // Highlight label for sample, and where the method read f
+                  if(isSample) {
+                      ctx.fillStyle = '#fff';
+                      ctx.font = 'bold 12px monospace';
+                      ctx.fillText("dV", projTop[corners[2]].x + 5, projTop[corners[2]].y);
+                      cell.samples.forEach(s => {
+                          const p = project({ x: s.x, y: integrand(s.x, s.y), z: s.y }, w, h);
+                          ctx.beginPath(); ctx.arc(p.x, p.y, 3, 0, Math.PI*2);
+                          ctx.fillStyle = rule.color; ctx.fill();
+                          ctx.strokeStyle = '#fff'; ctx.lineWidth = 1; ctx.stroke();
+                      });
+                  }
+              }
+          });
+      });
 
-                      // Vertical Pillars (Simplified wireframe look for density)
-                      // Only draw verticals if resolution is low OR if it's the sample
-                      if (resolution < 20 || isSample) {
-                          ctx.beginPath();
-                          ctx.moveTo(projCorners[0].x, projCorners[0].y); ctx.lineTo(projCorners[4].x, projCorners[4].y);
-                          ctx.moveTo(projCorners[1].x, projCorners[1].y); ctx.lineTo(projCorners[5].x, projCorners[5].y);
-                          ctx.moveTo(projCorners[2].x, projCorners[2].y); ctx.lineTo(projCorners[6].x, projCorners[6].y);
-                          ctx.moveTo(projCorners[3].x, projCorners[3].y); ctx.lineTo(projCorners[7].x, projCorners[7].y);
-                          ctx.stroke();
-                      }
-                      
-                      // Highlight label for sample
-                      if(isSample) {
-                          ctx.fillStyle = '#fff';
-                          ctx.font = 'bold 12px monospace';
-                          ctx.fillText("dV", projCorners[6].x + 5, projCorners[6].y);
-                      }
+      // Sort back to front (faded while slicing, so the sections stand out)
+      prisms.sort((a, b) => b.centerZ - a.centerZ);
+      if (slice) ctx.globalAlpha = 0.2;
+      prisms.forEach(p => p.draw());
+      ctx.globalAlpha = 1;
+
+      // Fubini: the section of the solid by the plane, and a few of the ones already swept
+      if (sweep && slice) {
+          const toWorld = (t: number, c: number, z: number) => sweep.axis === 'x' ? { x: t, y: z, z: c } : { x: c, y: z, z: t };
+          const drawSection = (t: number, intervals: [number, number][], current: boolean) => {
+              intervals.forEach(([a, b]) => {
+                  ctx.beginPath();
+                  const base = project(toWorld(t, a, 0), w, h);
+                  ctx.moveTo(base.x, base.y);
+                  for (let k = 0; k <= SECTION_SAMPLES; k++) {
+                      const c = a + (b - a) * k / SECTION_SAMPLES;
+                      const z = sweep.axis === 'x' ? integrand(t, c) : integrand(c, t);
+                      const p = project(toWorld(t, c, z), w, h);
+                      ctx.lineTo(p.x, p.y);
+                  }
+                  const end = project(toWorld(t, b, 0), w, h);
+                  ctx.lineTo(end.x, end.y);
+                  ctx.closePath();
+                  if (current) {
+                      ctx.fillStyle = 'rgba(34, 211, 238, 0.45)'; ctx.fill();
+                      ctx.strokeStyle = SLICE_COLOR; ctx.lineWidth = 2; ctx.stroke();
+                  } else {
+                      ctx.strokeStyle = 'rgba(34, 211, 238, 0.35)'; ctx.lineWidth = 1; ctx.stroke();
                   }
               });
+          };
+          for (let k = 0; k <= GHOST_SLICES; k++) {
+              const t = slicePosition(sweep, k / GHOST_SLICES);
+              if (t >= slice.t) break;
+              drawSection(t, sliceIntervals(region, sweep.axis, t), false);
           }
+          drawSection(slice.t, slice.intervals, true);
       }
 
-      setTotalVolume(vol);
-
-      // Sort back to front
-      prisms.sort((a, b) => b.centerZ - a.centerZ);
-      prisms.forEach(p => p.draw());
-
       // Draw Axes Overlay
       const origin = project({x:0,y:0,z:0}, w, h);
       const xAxis = project({x:4,y:0,z:0}, w, h);
@@ -203,7 +353,7 @@ export const IntegralVisualizer: React.FC<IntegralVisualizerProps> = ({ onNextLe
       ctx.beginPath(); ctx.moveTo(origin.x, origin.y); ctx.lineTo(yAxis.x, yAxis.y); ctx.strokeStyle='#22c55e'; ctx.stroke();
       ctx.beginPath(); ctx.moveTo(origin.x, origin.y); ctx.lineTo(zAxis.x, zAxis.y); ctx.strokeStyle='#3b82f6'; ctx.stroke();
 
-  }, [resolution, activeFunc, camera, scale, pan, project, showSample]);
+  }, [resolution, project, showSample, sum, integrand, rule, region, sampleIndex, sweep, slice]);
 
   // Events
   useEffect(() => {
@@ -220,20 +370,21 @@ export const IntegralVisualizer: React.FC<IntegralVisualizerProps> = ({ onNextLe
 
   // Interaction
   const handleMouseDown = (e: React.MouseEvent) => {
+    if (!canvasRef.current) return;
     setDragging('ORBIT');
-    lastMouse.current = { x: e.clientX, y: e.clientY };
+    lastMouse.current = getCanvasPoint(e, canvasRef.current);
   };
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (!dragging) return;
-    const dx = e.clientX - lastMouse.current.x;
-    const dy = e.clientY - lastMouse.current.y;
-    lastMouse.current = { x: e.clientX, y: e.clientY };
-    setCamera(prev => ({ x: prev.x + dy * 0.01, y: prev.y + dx * 0.01 }));
+    if (!dragging || !canvasRef.current) return;
+    const mouse = getCanvasPoint(e, canvasRef.current);
+    orbit(lastMouse.current, mouse, canvasRef.current.width, canvasRef.current.height);
+    lastMouse.current = mouse;
   };
   const handleMouseUp = () => setDragging(null);
   const handleWheel = (e: React.WheelEvent) => {
+    if (!canvasRef.current) return;
     const zoomFactor = e.deltaY < 0 ? 1.1 : 0.9;
-    setScale(prev => Math.max(20, Math.min(150, prev * zoomFactor)));
+    zoom(getCanvasPoint(e, canvasRef.current), zoomFactor, canvasRef.current.width, canvasRef.current.height);
   };
 
   return (
@@ -255,7 +406,54 @@ export const IntegralVisualizer: React.FC<IntegralVisualizerProps> = ({ onNextLe
                         {FUNCTIONS.map((func, i) => (
                             <option key={i} value={i}>{func.name}</option>
                         ))}
+                        <option value={CUSTOM_INDEX}>{customFunc.name}</option>
+                    </select>
+                    {funcIndex === CUSTOM_INDEX && (
+                        <FunctionInput value={custom.source} error={custom.error} onChange={custom.setSource} />
+                    )}
+                </div>
+
+                {/* Region Selector */}
+                <div className="space-y-1">
+                    <label className="text-[9px] font-bold text-slate-500">REGIÓN DE INTEGRACIÓN R</label>
+                    <select
+                        value={regionId}
+                        onChange={(e) => selectRegion(e.target.value)}
+                        className="w-full bg-slate-800 text-white text-xs p-2 rounded border border-slate-700 outline-none hover:border-cyan-400"
+                    >
+                        {REGION_PRESETS.map(p => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                        ))}
+                        <option value={CUSTOM_REGION}>✎ Personalizada</option>
                     </select>
+                    {regionId === CUSTOM_REGION && (
+                        <div className="space-y-1">
+                            <div className="flex bg-slate-800 p-1 rounded border border-slate-700">
+                                {REGION_KINDS.map(k => (
+                                    <button key={k.id} onClick={() => customRegion.setSources({ ...customRegion.sources, kind: k.id })}
+                                        className={`flex-1 py-1 text-[9px] font-bold transition-colors ${customRegion.sources.kind === k.id ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
+                                        {k.label}
+                                    </button>
+                                ))}
+                            </div>
+                            {([
+                                ['outerMin', `${REGION_VARIABLES[customRegion.sources.kind].outer} desde`],
+                                ['outerMax', `${REGION_VARIABLES[customRegion.sources.kind].outer} hasta`],
+                                ['innerMin', `${REGION_VARIABLES[customRegion.sources.kind].inner} desde`],
+                                ['innerMax', `${REGION_VARIABLES[customRegion.sources.kind].inner} hasta`]
+                            ] as [RegionBound, string][]).map(([bound, label]) => (
+                                <FunctionInput key={bound} label={label} hint={false} placeholder=""
+                                    value={customRegion.sources[bound]} error={boundError(bound)}
+                                    onChange={text => customRegion.setSources({ ...customRegion.sources, [bound]: text })} />
+                            ))}
+                            <p className="text-[9px] text-slate-600 leading-tight">
+                                Los límites de {REGION_VARIABLES[customRegion.sources.kind].inner} pueden depender de {REGION_VARIABLES[customRegion.sources.kind].outer}{customRegion.sources.kind === 'polar' && ' (escribe θ o t)'}; los de {REGION_VARIABLES[customRegion.sources.kind].outer} son constantes.
+                            </p>
+                        </div>
+                    )}
+                    {region.crossed && (
+                        <p className="text-[9px] text-yellow-400 leading-tight">⚠ Los límites de {variables.inner} se cruzan: esa parte de la integral iterada cuenta con signo negativo.</p>
+                    )}
                 </div>
 
                 {/* Resolution Control */}
@@ -276,11 +474,43 @@ export const IntegralVisualizer: React.FC<IntegralVisualizerProps> = ({ onNextLe
                     </div>
                 </div>
 
+                {/* Sampling Method */}
+                <div className="space-y-1">
+                    <label className="text-[9px] font-bold text-slate-500">MÉTODO DE MUESTREO</label>
+                    <div className="grid grid-cols-4 gap-1">
+                        {RIEMANN_RULES.map(r => (
+                            <button key={r.id} onClick={() => setRuleId(r.id)}
+                                className={`flex items-center gap-1 px-1 py-1 rounded border text-[9px] font-bold transition-colors ${ruleId === r.id ? 'bg-slate-700 border-slate-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-500 hover:text-slate-300'}`}>
+                                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: r.color }}></span>
+                                {r.name}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex items-start gap-2">
+                        <p className="flex-1 text-[9px] text-slate-500 leading-tight">{rule.description}</p>
+                        {ruleId === 'montecarlo' && (
+                            <button onClick={() => setSeed(s => s + 1)} className="px-2 py-0.5 bg-slate-800 border border-slate-600 rounded text-[9px] text-slate-300 hover:text-white" title="Sortear otros puntos">
+                                🎲 OTRO SORTEO
+                            </button>
+                        )}
+                    </div>
+                </div>
+
                 {/* Math Display */}
                 <div className="bg-slate-950/80 p-3 rounded border border-slate-800 text-center space-y-2">
                     <div className="text-slate-500 text-[10px] font-mono mb-1">VOLUMEN APROXIMADO</div>
                     <div className="text-3xl text-white font-bold pixel-font">
-                        {totalVolume.toFixed(2)} u³
+                        {sum.volume.toFixed(2)} u³
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 text-[10px] font-mono">
+                        <div>
+                            <span className="block text-[8px] text-slate-500">EXACTO (ADAPTATIVO)</span>
+                            <span className="text-green-400">{referenceReady ? exact.toFixed(6) : '…'}</span>
+                        </div>
+                        <div>
+                            <span className="block text-[8px] text-slate-500">ERROR ABSOLUTO</span>
+                            <span className="text-red-400">{!referenceReady ? '…' : error < ERROR_FLOOR ? '≈ 0' : error.toExponential(2)}</span>
+                        </div>
                     </div>
                     <div className="text-[9px] text-slate-500 italic border-t border-slate-800 pt-1 mt-2">
                         {activeFunc.eq}
@@ -292,6 +522,8 @@ export const IntegralVisualizer: React.FC<IntegralVisualizerProps> = ({ onNextLe
                     <input type="checkbox" checked={showSample} onChange={e => setShowSample(e.target.checked)} className="accent-yellow-400" />
                     <span className="text-[10px] text-yellow-400 font-bold">RESALTAR ELEMENTO (dV)</span>
                 </div>
+
+                <CameraControls camera={camera} onPreset={setPreset} onProjection={setProjection} onReset={() => reset()} />
             </div>
         </DraggableWindow>
 
@@ -303,36 +535,41 @@ export const IntegralVisualizer: React.FC<IntegralVisualizerProps> = ({ onNextLe
                 <div className="bg-slate-800 p-2 rounded border-l-2 border-cyan-400">
                     <div className="flex justify-between items-center mb-1">
                         <span className="text-[10px] text-slate-400">Notación Integral</span>
-                        <span className="text-white">∫∫ f(x,y) dA</span>
+                        <span className="text-white">
+                            ∫<sub>{region.sources.outerMin}</sub><sup>{region.sources.outerMax}</sup> ∫<sub>{region.sources.innerMin}</sub><sup>{region.sources.innerMax}</sup> f {variables.differential}
+                        </span>
                     </div>
                     <div className="text-center text-slate-500 text-lg">↓</div>
                     <div className="flex justify-between items-center mt-1">
                         <span className="text-[10px] text-slate-400">Suma Riemann</span>
-                        <span className="text-cyan-300">Σ f(x,y) · Δx · Δy</span>
+                        <span className="text-cyan-300">{rule.formula}</span>
                     </div>
                 </div>
 
                 {/* 2. Variables Breakdown */}
                 <div className="space-y-1 pt-2">
                     <p className="text-[10px] text-slate-500 font-sans">
-                        Al dividir el espacio de -3 a 3 en <span className="text-white">{resolution}</span> partes:
+                        Al dividir {variables.outer} y {variables.inner} en <span className="text-white">{resolution}</span> partes cada una:
                     </p>
                     
                     <div className="grid grid-cols-2 gap-2 mt-2">
                         <div className="bg-slate-900 p-2 rounded text-center">
-                            <span className="block text-[9px] text-pink-400 font-bold">Δx (Ancho Base)</span>
-                            <span className="text-white text-sm">{dx.toFixed(2)}</span>
+                            <span className="block text-[9px] text-pink-400 font-bold">Δ{variables.outer}</span>
+                            <span className="text-white text-sm">{outerStep.toFixed(2)}</span>
                         </div>
                         <div className="bg-slate-900 p-2 rounded text-center">
-                            <span className="block text-[9px] text-blue-400 font-bold">Δy (Largo Base)</span>
-                            <span className="text-white text-sm">{dy.toFixed(2)}</span>
+                            <span className="block text-[9px] text-blue-400 font-bold">Δ{variables.inner}</span>
+                            <span className="text-white text-sm">{innerStep === null ? `varía con ${variables.outer}` : innerStep.toFixed(2)}</span>
                         </div>
                     </div>
 
                     <div className="bg-slate-950 p-2 rounded text-center border border-slate-700 mt-2">
                          <span className="block text-[9px] text-yellow-400 font-bold mb-1">ÁREA DE LA BASE (dA)</span>
-                         <span className="text-slate-400 text-[10px]">{dx.toFixed(2)} × {dy.toFixed(2)} = </span>
-                         <span className="text-yellow-400 text-sm font-bold ml-1">{dA.toFixed(3)} u²</span>
+                         <span className="text-slate-400 text-[10px]">{region.sources.kind === 'polar' ? 'r · Δr · Δθ' : `Δ${variables.outer} · Δ${variables.inner}`} = </span>
+                         <span className="text-yellow-400 text-sm font-bold ml-1">{sampleCell.area.toFixed(3)} u²</span>
+                         {(region.sources.kind === 'polar' || innerStep === null) && (
+                             <span className="block text-[9px] text-slate-500 mt-1">(la celda amarilla: cada celda tiene su propia área)</span>
+                         )}
                     </div>
                 </div>
 
@@ -341,12 +578,124 @@ export const IntegralVisualizer: React.FC<IntegralVisualizerProps> = ({ onNextLe
                     <p className="text-[10px] text-slate-400 italic pt-2 border-t border-slate-700">
                         El prisma <span className="text-yellow-400 font-bold">AMARILLO</span> en el centro representa un solo término de tu suma.
                         <br/>
-                        Volumen = Altura (f) × Base ({dA.toFixed(2)})
+                        Volumen = Altura (f) × Base ({sampleCell.area.toFixed(2)})
+                    </p>
+                )}
+            </div>
+        </DraggableWindow>
+
+        {/* Convergence Study */}
+        <DraggableWindow title="ESTUDIO DE CONVERGENCIA" initialPosition={{x: 350, y: 20}} width="w-80">
+            <div className="space-y-2">
+                <button onClick={() => setShowStudy(!showStudy)}
+                    className={`w-full py-1.5 text-[10px] font-bold rounded border transition-colors ${showStudy ? 'bg-emerald-600/20 text-emerald-300 border-emerald-500' : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-white'}`}>
+                    {showStudy ? '📉 OCULTAR EL ESTUDIO' : '📉 COMPARAR TODOS LOS MÉTODOS'}
+                </button>
+                {study && (
+                    <>
+                        <ConvergenceChart
+                            series={RIEMANN_RULES.map(r => ({ id: r.id, color: r.color, values: study.errors[r.id], faded: r.id !== ruleId }))}
+                            logScale
+                            logFloor={ERROR_FLOOR}
+                            xValues={STUDY_RESOLUTIONS}
+                            logX
+                            xLabel="resolución n (log)"
+                            marker={resolution}
+                        />
+                        <div className="grid grid-cols-2 gap-x-2 gap-y-0.5 text-[9px] font-mono">
+                            {RIEMANN_RULES.map(r => {
+                                const order = study.orders[r.id];
+                                return (
+                                    <button key={r.id} onClick={() => setRuleId(r.id)}
+                                        className={`flex justify-between px-1 rounded ${ruleId === r.id ? 'bg-slate-800 text-white' : 'text-slate-500 hover:text-slate-300'}`}>
+                                        <span style={{ color: r.color }}>{r.name}</span>
+                                        <span>{order === null ? 'exacto' : `error ~ 1/n^${order.toFixed(1)}`}</span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                        <p className="text-[9px] text-slate-500 leading-tight">
+                            Error absoluto frente a la cuadratura adaptativa, en escala log-log: la pendiente es el orden de convergencia. Monte Carlo muestra el error cuadrático medio de varios sorteos.
+                        </p>
+                    </>
+                )}
+            </div>
+        </DraggableWindow>
+
+        {/* Fubini */}
+        <DraggableWindow title="FUBINI: INTEGRAL ITERADA" initialPosition={{x: 680, y: 20}} width="w-72">
+            <div className="space-y-2">
+                <button onClick={() => { setFubini(!fubini); setIsSweeping(false); }}
+                    className={`w-full py-1.5 text-[10px] font-bold rounded border transition-colors ${fubini ? 'bg-cyan-600/20 text-cyan-300 border-cyan-500' : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-white'}`}>
+                    {fubini ? '✂ CORTANDO EL SÓLIDO' : '✂ CORTAR CON UN PLANO'}
+                </button>
+                {sweep && slice && sweeps ? (
+                    <>
+                        <div className="flex bg-slate-800 p-1 rounded border border-slate-700">
+                            {(['x', 'y'] as SliceAxis[]).map(axis => (
+                                <button key={axis} onClick={() => setSliceAxis(axis)}
+                                    className={`flex-1 py-1 text-[9px] font-bold transition-colors ${sliceAxis === axis ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
+                                    PLANOS {axis} = cte
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-[10px] font-mono text-slate-400 text-center">
+                            A({sliceAxis}) = ∫ f(x, y) d{otherAxis} &nbsp;→&nbsp; V = ∫ A({sliceAxis}) d{sliceAxis}
+                        </p>
+                        <div className="flex items-center gap-2">
+                            <button onClick={toggleSweep}
+                                className="px-2 py-1 text-[10px] font-bold rounded bg-slate-800 border border-slate-700 text-cyan-300 hover:border-cyan-400">
+                                {isSweeping ? '⏸' : '▶'}
+                            </button>
+                            <input
+                                type="range" min="0" max="1" step="0.005"
+                                value={sliceFraction}
+                                onChange={(e) => { setIsSweeping(false); setSliceFraction(Number(e.target.value)); }}
+                                className="flex-1 h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-400"
+                            />
+                        </div>
+                        <SliceAreaPlot sweep={sweep} position={slice.t} area={slice.area} color={SLICE_COLOR} />
+                        <div className="grid grid-cols-3 gap-1 text-center font-mono">
+                            <div className="bg-slate-900 p-1 rounded">
+                                <span className="block text-[8px] text-slate-500">{sliceAxis}</span>
+                                <span className="text-white text-xs">{slice.t.toFixed(2)}</span>
+                            </div>
+                            <div className="bg-slate-900 p-1 rounded">
+                                <span className="block text-[8px] text-cyan-400">A({sliceAxis})</span>
+                                <span className="text-white text-xs">{slice.area.toFixed(2)} u²</span>
+                            </div>
+                            <div className="bg-slate-900 p-1 rounded">
+                                <span className="block text-[8px] text-cyan-400">∫ A d{sliceAxis} hasta aquí</span>
+                                <span className="text-white text-xs">{slice.accumulated.toFixed(2)} u³</span>
+                            </div>
+                        </div>
+                        <div className="bg-slate-950 p-2 rounded border border-slate-700 text-[10px] font-mono space-y-0.5">
+                            {(['x', 'y'] as SliceAxis[]).map(axis => (
+                                <div key={axis} className={`flex justify-between ${axis === sliceAxis ? 'text-cyan-300' : 'text-slate-400'}`}>
+                                    <span>∫ ( ∫ f d{axis === 'x' ? 'y' : 'x'} ) d{axis}</span>
+                                    <span>{sweeps[axis].total.toFixed(4)} u³</span>
+                                </div>
+                            ))}
+                            <div className="flex justify-between text-slate-500 border-t border-slate-800 pt-0.5">
+                                <span>Riemann ({rule.name}, n = {resolution})</span>
+                                <span>{sum.volume.toFixed(4)} u³</span>
+                            </div>
+                        </div>
+                        <p className="text-[9px] text-slate-500 leading-tight">
+                            Teorema de Fubini: cortar en x o en y da el mismo volumen. La curva es el área de cada corte; el área sombreada bajo ella es el volumen ya recorrido.
+                        </p>
+                    </>
+                ) : (
+                    <p className="text-[9px] text-slate-500 leading-tight">
+                        Recorre el sólido con un plano x = cte (o y = cte) y ve cómo el área de cada corte, acumulada, da el volumen: la integral iterada.
                     </p>
                 )}
             </div>
         </DraggableWindow>
 
+        {/* Mission */}
+        <MissionPanel status={mission} />
+
         <DraggableWindow title="GUÍA TEÓRICA: INTEGRALES" initialPosition={{x: 350, y: 500}} width="w-96">
             <div className="text-xs text-slate-400 font-mono space-y-2">
                 <p className="text-white font-bold">Interpretación Geométrica</p>
@@ -356,6 +705,21 @@ export const IntegralVisualizer: React.FC<IntegralVisualizerProps> = ({ onNextLe
                     <li><strong className="text-cyan-400">Resolución Alta:</strong> Los bloques se hacen finos ($\Delta x \to 0$). La superficie se vuelve suave y el volumen se acerca al valor "Real".</li>
                     <li>La integral exacta es el límite cuando tienes <strong>infinitos</strong> bloques infinitamente delgados.</li>
                 </ul>
+                <p className="text-white font-bold mt-2">¿Dónde se mide la altura?</p>
+                <ul className="list-disc pl-4 space-y-1 text-[10px]">
+                    <li><strong className="text-pink-400">Esquinas, inferior y superior:</strong> el error cae como 1/n (orden 1). Inferior y superior encierran el valor exacto entre las dos.</li>
+                    <li><strong className="text-cyan-400">Punto medio y trapecios:</strong> orden 2: duplicar n divide el error entre 4.</li>
+                    <li><strong className="text-green-400">Simpson:</strong> orden 4, exacto para polinomios de grado 3.</li>
+                    <li><strong className="text-purple-400">Monte Carlo:</strong> error ~ 1/√N = 1/n con N puntos al azar. Lento en 2D, pero no empeora con la dimensión.</li>
+                </ul>
+                <p className="text-white font-bold mt-2">Regiones no rectangulares</p>
+                <ul className="list-disc pl-4 space-y-1 text-[10px]">
+                    <li><strong className="text-yellow-400">Tipo I:</strong> x entre constantes, y entre dos curvas g₁(x) ≤ y ≤ g₂(x). Cada franja vertical se divide en n celdas, así que Δy cambia de una franja a otra.</li>
+                    <li><strong className="text-yellow-400">Tipo II:</strong> lo mismo con los papeles cambiados: franjas horizontales, h₁(y) ≤ x ≤ h₂(y).</li>
+                    <li><strong className="text-yellow-400">Polares:</strong> las celdas son cuñas de área r·Δr·Δθ. Ese factor r es el jacobiano: olvidarlo es el error más común.</li>
+                    <li><strong className="text-cyan-400">Fubini:</strong> ∫∫ f dA = ∫ (∫ f dy) dx = ∫ (∫ f dx) dy. La integral de dentro es el área A(x) de un corte; la de fuera suma los cortes.</li>
+                    <li>Compara el disco en polares con el disco como Tipo I: la raíz √(6.25 − x²) tiene pendiente infinita en los bordes y el orden de convergencia cae por debajo del teórico.</li>
+                </ul>
             </div>
         </DraggableWindow>
 
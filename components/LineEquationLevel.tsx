@@ -1,67 +1,61 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { DraggableWindow } from './DraggableWindow';
+import { MissionPanel } from './MissionPanel';
+import { CameraControls } from './CameraControls';
+import { Vector3D, ViewState } from '../types';
+import { add3, sub3, scale3, cross3, norm3 } from '../utils/linearAlgebra';
+import { useCamera, getCanvasPoint } from '../hooks/useCamera';
+import { useMission } from '../hooks/useMission';
+import { Mission, near } from '../utils/missions';
+
+const VIEW_3D = { pitch: -0.3, yaw: 0.5 };
 
 interface LineEquationLevelProps {
     onNextLevel?: () => void;
     onPrevLevel?: () => void;
 }
 
-interface Vector3 { x: number; y: number; z: number; }
-
-// Rotation Helpers
-const rotateX = (v: Vector3, angle: number): Vector3 => ({
-  x: v.x,
-  y: v.y * Math.cos(angle) - v.z * Math.sin(angle),
-  z: v.y * Math.sin(angle) + v.z * Math.cos(angle)
-});
+interface LineMissionState {
+  pointP: Vector3D;
+  dirV: Vector3D;
+  t: number;
+}
 
-const rotateY = (v: Vector3, angle: number): Vector3 => ({
-  x: v.x * Math.cos(angle) + v.z * Math.sin(angle),
-  y: v.y,
-  z: -v.x * Math.sin(angle) + v.z * Math.cos(angle)
-});
+const LINE_MISSION: Mission<LineMissionState> = {
+  level: ViewState.LINE_EQUATION,
+  objectives: [
+    {
+      // Distance from the origin to the line: |P × v| / |v|
+      id: 'origin', label: 'Haz que la recta pase por el origen',
+      check: s => norm3(s.dirV) > 0.1 && norm3(cross3(s.pointP, s.dirV)) / norm3(s.dirV) < 0.1
+    },
+    { id: 'back', label: 'Recorre la recta hacia atrás (t < 0)', check: s => s.t < 0 },
+    { id: 'three', label: 'Sitúa el punto en P + 3v (t = 3)', check: s => near(s.t, 3, 0.01) }
+  ]
+};
 
 export const LineEquationLevel: React.FC<LineEquationLevelProps> = ({ onNextLevel, onPrevLevel }) => {
   // State
-  const [pointP, setPointP] = useState<Vector3>({ x: -2, y: -1, z: 0 }); // Starting point
-  const [dirV, setDirV] = useState<Vector3>({ x: 1, y: 1, z: 0 });     // Direction
+  const [pointP, setPointP] = useState<Vector3D>({ x: -2, y: -1, z: 0 }); // Starting point
+  const [dirV, setDirV] = useState<Vector3D>({ x: 1, y: 1, z: 0 });     // Direction
   const [t, setT] = useState<number>(0);                               // Parameter
   
   // View State
   const [is3D, setIs3D] = useState(false);
-  const [cameraAngle, setCameraAngle] = useState({ x: -0.3, y: 0.5 });
-  const [scale, setScale] = useState(40);
-  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const { camera, project, pick, orbit, zoom, setPreset, setProjection, reset } = useCamera({ scale: 40 });
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
   // Interaction
   const [dragging, setDragging] = useState<'P' | 'V' | 'ORBIT' | null>(null);
-  const lastMousePos = useRef({ x: 0, y: 0 });
+  const lastMousePos = useRef({ x: 0, y: 0 }); // Canvas coordinates
 
-  // Math: L(t) = P + t*v
-  const currentPoint = {
-      x: pointP.x + t * dirV.x,
-      y: pointP.y + t * dirV.y,
-      z: pointP.z + t * dirV.z
-  };
+  // Mission
+  const mission = useMission(LINE_MISSION, { pointP, dirV, t });
 
-  // Projection Logic
-  const project = useCallback((v: Vector3, width: number, height: number): { x: number, y: number, z: number } => {
-    let p = { ...v };
-    if (is3D) {
-      p = rotateY(p, cameraAngle.y);
-      p = rotateX(p, cameraAngle.x);
-    } else {
-      p = { x: v.x, y: v.y, z: 0 };
-    }
-    return {
-      x: width / 2 + pan.x + (p.x * scale),
-      y: height / 2 + pan.y - (p.y * scale),
-      z: p.z
-    };
-  }, [is3D, cameraAngle, scale, pan]);
+  // Math: L(t) = P + t*v
+  const currentPoint = add3(pointP, scale3(dirV, t));
 
   // Drawing
   const draw = useCallback(() => {
@@ -80,7 +74,7 @@ export const LineEquationLevel: React.FC<LineEquationLevelProps> = ({ onNextLeve
     // --- Grid ---
     ctx.lineWidth = 1;
     const gridSize = 20;
-    const drawLine = (start: Vector3, end: Vector3, color: string, dashed = false) => {
+    const drawLine = (start: Vector3D, end: Vector3D, color: string, dashed = false) => {
         const p1 = project(start, w, h);
         const p2 = project(end, w, h);
         if ((p1.x < -100 && p2.x < -100) || (p1.x > w + 100 && p2.x > w + 100)) return;
@@ -116,20 +110,12 @@ export const LineEquationLevel: React.FC<LineEquationLevelProps> = ({ onNextLeve
 
     // --- The Infinite Line ---
     // Calculate two points far away in both directions
-    const farStart = {
-        x: pointP.x - 100 * dirV.x,
-        y: pointP.y - 100 * dirV.y,
-        z: pointP.z - 100 * dirV.z
-    };
-    const farEnd = {
-        x: pointP.x + 100 * dirV.x,
-        y: pointP.y + 100 * dirV.y,
-        z: pointP.z + 100 * dirV.z
-    };
+    const farStart = add3(pointP, scale3(dirV, -100));
+    const farEnd = add3(pointP, scale3(dirV, 100));
     drawLine(farStart, farEnd, 'rgba(34, 211, 238, 0.2)', false); // Faint cyan line path
 
     // --- Vectors ---
-    const drawVector = (startPos: Vector3, endPos: Vector3, color: string, label: string) => {
+    const drawVector = (startPos: Vector3D, endPos: Vector3D, color: string, label: string) => {
         const p1 = project(startPos, w, h);
         const p2 = project(endPos, w, h);
         
@@ -158,11 +144,7 @@ export const LineEquationLevel: React.FC<LineEquationLevelProps> = ({ onNextLeve
 
     // 3. Direction Vector V (Placed at P)
     // We visualize it scaled by t
-    const tEndPoint = {
-        x: pointP.x + t * dirV.x,
-        y: pointP.y + t * dirV.y,
-        z: pointP.z + t * dirV.z
-    };
+    const tEndPoint = add3(pointP, scale3(dirV, t));
     
     // Draw the "active" segment P -> P + tv
     drawLine(pointP, tEndPoint, '#ef4444', false); 
@@ -182,7 +164,7 @@ export const LineEquationLevel: React.FC<LineEquationLevelProps> = ({ onNextLeve
     drawHandle(tipP, '#3b82f6', dragging === 'P');
 
     // Calculate tip of V relative to P for dragging direction
-    const tipVabs = { x: pointP.x + dirV.x, y: pointP.y + dirV.y, z: pointP.z + dirV.z };
+    const tipVabs = add3(pointP, dirV);
     const tipVscreen = project(tipVabs, w, h);
     
     // Draw little vector P -> P+v (Unit direction reference)
@@ -190,7 +172,7 @@ export const LineEquationLevel: React.FC<LineEquationLevelProps> = ({ onNextLeve
     ctx.strokeStyle = '#ef4444'; ctx.lineWidth = 1; ctx.stroke();
     drawHandle(tipVscreen, '#ef4444', dragging === 'V');
 
-  }, [pointP, dirV, t, is3D, cameraAngle, scale, pan, dragging, project]);
+  }, [pointP, dirV, t, is3D, dragging, project]);
 
   // Event Listeners
   useEffect(() => {
@@ -207,72 +189,64 @@ export const LineEquationLevel: React.FC<LineEquationLevelProps> = ({ onNextLeve
 
   // Interactions
   const handleMouseDown = (e: React.MouseEvent) => {
-      const rect = canvasRef.current!.getBoundingClientRect();
-      const mx = e.clientX - rect.left;
-      const my = e.clientY - rect.top;
+      const mouse = getCanvasPoint(e, canvasRef.current!);
+      const mx = mouse.x;
+      const my = mouse.y;
       const w = canvasRef.current!.width;
       const h = canvasRef.current!.height;
 
       const tP = project(pointP, w, h);
-      const tipVabs = { x: pointP.x + dirV.x, y: pointP.y + dirV.y, z: pointP.z + dirV.z };
+      const tipVabs = add3(pointP, dirV);
       const tV = project(tipVabs, w, h);
 
       if (Math.hypot(mx - tP.x, my - tP.y) < 15) setDragging('P');
       else if (Math.hypot(mx - tV.x, my - tV.y) < 15) setDragging('V');
       else if (is3D) setDragging('ORBIT');
       
-      lastMousePos.current = { x: e.clientX, y: e.clientY };
+      lastMousePos.current = mouse;
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-      const dx = e.clientX - lastMousePos.current.x;
-      const dy = e.clientY - lastMousePos.current.y;
-      lastMousePos.current = { x: e.clientX, y: e.clientY };
-
-      if (!dragging) return;
+      if (!dragging || !canvasRef.current) return;
+      const mouse = getCanvasPoint(e, canvasRef.current);
+      const { width, height } = canvasRef.current;
+      const prevMouse = lastMousePos.current;
+      lastMousePos.current = mouse;
 
       if (dragging === 'ORBIT') {
-          setCameraAngle(prev => ({ x: prev.x + dy * 0.01, y: prev.y + dx * 0.01 }));
+          orbit(prevMouse, mouse, width, height);
           return;
       }
 
-      const sensitivity = 1.0 / scale;
-      // Simplified drag mapping
-      let moveX = dx * sensitivity;
-      let moveY = -dy * sensitivity;
-      let moveZ = 0;
-
-      if (is3D) {
-         // Map screen X/Y to world based on camera yaw approx
-         const cosY = Math.cos(cameraAngle.y);
-         const sinY = Math.sin(cameraAngle.y);
-         moveX = (dx * cosY) * sensitivity;
-         moveZ = (dx * sinY) * sensitivity;
-      }
+      // Handle follows the cursor on the plane facing the camera (z = 0 plane in 2D)
+      const handle = dragging === 'P' ? pointP : add3(pointP, dirV);
+      const hit = pick(mouse, width, height, handle);
+      if (!hit) return;
+      const target = is3D ? hit : { x: hit.x, y: hit.y, z: handle.z };
 
       if (dragging === 'P') {
-          setPointP(prev => ({ x: prev.x + moveX, y: prev.y + moveY, z: prev.z + moveZ }));
+          setPointP(target);
       } else if (dragging === 'V') {
           // Dragging tip of V means we are changing direction relative to P
           // V_new = MousePos_World - P
-          // Since we apply delta, we just add delta to V
-          setDirV(prev => ({ x: prev.x + moveX, y: prev.y + moveY, z: prev.z + moveZ }));
+          setDirV(sub3(target, pointP));
       }
   };
 
   const handleMouseUp = () => setDragging(null);
   const handleWheel = (e: React.WheelEvent) => {
+      if (!canvasRef.current) return;
       const zoomFactor = e.deltaY < 0 ? 1.1 : 0.9;
-      setScale(prev => Math.max(10, Math.min(200, prev * zoomFactor)));
+      zoom(getCanvasPoint(e, canvasRef.current), zoomFactor, canvasRef.current.width, canvasRef.current.height);
   };
 
-  const updateVec = (setter: React.Dispatch<React.SetStateAction<Vector3>>, axis: keyof Vector3, val: string) => {
+  const updateVec = (setter: React.Dispatch<React.SetStateAction<Vector3D>>, axis: keyof Vector3D, val: string) => {
       setter(prev => ({...prev, [axis]: parseFloat(val)||0}));
   };
 
   // Helper Input Component with Scroll
-  const VecInput = ({ v, label, color, onChange }: { v: Vector3, label: string, color: string, onChange: React.Dispatch<React.SetStateAction<Vector3>> }) => {
-      const onScroll = (axis: keyof Vector3) => (e: React.WheelEvent) => {
+  const VecInput = ({ v, label, color, onChange }: { v: Vector3D, label: string, color: string, onChange: React.Dispatch<React.SetStateAction<Vector3D>> }) => {
+      const onScroll = (axis: keyof Vector3D) => (e: React.WheelEvent) => {
           e.stopPropagation();
           const delta = e.deltaY > 0 ? -0.5 : 0.5;
           onChange(prev => ({...prev, [axis]: Number((prev[axis] + delta).toFixed(1))}));
@@ -338,18 +312,22 @@ export const LineEquationLevel: React.FC<LineEquationLevelProps> = ({ onNextLeve
 
                  {/* View Toggles */}
                  <div className="flex bg-slate-800 p-1 rounded border border-slate-700">
-                     <button onClick={() => { setIs3D(false); setCameraAngle({x:0, y:0}); setPan({x:0,y:0}); }}
+                     <button onClick={() => { setIs3D(false); reset(); }}
                          className={`flex-1 py-1 text-[10px] font-bold transition-colors ${!is3D ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
                          2D
                      </button>
-                     <button onClick={() => { setIs3D(true); setCameraAngle({x: -0.3, y: 0.5}); }}
+                     <button onClick={() => { setIs3D(true); reset(VIEW_3D); }}
                          className={`flex-1 py-1 text-[10px] font-bold transition-colors ${is3D ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
                          3D
                      </button>
                  </div>
+                 {is3D && <CameraControls camera={camera} onPreset={setPreset} onProjection={setProjection} onReset={() => reset(VIEW_3D)} />}
              </div>
          </DraggableWindow>
 
+         {/* Mission */}
+         <MissionPanel status={mission} />
+
          {/* Legend Window - NEW */}
          <DraggableWindow title="GUÍA TEÓRICA: RECTA" initialPosition={{x: 350, y: 400}} width="w-80">
              <div className="text-xs text-slate-400 space-y-2 font-mono">
@@ -1,95 +1,27 @@
 import React from 'react';
 import { ViewState } from '../types';
+import { getWorldLevels, levelCode } from '../levelRegistry';
+import { useProgress } from '../hooks/useProgress';
+import { getBestScore, isCompleted, isUnlocked } from '../utils/progress';
 
 interface LinearLevelSelectorProps {
   setView: (view: ViewState) => void;
 }
 
 export const LinearLevelSelector: React.FC<LinearLevelSelectorProps> = ({ setView }) => {
-  
-  const levels = [
-    {
-      id: 1,
-      title: "VISUALIZAR VECTOR",
-      subtitle: "NIVEL 1-1",
-      icon: "↗️",
-      locked: false,
-      target: ViewState.LEVEL_1_VECTOR,
-      description: "Conceptos básicos y magnitud."
-    },
-    {
-      id: 2,
-      title: "SUMA DE VECTORES",
-      subtitle: "NIVEL 1-2",
-      icon: "➕",
-      locked: false,
-      target: ViewState.VECTORS, 
-      description: "Acoplamiento de fuerzas."
-    },
-    {
-      id: 3,
-      title: "ESCALAR Y DIRECCIÓN",
-      subtitle: "NIVEL 1-3",
-      icon: "📏",
-      locked: false,
-      target: ViewState.SCALAR_MULTIPLICATION,
-      description: "Estirar, encoger e invertir."
-    },
-    {
-      id: 4,
-      title: "ECUACIÓN DE LA RECTA",
-      subtitle: "NIVEL 1-4",
-      icon: "📏",
-      locked: false,
-      target: ViewState.LINE_EQUATION,
-      description: "Punto + Dirección. La base del movimiento."
-    },
-    {
-      id: 5,
-      title: "PRODUCTO PUNTO",
-      subtitle: "NIVEL 1-5",
-      icon: "☀️", // Sun casting shadow
-      locked: false, 
-      target: ViewState.DOT_PRODUCT,
-      description: "Proyección y similitud."
-    },
-    {
-      id: 6,
-      title: "PRODUCTO CRUZ",
-      subtitle: "NIVEL 1-6",
-      icon: "❌",
-      locked: false,
-      target: ViewState.CROSS_PRODUCT,
-      description: "Ortogonalidad en 3D."
-    },
-    {
-      id: 7,
-      title: "TRANSFORMACIONES",
-      subtitle: "NIVEL 1-7",
-      icon: "🔄",
-      locked: false,
-      target: ViewState.MATRICES,
-      description: "Matrices deformando el espacio."
-    },
-    {
-      id: 8,
-      title: "MULTIPLICACIÓN",
-      subtitle: "NIVEL 1-8",
-      icon: "⛓️",
-      locked: false,
-      target: ViewState.MATRIX_MULTIPLICATION,
-      description: "Composición de transformaciones."
-    },
-    {
-      id: 9,
-      title: "EIGENVECTORS",
-      subtitle: "BOSS STAGE",
-      icon: "💎",
-      locked: false,
-      target: ViewState.EIGENVECTORS,
-      description: "El eje inmutable de la matriz."
-    }
-  ];
+  const { progress } = useProgress();
+
+  const levels = getWorldLevels(1).map(level => ({
+    id: level.id,
+    title: level.title,
+    subtitle: level.boss ? 'BOSS STAGE' : `NIVEL ${levelCode(level)}`,
+    icon: level.icon,
+    locked: !isUnlocked(progress, level.prerequisites),
+    completed: isCompleted(progress, level.id),
+    bestScore: getBestScore(progress, level.id),
+    target: level.id,
+    description: level.description
+  }));
 
   return (
     <div className="relative w-full h-full bg-[#0f172a] overflow-y-auto custom-scrollbar">
@@ -140,7 +72,11 @@ export const LinearLevelSelector: React.FC<LinearLevelSelectorProps> = ({ setVie
                   <span className={`pixel-font text-[10px] ${level.locked ? 'text-slate-600' : 'text-yellow-400'}`}>
                     {level.subtitle}
                   </span>
-                  {!level.locked && (
+                  {level.completed ? (
+                    <span className="pixel-font text-[10px] text-yellow-400">★</span>
+                  ) : level.bestScore !== undefined ? (
+                    <span className="pixel-font text-[10px] text-slate-400" title="Mejor partida: objetivos de la misión">{Math.round(level.bestScore * 100)}%</span>
+                  ) : !level.locked && (
                     <span className="animate-pulse w-2 h-2 rounded-full bg-green-500"></span>
                   )}
                 </div>
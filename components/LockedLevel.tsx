@@ -0,0 +1,39 @@
+import React from 'react';
+import { LevelDefinition, levelCode } from '../levelRegistry';
+
+interface LockedLevelProps {
+  level: LevelDefinition;
+  missing: LevelDefinition[]; // Prerequisites not completed yet
+  onBack: () => void;
+}
+
+// Shown instead of a level reached through a link or the address bar before its prerequisites are done
+export const LockedLevel: React.FC<LockedLevelProps> = ({ level, missing, onBack }) => {
+  return (
+    <div className="relative w-full h-full bg-[#101018] flex flex-col items-center justify-center p-8 overflow-hidden">
+      <div className="stars opacity-50"></div>
+
+      <div className="z-10 flex flex-col items-center gap-8 max-w-2xl text-center border-4 border-slate-700 bg-slate-900/90 p-12 shadow-2xl backdrop-blur-sm">
+        <div className="text-6xl">🔒</div>
+
+        <h2 className="pixel-font text-2xl md:text-4xl text-red-400 leading-tight drop-shadow-[4px_4px_0_#7f1d1d]">
+          NIVEL {levelCode(level)}<br />BLOQUEADO
+        </h2>
+
+        <div className="pixel-font text-xs text-slate-400 tracking-widest leading-loose">
+          <p>PARA ENTRAR EN {level.title} SUPERA ANTES:</p>
+          {missing.map(m => (
+            <p key={m.id} className="text-yellow-400">► {levelCode(m)} {m.title}</p>
+          ))}
+        </div>
+
+        <button
+          onClick={onBack}
+          className="mt-4 px-8 py-3 bg-slate-800 border-2 border-slate-600 text-cyan-400 pixel-font text-xs hover:bg-slate-700 hover:border-cyan-400 hover:text-white transition-all duration-200 shadow-[0_4px_0_#1e293b] active:shadow-none active:translate-y-1"
+        >
+          ◀ RETURN TO MAP
+        </button>
+      </div>
+    </div>
+  );
+};
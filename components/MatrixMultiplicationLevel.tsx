@@ -1,13 +1,17 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { DraggableWindow } from './DraggableWindow';
+import { MissionPanel } from './MissionPanel';
+import { Vector2D, Matrix2x2, ViewState } from '../types';
+import { multiply2x2, lerp2x2, transform2x2, IDENTITY_2X2, determinant2x2 } from '../utils/linearAlgebra';
+import { useCamera, getCanvasPoint } from '../hooks/useCamera';
+import { useMission } from '../hooks/useMission';
+import { Mission, near } from '../utils/missions';
 
 interface MatrixMultiplicationLevelProps {
     onNextLevel?: () => void;
     onPrevLevel?: () => void;
 }
 
-interface Point { x: number; y: number; }
-interface Matrix2x2 { a: number; b: number; c: number; d: number; }
 
 interface TransformationStep {
     id: string;
@@ -16,21 +20,24 @@ interface TransformationStep {
     color: string;
 }
 
-// Helper: Multiply two 2x2 matrices (A * B) -> Apply B first, then A
-const multiply = (m1: Matrix2x2, m2: Matrix2x2): Matrix2x2 => ({
-    a: m1.a * m2.a + m1.b * m2.c,
-    b: m1.a * m2.b + m1.b * m2.d,
-    c: m1.c * m2.a + m1.d * m2.c,
-    d: m1.c * m2.b + m1.d * m2.d,
-});
-
-// Helper: Linear Interpolation between matrices
-const lerpMatrix = (m1: Matrix2x2, m2: Matrix2x2, t: number): Matrix2x2 => ({
-    a: m1.a + (m2.a - m1.a) * t,
-    b: m1.b + (m2.b - m1.b) * t,
-    c: m1.c + (m2.c - m1.c) * t,
-    d: m1.d + (m2.d - m1.d) * t,
-});
+interface CompletedRun {
+  steps: number;
+  matrix: Matrix2x2; // Composite transformation
+}
+
+const isIdentity2x2 = (m: Matrix2x2) => near(m.a, 1, 1e-6) && near(m.b, 0, 1e-6) && near(m.c, 0, 1e-6) && near(m.d, 1, 1e-6);
+
+const COMPOSITION_MISSION: Mission<{ lastRun: CompletedRun | null }> = {
+  level: ViewState.MATRIX_MULTIPLICATION,
+  objectives: [
+    { id: 'chain', label: 'Ejecuta una secuencia de 3 o más transformaciones', check: ({ lastRun }) => lastRun !== null && lastRun.steps >= 3 },
+    {
+      id: 'identity', label: 'Vuelve al inicio: una secuencia cuyo resultado sea la identidad',
+      check: ({ lastRun }) => lastRun !== null && lastRun.steps >= 2 && isIdentity2x2(lastRun.matrix)
+    },
+    { id: 'flip', label: 'Invierte la orientación del plano (det < 0)', check: ({ lastRun }) => lastRun !== null && determinant2x2(lastRun.matrix) < 0 }
+  ]
+};
 
 export const MatrixMultiplicationLevel: React.FC<MatrixMultiplicationLevelProps> = ({ onNextLevel, onPrevLevel }) => {
   // State
@@ -39,20 +46,24 @@ export const MatrixMultiplicationLevel: React.FC<MatrixMultiplicationLevelProps>
   const [showGhost, setShowGhost] = useState(true); // Toggle for initial state ghost
   
   // Animation State
-  const [currentMatrix, setCurrentMatrix] = useState<Matrix2x2>({ a: 1, b: 0, c: 0, d: 1 }); // Visual matrix
+  const [currentMatrix, setCurrentMatrix] = useState<Matrix2x2>(IDENTITY_2X2); // Visual matrix
   const [stepIndex, setStepIndex] = useState(0); // Which step are we animating?
   const [progress, setProgress] = useState(0); // 0.0 to 1.0 within current step
-  const [accumulatedMatrix, setAccumulatedMatrix] = useState<Matrix2x2>({ a: 1, b: 0, c: 0, d: 1 }); // Matrix BEFORE current step
+  const [accumulatedMatrix, setAccumulatedMatrix] = useState<Matrix2x2>(IDENTITY_2X2); // Matrix BEFORE current step
+  const [lastRun, setLastRun] = useState<CompletedRun | null>(null); // Result of the last sequence played to the end
 
   // View State
-  const [scale, setScale] = useState(30);
-  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const { camera, pan: panBy, zoom } = useCamera({ scale: 30 });
+  const { scale, pan } = camera;
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dragging, setDragging] = useState(false);
   const lastMouse = useRef({ x: 0, y: 0 });
 
+  // Mission
+  const mission = useMission(COMPOSITION_MISSION, { lastRun });
+
   // Animation Loop
   useEffect(() => {
       let raf: number;
@@ -67,15 +78,16 @@ export const MatrixMultiplicationLevel: React.FC<MatrixMultiplicationLevelProps>
                           // The accumulated matrix becomes the target of the finished step
                           const stepM = queue[stepIndex].matrix;
                           // Standard math: New = Step * Old (Left multiplication)
-                          const newAcc = multiply(stepM, accumulatedMatrix);
+                          const newAcc = multiply2x2(stepM, accumulatedMatrix);
                           setAccumulatedMatrix(newAcc);
                           setStepIndex(idx => idx + 1);
                           return 0; // Reset progress for next step
                       } else {
                           // All steps done
                           const lastStepM = queue[stepIndex].matrix;
-                          const finalM = multiply(lastStepM, accumulatedMatrix);
+                          const finalM = multiply2x2(lastStepM, accumulatedMatrix);
                           setCurrentMatrix(finalM);
+                          setLastRun({ steps: queue.length, matrix: finalM });
                           setIsAnimating(false);
                           return 1;
                       }
@@ -95,23 +107,19 @@ export const MatrixMultiplicationLevel: React.FC<MatrixMultiplicationLevelProps>
          // We are animating from 'accumulatedMatrix' TO 'targetMatrix'
          // Target = Step * Accumulated
          const stepM = queue[stepIndex].matrix;
-         const targetM = multiply(stepM, accumulatedMatrix);
+         const targetM = multiply2x2(stepM, accumulatedMatrix);
          
          // Smoothstep interpolation for nicer motion
          const t = progress * progress * (3 - 2 * progress); 
-         setCurrentMatrix(lerpMatrix(accumulatedMatrix, targetM, t));
+         setCurrentMatrix(lerp2x2(accumulatedMatrix, targetM, t));
      } else if (!isAnimating && queue.length === 0) {
-         setCurrentMatrix({ a: 1, b: 0, c: 0, d: 1 });
-         setAccumulatedMatrix({ a: 1, b: 0, c: 0, d: 1 });
+         setCurrentMatrix(IDENTITY_2X2);
+         setAccumulatedMatrix(IDENTITY_2X2);
      }
   }, [progress, isAnimating, queue, stepIndex, accumulatedMatrix]);
 
 
   // --- Drawing Logic ---
-  const transform = (p: Point, m: Matrix2x2) => ({
-      x: m.a * p.x + m.b * p.y,
-      y: m.c * p.x + m.d * p.y
-  });
 
   const draw = useCallback(() => {
       const canvas = canvasRef.current;
@@ -126,9 +134,9 @@ export const MatrixMultiplicationLevel: React.FC<MatrixMultiplicationLevelProps>
       ctx.fillStyle = '#0f172a'; ctx.fillRect(0,0,w,h);
 
       // Generic Line Drawer that accepts a Matrix
-      const drawTransformedLine = (p1: Point, p2: Point, m: Matrix2x2, color: string, width = 1, dashed = false) => {
-          const t1 = transform(p1, m);
-          const t2 = transform(p2, m);
+      const drawTransformedLine = (p1: Vector2D, p2: Vector2D, m: Matrix2x2, color: string, width = 1, dashed = false) => {
+          const t1 = transform2x2(p1, m);
+          const t2 = transform2x2(p2, m);
           ctx.beginPath();
           ctx.moveTo(cx + t1.x * scale, cy - t1.y * scale);
           ctx.lineTo(cx + t2.x * scale, cy - t2.y * scale);
@@ -140,7 +148,7 @@ export const MatrixMultiplicationLevel: React.FC<MatrixMultiplicationLevelProps>
       };
 
       const G = 15;
-      const identityM = { a: 1, b: 0, c: 0, d: 1 };
+      const identityM = IDENTITY_2X2;
 
       // 1. Draw GHOST Grid (Identity State)
       if (showGhost) {
@@ -167,10 +175,10 @@ export const MatrixMultiplicationLevel: React.FC<MatrixMultiplicationLevelProps>
 
       // 3. Basis Vectors
       // TRANSFORM the basis vectors using the current matrix
-      const iHat = transform({x:1, y:0}, currentMatrix);
-      const jHat = transform({x:0, y:1}, currentMatrix);
+      const iHat = transform2x2({x:1, y:0}, currentMatrix);
+      const jHat = transform2x2({x:0, y:1}, currentMatrix);
 
-      const drawArrow = (v: Point, color: string, label: string) => {
+      const drawArrow = (v: Vector2D, color: string, label: string) => {
           const ex = cx + v.x * scale, ey = cy - v.y * scale;
           ctx.beginPath(); ctx.moveTo(cx, cy); ctx.lineTo(ex, ey);
           ctx.strokeStyle = color; ctx.lineWidth = 3; ctx.stroke();
@@ -210,12 +218,13 @@ export const MatrixMultiplicationLevel: React.FC<MatrixMultiplicationLevelProps>
       if (!dragging) return;
       const dx = e.clientX - lastMouse.current.x; const dy = e.clientY - lastMouse.current.y;
       lastMouse.current = { x: e.clientX, y: e.clientY };
-      setPan(p => ({ x: p.x + dx, y: p.y + dy }));
+      panBy(dx, dy);
   };
   const handleMouseUp = () => setDragging(false);
   const handleWheel = (e: React.WheelEvent) => {
+    if (!canvasRef.current) return;
     const zoomFactor = e.deltaY < 0 ? 1.1 : 0.9;
-    setScale(prev => Math.max(10, Math.min(200, prev * zoomFactor)));
+    zoom(getCanvasPoint(e, canvasRef.current), zoomFactor, canvasRef.current.width, canvasRef.current.height);
   };
 
   // --- Logic for Pipeline ---
@@ -250,8 +259,8 @@ export const MatrixMultiplicationLevel: React.FC<MatrixMultiplicationLevelProps>
   const runSequence = () => {
       if (queue.length === 0) return;
       // Reset visuals
-      setCurrentMatrix({ a: 1, b: 0, c: 0, d: 1 });
-      setAccumulatedMatrix({ a: 1, b: 0, c: 0, d: 1 });
+      setCurrentMatrix(IDENTITY_2X2);
+      setAccumulatedMatrix(IDENTITY_2X2);
       setStepIndex(0);
       setProgress(0);
       setIsAnimating(true);
@@ -259,9 +268,10 @@ export const MatrixMultiplicationLevel: React.FC<MatrixMultiplicationLevelProps>
 
   const reset = () => {
       setIsAnimating(false);
+      setLastRun(null);
       setQueue([]);
-      setCurrentMatrix({ a: 1, b: 0, c: 0, d: 1 });
-      setAccumulatedMatrix({ a: 1, b: 0, c: 0, d: 1 });
+      setCurrentMatrix(IDENTITY_2X2);
+      setAccumulatedMatrix(IDENTITY_2X2);
   };
 
   return (
@@ -339,6 +349,9 @@ export const MatrixMultiplicationLevel: React.FC<MatrixMultiplicationLevelProps>
              </div>
         </DraggableWindow>
 
+        {/* Mission */}
+        <MissionPanel status={mission} />
+
         {/* Legend Window - NEW */}
         <DraggableWindow title="GUÍA TEÓRICA: COMPOSICIÓN" initialPosition={{x: 350, y: 500}} width="w-80">
             <div className="text-xs text-slate-400 font-mono space-y-2">
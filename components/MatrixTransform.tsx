@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { Matrix2x2, Vector2D } from '../types';
+import { transform2x2, determinant2x2 } from '../utils/linearAlgebra';
 
 const GRID_POINTS = 10; // -10 to 10
 const VIEW_SCALE = 15;
@@ -22,12 +23,7 @@ export const MatrixTransform: React.FC = () => {
   // T(v) = Av
   // [x'] = [a b] [x] = [ax + by]
   // [y']   [c d] [y]   [cx + dy]
-  const transform = (p: Vector2D): Vector2D => {
-    return {
-      x: matrix.a * p.x + matrix.b * p.y,
-      y: matrix.c * p.x + matrix.d * p.y
-    };
-  };
+  const transform = (p: Vector2D): Vector2D => transform2x2(p, matrix);
 
   const toSvg = (p: Vector2D) => ({
     x: CENTER + p.x * VIEW_SCALE,
@@ -52,7 +48,7 @@ export const MatrixTransform: React.FC = () => {
   const jHat = transform({x: 0, y: 1});
 
   // Calculate Determinant for visual feedback
-  const det = (matrix.a * matrix.d) - (matrix.b * matrix.c);
+  const det = determinant2x2(matrix);
 
   return (
     <div className="flex flex-col lg:flex-row gap-6 h-full p-4 overflow-y-auto">
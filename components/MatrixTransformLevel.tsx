@@ -1,61 +1,109 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { DraggableWindow } from './DraggableWindow';
+import { MissionPanel } from './MissionPanel';
+import { CameraControls } from './CameraControls';
+import { Vector2D, Vector3D, Matrix2x2, Matrix3x3, ViewState } from '../types';
+import { ShareButton } from './ShareButton';
+import { useCamera, getCanvasPoint } from '../hooks/useCamera';
+import { useMission } from '../hooks/useMission';
+import { useSharedScene, useSceneAutosave } from '../hooks/useSharedScene';
+import { transform2x2, transform3x3, determinant2x2, determinant3x3, IDENTITY_2X2, IDENTITY_3X3, columnSpaceBasis, toMatrixN } from '../utils/linearAlgebra';
+import { CameraState } from '../utils/camera';
+import { SceneCodec, readBoolean, readNumberRecord, readCamera } from '../utils/sceneState';
+import { Mission } from '../utils/missions';
+
+const VIEW_3D = { pitch: -0.4, yaw: 0.6, scale: 60 };
+
+const COLLAPSE_COLOR = '248, 113, 113'; // #f87171
+
+// What the whole plane / space is squashed onto, by rank of the matrix
+const IMAGE_NAMES = ['UN PUNTO', 'UNA LÍNEA', 'UN PLANO'];
+
+// Only a numerically singular M collapses: det = 0.01 is tiny but still invertible
+const imageOf = (m: Matrix2x2 | Matrix3x3) => columnSpaceBasis(toMatrixN(m));
+
+interface MatrixTransformScene {
+  is3D: boolean;
+  matrix2D: Matrix2x2;
+  matrix3D: Matrix3x3;
+  camera: CameraState;
+}
+
+const MATRIX_SCENE: SceneCodec<MatrixTransformScene> = {
+  level: ViewState.MATRICES,
+  version: 1,
+  parse: raw => {
+    const is3D = readBoolean(raw.is3D);
+    const matrix2D = readNumberRecord(raw.matrix2D, ['a', 'b', 'c', 'd'] as const, 100);
+    const matrix3D = readNumberRecord(raw.matrix3D, ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i'] as const, 100);
+    const camera = readCamera(raw.camera, 5, 200);
+    if (is3D === null || !matrix2D || !matrix3D || !camera) return null;
+    return { is3D, matrix2D, matrix3D, camera };
+  }
+};
 
 interface MatrixTransformLevelProps {
     onNextLevel?: () => void;
     onPrevLevel?: () => void;
 }
 
-interface Point { x: number; y: number; z?: number; }
-interface Matrix2x2 { a: number; b: number; c: number; d: number; }
-interface Matrix3x3 { 
-    a: number; b: number; c: number; 
-    d: number; e: number; f: number; 
-    g: number; h: number; i: number; 
+interface MatrixMissionState {
+  is3D: boolean;
+  matrix2D: Matrix2x2;
+  matrix3D: Matrix3x3;
+  animating: boolean;
 }
 
-// 3D Rotation helpers for Camera
-const rotateX = (p: Point, angle: number): Point => ({
-    x: p.x,
-    y: p.y * Math.cos(angle) - (p.z||0) * Math.sin(angle),
-    z: p.y * Math.sin(angle) + (p.z||0) * Math.cos(angle)
-});
-const rotateY = (p: Point, angle: number): Point => ({
-    x: p.x * Math.cos(angle) + (p.z||0) * Math.sin(angle),
-    y: p.y,
-    z: -p.x * Math.sin(angle) + (p.z||0) * Math.cos(angle)
-});
+// Checked on the displayed matrix once the animation settles (the lerp crosses det = 0 on its way to a reflection)
+const MATRIX_MISSION: Mission<MatrixMissionState> = {
+  level: ViewState.MATRICES,
+  objectives: [
+    { id: 'collapse', label: 'Colapsa el plano a una línea: det(M) = 0', check: s => !s.is3D && !s.animating && imageOf(s.matrix2D).length < 2 },
+    { id: 'flip', label: 'Invierte la orientación del plano: det(M) < 0', check: s => !s.is3D && !s.animating && determinant2x2(s.matrix2D) < 0 },
+    { id: 'flatten', label: 'En 3D, aplana el espacio: det(M) = 0', check: s => s.is3D && !s.animating && imageOf(s.matrix3D).length < 3 }
+  ]
+};
 
 export const MatrixTransformLevel: React.FC<MatrixTransformLevelProps> = ({ onNextLevel, onPrevLevel }) => {
-  const [is3D, setIs3D] = useState(false);
+  const shared = useSharedScene(MATRIX_SCENE);
+  const [is3D, setIs3D] = useState(shared?.is3D ?? false);
   
   // 2D State
-  const [targetMatrix2D, setTargetMatrix2D] = useState<Matrix2x2>({ a: 1, b: 0, c: 0, d: 1 });
-  const [currentMatrix2D, setCurrentMatrix2D] = useState<Matrix2x2>({ a: 1, b: 0, c: 0, d: 1 });
+  const [targetMatrix2D, setTargetMatrix2D] = useState<Matrix2x2>(shared?.matrix2D ?? IDENTITY_2X2);
+  const [currentMatrix2D, setCurrentMatrix2D] = useState<Matrix2x2>(shared?.matrix2D ?? IDENTITY_2X2);
 
   // 3D State
-  const [targetMatrix3D, setTargetMatrix3D] = useState<Matrix3x3>({ 
-      a: 1, b: 0, c: 0, 
-      d: 0, e: 1, f: 0, 
-      g: 0, h: 0, i: 1 
-  });
-  const [currentMatrix3D, setCurrentMatrix3D] = useState<Matrix3x3>({ 
-      a: 1, b: 0, c: 0, 
-      d: 0, e: 1, f: 0, 
-      g: 0, h: 0, i: 1 
-  });
+  const [targetMatrix3D, setTargetMatrix3D] = useState<Matrix3x3>(shared?.matrix3D ?? IDENTITY_3X3);
+  const [currentMatrix3D, setCurrentMatrix3D] = useState<Matrix3x3>(shared?.matrix3D ?? IDENTITY_3X3);
 
   const [animating, setAnimating] = useState(false);
   
   // View State
-  const [scale, setScale] = useState(30);
-  const [pan, setPan] = useState({ x: 0, y: 0 });
-  const [camera, setCamera] = useState({ x: -0.4, y: 0.6 }); // Pitch, Yaw
+  const { camera, project, orbit, pan: panBy, zoom, setPreset: setViewPreset, setProjection, reset } = useCamera({ scale: 30 }, { minScale: 5, maxScale: 200 }, shared?.camera);
+  const { scale, pan } = camera;
+
+  // Restorable scene: share links + saved progress
+  const scene = useMemo(() => ({ is3D, matrix2D: targetMatrix2D, matrix3D: targetMatrix3D, camera }), [is3D, targetMatrix2D, targetMatrix3D, camera]);
+  useSceneAutosave(MATRIX_SCENE, scene);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dragging, setDragging] = useState<'PAN' | 'ORBIT' | null>(null);
-  const lastMouse = useRef({ x: 0, y: 0 });
+  const lastMouse = useRef({ x: 0, y: 0 }); // Canvas coordinates
+
+  // Mission
+  const mission = useMission(MATRIX_MISSION, { is3D, matrix2D: currentMatrix2D, matrix3D: currentMatrix3D, animating });
+
+  // Determinant and image of the displayed matrix: signed area / volume of the deformed unit
+  // square / cube, and an orthonormal basis of what the plane / space lands on (fewer vectors
+  // than dimensions means det ≈ 0 and everything collapsed)
+  const det2D = determinant2x2(currentMatrix2D);
+  const det3D = determinant3x3(currentMatrix3D);
+  const image2D = useMemo(() => imageOf(currentMatrix2D), [currentMatrix2D]);
+  const image3D = useMemo(() => imageOf(currentMatrix3D), [currentMatrix3D]);
+  const rank = is3D ? image3D.length : image2D.length;
+  const det = is3D ? det3D : det2D;
+  const collapsed = rank < (is3D ? 3 : 2);
 
   // --- Animation Loop ---
   useEffect(() => {
@@ -108,27 +156,6 @@ export const MatrixTransformLevel: React.FC<MatrixTransformLevelProps> = ({ onNe
   }, [animating, targetMatrix2D, targetMatrix3D, is3D]);
 
   // --- Transformation Logic ---
-  const transform2D = useCallback((p: Point, m: Matrix2x2) => ({
-      x: m.a * p.x + m.b * p.y,
-      y: m.c * p.x + m.d * p.y
-  }), []);
-
-  const transform3D = useCallback((p: Point, m: Matrix3x3) => ({
-      x: m.a * p.x + m.b * p.y + m.c * (p.z||0),
-      y: m.d * p.x + m.e * p.y + m.f * (p.z||0),
-      z: m.g * p.x + m.h * p.y + m.i * (p.z||0)
-  }), []);
-
-  // --- 3D Projection Logic ---
-  const project = useCallback((p: Point, w: number, h: number) => {
-      let r = rotateY(p, camera.y);
-      r = rotateX(r, camera.x);
-      return {
-          x: w/2 + pan.x + r.x * scale,
-          y: h/2 + pan.y - r.y * scale, // Y up on screen
-          z: r.z
-      };
-  }, [camera, pan, scale]);
 
 
   // --- Main Draw Function ---
@@ -149,9 +176,9 @@ export const MatrixTransformLevel: React.FC<MatrixTransformLevelProps> = ({ onNe
           const cx = w/2 + pan.x; 
           const cy = h/2 + pan.y;
 
-          const drawLine = (p1: Point, p2: Point, color: string, width = 1) => {
-             const t1 = transform2D(p1, currentMatrix2D);
-             const t2 = transform2D(p2, currentMatrix2D);
+          const drawLine = (p1: Vector2D, p2: Vector2D, color: string, width = 1) => {
+             const t1 = transform2x2(p1, currentMatrix2D);
+             const t2 = transform2x2(p2, currentMatrix2D);
              ctx.beginPath();
              ctx.moveTo(cx + t1.x * scale, cy - t1.y * scale);
              ctx.lineTo(cx + t2.x * scale, cy - t2.y * scale);
@@ -170,13 +197,17 @@ export const MatrixTransformLevel: React.FC<MatrixTransformLevelProps> = ({ onNe
           drawLine({x:-G, y:0}, {x:G, y:0}, '#334155', 2);
 
           // Basis Vectors
-          const iHat = transform2D({x:1, y:0}, currentMatrix2D);
-          const jHat = transform2D({x:0, y:1}, currentMatrix2D);
+          const iHat = transform2x2({x:1, y:0}, currentMatrix2D);
+          const jHat = transform2x2({x:0, y:1}, currentMatrix2D);
+
+          // Reference: the unit square before the transformation
+          ctx.strokeStyle = '#475569'; ctx.lineWidth = 1; ctx.setLineDash([2, 3]);
+          ctx.strokeRect(cx, cy - scale, scale, scale);
+          ctx.setLineDash([]);
 
           // --- ANIMATED DETERMINANT AREA (2D) ---
-          const det = currentMatrix2D.a * currentMatrix2D.d - currentMatrix2D.b * currentMatrix2D.c;
           const alpha = 0.2 + 0.1 * Math.sin(time / 200); // Pulse effect
-          const color = det >= 0 ? `0, 255, 255` : `255, 99, 132`; // Cyan or Red/Pink
+          const color = det2D >= 0 ? `0, 255, 255` : `255, 99, 132`; // Cyan or Red/Pink
 
           ctx.beginPath();
           ctx.moveTo(cx, cy);
@@ -197,10 +228,46 @@ export const MatrixTransformLevel: React.FC<MatrixTransformLevelProps> = ({ onNe
           ctx.fillStyle = '#fff';
           ctx.font = 'bold 10px monospace';
           ctx.textAlign = 'center';
-          ctx.fillText(`Area: ${det.toFixed(2)}`, centerX, centerY + 4);
+          ctx.fillText(`Área: ${det2D.toFixed(2)}`, centerX, centerY + 4);
           ctx.textAlign = 'left';
 
-          const drawArrow = (v: Point, color: string) => {
+          // Orientation: the turn from i to j, counterclockwise while det > 0 and clockwise once
+          // the plane is flipped (canvas angles grow clockwise: y points down)
+          if (!collapsed) {
+              const a1 = Math.atan2(-iHat.y, iHat.x);
+              const a2 = Math.atan2(-jHat.y, jHat.x);
+              const counterclockwise = det2D > 0;
+              const r = Math.max(12, 0.3 * scale * Math.min(Math.hypot(iHat.x, iHat.y), Math.hypot(jHat.x, jHat.y)));
+              ctx.beginPath(); ctx.arc(cx, cy, r, a1, a2, counterclockwise);
+              ctx.strokeStyle = `rgba(${color}, 0.9)`; ctx.lineWidth = 2; ctx.stroke();
+              // Arrowhead at the j end, along the direction of the turn
+              const ex = cx + r * Math.cos(a2), ey = cy + r * Math.sin(a2);
+              const dir = counterclockwise ? a2 - Math.PI / 2 : a2 + Math.PI / 2;
+              ctx.beginPath(); ctx.moveTo(ex, ey);
+              ctx.lineTo(ex - 7 * Math.cos(dir - Math.PI / 6), ey - 7 * Math.sin(dir - Math.PI / 6));
+              ctx.lineTo(ex - 7 * Math.cos(dir + Math.PI / 6), ey - 7 * Math.sin(dir + Math.PI / 6));
+              ctx.fillStyle = `rgba(${color}, 0.9)`; ctx.fill();
+          }
+
+          // Rank collapse: the whole plane lands on a line (rank 1) or on the origin (rank 0)
+          if (collapsed) {
+              ctx.strokeStyle = `rgba(${COLLAPSE_COLOR}, 0.9)`; ctx.fillStyle = `rgb(${COLLAPSE_COLOR})`;
+              ctx.shadowColor = `rgb(${COLLAPSE_COLOR})`; ctx.shadowBlur = 10;
+              if (image2D.length === 1) {
+                  const [ux, uy] = image2D[0];
+                  ctx.beginPath();
+                  ctx.moveTo(cx - ux * G * scale, cy + uy * G * scale);
+                  ctx.lineTo(cx + ux * G * scale, cy - uy * G * scale);
+                  ctx.lineWidth = 4; ctx.stroke();
+              } else {
+                  ctx.beginPath(); ctx.arc(cx, cy, 8, 0, Math.PI * 2); ctx.fill();
+              }
+              ctx.shadowBlur = 0;
+              ctx.font = 'bold 11px monospace';
+              ctx.fillText(`TODO EL PLANO → ${IMAGE_NAMES[image2D.length]} (rango ${image2D.length})`, cx + 14, cy + 24);
+          }
+
+          const drawArrow = (v: Vector2D, color: string) => {
               const ex = cx + v.x * scale, ey = cy - v.y * scale;
               ctx.beginPath(); ctx.moveTo(cx, cy); ctx.lineTo(ex, ey);
               ctx.strokeStyle = color; ctx.lineWidth = 4; ctx.stroke();
@@ -226,13 +293,10 @@ export const MatrixTransformLevel: React.FC<MatrixTransformLevelProps> = ({ onNe
           }
           const renderList: RenderItem[] = [];
 
-          const m = currentMatrix3D;
-          const det3D = m.a*(m.e*m.i - m.f*m.h) - m.b*(m.d*m.i - m.f*m.g) + m.c*(m.d*m.h - m.e*m.g);
-
           // Helper to add transformed line
-          const addLine = (p1: Point, p2: Point, color: string, width = 1, dashed = false) => {
-             const t1 = transform3D(p1, currentMatrix3D);
-             const t2 = transform3D(p2, currentMatrix3D);
+          const addLine = (p1: Vector3D, p2: Vector3D, color: string, width = 1, dashed = false) => {
+             const t1 = transform3x3(p1, currentMatrix3D);
+             const t2 = transform3x3(p2, currentMatrix3D);
              const proj1 = project(t1, w, h);
              const proj2 = project(t2, w, h);
 
@@ -253,9 +317,9 @@ export const MatrixTransformLevel: React.FC<MatrixTransformLevelProps> = ({ onNe
           };
 
           // Helper to add Arrow (Vector)
-          const addVector = (v: Point, color: string, label: string) => {
-             const tOrigin = transform3D({x:0, y:0, z:0}, currentMatrix3D);
-             const tEnd = transform3D(v, currentMatrix3D);
+          const addVector = (v: Vector3D, color: string, label: string) => {
+             const tOrigin = transform3x3({x:0, y:0, z:0}, currentMatrix3D);
+             const tEnd = transform3x3(v, currentMatrix3D);
              const pOrigin = project(tOrigin, w, h);
              const pEnd = project(tEnd, w, h);
              
@@ -319,7 +383,7 @@ export const MatrixTransformLevel: React.FC<MatrixTransformLevelProps> = ({ onNe
           
           // Compute transformed corners first to reuse
           const tCorners = corners.map(p => {
-              const t = transform3D(p, currentMatrix3D);
+              const t = transform3x3(p, currentMatrix3D);
               return project(t, w, h);
           });
 
@@ -357,12 +421,74 @@ export const MatrixTransformLevel: React.FC<MatrixTransformLevelProps> = ({ onNe
               });
           });
 
+          // 4. Signed volume at the center of the deformed cube, on top of everything
+          const pCenter = project(transform3x3({ x: 0.5, y: 0.5, z: 0.5 }, currentMatrix3D), w, h);
+          renderList.push({
+              type: 'FACE',
+              z: -Infinity,
+              draw: () => {
+                  ctx.fillStyle = '#fff'; ctx.font = 'bold 10px monospace'; ctx.textAlign = 'center';
+                  ctx.fillText(`Vol: ${det3D.toFixed(2)}${det3D < 0 && !collapsed ? ' (espejo)' : ''}`, pCenter.x, pCenter.y + 4);
+                  ctx.textAlign = 'left';
+              }
+          });
+
+          // 5. Rank collapse: the whole space lands on a plane, a line or the origin
+          if (collapsed) {
+              const L = limit;
+              const at = (s: number, t: number) => {
+                  const [e1, e2] = image3D;
+                  return project({
+                      x: s * e1[0] + t * e2[0], y: s * e1[1] + t * e2[1], z: s * e1[2] + t * e2[2]
+                  }, w, h);
+              };
+              const origin = project({ x: 0, y: 0, z: 0 }, w, h);
+              const label = `TODO EL ESPACIO → ${IMAGE_NAMES[image3D.length]} (rango ${image3D.length})`;
+              if (image3D.length === 2) {
+                  const quad = [at(-L, -L), at(L, -L), at(L, L), at(-L, L)];
+                  renderList.push({
+                      type: 'FACE',
+                      z: quad.reduce((sum, p) => sum + p.z, 0) / 4,
+                      draw: () => {
+                          ctx.beginPath();
+                          ctx.moveTo(quad[0].x, quad[0].y);
+                          quad.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+                          ctx.closePath();
+                          ctx.fillStyle = `rgba(${COLLAPSE_COLOR}, 0.15)`; ctx.fill();
+                          ctx.strokeStyle = `rgba(${COLLAPSE_COLOR}, 0.8)`; ctx.lineWidth = 2; ctx.stroke();
+                      }
+                  });
+              } else if (image3D.length === 1) {
+                  const [ux, uy, uz] = image3D[0];
+                  const p1 = project({ x: -L * ux, y: -L * uy, z: -L * uz }, w, h);
+                  const p2 = project({ x: L * ux, y: L * uy, z: L * uz }, w, h);
+                  renderList.push({
+                      type: 'LINE',
+                      z: (p1.z + p2.z) / 2,
+                      draw: () => {
+                          ctx.beginPath(); ctx.moveTo(p1.x, p1.y); ctx.lineTo(p2.x, p2.y);
+                          ctx.strokeStyle = `rgba(${COLLAPSE_COLOR}, 0.9)`; ctx.lineWidth = 4; ctx.stroke();
+                      }
+                  });
+              }
+              renderList.push({
+                  type: 'FACE',
+                  z: -Infinity,
+                  draw: () => {
+                      ctx.fillStyle = `rgb(${COLLAPSE_COLOR})`;
+                      if (image3D.length === 0) { ctx.beginPath(); ctx.arc(origin.x, origin.y, 8, 0, Math.PI * 2); ctx.fill(); }
+                      ctx.font = 'bold 11px monospace';
+                      ctx.fillText(label, origin.x + 14, origin.y + 24);
+                  }
+              });
+          }
+
           // Sort and Draw
           renderList.sort((a, b) => b.z - a.z); // Draw furthest first
           renderList.forEach(item => item.draw());
       }
 
-  }, [is3D, currentMatrix2D, currentMatrix3D, scale, pan, transform2D, transform3D, project]);
+  }, [is3D, currentMatrix2D, currentMatrix3D, scale, pan, project, det2D, det3D, image2D, image3D, collapsed]);
 
   // Handle Resize and Initial Draw
   useEffect(() => {
@@ -391,28 +517,30 @@ export const MatrixTransformLevel: React.FC<MatrixTransformLevelProps> = ({ onNe
 
   // Interaction Handlers
   const handleMouseDown = (e: React.MouseEvent) => {
+    if (!canvasRef.current) return;
     setDragging(is3D ? 'ORBIT' : 'PAN');
-    lastMouse.current = { x: e.clientX, y: e.clientY };
+    lastMouse.current = getCanvasPoint(e, canvasRef.current);
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (!dragging) return;
-    const dx = e.clientX - lastMouse.current.x;
-    const dy = e.clientY - lastMouse.current.y;
-    lastMouse.current = { x: e.clientX, y: e.clientY };
+    if (!dragging || !canvasRef.current) return;
+    const mouse = getCanvasPoint(e, canvasRef.current);
+    const prevMouse = lastMouse.current;
+    lastMouse.current = mouse;
     
     if (dragging === 'PAN') {
-        setPan(p => ({ x: p.x + dx, y: p.y + dy }));
+        panBy(mouse.x - prevMouse.x, mouse.y - prevMouse.y);
     } else {
-        setCamera(c => ({ x: c.x + dy * 0.01, y: c.y + dx * 0.01 }));
+        orbit(prevMouse, mouse, canvasRef.current.width, canvasRef.current.height);
     }
   };
 
   const handleMouseUp = () => setDragging(null);
 
   const handleWheel = (e: React.WheelEvent) => {
+      if (!canvasRef.current) return;
       const zoomFactor = e.deltaY < 0 ? 1.1 : 0.9;
-      setScale(prev => Math.max(5, Math.min(200, prev * zoomFactor)));
+      zoom(getCanvasPoint(e, canvasRef.current), zoomFactor, canvasRef.current.width, canvasRef.current.height);
   };
 
   const setPreset = (type: string) => {
@@ -420,7 +548,7 @@ export const MatrixTransformLevel: React.FC<MatrixTransformLevelProps> = ({ onNe
       if (!is3D) {
         // 2D Presets
         switch(type) {
-            case 'IDENTITY': setTargetMatrix2D({a:1, b:0, c:0, d:1}); break;
+            case 'IDENTITY': setTargetMatrix2D(IDENTITY_2X2); break;
             case 'SHEAR': setTargetMatrix2D({a:1, b:1, c:0, d:1}); break;
             case 'ROTATE': setTargetMatrix2D({a:0, b:-1, c:1, d:0}); break;
             case 'SCALE': setTargetMatrix2D({a:2, b:0, c:0, d:2}); break;
@@ -430,7 +558,7 @@ export const MatrixTransformLevel: React.FC<MatrixTransformLevelProps> = ({ onNe
       } else {
         // 3D Presets
         switch(type) {
-            case 'IDENTITY': setTargetMatrix3D({a:1,b:0,c:0, d:0,e:1,f:0, g:0,h:0,i:1}); break;
+            case 'IDENTITY': setTargetMatrix3D(IDENTITY_3X3); break;
             case 'SCALE': setTargetMatrix3D({a:1.5,b:0,c:0, d:0,e:1.5,f:0, g:0,h:0,i:1.5}); break;
             case 'ROTX': setTargetMatrix3D({a:1,b:0,c:0, d:0,e:0,f:-1, g:0,h:1,i:0}); break; // 90 deg
             case 'ROTY': setTargetMatrix3D({a:0,b:0,c:1, d:0,e:1,f:0, g:-1,h:0,i:0}); break; // 90 deg
@@ -462,11 +590,6 @@ export const MatrixTransformLevel: React.FC<MatrixTransformLevelProps> = ({ onNe
       setAnimating(true);
   };
 
-  // Determinant Calculations
-  const det2D = currentMatrix2D.a * currentMatrix2D.d - currentMatrix2D.b * currentMatrix2D.c;
-  const m = currentMatrix3D;
-  const det3D = m.a*(m.e*m.i - m.f*m.h) - m.b*(m.d*m.i - m.f*m.g) + m.c*(m.d*m.h - m.e*m.g);
-
   // Button styles to replace <style jsx>
   const btnBase = "p-1 rounded text-[10px] text-white transition-all duration-200";
   const btnDefault = `${btnBase} bg-slate-700 hover:bg-slate-600 hover:text-cyan-400`;
@@ -482,15 +605,16 @@ export const MatrixTransformLevel: React.FC<MatrixTransformLevelProps> = ({ onNe
                 
                 {/* Mode Toggle */}
                 <div className="flex bg-slate-800 p-1 rounded border border-slate-700">
-                     <button onClick={() => { setIs3D(false); setScale(30); setPan({x:0,y:0}); }}
+                     <button onClick={() => { setIs3D(false); reset(); }}
                          className={`flex-1 py-1 text-[10px] font-bold transition-colors ${!is3D ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
                          2D (CUADRADO)
                      </button>
-                     <button onClick={() => { setIs3D(true); setScale(60); setPan({x:0,y:0}); }}
+                     <button onClick={() => { setIs3D(true); reset(VIEW_3D); }}
                          className={`flex-1 py-1 text-[10px] font-bold transition-colors ${is3D ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
                          3D (R³)
                      </button>
                 </div>
+                {is3D && <CameraControls camera={camera} onPreset={setViewPreset} onProjection={setProjection} onReset={() => reset(VIEW_3D)} />}
 
                 {/* Visual Matrix Input */}
                 <div className="flex items-center justify-center gap-2 p-2 bg-slate-950/50 rounded-lg border border-slate-800">
@@ -566,9 +690,31 @@ export const MatrixTransformLevel: React.FC<MatrixTransformLevelProps> = ({ onNe
                         <button onClick={() => setPreset('COLLAPSE')} className={`col-span-3 ${btnCollapse}`}>APLANAR Z (COLAPSO)</button>
                     </div>
                 )}
+
+                {/* Determinant: what happened to the unit square / cube */}
+                <div className={`p-2 rounded border text-center space-y-1 ${collapsed ? 'border-red-800 bg-red-950/30' : 'border-slate-800 bg-slate-950/80'}`}>
+                    <div className="text-[9px] font-bold text-slate-500">
+                        {is3D ? 'VOLUMEN CON SIGNO DEL CUBO UNIDAD' : 'ÁREA CON SIGNO DEL CUADRADO UNIDAD'}
+                    </div>
+                    <div className={`text-2xl font-bold pixel-font ${collapsed ? 'text-red-400 animate-pulse' : det > 0 ? 'text-cyan-400' : 'text-pink-400'}`}>
+                        det(M) = {det.toFixed(2)}
+                    </div>
+                    <div className="text-[10px] text-slate-400">
+                        {collapsed
+                            ? <>Rango {rank}: {is3D ? 'todo el espacio' : 'todo el plano'} se aplasta en <strong className="text-red-400">{IMAGE_NAMES[rank].toLowerCase()}</strong>. No hay vuelta atrás: M no tiene inversa.</>
+                            : det < 0
+                                ? <><strong className="text-pink-400">⇄ Orientación invertida</strong>: {is3D ? 'la mano derecha pasa a ser la izquierda' : 'de i a j ahora se gira en sentido horario'} (espejo). {is3D ? 'Volumen' : 'Área'} ×{Math.abs(det).toFixed(2)}.</>
+                                : <>↺ Orientación conservada. {is3D ? 'Volumen' : 'Área'} ×{det.toFixed(2)}.</>}
+                    </div>
+                </div>
+
+                <ShareButton codec={MATRIX_SCENE} scene={scene} />
             </div>
         </DraggableWindow>
 
+        {/* Mission */}
+        <MissionPanel status={mission} />
+
         {/* Legend Window - NEW */}
         <DraggableWindow title="GUÍA TEÓRICA: TRANSFORMACIONES" initialPosition={{x: 20, y: 480}} width="w-96">
             <div className="text-xs text-slate-400 font-mono space-y-2">
@@ -579,6 +725,7 @@ export const MatrixTransformLevel: React.FC<MatrixTransformLevelProps> = ({ onNe
                     <li>Las líneas de cuadrícula siempre permanecen <strong className="text-white">paralelas</strong> y <strong className="text-white">equidistantes</strong> (por eso es lineal).</li>
                     <li>Las columnas de la matriz te dicen dónde aterrizan los vectores base <span className="text-red-400">i (x)</span>, <span className="text-green-400">j (y)</span> y <span className="text-blue-400">k (z)</span> después del movimiento.</li>
                     <li>El <strong className="text-white">Determinante</strong> mide cómo cambia el área (2D) o el volumen (3D). Si es negativo, el espacio se ha invertido como un espejo.</li>
+                    <li>Si el determinante es <strong className="text-red-400">0</strong>, la matriz pierde <strong className="text-white">rango</strong>: todo se aplasta en una línea, un plano o un punto, y ya no se puede deshacer.</li>
                 </ul>
                 <div className="border-t border-slate-700 pt-2 flex justify-between items-center mt-2">
                     <span>Determinante actual:</span>
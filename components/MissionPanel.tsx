@@ -0,0 +1,39 @@
+import React from 'react';
+import { DraggableWindow } from './DraggableWindow';
+import { MissionStatus } from '../utils/missions';
+
+interface MissionPanelProps {
+  status: MissionStatus;
+  initialPosition?: { x: number; y: number };
+}
+
+// Top-right of the level area by default (the sidebar takes 16rem on the left)
+const defaultPosition = () => ({ x: Math.max(20, window.innerWidth - 256 - 256 - 24), y: 20 });
+
+// Objective checklist shown in every level
+export const MissionPanel: React.FC<MissionPanelProps> = ({ status, initialPosition }) => {
+  const doneCount = status.objectives.filter(o => o.done).length;
+
+  return (
+    <DraggableWindow title={`MISIÓN ${doneCount}/${status.objectives.length}`} initialPosition={initialPosition ?? defaultPosition()} width="w-64">
+      <div className="space-y-3 font-mono">
+        <ul className="space-y-2">
+          {status.objectives.map(o => (
+            <li key={o.id} className="flex items-start gap-2 text-[10px] leading-snug">
+              <span className={`flex-shrink-0 w-4 h-4 flex items-center justify-center border ${o.done ? 'border-green-500 bg-green-900/40 text-green-400' : 'border-slate-600 text-transparent'}`}>
+                ✓
+              </span>
+              <span className={o.done ? 'text-slate-500 line-through' : 'text-slate-300'}>{o.label}</span>
+            </li>
+          ))}
+        </ul>
+
+        {status.completed && (
+          <div className="pixel-font text-[10px] text-center text-yellow-400 border-t border-slate-700 pt-2">
+            ★ NIVEL SUPERADO ★
+          </div>
+        )}
+      </div>
+    </DraggableWindow>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Vector2D } from '../types';
+import { RegressionProblem } from '../utils/regression';
+
+export interface FittedLine {
+  id: string;
+  color: string;
+  params: Vector2D;     // (w, b), in the rescaled units of the problem
+  dashed?: boolean;
+}
+
+interface RegressionPlotProps {
+  problem: RegressionProblem;
+  lines: FittedLine[];
+  highlight?: Vector2D[] | null;   // Points of the last mini-batch
+}
+
+const WIDTH = 256;
+const HEIGHT = 192;
+const PAD = 14;
+const VIEW = 1.15; // Rescaled data lives in [-1, 1]
+
+const toX = (x: number) => PAD + (x + VIEW) / (2 * VIEW) * (WIDTH - 2 * PAD);
+const toY = (y: number) => HEIGHT - PAD - (y + VIEW) / (2 * VIEW) * (HEIGHT - 2 * PAD);
+
+const formatValue = (v: number) => parseFloat(v.toPrecision(3)).toString();
+
+// Scatter of the dataset with the lines y = w·x + b drawn over it (clipped to the plot)
+export const RegressionPlot: React.FC<RegressionPlotProps> = ({ problem, lines, highlight }) => {
+  const { dataset, points, xRange, yRange } = problem;
+  const inBatch = new Set(highlight ?? []);
+
+  return (
+    <svg width={WIDTH} height={HEIGHT} className="bg-slate-950/50 rounded border border-slate-800">
+      {/* Axes labels, in the data's own units */}
+      <line x1={toX(-1)} x2={toX(1)} y1={HEIGHT - PAD} y2={HEIGHT - PAD} stroke="#334155" />
+      <line x1={PAD} x2={PAD} y1={toY(-1)} y2={toY(1)} stroke="#334155" />
+      <text x={toX(-1)} y={HEIGHT - 3} fontSize="8" fill="#64748b" fontFamily="monospace">{formatValue(xRange.min)}</text>
+      <text x={toX(1)} y={HEIGHT - 3} textAnchor="end" fontSize="8" fill="#64748b" fontFamily="monospace">{formatValue(xRange.max)}</text>
+      <text x={WIDTH / 2} y={HEIGHT - 3} textAnchor="middle" fontSize="8" fill="#475569" fontFamily="monospace">{dataset.xLabel}</text>
+      <text x={PAD + 3} y={toY(1) + 3} fontSize="8" fill="#64748b" fontFamily="monospace">{formatValue(yRange.max)} {dataset.yLabel}</text>
+      <text x={PAD + 3} y={toY(-1) - 2} fontSize="8" fill="#64748b" fontFamily="monospace">{formatValue(yRange.min)}</text>
+
+      {/* Data */}
+      {points.map((p, i) => (
+        <circle key={i} cx={toX(p.x)} cy={toY(p.y)} r={inBatch.has(p) ? 4 : 3}
+          fill={inBatch.has(p) ? '#fde047' : '#94a3b8'} fillOpacity={highlight && !inBatch.has(p) ? 0.4 : 0.9} />
+      ))}
+
+      {/* Fitted lines */}
+      {lines.map(l => (
+        <line key={l.id}
+          x1={toX(-VIEW)} y1={toY(l.params.x * -VIEW + l.params.y)}
+          x2={toX(VIEW)} y2={toY(l.params.x * VIEW + l.params.y)}
+          stroke={l.color} strokeWidth={l.dashed ? 1 : 2} strokeDasharray={l.dashed ? '4 3' : undefined} />
+      ))}
+    </svg>
+  );
+};
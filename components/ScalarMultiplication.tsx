@@ -1,40 +1,41 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { DraggableWindow } from './DraggableWindow';
+import { MissionPanel } from './MissionPanel';
+import { CameraControls } from './CameraControls';
+import { Vector3D, ViewState } from '../types';
+import { scale3, norm3 } from '../utils/linearAlgebra';
+import { useCamera, getCanvasPoint } from '../hooks/useCamera';
+import { useMission } from '../hooks/useMission';
+import { Mission, near } from '../utils/missions';
+
+const VIEW_3D = { pitch: -0.3, yaw: 0.5 };
 
 interface ScalarMultiplicationProps {
   onNextLevel?: () => void;
   onPrevLevel?: () => void;
 }
 
-interface Vector3 {
-  x: number;
-  y: number;
-  z: number;
+interface ScalarMissionState {
+  scalar: number;
 }
 
-// 3D Logic Helpers
-const rotateX = (v: Vector3, angle: number): Vector3 => ({
-  x: v.x,
-  y: v.y * Math.cos(angle) - v.z * Math.sin(angle),
-  z: v.y * Math.sin(angle) + v.z * Math.cos(angle)
-});
-
-const rotateY = (v: Vector3, angle: number): Vector3 => ({
-  x: v.x * Math.cos(angle) + v.z * Math.sin(angle),
-  y: v.y,
-  z: -v.x * Math.sin(angle) + v.z * Math.cos(angle)
-});
+const SCALAR_MISSION: Mission<ScalarMissionState> = {
+  level: ViewState.SCALAR_MULTIPLICATION,
+  objectives: [
+    { id: 'flip', label: 'Invierte el sentido del vector (k < 0)', check: s => s.scalar < 0 },
+    { id: 'half', label: 'Encoge el vector a la mitad (k = 0.5)', check: s => near(s.scalar, 0.5, 0.01) },
+    { id: 'zero', label: 'Aniquila el vector (k = 0)', check: s => near(s.scalar, 0, 0.01) }
+  ]
+};
 
 export const ScalarMultiplication: React.FC<ScalarMultiplicationProps> = ({ onNextLevel, onPrevLevel }) => {
   // State
-  const [vector, setVector] = useState<Vector3>({ x: 2, y: 1, z: 0 });
+  const [vector, setVector] = useState<Vector3D>({ x: 2, y: 1, z: 0 });
   const [scalar, setScalar] = useState<number>(2.0);
   
   // View State
   const [is3D, setIs3D] = useState(false);
-  const [cameraAngle, setCameraAngle] = useState({ x: -0.3, y: 0.5 });
-  const [scale, setScale] = useState(40);
-  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const { camera, project, pick, orbit, pan, zoom, setPreset, setProjection, reset } = useCamera({ scale: 40 });
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -42,28 +43,15 @@ export const ScalarMultiplication: React.FC<ScalarMultiplicationProps> = ({ onNe
   // Interaction State
   const [isDraggingVector, setIsDraggingVector] = useState(false);
   const [isOrbiting, setIsOrbiting] = useState(false);
-  const lastMousePos = useRef({ x: 0, y: 0 });
+  const lastMousePos = useRef({ x: 0, y: 0 }); // Canvas coordinates
 
-  // Calculated Result
-  const resultVector = { x: vector.x * scalar, y: vector.y * scalar, z: vector.z * scalar };
-  const baseMag = Math.sqrt(vector.x**2 + vector.y**2 + vector.z**2);
-  const resultMag = Math.sqrt(resultVector.x**2 + resultVector.y**2 + resultVector.z**2);
+  // Mission
+  const mission = useMission(SCALAR_MISSION, { scalar });
 
-  // Projection
-  const project = useCallback((v: Vector3, width: number, height: number): { x: number, y: number, z: number } => {
-    let p = { ...v };
-    if (is3D) {
-      p = rotateY(p, cameraAngle.y);
-      p = rotateX(p, cameraAngle.x);
-    } else {
-      p = { x: v.x, y: v.y, z: 0 };
-    }
-    return {
-      x: width / 2 + pan.x + (p.x * scale),
-      y: height / 2 + pan.y - (p.y * scale),
-      z: p.z
-    };
-  }, [is3D, cameraAngle, scale, pan]);
+  // Calculated Result
+  const resultVector = scale3(vector, scalar);
+  const baseMag = norm3(vector);
+  const resultMag = norm3(resultVector);
 
   // Render
   const draw = useCallback(() => {
@@ -82,7 +70,7 @@ export const ScalarMultiplication: React.FC<ScalarMultiplicationProps> = ({ onNe
     // Grid
     const gridSize = 20;
     ctx.lineWidth = 1;
-    const drawLine = (start: Vector3, end: Vector3, color: string, dashed = false) => {
+    const drawLine = (start: Vector3D, end: Vector3D, color: string, dashed = false) => {
         const p1 = project(start, width, height);
         const p2 = project(end, width, height);
         // Culling
@@ -116,7 +104,7 @@ export const ScalarMultiplication: React.FC<ScalarMultiplicationProps> = ({ onNe
     if (is3D) drawLine({ x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: 5 }, '#3b82f6');
 
     // Draw Vector Helper
-    const drawVector = (v: Vector3, color: string, label: string, isGhost = false) => {
+    const drawVector = (v: Vector3D, color: string, label: string, isGhost = false) => {
         const start = project({x:0, y:0, z:0}, width, height);
         const end = project(v, width, height);
         
@@ -169,7 +157,7 @@ export const ScalarMultiplication: React.FC<ScalarMultiplicationProps> = ({ onNe
     
     drawHandle(tipOriginal, '#94a3b8', isDraggingVector);
 
-  }, [vector, resultVector, scalar, scale, pan, is3D, cameraAngle, project, isDraggingVector]);
+  }, [vector, resultVector, scalar, is3D, project, isDraggingVector]);
 
   // Event Listeners
   useEffect(() => {
@@ -190,57 +178,43 @@ export const ScalarMultiplication: React.FC<ScalarMultiplicationProps> = ({ onNe
   // Interaction Logic
   const handleMouseDown = (e: React.MouseEvent) => {
     if (!canvasRef.current) return;
-    const rect = canvasRef.current.getBoundingClientRect();
-    const mx = e.clientX - rect.left;
-    const my = e.clientY - rect.top;
+    const mouse = getCanvasPoint(e, canvasRef.current);
 
     const tip = project(vector, canvasRef.current.width, canvasRef.current.height);
-    const dist = Math.sqrt((mx - tip.x)**2 + (my - tip.y)**2);
+    const dist = Math.sqrt((mouse.x - tip.x)**2 + (mouse.y - tip.y)**2);
 
     if (dist < 20) setIsDraggingVector(true);
     else if (is3D) setIsOrbiting(true);
-    lastMousePos.current = { x: e.clientX, y: e.clientY };
+    lastMousePos.current = mouse;
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-    const dx = e.clientX - lastMousePos.current.x;
-    const dy = e.clientY - lastMousePos.current.y;
-    lastMousePos.current = { x: e.clientX, y: e.clientY };
+    if (!canvasRef.current) return;
+    const mouse = getCanvasPoint(e, canvasRef.current);
+    const { width, height } = canvasRef.current;
+    const prevMouse = lastMousePos.current;
+    lastMousePos.current = mouse;
 
     if (isDraggingVector) {
-        const sensitivity = 1.0 / scale;
-        setVector(prev => {
-            let nx = prev.x, ny = prev.y, nz = prev.z;
-            if (is3D) {
-                const cosY = Math.cos(cameraAngle.y);
-                const sinY = Math.sin(cameraAngle.y);
-                nx += (dx * cosY) * sensitivity;
-                nz += (dx * sinY) * sensitivity; 
-                ny -= dy * sensitivity;
-            } else {
-                nx += dx * sensitivity;
-                ny -= dy * sensitivity;
-            }
-            return { x: nx, y: ny, z: nz };
-        });
+        // Tip follows the cursor on the plane facing the camera (z = 0 plane in 2D)
+        const hit = pick(mouse, width, height, vector);
+        if (hit) setVector(is3D ? hit : { x: hit.x, y: hit.y, z: vector.z });
     } else if (isOrbiting && is3D) {
-        setCameraAngle(prev => ({
-            x: Math.max(-Math.PI/2, Math.min(Math.PI/2, prev.x + dy * 0.01)),
-            y: prev.y + dx * 0.01
-        }));
+        orbit(prevMouse, mouse, width, height);
     } else if (e.buttons === 1 && !is3D) {
-        setPan(prev => ({ x: prev.x + dx, y: prev.y + dy }));
+        pan(mouse.x - prevMouse.x, mouse.y - prevMouse.y);
     }
   };
 
   const handleMouseUp = () => { setIsDraggingVector(false); setIsOrbiting(false); };
   const handleWheel = (e: React.WheelEvent) => {
+    if (!canvasRef.current) return;
     const zoomFactor = e.deltaY < 0 ? 1.1 : 0.9;
-    setScale(prev => Math.max(10, Math.min(200, prev * zoomFactor)));
+    zoom(getCanvasPoint(e, canvasRef.current), zoomFactor, canvasRef.current.width, canvasRef.current.height);
   };
 
   // Helper for inputs
-  const handleInputScroll = (axis: keyof Vector3) => (e: React.WheelEvent) => {
+  const handleInputScroll = (axis: keyof Vector3D) => (e: React.WheelEvent) => {
       e.stopPropagation();
       const delta = e.deltaY > 0 ? -0.5 : 0.5;
       setVector(prev => ({ ...prev, [axis]: Number((prev[axis] + delta).toFixed(1)) }));
@@ -253,15 +227,15 @@ export const ScalarMultiplication: React.FC<ScalarMultiplicationProps> = ({ onNe
     onChange,
     readOnly = false
   }: {
-    vec: Vector3,
+    vec: Vector3D,
     color: string,
     label?: string,
-    onChange?: (v: Vector3) => void,
+    onChange?: (v: Vector3D) => void,
     readOnly?: boolean
   }) => {
     const textClass = color === 'cyan' ? 'text-cyan-400' : (color === 'pink' ? 'text-pink-400' : 'text-slate-300');
     
-    const handleChange = (axis: keyof Vector3, val: string) => {
+    const handleChange = (axis: keyof Vector3D, val: string) => {
         if(onChange) onChange({...vec, [axis]: parseFloat(val)||0});
     };
 
@@ -341,14 +315,18 @@ export const ScalarMultiplication: React.FC<ScalarMultiplicationProps> = ({ onNe
 
              {/* 3D Toggle */}
              <div className="flex bg-slate-800 p-1 rounded border border-slate-700 mt-2">
-                 <button onClick={() => { setIs3D(false); setCameraAngle({x:0, y:0}); setPan({x:0, y:0}); }}
+                 <button onClick={() => { setIs3D(false); reset(); }}
                      className={`flex-1 py-1 text-[10px] font-bold ${!is3D ? 'bg-slate-600 text-white' : 'text-slate-500'}`}>2D</button>
-                 <button onClick={() => { setIs3D(true); setCameraAngle({x: -0.3, y: 0.5}); }}
+                 <button onClick={() => { setIs3D(true); reset(VIEW_3D); }}
                      className={`flex-1 py-1 text-[10px] font-bold ${is3D ? 'bg-slate-600 text-white' : 'text-slate-500'}`}>3D</button>
              </div>
+             {is3D && <CameraControls camera={camera} onPreset={setPreset} onProjection={setProjection} onReset={() => reset(VIEW_3D)} />}
          </div>
       </DraggableWindow>
 
+      {/* Mission */}
+      <MissionPanel status={mission} />
+
       {/* Info Window / Legend */}
       <DraggableWindow title="GUÍA TEÓRICA: ESCALAR" initialPosition={{ x: 300, y: 450 }} width="w-80">
           <div className="text-xs space-y-2 text-slate-400 font-mono">
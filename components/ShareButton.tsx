@@ -0,0 +1,37 @@
+import React, { useState, useEffect } from 'react';
+import { SceneCodec, buildShareUrl } from '../utils/sceneState';
+
+interface ShareButtonProps<T> {
+  codec: SceneCodec<T>;
+  scene: T;
+}
+
+// Copies a link that restores the current scene (camera included)
+export const ShareButton = <T,>({ codec, scene }: ShareButtonProps<T>) => {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleShare = async () => {
+    const url = buildShareUrl(codec, scene);
+    // Keep the address bar in sync without adding a history entry
+    window.history.replaceState(null, '', url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      window.prompt('Copia este enlace:', url);
+    }
+  };
+
+  return (
+    <button onClick={handleShare}
+      className={`w-full py-1 text-[10px] font-bold rounded border transition-colors ${copied ? 'bg-green-900/40 border-green-600 text-green-400' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-cyan-400 hover:border-cyan-600'}`}>
+      {copied ? '✓ ENLACE COPIADO' : '🔗 COMPARTIR ESCENA'}
+    </button>
+  );
+};
@@ -1,5 +1,8 @@
 import React, { useState } from 'react';
 import { ViewState } from '../types';
+import { LevelDefinition, getWorldLevels, levelCode } from '../levelRegistry';
+import { useProgress } from '../hooks/useProgress';
+import { isUnlocked } from '../utils/progress';
 
 interface SidebarProps {
   currentView: ViewState;
@@ -11,24 +14,19 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentView, setView }) => {
   // Defaults to null (collapsed) as requested
   const [expandedWorld, setExpandedWorld] = useState<'WORLD_1' | 'WORLD_2' | null>(null);
 
-  const world1Levels = [
-    { id: ViewState.LEVEL_1_VECTOR, label: '1-1: Vector Unit', icon: '↗️' },
-    { id: ViewState.VECTORS, label: '1-2: Suma', icon: '➕' },
-    { id: ViewState.SCALAR_MULTIPLICATION, label: '1-3: Escalar', icon: '📏' },
-    { id: ViewState.LINE_EQUATION, label: '1-4: Recta', icon: '📉' },
-    { id: ViewState.DOT_PRODUCT, label: '1-5: Prod. Punto', icon: '☀️' },
-    { id: ViewState.CROSS_PRODUCT, label: '1-6: Prod. Cruz', icon: '❌' },
-    { id: ViewState.MATRICES, label: '1-7: Matrices', icon: '🔄' },
-    { id: ViewState.MATRIX_MULTIPLICATION, label: '1-8: Mult. Matriz', icon: '⛓️' },
-    { id: ViewState.EIGENVECTORS, label: 'BOSS: Eigen', icon: '💎' },
-  ];
+  const { progress } = useProgress();
 
-  const world2Levels = [
-    { id: ViewState.DERIVATIVE_DEFINITION, label: '2-1: Derivada', icon: '📐' },
-    { id: ViewState.INTEGRAL, label: '2-2: Integral', icon: '🧊' },
-    { id: ViewState.GRADIENT, label: '2-3: Gradiente', icon: '🏔️' },
-    { id: ViewState.ROTATIONAL, label: '2-4: Rotacional', icon: '🌀' },
-  ];
+  const toSidebarItem = (level: LevelDefinition) => {
+    const locked = !isUnlocked(progress, level.prerequisites);
+    return {
+      id: level.id,
+      label: `${levelCode(level)}: ${level.shortTitle}`,
+      icon: locked ? '🔒' : level.icon,
+      locked
+    };
+  };
+  const world1Levels = getWorldLevels(1).map(toSidebarItem);
+  const world2Levels = getWorldLevels(2).map(toSidebarItem);
 
   const toggleWorld = (world: 'WORLD_1' | 'WORLD_2') => {
       setExpandedWorld(prev => prev === world ? null : world);
@@ -70,7 +68,8 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentView, setView }) => {
                         <button
                             key={level.id}
                             onClick={() => setView(level.id)}
-                            className={`w-full flex items-center gap-2 px-3 py-2 rounded text-[11px] transition-colors font-mono text-left ${
+                            disabled={level.locked}
+                            className={`w-full flex items-center gap-2 px-3 py-2 rounded text-[11px] transition-colors font-mono text-left disabled:opacity-40 disabled:cursor-not-allowed ${
                                 currentView === level.id 
                                 ? 'bg-cyan-900/20 text-cyan-400 font-bold border-l-2 border-cyan-400' 
                                 : 'text-slate-500 hover:text-slate-300 hover:bg-slate-800/50'
@@ -104,7 +103,8 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentView, setView }) => {
                         <button
                             key={level.id}
                             onClick={() => setView(level.id)}
-                            className={`w-full flex items-center gap-2 px-3 py-2 rounded text-[11px] transition-colors font-mono text-left ${
+                            disabled={level.locked}
+                            className={`w-full flex items-center gap-2 px-3 py-2 rounded text-[11px] transition-colors font-mono text-left disabled:opacity-40 disabled:cursor-not-allowed ${
                                 currentView === level.id 
                                 ? 'bg-pink-900/20 text-pink-400 font-bold border-l-2 border-pink-400' 
                                 : 'text-slate-500 hover:text-slate-300 hover:bg-slate-800/50'
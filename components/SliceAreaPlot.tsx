@@ -0,0 +1,50 @@
+import React from 'react';
+import { FubiniSweep } from '../utils/fubini';
+
+interface SliceAreaPlotProps {
+  sweep: FubiniSweep;
+  position: number;     // Where the plane is now
+  area: number;         // A there
+  color: string;
+}
+
+const WIDTH = 256;
+const HEIGHT = 140;
+const PAD = { left: 30, right: 8, top: 10, bottom: 16 };
+
+const formatValue = (v: number) => parseFloat(v.toFixed(2)).toString();
+
+// The section area A(t) along the sweep, shaded up to the plane: the shaded area is ∫ A dt so far
+export const SliceAreaPlot: React.FC<SliceAreaPlotProps> = ({ sweep, position, area, color }) => {
+  const { axis, min, max, nodes, areas } = sweep;
+  const top = Math.max(...areas, area) * 1.1 || 1;
+  const toX = (t: number) => PAD.left + (t - min) / (max - min) * (WIDTH - PAD.left - PAD.right);
+  const toY = (a: number) => PAD.top + (1 - a / top) * (HEIGHT - PAD.top - PAD.bottom);
+
+  const curve = nodes.map((t, k) => `${k === 0 ? 'M' : 'L'}${toX(t)},${toY(areas[k])}`).join(' ');
+  const swept = nodes.map((t, k) => [t, areas[k]]).filter(([t]) => t < position);
+  const shade = [
+    `M${toX(min)},${toY(0)}`,
+    ...swept.map(([t, a]) => `L${toX(t)},${toY(a)}`),
+    `L${toX(position)},${toY(area)}`,
+    `L${toX(position)},${toY(0)} Z`
+  ].join(' ');
+
+  return (
+    <svg width={WIDTH} height={HEIGHT} className="bg-slate-950/50 rounded border border-slate-800">
+      <line x1={PAD.left} x2={WIDTH - PAD.right} y1={toY(0)} y2={toY(0)} stroke="#334155" />
+      <line x1={PAD.left} x2={PAD.left} y1={PAD.top} y2={toY(0)} stroke="#334155" />
+      <text x={PAD.left - 3} y={PAD.top + 6} textAnchor="end" fontSize="8" fill="#64748b" fontFamily="monospace">{formatValue(top)}</text>
+      <text x={PAD.left - 3} y={toY(0)} textAnchor="end" fontSize="8" fill="#64748b" fontFamily="monospace">0</text>
+      <text x={PAD.left} y={HEIGHT - 3} fontSize="8" fill="#64748b" fontFamily="monospace">{formatValue(min)}</text>
+      <text x={WIDTH - PAD.right} y={HEIGHT - 3} textAnchor="end" fontSize="8" fill="#64748b" fontFamily="monospace">{formatValue(max)}</text>
+      <text x={(PAD.left + WIDTH - PAD.right) / 2} y={HEIGHT - 3} textAnchor="middle" fontSize="8" fill="#475569" fontFamily="monospace">{axis}</text>
+      <text x={PAD.left + 4} y={PAD.top + 6} fontSize="8" fill="#94a3b8" fontFamily="monospace">A({axis})</text>
+
+      <path d={shade} fill={color} fillOpacity={0.3} />
+      <path d={curve} fill="none" stroke={color} strokeWidth={1.5} />
+      <line x1={toX(position)} x2={toX(position)} y1={PAD.top} y2={toY(0)} stroke="#fff" strokeDasharray="3 2" />
+      <circle cx={toX(position)} cy={toY(area)} r={3} fill="#fff" />
+    </svg>
+  );
+};
@@ -1,41 +1,48 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { DraggableWindow } from './DraggableWindow';
+import { MissionPanel } from './MissionPanel';
+import { CameraControls } from './CameraControls';
+import { Vector3D, ViewState } from '../types';
+import { add3, norm3, angle2Deg } from '../utils/linearAlgebra';
+import { useCamera, getCanvasPoint } from '../hooks/useCamera';
+import { useMission } from '../hooks/useMission';
+import { Mission, near } from '../utils/missions';
+
+const VIEW_3D = { pitch: -0.3, yaw: 0.5 };
 
 interface VectorPlaygroundProps {
     onNextLevel?: () => void;
     onPrevLevel?: () => void;
 }
 
-// --- Math & Types ---
-interface Vector3 {
-  x: number;
-  y: number;
-  z: number;
+interface SumMissionState {
+  vecA: Vector3D;
+  vecB: Vector3D;
 }
 
-// Matrix Rotation Logic (Reused for consistency)
-const rotateX = (v: Vector3, angle: number): Vector3 => ({
-  x: v.x,
-  y: v.y * Math.cos(angle) - v.z * Math.sin(angle),
-  z: v.y * Math.sin(angle) + v.z * Math.cos(angle)
-});
-
-const rotateY = (v: Vector3, angle: number): Vector3 => ({
-  x: v.x * Math.cos(angle) + v.z * Math.sin(angle),
-  y: v.y,
-  z: -v.x * Math.sin(angle) + v.z * Math.cos(angle)
-});
+const SUM_MISSION: Mission<SumMissionState> = {
+  level: ViewState.VECTORS,
+  objectives: [
+    {
+      id: 'cancel', label: 'Anula la resultante: A + B = 0',
+      check: s => norm3(s.vecA) > 0.5 && norm3(add3(s.vecA, s.vecB)) < 0.2
+    },
+    {
+      id: 'aligned', label: 'Haz que |A + B| = |A| + |B| (misma dirección)',
+      check: s => norm3(s.vecA) > 0.5 && norm3(s.vecB) > 0.5 && near(norm3(add3(s.vecA, s.vecB)), norm3(s.vecA) + norm3(s.vecB), 0.02)
+    },
+    { id: 'ten', label: 'Consigue una resultante de longitud 10', check: s => near(norm3(add3(s.vecA, s.vecB)), 10, 0.1) }
+  ]
+};
 
 export const VectorPlayground: React.FC<VectorPlaygroundProps> = ({ onNextLevel, onPrevLevel }) => {
   // --- State ---
-  const [vecA, setVecA] = useState<Vector3>({ x: 4, y: 1, z: 0 });
-  const [vecB, setVecB] = useState<Vector3>({ x: 1, y: 3, z: 0 });
+  const [vecA, setVecA] = useState<Vector3D>({ x: 4, y: 1, z: 0 });
+  const [vecB, setVecB] = useState<Vector3D>({ x: 1, y: 3, z: 0 });
   
   // View State
   const [is3D, setIs3D] = useState(false);
-  const [cameraAngle, setCameraAngle] = useState({ x: -0.3, y: 0.5 }); // Pitch, Yaw
-  const [scale, setScale] = useState(40); 
-  const [pan, setPan] = useState({ x: 0, y: 0 }); 
+  const { camera, project, pick, orbit, pan, zoom, setPreset, setProjection, reset } = useCamera({ scale: 40 });
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -43,36 +50,17 @@ export const VectorPlayground: React.FC<VectorPlaygroundProps> = ({ onNextLevel,
   // Interaction State
   const [dragging, setDragging] = useState<'A' | 'B' | null>(null);
   const [isOrbiting, setIsOrbiting] = useState(false);
-  const lastMousePos = useRef({ x: 0, y: 0 });
+  const lastMousePos = useRef({ x: 0, y: 0 }); // Canvas coordinates
+
+  // Mission
+  const mission = useMission(SUM_MISSION, { vecA, vecB });
 
   // Math: Resultant
-  const vecR = { x: vecA.x + vecB.x, y: vecA.y + vecB.y, z: vecA.z + vecB.z };
+  const vecR = add3(vecA, vecB);
 
   // Math: Analysis
-  const getMag = (v: Vector3) => Math.sqrt(v.x**2 + v.y**2 + v.z**2);
-  const getAngle2D = (v: Vector3) => (Math.atan2(v.y, v.x) * 180 / Math.PI + 360) % 360; // Only for 2D View
-
-  // --- Projection Logic ---
-  const project = useCallback((v: Vector3, width: number, height: number): { x: number, y: number, z: number } => {
-    let p = { ...v };
-
-    if (is3D) {
-      // 3D Projection: Rotate world based on camera
-      p = rotateY(p, cameraAngle.y);
-      p = rotateX(p, cameraAngle.x);
-    } else {
-      // 2D Projection: Ignore Z, map X/Y directly
-      p = { x: v.x, y: v.y, z: 0 };
-    }
-
-    // World to Screen
-    // In 3D: Y is Up (screen Y is inverted). In 2D: Y is Up.
-    return {
-      x: width / 2 + pan.x + (p.x * scale),
-      y: height / 2 + pan.y - (p.y * scale),
-      z: p.z // Depth for sorting if needed
-    };
-  }, [is3D, cameraAngle, scale, pan]);
+  const getMag = norm3;
+  const getAngle2D = angle2Deg; // Only for 2D View
 
   // --- Render Loop ---
   const draw = useCallback(() => {
@@ -92,7 +80,7 @@ export const VectorPlayground: React.FC<VectorPlaygroundProps> = ({ onNextLevel,
     ctx.lineWidth = 1;
     const gridSize = 20;
 
-    const drawLine = (start: Vector3, end: Vector3, color: string, dashed = false) => {
+    const drawLine = (start: Vector3D, end: Vector3D, color: string, dashed = false) => {
         const p1 = project(start, width, height);
         const p2 = project(end, width, height);
         
@@ -133,10 +121,10 @@ export const VectorPlayground: React.FC<VectorPlaygroundProps> = ({ onNextLevel,
     if (is3D) drawLine({ x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: 5 }, '#3b82f6'); // Z (Blue)
 
     // --- Helper for drawing vectors ---
-    const drawVector = (v: Vector3, color: string, label: string, from: Vector3 = {x:0, y:0, z:0}, isGhost = false) => {
+    const drawVector = (v: Vector3D, color: string, label: string, from: Vector3D = {x:0, y:0, z:0}, isGhost = false) => {
         const start = project(from, width, height);
         // Calculate absolute end position
-        const absEnd = { x: from.x + v.x, y: from.y + v.y, z: from.z + v.z };
+        const absEnd = add3(from, v);
         const end = project(absEnd, width, height); 
 
         // Draw Line
@@ -209,7 +197,7 @@ export const VectorPlayground: React.FC<VectorPlaygroundProps> = ({ onNextLevel,
     drawHandle(tipB, '#ef4444', dragging === 'B');
     drawHandle(tipR, '#22c55e', false); // Resultant not directly draggable in this model
 
-  }, [vecA, vecB, vecR, scale, pan, dragging, project, is3D, cameraAngle]);
+  }, [vecA, vecB, vecR, dragging, project, is3D]);
 
 
   // --- Event Listeners ---
@@ -233,9 +221,9 @@ export const VectorPlayground: React.FC<VectorPlaygroundProps> = ({ onNextLevel,
 
   const handleMouseDown = (e: React.MouseEvent) => {
     if (!canvasRef.current) return;
-    const rect = canvasRef.current.getBoundingClientRect();
-    const mx = e.clientX - rect.left;
-    const my = e.clientY - rect.top;
+    const mouse = getCanvasPoint(e, canvasRef.current);
+    const mx = mouse.x;
+    const my = mouse.y;
 
     // Hit Testing
     // For 3D, we project current vectors to screen and check distance
@@ -255,47 +243,29 @@ export const VectorPlayground: React.FC<VectorPlaygroundProps> = ({ onNextLevel,
       // In 2D we allow panning via mouse move if not dragging
     }
     
-    lastMousePos.current = { x: e.clientX, y: e.clientY };
+    lastMousePos.current = mouse;
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-    const dx = e.clientX - lastMousePos.current.x;
-    const dy = e.clientY - lastMousePos.current.y;
-    lastMousePos.current = { x: e.clientX, y: e.clientY };
+    if (!canvasRef.current) return;
+    const mouse = getCanvasPoint(e, canvasRef.current);
+    const { width, height } = canvasRef.current;
+    const prevMouse = lastMousePos.current;
+    lastMousePos.current = mouse;
 
     if (dragging) {
-        const sensitivity = 1.0 / scale;
-
-        const updateVector = (setter: React.Dispatch<React.SetStateAction<Vector3>>) => {
-            setter(prev => {
-                let nx = prev.x, ny = prev.y, nz = prev.z;
-                if (is3D) {
-                    // Logic to map screen movement to 3D world based on camera angle
-                    // Simple approximation: X movement maps to Camera Right, Y to Up/Down
-                    const cosY = Math.cos(cameraAngle.y);
-                    const sinY = Math.sin(cameraAngle.y);
-                    nx += (dx * cosY) * sensitivity;
-                    nz += (dx * sinY) * sensitivity; 
-                    ny -= dy * sensitivity; // Screen Y is inverse
-                } else {
-                    nx += dx * sensitivity;
-                    ny -= dy * sensitivity;
-                }
-                return { x: nx, y: ny, z: nz };
-            });
-        };
-
-        if (dragging === 'A') updateVector(setVecA);
-        else updateVector(setVecB);
+        // Tip follows the cursor on the plane facing the camera (z = 0 plane in 2D)
+        const vec = dragging === 'A' ? vecA : vecB;
+        const hit = pick(mouse, width, height, vec);
+        if (!hit) return;
+        const setter = dragging === 'A' ? setVecA : setVecB;
+        setter(is3D ? hit : { x: hit.x, y: hit.y, z: vec.z });
 
     } else if (isOrbiting && is3D) {
-        setCameraAngle(prev => ({
-            x: Math.max(-Math.PI/2, Math.min(Math.PI/2, prev.x + dy * 0.01)),
-            y: prev.y + dx * 0.01
-        }));
+        orbit(prevMouse, mouse, width, height);
     } else if (e.buttons === 1 && !is3D) {
         // Simple Panning in 2D
-        setPan(prev => ({ x: prev.x + dx, y: prev.y + dy }));
+        pan(mouse.x - prevMouse.x, mouse.y - prevMouse.y);
     }
   };
 
@@ -305,9 +275,10 @@ export const VectorPlayground: React.FC<VectorPlaygroundProps> = ({ onNextLevel,
   };
 
   const handleWheel = (e: React.WheelEvent) => {
+      if (!canvasRef.current) return;
       const zoomIntensity = 0.1;
       const zoomFactor = e.deltaY < 0 ? (1 + zoomIntensity) : (1 - zoomIntensity);
-      setScale(prev => Math.max(10, Math.min(200, prev * zoomFactor)));
+      zoom(getCanvasPoint(e, canvasRef.current), zoomFactor, canvasRef.current.width, canvasRef.current.height);
   };
 
   // Helper for scrolling inputs
@@ -330,17 +301,17 @@ export const VectorPlayground: React.FC<VectorPlaygroundProps> = ({ onNextLevel,
     onChange, 
     readOnly = false 
   }: { 
-    vec: Vector3, 
+    vec: Vector3D, 
     color: string, 
     label: string, 
-    onChange?: (v: Vector3) => void, 
+    onChange?: (v: Vector3D) => void, 
     readOnly?: boolean 
   }) => {
     const textColor = color === 'blue' ? 'text-blue-400' : color === 'red' ? 'text-red-400' : 'text-green-400';
     
-    const onScroll = (axis: keyof Vector3) => !readOnly && label !== 'R' ? handleInputScroll(label as 'A'|'B', axis) : undefined;
+    const onScroll = (axis: keyof Vector3D) => !readOnly && label !== 'R' ? handleInputScroll(label as 'A'|'B', axis) : undefined;
     
-    const handleChange = (axis: keyof Vector3, val: string) => {
+    const handleChange = (axis: keyof Vector3D, val: string) => {
         if(onChange) onChange({...vec, [axis]: parseFloat(val)||0});
     };
 
@@ -389,11 +360,11 @@ export const VectorPlayground: React.FC<VectorPlaygroundProps> = ({ onNextLevel,
             
             {/* View Toggles */}
             <div className="flex bg-slate-800 p-1 rounded border border-slate-700 w-full mb-2">
-                <button onClick={() => { setIs3D(false); setCameraAngle({x:0, y:0}); setPan({x:0, y:0}); setScale(40); }}
+                <button onClick={() => { setIs3D(false); reset(); }}
                     className={`flex-1 py-1 text-[10px] font-bold font-mono transition-colors ${!is3D ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
                     2D
                 </button>
-                <button onClick={() => { setIs3D(true); setCameraAngle({x: -0.3, y: 0.5}); }}
+                <button onClick={() => { setIs3D(true); reset(VIEW_3D); }}
                     className={`flex-1 py-1 text-[10px] font-bold font-mono transition-colors ${is3D ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
                     3D
                 </button>
@@ -408,9 +379,11 @@ export const VectorPlayground: React.FC<VectorPlaygroundProps> = ({ onNextLevel,
                 <ColumnVector vec={vecR} color="green" label="R" readOnly />
             </div>
 
+            {is3D && <CameraControls camera={camera} onPreset={setPreset} onProjection={setProjection} />}
+
             <div className="text-[9px] text-slate-500 font-mono border-t border-slate-700 pt-2 flex justify-between gap-2">
                 <span>USA LA RUEDA SOBRE LOS NÚMEROS</span>
-                <button onClick={() => { setScale(40); setPan({x:0, y:0}); setCameraAngle({x: -0.3, y: 0.5}); }} className="hover:text-cyan-400 font-bold whitespace-nowrap">REINICIAR VISTA</button>
+                <button onClick={() => reset(is3D ? VIEW_3D : {})} className="hover:text-cyan-400 font-bold whitespace-nowrap">REINICIAR VISTA</button>
             </div>
          </div>
       </DraggableWindow>
@@ -451,6 +424,9 @@ export const VectorPlayground: React.FC<VectorPlaygroundProps> = ({ onNextLevel,
         </div>
       </DraggableWindow>
 
+      {/* Mission */}
+      <MissionPanel status={mission} />
+
       {/* Explanation Tooltip / Legend */}
       <DraggableWindow title="GUÍA TEÓRICA: SUMA" initialPosition={{x: 350, y: 20}} width="w-80">
           <div className="text-xs text-slate-400 space-y-2 leading-relaxed font-mono">
@@ -1,42 +1,43 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { DraggableWindow } from './DraggableWindow';
+import { MissionPanel } from './MissionPanel';
+import { CameraControls } from './CameraControls';
+import { Vector3D, ViewState } from '../types';
+import { norm3 } from '../utils/linearAlgebra';
+import { useCamera, getCanvasPoint } from '../hooks/useCamera';
+import { useMission } from '../hooks/useMission';
+import { Mission, near } from '../utils/missions';
+
+const VIEW_3D = { pitch: -0.3, yaw: 0.5 };
 
 interface VectorVisualizerProps {
   onNextLevel?: () => void;
 }
 
-// --- Math & Types ---
-interface Vector3 {
-  x: number;
-  y: number;
-  z: number;
+interface VectorMissionState {
+  vector: Vector3D;
+  is3D: boolean;
 }
 
-// Simple Matrix Rotation logic
-const rotateX = (v: Vector3, angle: number): Vector3 => ({
-  x: v.x,
-  y: v.y * Math.cos(angle) - v.z * Math.sin(angle),
-  z: v.y * Math.sin(angle) + v.z * Math.cos(angle)
-});
-
-const rotateY = (v: Vector3, angle: number): Vector3 => ({
-  x: v.x * Math.cos(angle) + v.z * Math.sin(angle),
-  y: v.y,
-  z: -v.x * Math.sin(angle) + v.z * Math.cos(angle)
-});
+const VECTOR_MISSION: Mission<VectorMissionState> = {
+  level: ViewState.LEVEL_1_VECTOR,
+  objectives: [
+    { id: 'quadrant', label: 'Lleva el vector al tercer cuadrante (x < 0, y < 0)', check: s => s.vector.x < 0 && s.vector.y < 0 },
+    { id: 'unit', label: 'Consigue un vector unitario: |v| = 1', check: s => near(norm3(s.vector), 1) },
+    { id: 'depth', label: 'En la vista 3D, dale profundidad al vector (z ≠ 0)', check: s => s.is3D && Math.abs(s.vector.z) >= 0.5 }
+  ]
+};
 
 export const VectorVisualizer: React.FC<VectorVisualizerProps> = ({ onNextLevel }) => {
   // --- State ---
   const [is3D, setIs3D] = useState(false);
   const [isPolar, setIsPolar] = useState(false); // Toggle between Cartesian and Polar/Spherical
-  const [vector, setVector] = useState<Vector3>({ x: 3, y: 4, z: 0 });
+  const [vector, setVector] = useState<Vector3D>({ x: 3, y: 4, z: 0 });
   const [showAngle, setShowAngle] = useState(true);
   const [usePoint, setUsePoint] = useState(false);
   
-  // Camera & View State
-  const [cameraAngle, setCameraAngle] = useState({ x: -0.3, y: 0.5 }); // Pitch, Yaw
-  const [scale, setScale] = useState(40); // Pixels per unit (Dynamic Zoom)
-  const [pan, setPan] = useState({ x: 0, y: 0 }); // Screen offset
+  // Camera & View State (flat XY view until 3D is enabled)
+  const { camera, project, pick, orbit, zoom, setPreset, setProjection, reset } = useCamera({ scale: 40 }, { minScale: 5, maxScale: 500 });
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -44,10 +45,13 @@ export const VectorVisualizer: React.FC<VectorVisualizerProps> = ({ onNextLevel
   // Interaction State
   const [isDraggingVector, setIsDraggingVector] = useState(false);
   const [isOrbiting, setIsOrbiting] = useState(false);
-  const lastMousePos = useRef({ x: 0, y: 0 });
+  const lastMousePos = useRef({ x: 0, y: 0 }); // Canvas coordinates
+
+  // Mission
+  const mission = useMission(VECTOR_MISSION, { vector, is3D });
 
   // Calculated stats (Cartesian)
-  const magnitude = Math.sqrt(vector.x**2 + vector.y**2 + (is3D ? vector.z**2 : 0));
+  const magnitude = norm3(is3D ? vector : { ...vector, z: 0 });
   // Angle in 2D (Standard Position)
   const angleRad = Math.atan2(vector.y, vector.x);
   const angleDeg = (angleRad * 180 / Math.PI + 360) % 360;
@@ -87,27 +91,6 @@ export const VectorVisualizer: React.FC<VectorVisualizerProps> = ({ onNextLevel
     }
   };
 
-  // --- 3D Projection Engine ---
-  const project = useCallback((v: Vector3, width: number, height: number): { x: number, y: number, z: number } => {
-    let p = { ...v };
-    
-    if (is3D) {
-      // Rotate world based on camera
-      p = rotateY(p, cameraAngle.y);
-      p = rotateX(p, cameraAngle.x);
-    } else {
-      // Fixed 2D view (XY plane)
-      p = { x: v.x, y: v.y, z: 0 };
-    }
-
-    // Projection Logic with Pan and Zoom
-    return {
-      x: width / 2 + pan.x + (p.x * scale), 
-      y: height / 2 + pan.y - (p.y * scale),
-      z: p.z 
-    };
-  }, [is3D, cameraAngle, scale, pan]);
-
   // --- Render Loop ---
   const draw = useCallback(() => {
     const canvas = canvasRef.current;
@@ -127,7 +110,7 @@ export const VectorVisualizer: React.FC<VectorVisualizerProps> = ({ onNextLevel
     ctx.lineWidth = 1;
     const gridSize = 20; 
     
-    const drawLine = (start: Vector3, end: Vector3, color?: string, widthPx: number = 1) => {
+    const drawLine = (start: Vector3D, end: Vector3D, color?: string, widthPx: number = 1) => {
       const p1 = project(start, width, height);
       const p2 = project(end, width, height);
       
@@ -219,7 +202,7 @@ export const VectorVisualizer: React.FC<VectorVisualizerProps> = ({ onNextLevel
       ctx.fillText(`${angleDeg.toFixed(0)}°`, projectedOrigin.x + radius + 5, projectedOrigin.y - 10);
     }
 
-  }, [vector, is3D, cameraAngle, showAngle, usePoint, project, angleRad, angleDeg]);
+  }, [vector, is3D, showAngle, usePoint, project, angleRad, angleDeg]);
 
   // Animation/Resize Loop
   useEffect(() => {
@@ -244,71 +227,41 @@ export const VectorVisualizer: React.FC<VectorVisualizerProps> = ({ onNextLevel
   const handleCanvasWheel = (e: React.WheelEvent) => {
     e.preventDefault();
     if (!canvasRef.current) return;
-    
-    const rect = canvasRef.current.getBoundingClientRect();
-    const mx = e.clientX - rect.left;
-    const my = e.clientY - rect.top;
-    const width = canvasRef.current.width;
-    const height = canvasRef.current.height;
-
-    const cx = mx - width / 2;
-    const cy = my - height / 2;
 
     const zoomIntensity = 0.1;
     const zoomFactor = e.deltaY < 0 ? (1 + zoomIntensity) : (1 - zoomIntensity);
-    const newScale = Math.max(5, Math.min(500, scale * zoomFactor));
-
-    setPan(prev => ({
-      x: cx - ((cx - prev.x) / scale) * newScale,
-      y: cy - ((cy - prev.y) / scale) * newScale
-    }));
-    setScale(newScale);
+    zoom(getCanvasPoint(e, canvasRef.current), zoomFactor, canvasRef.current.width, canvasRef.current.height);
   };
 
   const handleMouseDown = (e: React.MouseEvent) => {
     if (!canvasRef.current) return;
-    const rect = canvasRef.current.getBoundingClientRect();
-    const mx = e.clientX - rect.left;
-    const my = e.clientY - rect.top;
+    const mouse = getCanvasPoint(e, canvasRef.current);
 
     const projectedTip = project(is3D ? vector : { ...vector, z: 0 }, canvasRef.current.width, canvasRef.current.height);
-    const dist = Math.sqrt((mx - projectedTip.x)**2 + (my - projectedTip.y)**2);
+    const dist = Math.sqrt((mouse.x - projectedTip.x)**2 + (mouse.y - projectedTip.y)**2);
     
     if (dist < 15) {
       setIsDraggingVector(true);
     } else {
       setIsOrbiting(true);
     }
-    lastMousePos.current = { x: e.clientX, y: e.clientY };
+    lastMousePos.current = mouse;
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-    const dx = e.clientX - lastMousePos.current.x;
-    const dy = e.clientY - lastMousePos.current.y;
-    lastMousePos.current = { x: e.clientX, y: e.clientY };
+    if (!canvasRef.current) return;
+    const mouse = getCanvasPoint(e, canvasRef.current);
+    const { width, height } = canvasRef.current;
+    const prevMouse = lastMousePos.current;
+    lastMousePos.current = mouse;
 
     if (isDraggingVector) {
-      const sensitivity = 1.0 / scale; 
-      setVector(prev => {
-         let nx = prev.x, ny = prev.y, nz = prev.z;
-         if (is3D) {
-            const cosY = Math.cos(cameraAngle.y);
-            const sinY = Math.sin(cameraAngle.y);
-            nx += (dx * cosY) * sensitivity;
-            nz += (dx * sinY) * sensitivity; 
-            ny -= dy * sensitivity; 
-         } else {
-            nx += dx * sensitivity;
-            ny -= dy * sensitivity;
-         }
-         return { x: nx, y: ny, z: nz };
-      });
+      // Tip follows the cursor on the plane facing the camera (z = 0 plane in 2D)
+      const hit = pick(mouse, width, height, is3D ? vector : { ...vector, z: 0 });
+      if (hit) setVector(is3D ? hit : { x: hit.x, y: hit.y, z: vector.z });
 
     } else if (isOrbiting && is3D) {
-      setCameraAngle(prev => ({
-        x: Math.max(-Math.PI/2, Math.min(Math.PI/2, prev.x + dy * 0.01)),
-        y: prev.y + dx * 0.01
-      }));
+      orbit(prevMouse, mouse, width, height);
     }
   };
 
@@ -324,7 +277,7 @@ export const VectorVisualizer: React.FC<VectorVisualizerProps> = ({ onNextLevel
     
     if (type === 'cartesian') {
         const step = 0.5;
-        const key = axis as keyof Vector3;
+        const key = axis as keyof Vector3D;
         setVector(prev => ({
           ...prev,
           [key]: Number((prev[key] + (delta * step)).toFixed(1))
@@ -361,11 +314,11 @@ export const VectorVisualizer: React.FC<VectorVisualizerProps> = ({ onNextLevel
           {/* Dimensions & Coord System Toggles */}
           <div className="grid grid-cols-2 gap-2">
             <div className="flex bg-slate-800 p-1 rounded border border-slate-700">
-                <button onClick={() => { setIs3D(false); setCameraAngle({x:0, y:0}); setPan({x:0, y:0}); setScale(40); }}
+                <button onClick={() => { setIs3D(false); reset(); }}
                     className={`flex-1 py-1 text-[10px] font-bold font-mono transition-colors ${!is3D ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
                     2D
                 </button>
-                <button onClick={() => { setIs3D(true); setCameraAngle({x: -0.3, y: 0.5}); }}
+                <button onClick={() => { setIs3D(true); reset(VIEW_3D); }}
                     className={`flex-1 py-1 text-[10px] font-bold font-mono transition-colors ${is3D ? 'bg-slate-600 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}>
                     3D
                 </button>
@@ -476,9 +429,11 @@ export const VectorVisualizer: React.FC<VectorVisualizerProps> = ({ onNextLevel
              )}
           </div>
           
+          {is3D && <CameraControls camera={camera} onPreset={setPreset} onProjection={setProjection} />}
+
           <div className="text-[9px] text-slate-500 font-mono border-t border-slate-700 pt-2 flex justify-between">
-            <span>ZOOM: {scale.toFixed(0)}%</span>
-            <button onClick={() => { setScale(40); setPan({x:0, y:0}); }} className="hover:text-cyan-400">REINICIAR VISTA</button>
+            <span>ZOOM: {camera.scale.toFixed(0)}%</span>
+            <button onClick={() => reset(is3D ? VIEW_3D : {})} className="hover:text-cyan-400">REINICIAR VISTA</button>
           </div>
         </div>
       </DraggableWindow>
@@ -505,6 +460,9 @@ export const VectorVisualizer: React.FC<VectorVisualizerProps> = ({ onNextLevel
         </div>
       </DraggableWindow>
       
+      {/* Mission */}
+      <MissionPanel status={mission} />
+
       {/* Legend Window - NEW */}
       <DraggableWindow title="GUÍA TEÓRICA: VECTORES" initialPosition={{ x: 300, y: 500 }} width="w-96">
         <div className="text-xs text-slate-400 space-y-2 font-mono">
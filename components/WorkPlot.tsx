@@ -0,0 +1,51 @@
+import React from 'react';
+
+interface WorkPlotProps {
+  works: number[];      // Work done so far at evenly spaced fractions 0..1 of the loop
+  progress: number;     // Fraction travelled by the particle
+  work: number;         // Work done at `progress`
+  target: number;       // What Green's theorem predicts for the whole loop
+}
+
+const WIDTH = 256;
+const HEIGHT = 130;
+const PAD = { left: 34, right: 8, top: 10, bottom: 16 };
+
+const formatValue = (v: number) => parseFloat(v.toFixed(2)).toString();
+
+// W(s) = ∫ F·dr up to each point of the loop, the travelled part solid, with the double integral
+// of the curl as a dashed line: the curve must end on it
+export const WorkPlot: React.FC<WorkPlotProps> = ({ works, progress, work, target }) => {
+  const finite = [...works, work, target, 0].filter(Number.isFinite);
+  const top = Math.max(...finite);
+  const bottom = Math.min(...finite);
+  const span = top - bottom || 1;
+  const toX = (s: number) => PAD.left + s * (WIDTH - PAD.left - PAD.right);
+  const toY = (w: number) => PAD.top + (top + span * 0.05 - w) / (span * 1.1) * (HEIGHT - PAD.top - PAD.bottom);
+
+  const points = works.map((w, k) => [k / (works.length - 1), w]).filter(([, w]) => Number.isFinite(w));
+  const path = (list: number[][]) => list.map(([s, w], k) => `${k === 0 ? 'M' : 'L'}${toX(s)},${toY(w)}`).join(' ');
+  const travelled = [...points.filter(([s]) => s < progress), ...(Number.isFinite(work) ? [[progress, work]] : [])];
+
+  return (
+    <svg width={WIDTH} height={HEIGHT} className="bg-slate-950/50 rounded border border-slate-800">
+      <line x1={PAD.left} x2={WIDTH - PAD.right} y1={toY(0)} y2={toY(0)} stroke="#334155" />
+      <line x1={PAD.left} x2={PAD.left} y1={PAD.top} y2={HEIGHT - PAD.bottom} stroke="#334155" />
+      <text x={PAD.left - 3} y={toY(0) + 3} textAnchor="end" fontSize="8" fill="#64748b" fontFamily="monospace">0</text>
+      <text x={PAD.left} y={HEIGHT - 3} fontSize="8" fill="#64748b" fontFamily="monospace">inicio</text>
+      <text x={WIDTH - PAD.right} y={HEIGHT - 3} textAnchor="end" fontSize="8" fill="#64748b" fontFamily="monospace">vuelta</text>
+      <text x={PAD.left + 4} y={PAD.top + 6} fontSize="8" fill="#94a3b8" fontFamily="monospace">W(s)</text>
+
+      {Number.isFinite(target) && (
+        <>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={toY(target)} y2={toY(target)} stroke="#c084fc" strokeDasharray="4 3" />
+          <text x={PAD.left - 3} y={toY(target) + 3} textAnchor="end" fontSize="8" fill="#c084fc" fontFamily="monospace">{formatValue(target)}</text>
+        </>
+      )}
+
+      <path d={path(points)} fill="none" stroke="#475569" strokeWidth={1} strokeDasharray="2 2" />
+      <path d={path(travelled)} fill="none" stroke="#facc15" strokeWidth={1.5} />
+      {Number.isFinite(work) && <circle cx={toX(progress)} cy={toY(work)} r={3} fill="#fff" />}
+    </svg>
+  );
+};
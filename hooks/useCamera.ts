@@ -0,0 +1,52 @@
+import { useState, useRef, useCallback } from 'react';
+import { Vector2D, Vector3D } from '../types';
+import {
+  CameraState, ProjectionMode, ViewPreset, ProjectedPoint,
+  createCamera, projectPoint, screenToRay, pickOnPlane, intersectRayHeightfield, orbit, panBy, zoomAt, applyPreset
+} from '../utils/camera';
+
+type CameraOptions = Parameters<typeof createCamera>[0];
+
+interface ZoomLimits { minScale?: number; maxScale?: number; }
+
+// Mouse position relative to the canvas (px)
+export const getCanvasPoint = (e: { clientX: number; clientY: number }, canvas: HTMLCanvasElement): Vector2D => {
+  const rect = canvas.getBoundingClientRect();
+  return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+};
+
+// Camera state + interactions shared by every canvas level.
+// Screen helpers take the canvas size (w, h) like the levels' draw code does.
+// `restored` (e.g. from a share link) overrides the starting camera but not what reset() returns to.
+export const useCamera = (initial: CameraOptions = {}, { minScale = 10, maxScale = 200 }: ZoomLimits = {}, restored?: CameraState | null) => {
+  const initialRef = useRef(initial);
+  const [camera, setCamera] = useState<CameraState>(() => restored ?? createCamera(initial));
+
+  const project = useCallback((p: Vector3D, w: number, h: number): ProjectedPoint =>
+    projectPoint(camera, p, { width: w, height: h }), [camera]);
+
+  // World point under the cursor on a plane (camera facing through planePoint by default)
+  const pick = useCallback((screen: Vector2D, w: number, h: number, planePoint: Vector3D, planeNormal?: Vector3D) =>
+    pickOnPlane(camera, screen, { width: w, height: h }, planePoint, planeNormal), [camera]);
+
+  // World point under the cursor on the surface y = height(x, z), |x|, |z| <= range
+  const pickSurface = useCallback((screen: Vector2D, w: number, h: number, height: (x: number, z: number) => number, range: number) =>
+    intersectRayHeightfield(screenToRay(camera, screen, { width: w, height: h }), height, range), [camera]);
+
+  const orbitTo = useCallback((from: Vector2D, to: Vector2D, w: number, h: number) =>
+    setCamera(c => orbit(c, from, to, { width: w, height: h })), []);
+
+  const pan = useCallback((dx: number, dy: number) => setCamera(c => panBy(c, dx, dy)), []);
+
+  const zoom = useCallback((screen: Vector2D, factor: number, w: number, h: number) =>
+    setCamera(c => zoomAt(c, screen, factor, { width: w, height: h }, minScale, maxScale)), [minScale, maxScale]);
+
+  const setPreset = useCallback((preset: ViewPreset) => setCamera(c => applyPreset(c, preset)), []);
+
+  const setProjection = useCallback((projection: ProjectionMode) => setCamera(c => ({ ...c, projection })), []);
+
+  const reset = useCallback((overrides: CameraOptions = {}) =>
+    setCamera(createCamera({ ...initialRef.current, ...overrides })), []);
+
+  return { camera, setCamera, project, pick, pickSurface, orbit: orbitTo, pan, zoom, setPreset, setProjection, reset };
+};
@@ -0,0 +1,28 @@
+import { useState } from 'react';
+import { FieldComponent, FieldExpressionError, FieldSources } from '../utils/vectorField';
+
+// A user-typed vector field <P, Q, R>, built by `compile` (compileField for plane fields,
+// compileSpaceField for fields over x, y and z). While a component is invalid the last valid field
+// stays drawn (`compiled.sources` is its text) and `error` names the offending component.
+// `initialSources` must be valid.
+export const useCustomField = <F>(initialSources: FieldSources, compile: (sources: FieldSources) => F) => {
+  const [sources, setSources] = useState(initialSources);
+  const [compiled, setCompiled] = useState<{ sources: FieldSources; field: F }>(
+    () => ({ sources: initialSources, field: compile(initialSources) })
+  );
+  const [error, setError] = useState<{ component: FieldComponent; message: string } | null>(null);
+
+  const setComponent = (component: FieldComponent, text: string) => {
+    const next = { ...sources, [component]: text };
+    setSources(next);
+    try {
+      setCompiled({ sources: next, field: compile(next) });
+      setError(null);
+    } catch (e) {
+      if (!(e instanceof FieldExpressionError)) throw e;
+      setError({ component: e.component, message: e.message });
+    }
+  };
+
+  return { sources, setComponent, compiled, error };
+};
@@ -0,0 +1,23 @@
+import { useState, useCallback } from 'react';
+import { Region, RegionBound, RegionExpressionError, RegionSources, compileRegion } from '../utils/region';
+
+// A user-typed integration region. While a bound is invalid the last valid region stays
+// integrated and `error` names the offending bound. `initialSources` must be valid.
+export const useCustomRegion = (initialSources: RegionSources) => {
+  const [sources, setSourcesText] = useState(initialSources);
+  const [region, setRegion] = useState<Region>(() => compileRegion(initialSources));
+  const [error, setError] = useState<{ bound: RegionBound; message: string } | null>(null);
+
+  const setSources = useCallback((next: RegionSources) => {
+    setSourcesText(next);
+    try {
+      setRegion(compileRegion(next));
+      setError(null);
+    } catch (e) {
+      if (!(e instanceof RegionExpressionError)) throw e;
+      setError({ bound: e.bound, message: e.message });
+    }
+  }, []);
+
+  return { sources, setSources, region, error };
+};
@@ -0,0 +1,24 @@
+import { useState, useCallback } from 'react';
+import { ExpressionError } from '../utils/expression';
+import { CompiledSurface, compileSurface } from '../utils/symbolic';
+
+// A user-typed surface f(x,y). While the text is invalid the last valid surface stays plotted
+// and `error` explains what is wrong. `initialSource` must be a valid expression.
+export const useCustomSurface = (initialSource: string) => {
+  const [source, setSourceText] = useState(initialSource);
+  const [surface, setSurface] = useState<CompiledSurface>(() => compileSurface(initialSource));
+  const [error, setError] = useState<string | null>(null);
+
+  const setSource = useCallback((next: string) => {
+    setSourceText(next);
+    try {
+      setSurface(compileSurface(next));
+      setError(null);
+    } catch (e) {
+      if (!(e instanceof ExpressionError)) throw e;
+      setError(e.message);
+    }
+  }, []);
+
+  return { source, setSource, surface, error };
+};
@@ -0,0 +1,22 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ViewState } from '../types';
+import { hashFromView, viewFromHash } from '../utils/router';
+
+// Current view mirrored in location.hash. Navigating pushes a history entry,
+// so browser back/forward and deep links (e.g. #/algebra-lineal/producto-punto) just work.
+export const useHashRoute = (): [ViewState, (view: ViewState) => void] => {
+  const [view, setViewState] = useState<ViewState>(() => viewFromHash(window.location.hash));
+
+  useEffect(() => {
+    const onHashChange = () => setViewState(viewFromHash(window.location.hash));
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  const setView = useCallback((next: ViewState) => {
+    if (viewFromHash(window.location.hash) === next) return;
+    window.location.hash = hashFromView(next); // Fires hashchange, which updates state
+  }, []);
+
+  return [view, setView];
+};
@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react';
+import { Mission, MissionStatus } from '../utils/missions';
+import { isCompleted } from '../utils/progress';
+import { useProgress } from './useProgress';
+
+// Evaluates the mission against the level's current state and reports the score (share of objectives
+// achieved) and completion to the player progress
+export const useMission = <S>(mission: Mission<S>, state: S): MissionStatus => {
+  const { progress, complete, submitScore } = useProgress();
+  const [achieved, setAchieved] = useState<ReadonlySet<string>>(() => new Set());
+
+  // The ids passing right now, as a string so the effect only runs when the set changes
+  const passingKey = mission.objectives.filter(o => o.check(state)).map(o => o.id).join('|');
+
+  useEffect(() => {
+    if (passingKey === '') return;
+    const passing = passingKey.split('|');
+    setAchieved(prev => passing.every(id => prev.has(id)) ? prev : new Set([...prev, ...passing]));
+  }, [passingKey]);
+
+  const allDone = mission.objectives.every(o => achieved.has(o.id));
+  const score = achieved.size / mission.objectives.length;
+
+  useEffect(() => {
+    if (score > 0) submitScore(mission.level, score);
+  }, [score, mission.level, submitScore]);
+
+  useEffect(() => {
+    if (allDone) complete(mission.level);
+  }, [allDone, mission.level, complete]);
+
+  return {
+    objectives: mission.objectives.map(o => ({ id: o.id, label: o.label, done: achieved.has(o.id) })),
+    completed: allDone || isCompleted(progress, mission.level)
+  };
+};
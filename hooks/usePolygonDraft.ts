@@ -0,0 +1,37 @@
+import { useState } from 'react';
+import { Vector2D } from '../types';
+import { isSimplePath, signedArea } from '../utils/flux';
+
+export const MAX_POLYGON_VERTICES = 24;
+const MIN_AREA = 0.05;    // A polygon thinner than this is rejected when closing
+
+// A closed polygon drawn vertex by vertex on the plane. It must stay a simple curve (no side crosses
+// another) for the integral theorems to apply, so offending clicks are refused with an `error`.
+// `draft` is null when not drawing; `onClose` receives the finished polygon in click order.
+export const usePolygonDraft = (onClose: (vertices: Vector2D[]) => void) => {
+  const [draft, setDraft] = useState<Vector2D[] | null>(null);
+  const [hover, setHover] = useState<Vector2D | null>(null); // Cursor, for the rubber band
+  const [error, setError] = useState<string | null>(null);
+
+  const start = () => { setDraft([]); setError(null); };
+  const cancel = () => { setDraft(null); setHover(null); setError(null); };
+
+  const close = (points: Vector2D[]) => {
+    if (!isSimplePath(points, true)) { setError('Al cerrarla, la curva se cruzaría consigo misma.'); return; }
+    if (Math.abs(signedArea(points)) < MIN_AREA) { setError('La región es demasiado delgada.'); return; }
+    onClose(points);
+    cancel();
+  };
+
+  // Click while drawing: `onFirst` when it landed on the first vertex (a screen test, left to the caller)
+  const addVertex = (p: Vector2D, onFirst: boolean) => {
+    if (!draft) return;
+    if (onFirst && draft.length >= 3) { close(draft); return; }
+    const next = [...draft, p];
+    if (!isSimplePath(next, false)) { setError('Ese lado cruzaría otro: la frontera debe ser una curva simple.'); return; }
+    setError(null);
+    if (next.length === MAX_POLYGON_VERTICES) close(next); else setDraft(next);
+  };
+
+  return { draft, hover, setHover, error, start, cancel, close, addVertex };
+};
@@ -0,0 +1,51 @@
+import { useSyncExternalStore, useCallback } from 'react';
+import { ViewState } from '../types';
+import {
+  ProgressState, PROGRESS_STORAGE_KEY, loadProgress, saveProgress, parseProgress,
+  completeLevel, recordScore, saveLevelState, setLastVisited
+} from '../utils/progress';
+
+// One in-memory copy shared by every component (Sidebar, selectors, levels), written through to localStorage
+let current: ProgressState | null = null;
+const listeners = new Set<() => void>();
+
+const getSnapshot = (): ProgressState => current ?? (current = loadProgress());
+
+const setProgress = (update: (prev: ProgressState) => ProgressState) => {
+  const prev = getSnapshot();
+  const next = update(prev);
+  if (next === prev) return;
+  current = next;
+  saveProgress(next);
+  listeners.forEach(l => l());
+};
+
+// Other tabs saving progress
+const onStorage = (e: StorageEvent) => {
+  if (e.key !== PROGRESS_STORAGE_KEY) return;
+  current = parseProgress(e.newValue);
+  listeners.forEach(l => l());
+};
+
+const subscribe = (listener: () => void) => {
+  if (listeners.size === 0) window.addEventListener('storage', onStorage);
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) window.removeEventListener('storage', onStorage);
+  };
+};
+
+// Non-hook access for code that runs once (e.g. reading a saved scene on mount)
+export const getProgress = getSnapshot;
+
+export const useProgress = () => {
+  const progress = useSyncExternalStore(subscribe, getSnapshot);
+
+  const complete = useCallback((id: ViewState) => setProgress(p => completeLevel(p, id)), []);
+  const submitScore = useCallback((id: ViewState, score: number) => setProgress(p => recordScore(p, id, score)), []);
+  const saveState = useCallback((id: ViewState, state: string) => setProgress(p => saveLevelState(p, id, state)), []);
+  const visit = useCallback((id: ViewState) => setProgress(p => setLastVisited(p, id)), []);
+
+  return { progress, complete, submitScore, saveState, visit };
+};
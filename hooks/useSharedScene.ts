@@ -0,0 +1,27 @@
+import { useState, useEffect, useMemo } from 'react';
+import { SceneCodec, decodeScene, encodeScene, readSceneParam } from '../utils/sceneState';
+import { getProgress, useProgress } from './useProgress';
+
+const AUTOSAVE_DELAY = 500; // ms
+
+// Scene to start from, read once on mount: a share link wins over the player's saved scene.
+// Null means the level's defaults.
+export const useSharedScene = <T>(codec: SceneCodec<T>): T | null => {
+  const [scene] = useState<T | null>(() => {
+    const encoded = readSceneParam() ?? getProgress().levels[codec.level]?.savedState;
+    return encoded ? decodeScene(codec, encoded) : null;
+  });
+  return scene;
+};
+
+// Keeps the level's saved scene in the player progress up to date (debounced). Pass a memoized
+// scene: levels re-render every animation frame, and the encoding only needs to follow the scene.
+export const useSceneAutosave = <T>(codec: SceneCodec<T>, scene: T) => {
+  const { saveState } = useProgress();
+  const encoded = useMemo(() => encodeScene(codec, scene), [codec, scene]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => saveState(codec.level, encoded), AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [codec.level, encoded, saveState]);
+};
@@ -0,0 +1,169 @@
+import React from 'react';
+import { ViewState } from './types';
+import { VectorVisualizer } from './components/VectorVisualizer';
+import { VectorPlayground } from './components/VectorPlayground';
+import { ScalarMultiplication } from './components/ScalarMultiplication';
+import { LineEquationLevel } from './components/LineEquationLevel';
+import { DotProductLevel } from './components/DotProductLevel';
+import { CrossProductLevel } from './components/CrossProductLevel';
+import { MatrixTransformLevel } from './components/MatrixTransformLevel';
+import { MatrixMultiplicationLevel } from './components/MatrixMultiplicationLevel';
+import { EigenvectorsLevel } from './components/EigenvectorsLevel';
+import { DerivativeVisualizer } from './components/DerivativeVisualizer';
+import { IntegralVisualizer } from './components/IntegralVisualizer';
+import { GradientDescent } from './components/GradientDescent';
+import { CurlLevel } from './components/CurlLevel';
+import { DivergenceLevel } from './components/DivergenceLevel';
+import { GreenLevel } from './components/GreenLevel';
+
+// Single source of truth for the levels: Sidebar, the world selectors and the
+// prev/next wiring in App are all generated from LEVELS. Adding a level = one entry here
+// (plus its ViewState and URL path).
+
+export type WorldId = 1 | 2;
+
+export interface LevelComponentProps {
+  onPrevLevel?: () => void;
+  onNextLevel?: () => void;
+}
+
+export interface LevelDefinition {
+  id: ViewState;
+  world: WorldId;
+  order: number;           // Position inside the world (1-based)
+  title: string;           // Selector card title
+  shortTitle: string;      // Sidebar label
+  icon: string;
+  description: string;
+  component: React.ComponentType<LevelComponentProps>;
+  prerequisites: ViewState[];
+  boss?: boolean;
+}
+
+export interface WorldDefinition {
+  id: WorldId;
+  selectView: ViewState;   // Level selector screen of the world
+}
+
+export const WORLDS: Record<WorldId, WorldDefinition> = {
+  1: { id: 1, selectView: ViewState.LEVEL_SELECT_LIN_ALG },
+  2: { id: 2, selectView: ViewState.LEVEL_SELECT_CALCULUS }
+};
+
+export const LEVELS: LevelDefinition[] = [
+  // --- LINEAR ALGEBRA WORLD ---
+  {
+    id: ViewState.LEVEL_1_VECTOR, world: 1, order: 1,
+    title: 'VISUALIZAR VECTOR', shortTitle: 'Vector Unit', icon: '↗️',
+    description: 'Conceptos básicos y magnitud.',
+    component: VectorVisualizer, prerequisites: []
+  },
+  {
+    id: ViewState.VECTORS, world: 1, order: 2,
+    title: 'SUMA DE VECTORES', shortTitle: 'Suma', icon: '➕',
+    description: 'Acoplamiento de fuerzas.',
+    component: VectorPlayground, prerequisites: [ViewState.LEVEL_1_VECTOR]
+  },
+  {
+    id: ViewState.SCALAR_MULTIPLICATION, world: 1, order: 3,
+    title: 'ESCALAR Y DIRECCIÓN', shortTitle: 'Escalar', icon: '📏',
+    description: 'Estirar, encoger e invertir.',
+    component: ScalarMultiplication, prerequisites: [ViewState.VECTORS]
+  },
+  {
+    id: ViewState.LINE_EQUATION, world: 1, order: 4,
+    title: 'ECUACIÓN DE LA RECTA', shortTitle: 'Recta', icon: '📉',
+    description: 'Punto + Dirección. La base del movimiento.',
+    component: LineEquationLevel, prerequisites: [ViewState.SCALAR_MULTIPLICATION]
+  },
+  {
+    id: ViewState.DOT_PRODUCT, world: 1, order: 5,
+    title: 'PRODUCTO PUNTO', shortTitle: 'Prod. Punto', icon: '☀️', // Sun casting shadow
+    description: 'Proyección y similitud.',
+    component: DotProductLevel, prerequisites: [ViewState.LINE_EQUATION]
+  },
+  {
+    id: ViewState.CROSS_PRODUCT, world: 1, order: 6,
+    title: 'PRODUCTO CRUZ', shortTitle: 'Prod. Cruz', icon: '❌',
+    description: 'Ortogonalidad en 3D.',
+    component: CrossProductLevel, prerequisites: [ViewState.DOT_PRODUCT]
+  },
+  {
+    id: ViewState.MATRICES, world: 1, order: 7,
+    title: 'TRANSFORMACIONES', shortTitle: 'Matrices', icon: '🔄',
+    description: 'Matrices deformando el espacio.',
+    component: MatrixTransformLevel, prerequisites: [ViewState.CROSS_PRODUCT]
+  },
+  {
+    id: ViewState.MATRIX_MULTIPLICATION, world: 1, order: 8,
+    title: 'MULTIPLICACIÓN', shortTitle: 'Mult. Matriz', icon: '⛓️',
+    description: 'Composición de transformaciones.',
+    component: MatrixMultiplicationLevel, prerequisites: [ViewState.MATRICES]
+  },
+  {
+    id: ViewState.EIGENVECTORS, world: 1, order: 9,
+    title: 'EIGENVECTORS', shortTitle: 'Eigen', icon: '💎',
+    description: 'El eje inmutable de la matriz.',
+    component: EigenvectorsLevel, prerequisites: [ViewState.MATRIX_MULTIPLICATION], boss: true
+  },
+
+  // --- CALCULUS WORLD ---
+  {
+    id: ViewState.DERIVATIVE_DEFINITION, world: 2, order: 1,
+    title: 'LA DERIVADA', shortTitle: 'Derivada', icon: '📐',
+    description: 'Pendientes en el espacio 3D (Derivadas Parciales).',
+    component: DerivativeVisualizer, prerequisites: []
+  },
+  {
+    id: ViewState.INTEGRAL, world: 2, order: 2,
+    title: 'INTEGRAL DOBLE', shortTitle: 'Integral', icon: '🧊',
+    description: 'Acumulación de volumen bajo una superficie.',
+    component: IntegralVisualizer, prerequisites: [ViewState.DERIVATIVE_DEFINITION]
+  },
+  {
+    id: ViewState.GRADIENT, world: 2, order: 3,
+    title: 'EL GRADIENTE', shortTitle: 'Gradiente', icon: '🏔️',
+    description: 'La dirección de máximo ascenso.',
+    component: GradientDescent, prerequisites: [ViewState.INTEGRAL]
+  },
+  {
+    id: ViewState.ROTATIONAL, world: 2, order: 4,
+    title: 'ROTACIONAL (CURL)', shortTitle: 'Rotacional', icon: '🌀',
+    description: 'Turbulencia, giro y la regla de la mano derecha.',
+    component: CurlLevel, prerequisites: [ViewState.GRADIENT]
+  },
+  {
+    id: ViewState.DIVERGENCE, world: 2, order: 5,
+    title: 'DIVERGENCIA Y FLUJO', shortTitle: 'Divergencia', icon: '💥',
+    description: 'Fuentes, sumideros y el teorema de la divergencia.',
+    component: DivergenceLevel, prerequisites: [ViewState.ROTATIONAL]
+  },
+  {
+    id: ViewState.GREEN, world: 2, order: 6,
+    title: 'INTEGRAL DE LÍNEA', shortTitle: 'Green', icon: '➰',
+    description: 'Trabajo a lo largo de un lazo y el teorema de Green.',
+    component: GreenLevel, prerequisites: [ViewState.DIVERGENCE]
+  }
+];
+
+export const getLevel = (id: ViewState): LevelDefinition | undefined =>
+  LEVELS.find(level => level.id === id);
+
+export const getWorldLevels = (world: WorldId): LevelDefinition[] =>
+  LEVELS.filter(level => level.world === world).sort((a, b) => a.order - b.order);
+
+// '1-5', or 'BOSS' for the final stage of a world
+export const levelCode = (level: LevelDefinition): string =>
+  level.boss ? 'BOSS' : `${level.world}-${level.order}`;
+
+// Prev/next inside the level's world. The first level goes back to its world selector.
+export const getNeighbours = (id: ViewState): { prev?: ViewState; next?: ViewState } => {
+  const level = getLevel(id);
+  if (!level) return {};
+  const levels = getWorldLevels(level.world);
+  const i = levels.indexOf(level);
+  return {
+    prev: i > 0 ? levels[i - 1].id : WORLDS[level.world].selectView,
+    next: levels[i + 1]?.id
+  };
+};
@@ -4,6 +4,15 @@ export interface Vector2D {
   y: number;
 }
 
+export interface Vector3D {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Arbitrary dimension vector (components in order)
+export type VectorN = number[];
+
 export interface Matrix2x2 {
   a: number; // Row 1, Col 1
   b: number; // Row 1, Col 2
@@ -11,6 +20,15 @@ export interface Matrix2x2 {
   d: number; // Row 2, Col 2
 }
 
+export interface Matrix3x3 {
+  a: number; b: number; c: number; // Row 1
+  d: number; e: number; f: number; // Row 2
+  g: number; h: number; i: number; // Row 3
+}
+
+// Arbitrary size matrix, row-major (m[row][col])
+export type MatrixN = number[][];
+
 export enum ViewState {
   HOME = 'HOME',
   
@@ -32,6 +50,8 @@ export enum ViewState {
   GRADIENT = 'GRADIENT',
   INTEGRAL = 'INTEGRAL',
   ROTATIONAL = 'ROTATIONAL', // New Level
+  DIVERGENCE = 'DIVERGENCE',
+  GREEN = 'GREEN',
 
   COMING_SOON = 'COMING_SOON',
   THEORY = 'THEORY'
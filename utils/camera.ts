@@ -0,0 +1,235 @@
+import { Vector2D, Vector3D } from '../types';
+import { EPSILON, add3, sub3, scale3, dot3, cross3, norm3, normalize3 } from './linearAlgebra';
+
+// Screen space: origin top-left, Y down. View space: X right, Y up, Z into the screen (bigger Z = further).
+
+export type ProjectionMode = 'orthographic' | 'perspective';
+export type ViewPreset = 'top' | 'front' | 'side' | 'iso';
+
+export interface Quaternion { w: number; x: number; y: number; z: number; }
+
+export interface CameraState {
+  orientation: Quaternion; // World -> view rotation
+  pan: Vector2D;           // Screen offset (px)
+  scale: number;           // Pixels per world unit (at the focal plane in perspective)
+  projection: ProjectionMode;
+  distance: number;        // Eye distance to the focal plane (world units), perspective only
+}
+
+export interface Viewport { width: number; height: number; }
+
+// Screen position plus view depth (for painter's sorting)
+export interface ProjectedPoint { x: number; y: number; z: number; }
+
+export interface Ray { origin: Vector3D; direction: Vector3D; }
+
+export const DEFAULT_DISTANCE = 25;
+// Points closer than this to the eye are clamped so perspective never divides by ~0
+const NEAR_PLANE = 0.1;
+// Orthographic rays start well behind the scene so every visible point has t > 0
+const ORTHO_RAY_OFFSET = 1e4;
+
+// --- QUATERNIONS ---
+export const IDENTITY_QUAT: Quaternion = { w: 1, x: 0, y: 0, z: 0 };
+
+export const quatMultiply = (q: Quaternion, r: Quaternion): Quaternion => ({
+  w: q.w * r.w - q.x * r.x - q.y * r.y - q.z * r.z,
+  x: q.w * r.x + q.x * r.w + q.y * r.z - q.z * r.y,
+  y: q.w * r.y - q.x * r.z + q.y * r.w + q.z * r.x,
+  z: q.w * r.z + q.x * r.y - q.y * r.x + q.z * r.w
+});
+
+export const quatConjugate = (q: Quaternion): Quaternion => ({ w: q.w, x: -q.x, y: -q.y, z: -q.z });
+
+export const quatNormalize = (q: Quaternion): Quaternion => {
+  const len = Math.sqrt(q.w * q.w + q.x * q.x + q.y * q.y + q.z * q.z);
+  return len < EPSILON ? { ...IDENTITY_QUAT } : { w: q.w / len, x: q.x / len, y: q.y / len, z: q.z / len };
+};
+
+export const quatFromAxisAngle = (axis: Vector3D, angle: number): Quaternion => {
+  const n = normalize3(axis);
+  const s = Math.sin(angle / 2);
+  return { w: Math.cos(angle / 2), x: n.x * s, y: n.y * s, z: n.z * s };
+};
+
+// Same rotation as rotateX(rotateY(p, yaw), pitch), the convention used by the levels
+export const quatFromPitchYaw = (pitch: number, yaw: number): Quaternion =>
+  quatMultiply(quatFromAxisAngle({ x: 1, y: 0, z: 0 }, pitch), quatFromAxisAngle({ x: 0, y: 1, z: 0 }, yaw));
+
+// v' = v + 2w(u x v) + 2u x (u x v)
+export const rotateByQuat = (v: Vector3D, q: Quaternion): Vector3D => {
+  const u = { x: q.x, y: q.y, z: q.z };
+  const t = scale3(cross3(u, v), 2);
+  return add3(add3(v, scale3(t, q.w)), cross3(u, t));
+};
+
+// --- CAMERA ---
+export const VIEW_PRESETS: Record<ViewPreset, Quaternion> = {
+  front: IDENTITY_QUAT,
+  top: quatFromPitchYaw(-Math.PI / 2, 0),
+  side: quatFromPitchYaw(0, Math.PI / 2),
+  iso: quatFromPitchYaw(-Math.atan(1 / Math.SQRT2), Math.PI / 4)
+};
+
+export const createCamera = (options: Partial<CameraState> & { pitch?: number; yaw?: number } = {}): CameraState => {
+  const { pitch, yaw, ...rest } = options;
+  return {
+    orientation: pitch !== undefined || yaw !== undefined ? quatFromPitchYaw(pitch ?? 0, yaw ?? 0) : IDENTITY_QUAT,
+    pan: { x: 0, y: 0 },
+    scale: 40,
+    projection: 'orthographic',
+    distance: DEFAULT_DISTANCE,
+    ...rest
+  };
+};
+
+export const toViewSpace = (cam: CameraState, p: Vector3D): Vector3D => rotateByQuat(p, cam.orientation);
+export const toWorldSpace = (cam: CameraState, p: Vector3D): Vector3D => rotateByQuat(p, quatConjugate(cam.orientation));
+
+// Unit vector pointing from the eye into the scene, in world space
+export const viewDirection = (cam: CameraState): Vector3D => toWorldSpace(cam, { x: 0, y: 0, z: 1 });
+
+const perspectiveFactor = (cam: CameraState, depth: number): number =>
+  cam.projection === 'perspective' ? cam.distance / Math.max(cam.distance + depth, NEAR_PLANE) : 1;
+
+export const projectPoint = (cam: CameraState, p: Vector3D, vp: Viewport): ProjectedPoint => {
+  const r = toViewSpace(cam, p);
+  const k = cam.scale * perspectiveFactor(cam, r.z);
+  return {
+    x: vp.width / 2 + cam.pan.x + r.x * k,
+    y: vp.height / 2 + cam.pan.y - r.y * k,
+    z: r.z
+  };
+};
+
+// Ray (world space) through a screen pixel. Inverse of projectPoint.
+export const screenToRay = (cam: CameraState, screen: Vector2D, vp: Viewport): Ray => {
+  const nx = (screen.x - vp.width / 2 - cam.pan.x) / cam.scale;
+  const ny = -(screen.y - vp.height / 2 - cam.pan.y) / cam.scale;
+
+  const origin: Vector3D = cam.projection === 'perspective'
+    ? { x: 0, y: 0, z: -cam.distance }
+    : { x: nx, y: ny, z: -ORTHO_RAY_OFFSET };
+  const direction: Vector3D = cam.projection === 'perspective'
+    ? normalize3({ x: nx, y: ny, z: cam.distance })
+    : { x: 0, y: 0, z: 1 };
+
+  return { origin: toWorldSpace(cam, origin), direction: toWorldSpace(cam, direction) };
+};
+
+// Null when the ray is parallel to the plane or the hit is behind the eye
+export const intersectRayPlane = (ray: Ray, planePoint: Vector3D, planeNormal: Vector3D): Vector3D | null => {
+  const denom = dot3(ray.direction, planeNormal);
+  if (Math.abs(denom) < EPSILON) return null;
+  const t = dot3(sub3(planePoint, ray.origin), planeNormal) / denom;
+  if (t < 0) return null;
+  return add3(ray.origin, scale3(ray.direction, t));
+};
+
+// First hit of a ray with the surface y = height(x, z) over the square |x|, |z| <= range.
+// Marches the ray and refines the crossing by bisection.
+export const intersectRayHeightfield = (ray: Ray, height: (x: number, z: number) => number, range: number, samples = 200): Vector3D | null => {
+  const { origin: o, direction: d } = ray;
+  const inRange = (p: Vector3D) => Math.abs(p.x) <= range && Math.abs(p.z) <= range;
+
+  // Vertical ray (top view): the hit is directly below/above the origin
+  if (Math.abs(d.x) < EPSILON && Math.abs(d.z) < EPSILON) {
+    return inRange(o) ? { x: o.x, y: height(o.x, o.z), z: o.z } : null;
+  }
+
+  // Clip the ray against the vertical slabs of the square
+  let tMin = 0;
+  let tMax = Infinity;
+  for (const axis of ['x', 'z'] as const) {
+    if (Math.abs(d[axis]) < EPSILON) {
+      if (Math.abs(o[axis]) > range) return null;
+      continue;
+    }
+    const t1 = (-range - o[axis]) / d[axis];
+    const t2 = (range - o[axis]) / d[axis];
+    tMin = Math.max(tMin, Math.min(t1, t2));
+    tMax = Math.min(tMax, Math.max(t1, t2));
+  }
+  if (tMin > tMax) return null;
+
+  const at = (t: number) => add3(o, scale3(d, t));
+  const gap = (t: number) => { const p = at(t); return p.y - height(p.x, p.z); };
+
+  const dt = (tMax - tMin) / samples;
+  let prevT = tMin;
+  let prevGap = gap(prevT);
+  for (let i = 1; i <= samples; i++) {
+    const t = tMin + i * dt;
+    const g = gap(t);
+    if (Math.sign(g) !== Math.sign(prevGap)) {
+      let lo = prevT, hi = t;
+      for (let j = 0; j < 20; j++) {
+        const mid = (lo + hi) / 2;
+        if (Math.sign(gap(mid)) === Math.sign(prevGap)) lo = mid; else hi = mid;
+      }
+      return at((lo + hi) / 2);
+    }
+    prevT = t;
+    prevGap = g;
+  }
+  return null;
+};
+
+// World point under the cursor on a plane. Without a normal the plane faces the camera,
+// so a dragged handle keeps its depth and stays exactly under the cursor.
+export const pickOnPlane = (cam: CameraState, screen: Vector2D, vp: Viewport, planePoint: Vector3D, planeNormal?: Vector3D): Vector3D | null =>
+  intersectRayPlane(screenToRay(cam, screen, vp), planePoint, planeNormal ?? viewDirection(cam));
+
+// Index of the closest point within `radius` px of the cursor, or -1
+export const pickNearest = (cam: CameraState, screen: Vector2D, vp: Viewport, points: Vector3D[], radius = 20): number => {
+  let best = -1;
+  let bestDist = radius;
+  points.forEach((p, i) => {
+    const s = projectPoint(cam, p, vp);
+    const d = Math.hypot(screen.x - s.x, screen.y - s.y);
+    if (d < bestDist) { best = i; bestDist = d; }
+  });
+  return best;
+};
+
+// --- INTERACTION ---
+// Shoemake arcball: screen point -> unit sphere centered on the viewport (view space, facing the viewer)
+const toArcball = (screen: Vector2D, vp: Viewport): Vector3D => {
+  const radius = Math.min(vp.width, vp.height) / 2;
+  const x = (screen.x - vp.width / 2) / radius;
+  const y = -(screen.y - vp.height / 2) / radius;
+  const d2 = x * x + y * y;
+  if (d2 <= 1) return { x, y, z: -Math.sqrt(1 - d2) };
+  const len = Math.sqrt(d2);
+  return { x: x / len, y: y / len, z: 0 };
+};
+
+export const orbit = (cam: CameraState, from: Vector2D, to: Vector2D, vp: Viewport): CameraState => {
+  const a = toArcball(from, vp);
+  const b = toArcball(to, vp);
+  const axis = cross3(a, b);
+  if (norm3(axis) < EPSILON) return cam;
+  const angle = Math.acos(Math.max(-1, Math.min(1, dot3(a, b))));
+  // Rotation happens in view space, so it is applied after the current orientation
+  const delta = quatFromAxisAngle(axis, angle);
+  return { ...cam, orientation: quatNormalize(quatMultiply(delta, cam.orientation)) };
+};
+
+export const panBy = (cam: CameraState, dx: number, dy: number): CameraState =>
+  ({ ...cam, pan: { x: cam.pan.x + dx, y: cam.pan.y + dy } });
+
+// Zoom keeping the point under the cursor fixed (on the focal plane)
+export const zoomAt = (cam: CameraState, screen: Vector2D, factor: number, vp: Viewport, minScale = 10, maxScale = 200): CameraState => {
+  const scale = Math.max(minScale, Math.min(maxScale, cam.scale * factor));
+  const k = scale / cam.scale;
+  const cx = screen.x - vp.width / 2;
+  const cy = screen.y - vp.height / 2;
+  return {
+    ...cam,
+    scale,
+    pan: { x: cx - (cx - cam.pan.x) * k, y: cy - (cy - cam.pan.y) * k }
+  };
+};
+
+export const applyPreset = (cam: CameraState, preset: ViewPreset): CameraState =>
+  ({ ...cam, orientation: VIEW_PRESETS[preset] });
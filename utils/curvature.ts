@@ -0,0 +1,77 @@
+import { Vector2D } from '../types';
+import { Hessian2 } from './optimizers';
+import { eigen2x2 } from './eigen';
+
+// Second-order information at a point of z = f(x, y). The Hessian is symmetric, so it has two
+// real eigenvalues with perpendicular eigenvectors: the directions along which f bends the most
+// and the least, and how much (the second directional derivative uᵀHu there). Where ∇f = 0 they
+// are the principal curvatures of the surface, and their signs classify the critical point.
+
+export type CriticalKind = 'minimum' | 'maximum' | 'saddle' | 'degenerate';
+
+export const CRITICAL_KINDS: Record<CriticalKind, { name: string; color: string; rule: string; description: string }> = {
+  minimum: { name: 'Mínimo', color: '#4ade80', rule: 'λ₁ ≥ λ₂ > 0', description: 'Se curva hacia arriba en todas las direcciones: un valle.' },
+  maximum: { name: 'Máximo', color: '#f87171', rule: '0 > λ₁ ≥ λ₂', description: 'Se curva hacia abajo en todas las direcciones: una cima.' },
+  saddle: { name: 'Silla', color: '#facc15', rule: 'λ₁ > 0 > λ₂', description: 'Sube en una dirección principal y baja en la otra.' },
+  degenerate: { name: 'Degenerado', color: '#94a3b8', rule: 'algún λ = 0', description: 'El test de la segunda derivada no decide: hacen falta términos de orden superior.' }
+};
+
+// Eigenvalues this small (relative to the largest, or absolutely) count as zero
+const ZERO_EIGENVALUE = 1e-6;
+// |∇f| below this counts as a critical point (the probe is dragged by hand)
+export const CRITICAL_GRADIENT = 0.05;
+
+export interface CurvatureAnalysis {
+  eigenvalues: [number, number];      // λ₁ ≥ λ₂
+  directions: [Vector2D, Vector2D];   // Unit eigenvectors, perpendicular
+  determinant: number;                // λ₁·λ₂ = f_xx·f_yy - f_xy²
+  trace: number;                      // λ₁ + λ₂ = f_xx + f_yy
+  kind: CriticalKind;                 // What the point is if ∇f = 0 there
+}
+
+export const analyzeHessian = (hessian: Hessian2): CurvatureAnalysis => {
+  const { spaces } = eigen2x2({ a: hessian.xx, b: hessian.xy, c: hessian.xy, d: hessian.yy });
+  const first = spaces[0];
+  const last = spaces[spaces.length - 1];
+  const eigenvalues: [number, number] = [first.value, last.value];
+  const e1 = first.basis[0];
+  const directions: [Vector2D, Vector2D] = [e1, { x: -e1.y, y: e1.x }];
+
+  const zero = ZERO_EIGENVALUE * Math.max(1, Math.abs(eigenvalues[0]), Math.abs(eigenvalues[1]));
+  const kind: CriticalKind = eigenvalues.some(l => Math.abs(l) <= zero) ? 'degenerate'
+    : eigenvalues[1] > 0 ? 'minimum'
+    : eigenvalues[0] < 0 ? 'maximum'
+    : 'saddle';
+
+  return {
+    eigenvalues, directions, kind,
+    determinant: hessian.xx * hessian.yy - hessian.xy * hessian.xy,
+    trace: hessian.xx + hessian.yy
+  };
+};
+
+const NEWTON_ITERATIONS = 30;
+const NEWTON_TOLERANCE = 1e-10;
+
+// Nearest critical point by Newton's method on ∇f = 0 (finds saddles and maxima too, unlike descent).
+// Null when the Hessian turns singular or the iteration leaves `range`.
+export const findCriticalPoint = (
+  gradient: (x: number, y: number) => Vector2D,
+  hessian: (x: number, y: number) => Hessian2,
+  start: Vector2D,
+  range: number
+): Vector2D | null => {
+  let p = start;
+  for (let k = 0; k < NEWTON_ITERATIONS; k++) {
+    const g = gradient(p.x, p.y);
+    if (Math.hypot(g.x, g.y) < NEWTON_TOLERANCE) return p;
+    const h = hessian(p.x, p.y);
+    const det = h.xx * h.yy - h.xy * h.xy;
+    if (!(Math.abs(det) > 1e-12)) return null;
+    // p ← p - H⁻¹∇f
+    p = { x: p.x - (h.yy * g.x - h.xy * g.y) / det, y: p.y - (h.xx * g.y - h.xy * g.x) / det };
+    if (!(Math.abs(p.x) <= range && Math.abs(p.y) <= range)) return null;
+  }
+  const g = gradient(p.x, p.y);
+  return Math.hypot(g.x, g.y) < CRITICAL_GRADIENT ? p : null;
+};
@@ -0,0 +1,28 @@
+// The derivative as a limit: g'(t) = lim (g(t + h) - g(t)) / h as h → 0, and what floating point
+// does to it. The truncation error shrinks like |g''|·h/2, but g(t + h) - g(t) cancels catastrophically:
+// its rounding error ~ ε·|g(t)| is divided by h, so below h ≈ √ε ≈ 1e-8 the quotient gets worse again.
+
+export const MIN_H_EXPONENT = -16;   // log10 |h|: past this, t + h == t for most t
+export const MAX_H_EXPONENT = 0.5;
+
+export const differenceQuotient = (g: (t: number) => number, t: number, h: number): number => (g(t + h) - g(t)) / h;
+
+export interface QuotientRow {
+  h: number;
+  quotient: number;
+  error: number;     // |quotient - g'(t)|
+}
+
+// Quotients for h = 10^exponent, ascending h
+export const quotientTable = (g: (t: number) => number, t: number, exact: number, exponents: number[]): QuotientRow[] =>
+  exponents.map(e => {
+    const h = 10 ** e;
+    const quotient = differenceQuotient(g, t, h);
+    return { h, quotient, error: Math.abs(quotient - exact) };
+  });
+
+// Every quarter decade, for the error curve
+export const SWEEP_EXPONENTS = Array.from({ length: (0 - MIN_H_EXPONENT) * 4 + 1 }, (_, k) => MIN_H_EXPONENT + k / 4);
+
+// Every other decade, for the table
+export const TABLE_EXPONENTS = [0, -2, -4, -6, -8, -10, -12, -14, -16];
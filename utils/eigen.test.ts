@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { eigen2x2, eigen3x3, complexOrbit2D, isEigenvector } from './eigen';
+import { toMatrixN, transform2x2, transform3x3 } from './linearAlgebra';
+import { Matrix2x2, Matrix3x3 } from '../types';
+
+const matrix3 = (rows: number[][]): Matrix3x3 => {
+  const [[a, b, c], [d, e, f], [g, h, i]] = rows;
+  return { a, b, c, d, e, f, g, h, i };
+};
+
+// A·v = λ·v for every basis vector of every eigenspace
+const expectEigenpairs2 = (m: Matrix2x2) => eigen2x2(m).spaces.forEach(({ value, basis }) => basis.forEach(v => {
+  const image = transform2x2(v, m);
+  expect(image.x).toBeCloseTo(value * v.x, 9);
+  expect(image.y).toBeCloseTo(value * v.y, 9);
+}));
+const expectEigenpairs3 = (m: Matrix3x3) => eigen3x3(m).spaces.forEach(({ value, basis }) => basis.forEach(v => {
+  const image = transform3x3(v, m);
+  expect(image.x).toBeCloseTo(value * v.x, 9);
+  expect(image.y).toBeCloseTo(value * v.y, 9);
+  expect(image.z).toBeCloseTo(value * v.z, 9);
+}));
+
+// [λ, algebraic multiplicity, eigenvectors found] of each real eigenspace
+const summary = <V>(spaces: { value: number; multiplicity: number; basis: V[] }[]) =>
+  spaces.map(s => [Math.round(s.value * 1e9) / 1e9, s.multiplicity, s.basis.length]);
+
+describe('eigen2x2', () => {
+  it('finds distinct eigenvalues, largest first', () => {
+    const m = { a: 2, b: 1, c: 1, d: 2 };
+    const { kind, spaces } = eigen2x2(m);
+    expect(kind).toBe('distinct');
+    expect(spaces.map(s => s.value)).toEqual([expect.closeTo(3, 12), expect.closeTo(1, 12)]);
+    expectEigenpairs2(m);
+  });
+
+  it('gives λI the whole plane', () => {
+    const { kind, spaces } = eigen2x2({ a: 2, b: 0, c: 0, d: 2 });
+    expect(kind).toBe('repeated');
+    expect(summary(spaces)).toEqual([[2, 2, 2]]);
+  });
+
+  it('flags a shear as defective', () => {
+    const m = { a: 1, b: 1, c: 0, d: 1 };
+    const { kind, spaces } = eigen2x2(m);
+    expect(kind).toBe('defective');
+    expect(summary(spaces)).toEqual([[1, 2, 1]]);
+    expect(spaces[0].basis[0].x).toBeCloseTo(1, 12);
+    expectEigenpairs2(m);
+  });
+
+  it('describes a rotation as a complex pair', () => {
+    const m = { a: 0, b: -2, c: 2, d: 0 };
+    const { kind, spaces, complex } = eigen2x2(m);
+    expect(kind).toBe('complex');
+    expect(spaces).toHaveLength(0);
+    expect(complex!.re).toBeCloseTo(0, 12);
+    expect(complex!.im).toBeCloseTo(2, 12);
+    expect(complex!.modulus).toBeCloseTo(2, 12);
+    expect(complex!.angle).toBeCloseTo(Math.PI / 2, 12);
+    // A^1 on the invariant plane is A itself
+    const v = { x: 0.3, y: -1.2 };
+    const image = complexOrbit2D(complex!, v, 1)!;
+    const expected = transform2x2(v, m);
+    expect(image.x).toBeCloseTo(expected.x, 9);
+    expect(image.y).toBeCloseTo(expected.y, 9);
+  });
+});
+
+describe('eigen3x3', () => {
+  it('solves a symmetric matrix with three distinct eigenvalues', () => {
+    const m = matrix3([[2, 1, 0], [1, 3, 1], [0, 1, 4]]);
+    const { kind, spaces } = eigen3x3(m);
+    expect(kind).toBe('distinct');
+    expect(spaces.map(s => s.value).reduce((s, v) => s + v, 0)).toBeCloseTo(9, 9); // Trace
+    expectEigenpairs3(m);
+  });
+
+  it('finds a repeated eigenvalue with a full plane of eigenvectors', () => {
+    const m = matrix3([[2, 0, 0], [0, 2, 0], [0, 0, 5]]);
+    const { kind, spaces } = eigen3x3(m);
+    expect(kind).toBe('repeated');
+    expect(summary(spaces)).toEqual([[5, 1, 1], [2, 2, 2]]);
+    expectEigenpairs3(m);
+  });
+
+  it('flags defective matrices', () => {
+    const jordan = eigen3x3(matrix3([[2, 1, 0], [0, 2, 1], [0, 0, 2]]));
+    expect(jordan.kind).toBe('defective');
+    expect(summary(jordan.spaces)).toEqual([[2, 3, 1]]);
+
+    const m = matrix3([[3, 0, 0], [0, 2, 1], [0, 0, 2]]);
+    const { kind, spaces } = eigen3x3(m);
+    expect(kind).toBe('defective');
+    expect(summary(spaces)).toEqual([[3, 1, 1], [2, 2, 1]]);
+    expectEigenpairs3(m);
+  });
+
+  it('splits a rotation about an axis into the axis and a complex pair', () => {
+    const m = matrix3([[0, -1, 0], [1, 0, 0], [0, 0, 2]]);
+    const { kind, spaces, complex } = eigen3x3(m);
+    expect(kind).toBe('complex');
+    expect(spaces).toHaveLength(1);
+    expect(spaces[0].value).toBeCloseTo(2, 9);
+    expect(Math.abs(spaces[0].basis[0].z)).toBeCloseTo(1, 9);
+    expect(complex!.im).toBeCloseTo(1, 9);
+    // A·real = re·real - im·imag
+    const image = transform3x3(complex!.real, m);
+    (['x', 'y', 'z'] as const).forEach(k =>
+      expect(image[k]).toBeCloseTo(complex!.re * complex!.real[k] - complex!.im * complex!.imag[k], 9));
+  });
+});
+
+describe('isEigenvector', () => {
+  it('accepts vectors that stay on their line, including those sent to 0', () => {
+    const m = toMatrixN({ a: 1, b: 2, c: 2, d: 4 });
+    expect(isEigenvector(m, [1, 2])).toBe(true);
+    expect(isEigenvector(m, [2, -1])).toBe(true); // λ = 0
+    expect(isEigenvector(m, [1, 0])).toBe(false);
+    expect(isEigenvector(m, [0, 0])).toBe(false);
+  });
+});
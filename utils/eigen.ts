@@ -0,0 +1,232 @@
+import { Vector2D, Vector3D, Matrix2x2, Matrix3x3, MatrixN, VectorN } from '../types';
+import {
+  EPSILON, cross3, dot3, norm3, normalize2, normalize3, scale3, transform3x3, determinant3x3, toMatrixN, transformN, normN, dotN, inverse2x2
+} from './linearAlgebra';
+
+// Eigenvalues / eigenvectors of any 2x2 or 3x3 real matrix, including the cases the
+// level wants to show: repeated (λI), defective (shear-like) and complex-conjugate pairs.
+
+export interface Eigenspace<V> {
+  value: number;
+  multiplicity: number;   // Algebraic: how many times λ is a root of the characteristic polynomial
+  basis: V[];             // Orthonormal; fewer vectors than `multiplicity` = defective
+}
+
+// λ = re ± im·i (im > 0). No real line survives; the plane spanned by `real` and `imag`
+// does, and A acts on it as a rotation + scaling:
+//   A·real = re·real - im·imag,   A·imag = im·real + re·imag
+export interface ComplexPair<V> {
+  re: number;
+  im: number;
+  modulus: number;        // |λ|: scaling per application
+  angle: number;          // arg(λ) in radians: rotation per application
+  real: V;
+  imag: V;
+}
+
+export type EigenKind = 'distinct' | 'repeated' | 'defective' | 'complex';
+
+export interface EigenDecomposition<V> {
+  kind: EigenKind;
+  spaces: Eigenspace<V>[];          // Real eigenvalues, largest first
+  complex: ComplexPair<V> | null;
+}
+
+// Roots closer than this (relative) are treated as one repeated eigenvalue
+const ROOT_TOLERANCE = 1e-6;
+// Rows / cross products below this (relative to the matrix size) count as zero when finding null spaces
+const RANK_TOLERANCE = 1e-6;
+
+const classify = <V>(spaces: Eigenspace<V>[], complex: ComplexPair<V> | null): EigenKind => {
+  if (complex) return 'complex';
+  if (spaces.some(s => s.basis.length < s.multiplicity)) return 'defective';
+  if (spaces.some(s => s.multiplicity > 1)) return 'repeated';
+  return 'distinct';
+};
+
+// Merges numerically equal roots, largest first
+const groupRoots = (roots: number[], size: number): { value: number; multiplicity: number }[] => {
+  const sorted = [...roots].sort((a, b) => b - a);
+  const groups: { sum: number; count: number }[] = [];
+  sorted.forEach(r => {
+    const last = groups[groups.length - 1];
+    if (last && Math.abs(last.sum / last.count - r) <= ROOT_TOLERANCE * Math.max(1, size)) {
+      last.sum += r; last.count++;
+    } else {
+      groups.push({ sum: r, count: 1 });
+    }
+  });
+  return groups.map(g => ({ value: g.sum / g.count, multiplicity: g.count }));
+};
+
+// Eigenvectors are only defined up to sign: show the one whose first non-zero component is positive
+const orient2 = (v: Vector2D): Vector2D => (Math.abs(v.x) > EPSILON ? v.x : v.y) < 0 ? { x: -v.x, y: -v.y } : v;
+const orient3 = (v: Vector3D): Vector3D => (Math.abs(v.x) > EPSILON ? v.x : Math.abs(v.y) > EPSILON ? v.y : v.z) < 0 ? scale3(v, -1) : v;
+
+// Largest entry (at least 1), so tolerances scale with the matrix
+const matrixSize = (m: Matrix2x2 | Matrix3x3) => Math.max(1, ...toMatrixN(m).flat().map(Math.abs));
+
+// --- 2x2 ---
+// Rotation + scaling block of a 2x2 with complex eigenvalues (requires b ≠ 0, which always holds then).
+// Eigenvector of re + im·i is (b, re - a) + i·(0, im).
+const complexPair2x2 = (m: Matrix2x2, re: number, im: number): ComplexPair<Vector2D> => ({
+  re, im,
+  modulus: Math.hypot(re, im),
+  angle: Math.atan2(im, re),
+  real: { x: m.b, y: re - m.a },
+  imag: { x: 0, y: im }
+});
+
+export const eigen2x2 = (m: Matrix2x2): EigenDecomposition<Vector2D> => {
+  const size = matrixSize(m);
+  const half = (m.a + m.d) / 2;
+  // λ = half ± √disc, with disc = ((a - d)/2)² + bc (no cancellation for symmetric matrices)
+  const disc = ((m.a - m.d) / 2) ** 2 + m.b * m.c;
+
+  if (disc < -ROOT_TOLERANCE * size * size) {
+    const complex = complexPair2x2(m, half, Math.sqrt(-disc));
+    return { kind: 'complex', spaces: [], complex };
+  }
+
+  const root = Math.sqrt(Math.max(disc, 0));
+  const spaces = groupRoots([half + root, half - root], size).map(({ value, multiplicity }) => {
+    // Null space of A - λI: perpendicular to its largest row
+    const r1 = { x: m.a - value, y: m.b };
+    const r2 = { x: m.c, y: m.d - value };
+    const row = Math.hypot(r1.x, r1.y) >= Math.hypot(r2.x, r2.y) ? r1 : r2;
+    const basis = Math.hypot(row.x, row.y) < RANK_TOLERANCE * size
+      ? [{ x: 1, y: 0 }, { x: 0, y: 1 }]            // A = λI: every vector
+      : [orient2(normalize2({ x: -row.y, y: row.x }))];
+    return { value, multiplicity, basis };
+  });
+  return { kind: classify(spaces, null), spaces, complex: null };
+};
+
+// --- 3x3 ---
+const rowsOf = (m: Matrix3x3): Vector3D[] => [
+  { x: m.a, y: m.b, z: m.c },
+  { x: m.d, y: m.e, z: m.f },
+  { x: m.g, y: m.h, z: m.i }
+];
+const columnsOf = (m: Matrix3x3): Vector3D[] => [
+  { x: m.a, y: m.d, z: m.g },
+  { x: m.b, y: m.e, z: m.h },
+  { x: m.c, y: m.f, z: m.i }
+];
+const shift3x3 = (m: Matrix3x3, value: number): Matrix3x3 => ({ ...m, a: m.a - value, e: m.e - value, i: m.i - value });
+
+const largest = (vs: Vector3D[]): Vector3D => vs.reduce((best, v) => norm3(v) > norm3(best) ? v : best);
+
+// Any unit vector perpendicular to n
+const perpendicular = (n: Vector3D): Vector3D =>
+  normalize3(Math.abs(n.x) < 0.9 ? cross3(n, { x: 1, y: 0, z: 0 }) : cross3(n, { x: 0, y: 1, z: 0 }));
+
+// Orthonormal basis of the null space of B, from the rank of its rows
+const nullSpace3x3 = (b: Matrix3x3, size: number): Vector3D[] => {
+  const [r1, r2, r3] = rowsOf(b);
+  const normal = largest([cross3(r1, r2), cross3(r1, r3), cross3(r2, r3)]);
+  if (norm3(normal) > RANK_TOLERANCE * size * size) return [orient3(normalize3(normal))];    // Rank 2: a line
+  const row = largest([r1, r2, r3]);
+  if (norm3(row) > RANK_TOLERANCE * size) {                                          // Rank 1: a plane
+    const u = orient3(perpendicular(row));
+    return [u, orient3(normalize3(cross3(normalize3(row), u)))];
+  }
+  return [{ x: 1, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }, { x: 0, y: 0, z: 1 }];          // A = λI
+};
+
+// Real roots of λ³ - tr·λ² + c1·λ - det (c1 = sum of the principal 2x2 minors), or one real root
+// plus a complex pair. Cardano for one real root, the trigonometric form for three.
+const characteristicRoots = (tr: number, c1: number, det: number, size: number): { real: number[]; complex: { re: number; im: number } | null } => {
+  // Depressed cubic μ³ + pμ + q with λ = μ + tr/3
+  const shift = tr / 3;
+  const p = c1 - tr * tr / 3;
+  const q = -2 * tr ** 3 / 27 + tr * c1 / 3 - det;
+  const tol = ROOT_TOLERANCE * size ** 3;
+  const disc = (q / 2) ** 2 + (p / 3) ** 3;
+
+  if (Math.abs(p) < tol && Math.abs(q) < tol) return { real: [shift, shift, shift], complex: null };
+
+  if (disc > tol * tol) {
+    const s = Math.sqrt(disc);
+    const r = Math.cbrt(-q / 2 + s) + Math.cbrt(-q / 2 - s) + shift;
+    // Deflate: the other two roots solve λ² + bλ + c = 0
+    const b = r - tr;
+    const c = c1 + b * r;
+    const d = b * b / 4 - c;
+    if (d < 0) return { real: [r], complex: { re: -b / 2, im: Math.sqrt(-d) } };
+    return { real: [r, -b / 2 + Math.sqrt(d), -b / 2 - Math.sqrt(d)], complex: null };
+  }
+
+  const m = 2 * Math.sqrt(Math.max(-p / 3, 0));
+  const phi = Math.acos(Math.max(-1, Math.min(1, m === 0 ? 0 : 3 * q / (p * m)))) / 3;
+  return { real: [0, 1, 2].map(k => m * Math.cos(phi - 2 * Math.PI * k / 3) + shift), complex: null };
+};
+
+// Rotation + scaling block of a 3x3: the plane that A - λI maps everything onto
+// (λ being the real eigenvalue), then the 2x2 recipe inside that plane.
+const complexPair3x3 = (m: Matrix3x3, realValue: number, value: { re: number; im: number }, size: number): ComplexPair<Vector3D> => {
+  const columns = columnsOf(shift3x3(m, realValue));
+  const e1 = normalize3(largest(columns));
+  const normal = largest([cross3(columns[0], columns[1]), cross3(columns[0], columns[2]), cross3(columns[1], columns[2])]);
+  const e2 = norm3(normal) > RANK_TOLERANCE * size * size ? normalize3(cross3(normalize3(normal), e1)) : perpendicular(e1);
+
+  const ae1 = transform3x3(e1, m);
+  const ae2 = transform3x3(e2, m);
+  const restricted: Matrix2x2 = { a: dot3(e1, ae1), b: dot3(e1, ae2), c: dot3(e2, ae1), d: dot3(e2, ae2) };
+  const pair = complexPair2x2(restricted, value.re, value.im);
+  const lift = (v: Vector2D): Vector3D => ({
+    x: e1.x * v.x + e2.x * v.y, y: e1.y * v.x + e2.y * v.y, z: e1.z * v.x + e2.z * v.y
+  });
+  return { ...pair, real: lift(pair.real), imag: lift(pair.imag) };
+};
+
+export const eigen3x3 = (m: Matrix3x3): EigenDecomposition<Vector3D> => {
+  const size = matrixSize(m);
+  const tr = m.a + m.e + m.i;
+  const c1 = (m.a * m.e - m.b * m.d) + (m.a * m.i - m.c * m.g) + (m.e * m.i - m.f * m.h);
+  const roots = characteristicRoots(tr, c1, determinant3x3(m), size);
+
+  const spaces = groupRoots(roots.real, size).map(({ value, multiplicity }) => ({
+    value, multiplicity,
+    basis: nullSpace3x3(shift3x3(m, value), size).slice(0, multiplicity)
+  }));
+  const complex = roots.complex ? complexPair3x3(m, spaces[0].value, roots.complex, size) : null;
+  return { kind: classify(spaces, complex), spaces, complex };
+};
+
+// --- COMPLEX PAIRS: A^s AS A SPIRAL ---
+// A^s on the invariant plane, in (real, imag) coordinates: scale by modulus^s, rotate by -s·angle
+export const complexPower = (pair: ComplexPair<unknown>, coords: Vector2D, s: number): Vector2D => {
+  const k = Math.pow(pair.modulus, s);
+  const cos = Math.cos(s * pair.angle);
+  const sin = Math.sin(s * pair.angle);
+  return { x: k * (cos * coords.x + sin * coords.y), y: k * (-sin * coords.x + cos * coords.y) };
+};
+
+// A^s·v for any 2D vector (s = 1 gives A·v); null when the pair is degenerate
+export const complexOrbit2D = (pair: ComplexPair<Vector2D>, v: Vector2D, s: number): Vector2D | null => {
+  const basis: Matrix2x2 = { a: pair.real.x, b: pair.imag.x, c: pair.real.y, d: pair.imag.y };
+  const inverse = inverse2x2(basis);
+  if (!inverse) return null;
+  const c = complexPower(pair, { x: inverse.a * v.x + inverse.b * v.y, y: inverse.c * v.x + inverse.d * v.y }, s);
+  return { x: basis.a * c.x + basis.b * c.y, y: basis.c * c.x + basis.d * c.y };
+};
+
+// A^s applied to the `real` vector of a 3D pair: the spiral drawn on the invariant plane
+export const complexOrbit3D = (pair: ComplexPair<Vector3D>, s: number): Vector3D => {
+  const c = complexPower(pair, { x: 1, y: 0 }, s);
+  const { x, y, z } = scale3(pair.real, c.x);
+  return { x: x + pair.imag.x * c.y, y: y + pair.imag.y * c.y, z: z + pair.imag.z * c.y };
+};
+
+// v stays on its own line under A: its distance to span(A·v) is below `tolerance`.
+// Vectors sent to 0 (λ = 0) count as well; the zero vector does not.
+export const isEigenvector = (m: MatrixN, v: VectorN, tolerance = 0.1): boolean => {
+  const length = normN(v);
+  if (length < tolerance) return false;
+  const image = transformN(m, v);
+  const imageLength = normN(image);
+  if (imageLength < EPSILON) return true;
+  const along = dotN(v, image) / imageLength;
+  return Math.sqrt(Math.max(length * length - along * along, 0)) < tolerance;
+};
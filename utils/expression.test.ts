@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { parseExpression, compileExpression, formatExpression, ExprNode } from './expression';
+import { compileSurface } from './symbolic';
+
+const SAMPLES = [[0.3, -1.2], [1.7, 0.4], [-2.1, 2.5]];
+
+const expectSameFunction = (a: ExprNode, b: ExprNode) => {
+  const fa = compileExpression(a);
+  const fb = compileExpression(b);
+  SAMPLES.forEach(([x, y]) => expect(fb(x, y)).toBeCloseTo(fa(x, y), 9));
+};
+
+describe('parseExpression', () => {
+  it('accepts pasted notation: π, the minus sign, · and × and superscripts', () => {
+    expectSameFunction(parseExpression('π*x − y·2 × x'), parseExpression('pi*x - y*2*x'));
+    expectSameFunction(parseExpression('3x²y + x¹⁰'), parseExpression('3*x^2*y + x^10'));
+    expect(compileExpression(parseExpression('π*x − y·2'))(1, 0.5)).toBeCloseTo(Math.PI - 1, 12);
+    expect(compileExpression(parseExpression('x²·y'))(3, 2)).toBe(18);
+  });
+});
+
+describe('formatExpression', () => {
+  const SOURCES = [
+    'x^2 - 3*x*y + sin(y)', '(x^2 + y^2)/4', 'x*y', 'e*x', 'pi*x^2', '2^-x', '-x^2 + y^3*x',
+    'y^2 + (-1)/3', 'x*(-y)', 'x - (-y)', 'exp(-(x^2 + y^2)/2)', 'abs(x)^(1/2) * y^11', '-2*x*sin(x*y)'
+  ];
+
+  it.each(SOURCES)('writes %s in a form the parser reads back', source => {
+    const node = parseExpression(source);
+    const text = formatExpression(node);
+    expectSameFunction(node, parseExpression(text));
+  });
+
+  it('keeps the readable style', () => {
+    expect(formatExpression(parseExpression('3*x^2 - x*y'))).toBe('3x² - x·y');
+    expect(formatExpression(parseExpression('y^2 + (-1)/3'))).toBe('y² + (-1 / 3)');
+  });
+
+  it('writes symbolic derivatives the parser reads back', () => {
+    const surface = compileSurface('x^3*y - exp(x*y)/3 + sin(x)*y^2');
+    [surface.formula, surface.dx.formula, surface.dy.formula, surface.hessian.xx.formula, surface.hessian.xy.formula]
+      .forEach(formula => expect(() => parseExpression(formula)).not.toThrow());
+  });
+
+  it('never writes a double minus', () => {
+    const { dx } = compileSurface('1/(1/x) + y');
+    expect(dx.formula).not.toContain('--');
+    expectSameFunction(dx.node!, parseExpression(dx.formula));
+    expect(formatExpression({ type: 'neg', arg: { type: 'neg', arg: { type: 'var', name: 'x' } } })).toBe('-(-x)');
+  });
+});
+
@@ -0,0 +1,279 @@
+// Safe math expression parser (no eval) for user-typed functions like "x^2 - 3*x*y + sin(y)".
+//
+// Grammar (lowest to highest precedence):
+//   expr    := term (('+' | '-') term)*
+//   term    := unary (('*' | '/') unary | implicit unary)*   implicit product: 2x, 3(x+1), (x+1)(x-1)
+//   unary   := ('-' | '+') unary | power
+//   power   := primary ('^' unary)?                         right associative, -x^2 = -(x^2), 2^-x ok
+//                                                           x² is read as x^2, as formatExpression writes it
+//   primary := number | constant | variable | func '(' expr ')' | '(' expr ')'
+
+export type BinaryOp = '+' | '-' | '*' | '/' | '^';
+
+export const FUNCTION_NAMES = ['sin', 'cos', 'tan', 'exp', 'log', 'sqrt', 'abs'] as const;
+export type FunctionName = typeof FUNCTION_NAMES[number];
+
+export type ExprNode =
+  | { type: 'num'; value: number }
+  | { type: 'var'; name: string }
+  | { type: 'neg'; arg: ExprNode }
+  | { type: 'binary'; op: BinaryOp; left: ExprNode; right: ExprNode }
+  | { type: 'call'; fn: FunctionName; arg: ExprNode };
+
+export const CONSTANTS: Record<string, number> = { pi: Math.PI, 'π': Math.PI, e: Math.E };
+
+// Accepted spellings that map onto a canonical function
+const FUNCTION_ALIASES: Record<string, FunctionName> = { ln: 'log', sen: 'sin' };
+
+const SUPERSCRIPTS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+const FUNCTIONS: Record<FunctionName, (v: number) => number> = {
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, exp: Math.exp, log: Math.log, sqrt: Math.sqrt, abs: Math.abs
+};
+
+// Message is shown to the user as is; position is the character offset in the source
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+// --- TOKENIZER ---
+type Token =
+  | { kind: 'num'; value: number; pos: number }
+  | { kind: 'ident'; name: string; pos: number }
+  | { kind: 'op'; op: BinaryOp; pos: number }
+  | { kind: 'lparen' | 'rparen' | 'end'; pos: number };
+
+const tokenize = (src: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) { i++; continue; }
+
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(src.slice(i));
+      if (!match || src[i + match[0].length] === '.') throw new ExpressionError(`Número inválido en la posición ${i + 1}`, i);
+      tokens.push({ kind: 'num', value: parseFloat(match[0]), pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[a-zA-Zπθ]/.test(ch)) {
+      const match = /^(π|θ|[a-zA-Z_][a-zA-Z0-9_]*)/.exec(src.slice(i))!;
+      tokens.push({ kind: 'ident', name: match[0].toLowerCase(), pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    // '·', '×' and '**' are common when pasting formulas
+    if (ch === '*' && src[i + 1] === '*') { tokens.push({ kind: 'op', op: '^', pos: i }); i += 2; continue; }
+    if (ch === '·' || ch === '×') { tokens.push({ kind: 'op', op: '*', pos: i }); i++; continue; }
+    if (ch === '−') { tokens.push({ kind: 'op', op: '-', pos: i }); i++; continue; }
+    if (SUPERSCRIPTS.includes(ch)) {
+      let digits = '';
+      for (; i < src.length && SUPERSCRIPTS.includes(src[i]); i++) digits += SUPERSCRIPTS.indexOf(src[i]);
+      tokens.push({ kind: 'op', op: '^', pos: i - digits.length }, { kind: 'num', value: parseInt(digits, 10), pos: i - digits.length });
+      continue;
+    }
+    if ('+-*/^'.includes(ch)) { tokens.push({ kind: 'op', op: ch as BinaryOp, pos: i }); i++; continue; }
+    if (ch === '(') { tokens.push({ kind: 'lparen', pos: i }); i++; continue; }
+    if (ch === ')') { tokens.push({ kind: 'rparen', pos: i }); i++; continue; }
+
+    throw new ExpressionError(`Carácter no válido "${ch}" en la posición ${i + 1}`, i);
+  }
+  tokens.push({ kind: 'end', pos: src.length });
+  return tokens;
+};
+
+// --- PARSER ---
+export const parseExpression = (src: string, variables: readonly string[] = ['x', 'y']): ExprNode => {
+  const tokens = tokenize(src);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const isOp = (t: Token, ...ops: BinaryOp[]): boolean => t.kind === 'op' && ops.includes(t.op);
+
+  const describe = (t: Token): string =>
+    t.kind === 'end' ? 'el final de la expresión'
+      : t.kind === 'num' ? `el número ${t.value}`
+      : t.kind === 'ident' ? `"${t.name}"`
+      : t.kind === 'op' ? `"${t.op}"`
+      : `"${t.kind === 'lparen' ? '(' : ')'}"`;
+
+  const expect = (kind: 'lparen' | 'rparen') => {
+    const t = next();
+    if (t.kind !== kind) {
+      throw new ExpressionError(`Se esperaba "${kind === 'lparen' ? '(' : ')'}" pero se encontró ${describe(t)}`, t.pos);
+    }
+  };
+
+  // Tokens that can start an implicit product operand
+  const startsOperand = (t: Token) => t.kind === 'num' || t.kind === 'ident' || t.kind === 'lparen';
+
+  const parseExpr = (): ExprNode => {
+    let left = parseTerm();
+    while (isOp(peek(), '+', '-')) {
+      const op = (next() as { op: BinaryOp }).op;
+      left = { type: 'binary', op, left, right: parseTerm() };
+    }
+    return left;
+  };
+
+  const parseTerm = (): ExprNode => {
+    let left = parseUnary();
+    for (;;) {
+      const t = peek();
+      if (isOp(t, '*', '/')) {
+        next();
+        left = { type: 'binary', op: (t as { op: BinaryOp }).op, left, right: parseUnary() };
+      } else if (startsOperand(t)) {
+        left = { type: 'binary', op: '*', left, right: parseUnary() };
+      } else {
+        return left;
+      }
+    }
+  };
+
+  const parseUnary = (): ExprNode => {
+    if (isOp(peek(), '-')) { next(); return { type: 'neg', arg: parseUnary() }; }
+    if (isOp(peek(), '+')) { next(); return parseUnary(); }
+    return parsePower();
+  };
+
+  const parsePower = (): ExprNode => {
+    const base = parsePrimary();
+    if (isOp(peek(), '^')) {
+      next();
+      return { type: 'binary', op: '^', left: base, right: parseUnary() };
+    }
+    return base;
+  };
+
+  const parsePrimary = (): ExprNode => {
+    const t = next();
+    if (t.kind === 'num') return { type: 'num', value: t.value };
+    if (t.kind === 'lparen') {
+      const inner = parseExpr();
+      expect('rparen');
+      return inner;
+    }
+    if (t.kind === 'ident') {
+      const fn = FUNCTION_ALIASES[t.name] ?? t.name;
+      if ((FUNCTION_NAMES as readonly string[]).includes(fn)) {
+        if (peek().kind !== 'lparen') throw new ExpressionError(`La función ${t.name} necesita paréntesis: ${t.name}(...)`, t.pos);
+        next();
+        const arg = parseExpr();
+        expect('rparen');
+        return { type: 'call', fn: fn as FunctionName, arg };
+      }
+      if (variables.includes(t.name)) return { type: 'var', name: t.name };
+      if (t.name in CONSTANTS) return { type: 'num', value: CONSTANTS[t.name] };
+      throw new ExpressionError(`"${t.name}" no es una variable (${variables.join(', ')}), constante ni función conocida`, t.pos);
+    }
+    throw new ExpressionError(`Se esperaba un valor pero se encontró ${describe(t)}`, t.pos);
+  };
+
+  if (peek().kind === 'end') throw new ExpressionError('La expresión está vacía', 0);
+  const ast = parseExpr();
+  const rest = peek();
+  if (rest.kind !== 'end') throw new ExpressionError(`Sobra ${describe(rest)} en la posición ${rest.pos + 1}`, rest.pos);
+  return ast;
+};
+
+// --- EVALUATION ---
+// Compiles the tree into nested closures (much faster than re-walking it for every surface sample).
+// Arguments follow the order of `variables`.
+export const compileExpression = (node: ExprNode, variables: readonly string[] = ['x', 'y']): ((...args: number[]) => number) => {
+  const build = (n: ExprNode): ((args: number[]) => number) => {
+    switch (n.type) {
+      case 'num': { const v = n.value; return () => v; }
+      case 'var': {
+        const i = variables.indexOf(n.name);
+        if (i < 0) throw new ExpressionError(`Variable desconocida "${n.name}"`, 0);
+        return args => args[i];
+      }
+      case 'neg': { const a = build(n.arg); return args => -a(args); }
+      case 'call': { const a = build(n.arg); const fn = FUNCTIONS[n.fn]; return args => fn(a(args)); }
+      case 'binary': {
+        const l = build(n.left);
+        const r = build(n.right);
+        switch (n.op) {
+          case '+': return args => l(args) + r(args);
+          case '-': return args => l(args) - r(args);
+          case '*': return args => l(args) * r(args);
+          case '/': return args => l(args) / r(args);
+          case '^': return args => Math.pow(l(args), r(args));
+        }
+      }
+    }
+  };
+  const evaluate = build(node);
+  return (...args: number[]) => evaluate(args);
+};
+
+// --- PRETTY PRINTING ---
+// The output parses back to the same expression: students copy formulas into the inputs
+// Binding strength of each node, used to decide where parentheses are needed
+const precedence = (n: ExprNode): number => {
+  if (n.type === 'binary') return n.op === '+' || n.op === '-' ? 1 : n.op === '^' ? 4 : 2;
+  if (n.type === 'neg') return 3;
+  if (n.type === 'num' && n.value < 0) return 3;
+  return 5;
+};
+
+export const formatNumber = (v: number): string => {
+  if (v === Math.PI) return 'π';
+  if (v === Math.E) return 'e';
+  return Number.isInteger(v) ? String(v) : String(parseFloat(v.toFixed(4)));
+};
+
+// x, x², or a product whose first factor is one of those
+const startsWithVariable = (n: ExprNode): boolean => {
+  if (n.type === 'var') return true;
+  if (n.type !== 'binary') return false;
+  if (n.op === '^') return n.left.type === 'var' && n.right.type === 'num';
+  return n.op === '*' && startsWithVariable(n.left);
+};
+
+// Human readable formula in the style of the level texts: "x² - 3x·y + sin(y)", "(x² + y²) / 4"
+export const formatExpression = (node: ExprNode): string => {
+  const wrap = (n: ExprNode, minPrecedence: number): string =>
+    precedence(n) < minPrecedence ? `(${formatExpression(n)})` : formatExpression(n);
+  // Right-hand operands never start with a bare minus: "2·(-x)", "a - (-b)", "y² + (-1 / 3)"
+  const operand = (n: ExprNode, minPrecedence: number): string => {
+    const text = wrap(n, minPrecedence);
+    return text.startsWith('-') ? `(${text})` : text;
+  };
+
+  switch (node.type) {
+    case 'num': return formatNumber(node.value);
+    case 'var': return node.name;
+    case 'call': return `${node.fn}(${formatExpression(node.arg)})`;
+    case 'neg': return `-${operand(node.arg, 2)}`; // -(-x), never --x
+    case 'binary': {
+      const { op, left, right } = node;
+      switch (op) {
+        case '+': return `${wrap(left, 1)} + ${operand(right, 1)}`;
+        case '-': return `${wrap(left, 1)} - ${operand(right, 2)}`;
+        case '/': return `${wrap(left, 2)} / ${operand(right, 3)}`;
+        case '*': {
+          // Numeric coefficients are written next to variables: 2x, 3x², 2x·sin(y); but x·y, as "xy"
+          // would read as a single name (and so would "ex")
+          const juxtapose = left.type === 'num' && formatNumber(left.value) !== 'e' && startsWithVariable(right);
+          return `${wrap(left, 2)}${juxtapose ? '' : '·'}${operand(right, 2)}`;
+        }
+        case '^': {
+          const base = wrap(left, 5);
+          if (right.type === 'num' && Number.isInteger(right.value) && right.value >= 0 && right.value <= 9) {
+            return base + SUPERSCRIPTS[right.value];
+          }
+          return `${base}^${wrap(right, 5)}`;
+        }
+      }
+    }
+  }
+};
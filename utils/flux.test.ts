@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { circleFlux, signedArea, polygonFlux, divergenceIntegral, isSimplePath, loopWork, workAlong, curlIntegral } from './flux';
+import { FIELD_PRESETS, VectorField, compileField } from './vectorField';
+import { Vector2D } from '../types';
+
+const field = (id: string): VectorField => FIELD_PRESETS.find(p => p.id === id)!;
+
+// Loops of the Green level: a counterclockwise square, a triangle and the default drawn L shape
+const SQUARE: Vector2D[] = [{ x: -1, y: -1 }, { x: 1, y: -1 }, { x: 1, y: 1 }, { x: -1, y: 1 }];
+const TRIANGLE: Vector2D[] = [{ x: -2, y: -1.5 }, { x: 2, y: -1.5 }, { x: 0, y: 2 }];
+const L_SHAPE: Vector2D[] = [
+  { x: -2, y: -2 }, { x: 1, y: -2 }, { x: 1, y: -0.5 }, { x: -0.5, y: -0.5 }, { x: -0.5, y: 2 }, { x: -2, y: 2 }
+];
+
+describe('flux through closed curves', () => {
+  it('matches the divergence integral over the region (divergence theorem)', () => {
+    const custom = compileField({ P: 'x^2*y', Q: 'sin(x) + y^3', R: '' });
+    [field('expansion'), field('varying'), custom].forEach(f => [SQUARE, TRIANGLE, L_SHAPE].forEach(loop => {
+      expect(polygonFlux(f, loop)).toBeCloseTo(divergenceIntegral(f, loop), 6);
+    }));
+  });
+
+  it('is outward whatever the orientation of the vertices', () => {
+    expect(polygonFlux(field('expansion'), SQUARE)).toBeCloseTo(8, 9); // div = 2, area 4
+    expect(polygonFlux(field('expansion'), [...SQUARE].reverse())).toBeCloseTo(8, 9);
+    expect(circleFlux(field('expansion'), { x: 0.5, y: -1 }, 1.5)).toBeCloseTo(2 * Math.PI * 1.5 ** 2, 9);
+    expect(circleFlux(field('vortex'), { x: 0, y: 0 }, 2)).toBeCloseTo(0, 9);
+  });
+
+  it('is NaN when the field is undefined on the curve', () => {
+    expect(polygonFlux(compileField({ P: 'sqrt(x)', Q: '0', R: '' }), SQUARE)).toBeNaN();
+  });
+});
+
+describe('work around closed loops', () => {
+  it('matches the curl integral over the region (Green\'s theorem)', () => {
+    [field('vortex'), field('shear'), field('varying')].forEach(f => [SQUARE, TRIANGLE, L_SHAPE].forEach(loop => {
+      expect(loopWork(f, loop).total).toBeCloseTo(curlIntegral(f, loop), 6);
+    }));
+  });
+
+  it('changes sign with the direction of travel', () => {
+    expect(loopWork(field('vortex'), SQUARE).total).toBeCloseTo(8, 9); // curl = 2, area 4
+    expect(loopWork(field('vortex'), [...SQUARE].reverse()).total).toBeCloseTo(-8, 9);
+    expect(loopWork(field('expansion'), TRIANGLE).total).toBeCloseTo(0, 9);
+  });
+
+  it('accumulates the work along the way', () => {
+    const loop = loopWork(field('vortex'), SQUARE);
+    expect(workAlong(field('vortex'), loop, 0.5).work).toBeCloseTo(4, 9);
+    expect(workAlong(field('vortex'), loop, 0.5).point).toEqual({ x: 1, y: 1 });
+    expect(workAlong(field('vortex'), loop, 1).work).toBeCloseTo(loop.total, 9);
+  });
+});
+
+describe('polygons', () => {
+  it('orients and validates loops', () => {
+    expect(signedArea(SQUARE)).toBe(4);
+    expect(signedArea([...SQUARE].reverse())).toBe(-4);
+    expect(signedArea(L_SHAPE)).toBeCloseTo(8.25, 12);
+    expect(isSimplePath(L_SHAPE, true)).toBe(true);
+    expect(isSimplePath([{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 1, y: 0 }, { x: 0, y: 1 }], true)).toBe(false); // Figure eight
+  });
+});
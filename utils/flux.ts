@@ -0,0 +1,183 @@
+import { Vector2D } from '../types';
+import { VectorField, analyzeField } from './vectorField';
+import { adaptiveSimpson } from './quadrature';
+
+// Flux of a plane field F = <P, Q> through closed curves: ∮ F·n ds, with n the outward unit normal,
+// is how much fluid leaves per unit time. The divergence theorem in the plane says it equals
+// ∬ div F dA over the enclosed region, as long as F is smooth everywhere inside.
+// Its tangential twin, the circulation ∮ F·dr, is at the end of the file (Green's theorem).
+
+const FLUX_TOLERANCE = 1e-9;
+const AREA_TOLERANCE = 1e-8;
+const MIN_DEPTH = 2;
+
+// A non-finite sample (a custom field undefined somewhere, or a singularity) would make
+// adaptiveSimpson split down to its maximum depth everywhere: give up at once instead
+class NotFiniteError extends Error {}
+const finite = (v: number): number => {
+  if (!Number.isFinite(v)) throw new NotFiniteError();
+  return v;
+};
+const orNaN = (compute: () => number): number => {
+  try {
+    return compute();
+  } catch (e) {
+    if (e instanceof NotFiniteError) return NaN;
+    throw e;
+  }
+};
+
+// Net outward flux through the circle of `radius` around `center`: n = (cos θ, sin θ), ds = r dθ
+export const circleFlux = (field: VectorField, center: Vector2D, radius: number): number => orNaN(() =>
+  adaptiveSimpson(theta => {
+    const c = Math.cos(theta);
+    const s = Math.sin(theta);
+    const x = center.x + radius * c;
+    const y = center.y + radius * s;
+    return finite((field.P(x, y) * c + field.Q(x, y) * s) * radius);
+  }, 0, 2 * Math.PI, FLUX_TOLERANCE, MIN_DEPTH));
+
+// Shoelace formula: positive when the vertices go counterclockwise
+export const signedArea = (vertices: Vector2D[]): number => {
+  let sum = 0;
+  for (let k = 0; k < vertices.length; k++) {
+    const a = vertices[k];
+    const b = vertices[(k + 1) % vertices.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return sum / 2;
+};
+
+// Outward unit normal of the edge a → b of a polygon with the given orientation (sign of signedArea)
+export const edgeNormal = (a: Vector2D, b: Vector2D, orientation: number): Vector2D => {
+  const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+  return { x: orientation * (b.y - a.y) / length, y: -orientation * (b.x - a.x) / length };
+};
+
+// Net outward flux through a closed polygon, edge by edge: ∮ F·n ds = ∮ P dy - Q dx counterclockwise
+export const polygonFlux = (field: VectorField, vertices: Vector2D[]): number => orNaN(() => {
+  const orientation = Math.sign(signedArea(vertices)) || 1;
+  let total = 0;
+  for (let k = 0; k < vertices.length; k++) {
+    const a = vertices[k];
+    const b = vertices[(k + 1) % vertices.length];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    total += adaptiveSimpson(t => {
+      const x = a.x + dx * t;
+      const y = a.y + dy * t;
+      return finite(field.P(x, y) * dy - field.Q(x, y) * dx);
+    }, 0, 1, FLUX_TOLERANCE, MIN_DEPTH);
+  }
+  return total * orientation;
+});
+
+// ∬ f dA over a simple polygon. Cut into vertical strips at every vertex abscissa: inside a strip
+// the same edges bound every slice, so the iterated integral only sees smooth integrands.
+const polygonIntegral = (f: (x: number, y: number) => number, vertices: Vector2D[]): number => orNaN(() => {
+  const xs = [...new Set(vertices.map(v => v.x))].sort((a, b) => a - b);
+  const edges = vertices.map((a, k) => [a, vertices[(k + 1) % vertices.length]] as const)
+    .filter(([a, b]) => a.x !== b.x);
+  let total = 0;
+  for (let s = 0; s + 1 < xs.length; s++) {
+    const x0 = xs[s];
+    const x1 = xs[s + 1];
+    const active = edges.filter(([a, b]) => Math.min(a.x, b.x) <= x0 && Math.max(a.x, b.x) >= x1);
+    if (active.length < 2) continue;
+    total += adaptiveSimpson(x => {
+      const ys = active.map(([a, b]) => a.y + (x - a.x) * (b.y - a.y) / (b.x - a.x)).sort((p, q) => p - q);
+      let slice = 0;
+      for (let k = 0; k + 1 < ys.length; k += 2) {
+        slice += adaptiveSimpson(y => finite(f(x, y)), ys[k], ys[k + 1], AREA_TOLERANCE, MIN_DEPTH);
+      }
+      return slice;
+    }, x0, x1, AREA_TOLERANCE, MIN_DEPTH);
+  }
+  return total;
+});
+
+// ∬ div F dA over a simple polygon
+export const divergenceIntegral = (field: VectorField, vertices: Vector2D[]): number =>
+  polygonIntegral((x, y) => analyzeField(field, x, y).divergence, vertices);
+
+const cross = (o: Vector2D, a: Vector2D, b: Vector2D) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// Proper crossing of the segments pq and rs (touching at an endpoint does not count)
+const segmentsCross = (p: Vector2D, q: Vector2D, r: Vector2D, s: Vector2D): boolean =>
+  cross(p, q, r) * cross(p, q, s) < 0 && cross(r, s, p) * cross(r, s, q) < 0;
+
+// Whether the path through `points` (closed back to the first one if `closed`) never crosses itself.
+// The theorem needs a simple curve: a figure eight counts its lobes with opposite signs.
+export const isSimplePath = (points: Vector2D[], closed: boolean): boolean => {
+  const n = points.length;
+  const segments = closed ? n : n - 1;
+  for (let i = 0; i < segments; i++) {
+    for (let j = i + 2; j < segments; j++) {
+      if (closed && i === 0 && j === n - 1) continue; // Adjacent through the closing vertex
+      if (segmentsCross(points[i], points[(i + 1) % n], points[j], points[(j + 1) % n])) return false;
+    }
+  }
+  return true;
+};
+
+// --- CIRCULATION ---
+// The work ∮ F·dr = ∮ P dx + Q dy done by the field on a particle going once around a closed path.
+// Green's theorem: counterclockwise it equals ∬ (∂Q/∂x - ∂P/∂y) dA, the curl added up over the
+// enclosed region; clockwise, its opposite.
+
+// Work along the first fraction t of the segment a → b
+const segmentWork = (field: VectorField, a: Vector2D, b: Vector2D, t: number): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  return adaptiveSimpson(u => {
+    const x = a.x + dx * u;
+    const y = a.y + dy * u;
+    return finite(field.P(x, y) * dx + field.Q(x, y) * dy);
+  }, 0, t, FLUX_TOLERANCE, MIN_DEPTH);
+};
+
+// A closed polygonal path travelled in the order of its vertices, with the work of every edge
+export interface LoopWork {
+  vertices: Vector2D[];
+  lengths: number[];      // Of each edge k → k + 1
+  perimeter: number;
+  works: number[];        // ∫ F·dr along each edge (NaN if F is undefined somewhere on it)
+  total: number;          // ∮ F·dr
+}
+
+export const loopWork = (field: VectorField, vertices: Vector2D[]): LoopWork => {
+  const ends = vertices.map((a, k) => [a, vertices[(k + 1) % vertices.length]] as const);
+  const lengths = ends.map(([a, b]) => Math.hypot(b.x - a.x, b.y - a.y));
+  const works = ends.map(([a, b]) => orNaN(() => segmentWork(field, a, b, 1)));
+  return {
+    vertices, lengths, works,
+    perimeter: lengths.reduce((s, l) => s + l, 0),
+    total: works.reduce((s, w) => s + w, 0)
+  };
+};
+
+// Where the particle is after travelling `fraction` of the perimeter, its direction, and the work done so far
+export const workAlong = (field: VectorField, loop: LoopWork, fraction: number): { point: Vector2D; tangent: Vector2D; work: number } => {
+  const { vertices, lengths, works } = loop;
+  let remaining = Math.max(0, Math.min(1, fraction)) * loop.perimeter;
+  let work = 0;
+  let k = 0;
+  while (k < lengths.length - 1 && remaining > lengths[k]) {
+    remaining -= lengths[k];
+    work += works[k];
+    k++;
+  }
+  const a = vertices[k];
+  const b = vertices[(k + 1) % vertices.length];
+  const t = lengths[k] > 0 ? Math.min(1, remaining / lengths[k]) : 0;
+  const length = lengths[k] || 1;
+  return {
+    point: { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t },
+    tangent: { x: (b.x - a.x) / length, y: (b.y - a.y) / length },
+    work: work + orNaN(() => segmentWork(field, a, b, t))
+  };
+};
+
+// ∬ (∂Q/∂x - ∂P/∂y) dA over a simple polygon
+export const curlIntegral = (field: VectorField, vertices: Vector2D[]): number =>
+  polygonIntegral((x, y) => analyzeField(field, x, y).curl.z, vertices);
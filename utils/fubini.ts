@@ -0,0 +1,118 @@
+import { Vector2D } from '../types';
+import { Region } from './region';
+import { adaptiveSimpson } from './quadrature';
+
+// Fubini: ∫∫ f dA as an iterated integral. A plane x = t (or y = t) cuts the solid in a section of
+// area A(t) = ∫ f(t, y) dy over the slice of the region, and the volume is ∫ A(t) dt.
+
+type Fn2 = (x: number, y: number) => number;
+
+export type SliceAxis = 'x' | 'y';
+
+const BOUNDARY_SAMPLES = 96;   // Per side of the parameter square, to locate where the plane crosses the boundary
+const BISECTIONS = 40;         // Then refined on the exact boundary
+const SWEEP_PANELS = 96;       // Nodes of the A(t) curve
+const SLICE_TOLERANCE = 1e-9;
+const SWEEP_TOLERANCE = 1e-7;
+const MIN_DEPTH = 1;           // Slices and panels are short: a couple of splits are enough to trust the error estimate
+
+const CORNERS: Vector2D[] = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+// The boundary as a closed curve: s ∈ [0, 4) walks the sides of the parameter square in order
+const boundaryAt = (region: Region, s: number): Vector2D => {
+  const wrapped = ((s % 4) + 4) % 4;
+  const side = Math.min(3, Math.floor(wrapped));
+  const from = CORNERS[side];
+  const to = CORNERS[(side + 1) % 4];
+  const t = wrapped - side;
+  return region.map(from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t);
+};
+
+const along = (axis: SliceAxis, p: Vector2D) => axis === 'x' ? p.x : p.y;
+const across = (axis: SliceAxis, p: Vector2D) => axis === 'x' ? p.y : p.x;
+
+// Boundary samples are reused by every slice of the same region
+const boundaryCache = new WeakMap<Region, Vector2D[]>();
+const boundarySamples = (region: Region): Vector2D[] => {
+  let samples = boundaryCache.get(region);
+  if (!samples) {
+    samples = Array.from({ length: 4 * BOUNDARY_SAMPLES + 1 }, (_, k) => boundaryAt(region, k / BOUNDARY_SAMPLES));
+    boundaryCache.set(region, samples);
+  }
+  return samples;
+};
+
+// Intervals of the other coordinate where the line {axis = t} is inside the region (even-odd rule)
+export const sliceIntervals = (region: Region, axis: SliceAxis, t: number): [number, number][] => {
+  const samples = boundarySamples(region);
+  const crossings: number[] = [];
+  for (let k = 0; k + 1 < samples.length; k++) {
+    const p1 = samples[k];
+    const c1 = along(axis, p1);
+    const c2 = along(axis, samples[k + 1]);
+    // Half-open so a crossing at a sample point is counted once
+    if (!((c1 <= t && t < c2) || (c2 <= t && t < c1))) continue;
+    if (c1 === t) { crossings.push(across(axis, p1)); continue; }
+    let lo = k / BOUNDARY_SAMPLES;
+    let hi = (k + 1) / BOUNDARY_SAMPLES;
+    const below = c1 < t;
+    for (let b = 0; b < BISECTIONS; b++) {
+      const mid = (lo + hi) / 2;
+      if ((along(axis, boundaryAt(region, mid)) < t) === below) lo = mid; else hi = mid;
+    }
+    crossings.push(across(axis, boundaryAt(region, (lo + hi) / 2)));
+  }
+  crossings.sort((a, b) => a - b);
+  const intervals: [number, number][] = [];
+  for (let k = 0; k + 1 < crossings.length; k += 2) intervals.push([crossings[k], crossings[k + 1]]);
+  return intervals;
+};
+
+// A(t): area of the section of the solid under f by the plane {axis = t}
+export const sectionArea = (f: Fn2, region: Region, axis: SliceAxis, t: number): number =>
+  sliceIntervals(region, axis, t).reduce((s, [a, b]) =>
+    s + adaptiveSimpson(c => axis === 'x' ? f(t, c) : f(c, t), a, b, SLICE_TOLERANCE, MIN_DEPTH), 0);
+
+export interface FubiniSweep {
+  axis: SliceAxis;
+  min: number;            // Extent of the region along the axis
+  max: number;
+  nodes: number[];        // t at SWEEP_PANELS + 1 even positions
+  areas: number[];        // A(t) there
+  cumulative: number[];   // ∫ A from min to each node
+  total: number;          // The volume, integrated in this order
+}
+
+// The end planes only touch the region: pull them in a hair so they still see the edge
+const insideExtent = (min: number, max: number, t: number) => {
+  const inset = (max - min) * 1e-9;
+  return Math.min(max - inset, Math.max(min + inset, t));
+};
+
+// Where the plane is at a fraction of the sweep
+export const slicePosition = (sweep: FubiniSweep, fraction: number): number =>
+  insideExtent(sweep.min, sweep.max, sweep.min + (sweep.max - sweep.min) * fraction);
+
+export const fubiniSweep = (f: Fn2, region: Region, axis: SliceAxis): FubiniSweep => {
+  const coords = boundarySamples(region).map(p => along(axis, p));
+  const min = Math.min(...coords);
+  const max = Math.max(...coords);
+  const area = (t: number) => sectionArea(f, region, axis, insideExtent(min, max, t));
+
+  const nodes = Array.from({ length: SWEEP_PANELS + 1 }, (_, k) => min + (max - min) * k / SWEEP_PANELS);
+  const areas = nodes.map(area);
+  const cumulative = [0];
+  for (let k = 0; k < SWEEP_PANELS; k++) {
+    cumulative.push(cumulative[k] + adaptiveSimpson(area, nodes[k], nodes[k + 1], SWEEP_TOLERANCE / SWEEP_PANELS, MIN_DEPTH));
+  }
+  return { axis, min, max, nodes, areas, cumulative, total: cumulative[SWEEP_PANELS] };
+};
+
+// ∫ A from min to t: exact up to the last node, then a trapezoid to t
+export const accumulatedTo = (sweep: FubiniSweep, t: number, areaAtT: number): number => {
+  const { min, max, nodes, areas, cumulative } = sweep;
+  if (t <= min) return 0;
+  if (t >= max) return sweep.total;
+  const k = Math.min(nodes.length - 2, Math.floor((t - min) / (max - min) * (nodes.length - 1)));
+  return cumulative[k] + (t - nodes[k]) * (areas[k] + areaAtT) / 2;
+};
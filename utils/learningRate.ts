@@ -0,0 +1,43 @@
+// Learning-rate schedules: the α used at iteration k (0-based) given the slider's base α.
+
+export type ScheduleId = 'constant' | 'step' | 'exponential' | 'cosine' | 'warmup';
+
+export interface Schedule {
+  id: ScheduleId;
+  name: string;
+  formula: string;      // As shown to the student
+  rate: (base: number, iteration: number) => number;
+}
+
+const STEP_EVERY = 25;          // Step decay: halve α every 25 iterations
+const EXP_DECAY = 0.97;         // Exponential decay per iteration
+const COSINE_PERIOD = 100;      // Cosine: from α down to α/100 in 100 iterations, then flat
+const COSINE_FLOOR = 0.01;
+const WARMUP_ITERATIONS = 20;   // Warmup: linear ramp from α/20 up to α
+
+export const SCHEDULES: Schedule[] = [
+  { id: 'constant', name: 'Constante', formula: 'αₖ = α', rate: base => base },
+  {
+    id: 'step', name: 'Escalonada', formula: `αₖ = α · 0.5^⌊k/${STEP_EVERY}⌋`,
+    rate: (base, k) => base * Math.pow(0.5, Math.floor(k / STEP_EVERY))
+  },
+  {
+    id: 'exponential', name: 'Exponencial', formula: `αₖ = α · ${EXP_DECAY}ᵏ`,
+    rate: (base, k) => base * Math.pow(EXP_DECAY, k)
+  },
+  {
+    id: 'cosine', name: 'Coseno', formula: `αₖ = α · (${COSINE_FLOOR} + ${1 - COSINE_FLOOR} · (1 + cos(πk/${COSINE_PERIOD})) / 2)`,
+    rate: (base, k) => {
+      const progress = Math.min(k, COSINE_PERIOD) / COSINE_PERIOD;
+      return base * (COSINE_FLOOR + (1 - COSINE_FLOOR) * (1 + Math.cos(Math.PI * progress)) / 2);
+    }
+  },
+  {
+    id: 'warmup', name: 'Calentamiento', formula: `αₖ = α · min(1, (k+1)/${WARMUP_ITERATIONS})`,
+    rate: (base, k) => base * Math.min(1, (k + 1) / WARMUP_ITERATIONS)
+  }
+];
+
+export const SCHEDULE_IDS = SCHEDULES.map(s => s.id);
+
+export const getSchedule = (id: ScheduleId): Schedule => SCHEDULES.find(s => s.id === id)!;
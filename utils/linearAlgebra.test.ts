@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+  cross2, norm2, normalize2, angle2Deg, cross3, norm3, normalize3, angleBetween3, project3,
+  addN, subN, dotN, normN, normalizeN,
+  IDENTITY_2X2, transform2x2, multiply2x2, determinant2x2, transpose2x2, inverse2x2,
+  IDENTITY_3X3, transform3x3, multiply3x3, determinant3x3, transpose3x3, inverse3x3,
+  toMatrixN, fromMatrixN, identityN, transposeN, transformN, multiplyN, determinantN, inverseN, frobeniusNorm,
+  columnSpaceBasis
+} from './linearAlgebra';
+import { Matrix2x2, Matrix3x3, MatrixN } from '../types';
+
+const expectMatrixClose = (actual: MatrixN, expected: MatrixN) => {
+  expect(actual.length).toBe(expected.length);
+  actual.forEach((row, r) => row.forEach((v, c) => expect(v).toBeCloseTo(expected[r][c], 9)));
+};
+
+const A2: Matrix2x2 = { a: 2, b: 1, c: 7, d: 4 };
+const A3: Matrix3x3 = { a: 2, b: 0, c: 1, d: 1, e: 3, f: 2, g: 1, h: 1, i: 2 };
+
+describe('vectors', () => {
+  it('computes 2D cross products, norms, normalization and angles', () => {
+    expect(cross2({ x: 1, y: 0 }, { x: 0, y: 1 })).toBe(1);
+    expect(cross2({ x: 0, y: 1 }, { x: 1, y: 0 })).toBe(-1);
+    expect(norm2({ x: 3, y: 4 })).toBe(5);
+    expect(norm2(normalize2({ x: 3, y: 4 }))).toBeCloseTo(1);
+    expect(normalize2({ x: 0, y: 2 })).toEqual({ x: 0, y: 1 });
+    expect(normalize2({ x: 0, y: 0 })).toEqual({ x: 0, y: 0 });
+    expect(angle2Deg({ x: 0, y: -1 })).toBeCloseTo(270);
+  });
+
+  it('computes 3D cross products, norms, angles and projections', () => {
+    expect(cross3({ x: 1, y: 0, z: 0 }, { x: 0, y: 1, z: 0 })).toEqual({ x: 0, y: 0, z: 1 });
+    expect(norm3({ x: 1, y: 2, z: 2 })).toBe(3);
+    expect(normalize3({ x: 0, y: 0, z: 0 })).toEqual({ x: 0, y: 0, z: 0 });
+    expect(angleBetween3({ x: 1, y: 0, z: 0 }, { x: 0, y: 0, z: 5 })).toBeCloseTo(Math.PI / 2);
+    expect(angleBetween3({ x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 0 })).toBe(0);
+    expect(project3({ x: 2, y: 3, z: 0 }, { x: 1, y: 0, z: 0 })).toEqual({ x: 2, y: 0, z: 0 });
+  });
+
+  it('works in N dimensions', () => {
+    expect(addN([1, 2, 3, 4], [1, 1, 1, 1])).toEqual([2, 3, 4, 5]);
+    expect(subN([1, 2, 3, 4], [1, 1, 1, 1])).toEqual([0, 1, 2, 3]);
+    expect(dotN([1, 2, 3, 4], [4, 3, 2, 1])).toBe(20);
+    expect(() => dotN([1, 2], [1, 2, 3])).toThrow(/Dimension mismatch/);
+  });
+
+  it('computes p-norms', () => {
+    const v = [3, -4, 0, 12];
+    expect(normN(v)).toBeCloseTo(13);
+    expect(normN(v, 1)).toBe(19);
+    expect(normN(v, Infinity)).toBe(12);
+    expect(normN([1, 1], 3)).toBeCloseTo(Math.cbrt(2));
+    expect(normN(normalizeN(v))).toBeCloseTo(1);
+    expect(normalizeN([0, 0, 0])).toEqual([0, 0, 0]);
+  });
+});
+
+describe('2x2 matrices', () => {
+  it('multiplies, applying the right factor first', () => {
+    const rotate = { a: 0, b: -1, c: 1, d: 0 };
+    const scaleX = { a: 2, b: 0, c: 0, d: 1 };
+    expect(transform2x2({ x: 1, y: 0 }, multiply2x2(rotate, scaleX))).toEqual({ x: 0, y: 2 });
+    expect(multiply2x2(A2, IDENTITY_2X2)).toEqual(A2);
+  });
+
+  it('computes determinant, transpose and inverse', () => {
+    expect(determinant2x2(A2)).toBe(1);
+    expect(transpose2x2(A2)).toEqual({ a: 2, b: 7, c: 1, d: 4 });
+    expect(multiply2x2(A2, inverse2x2(A2)!)).toEqual(IDENTITY_2X2);
+  });
+
+  it('has no inverse when singular', () => {
+    expect(inverse2x2({ a: 1, b: 2, c: 2, d: 4 })).toBeNull();
+  });
+});
+
+describe('3x3 matrices', () => {
+  it('multiplies like the N-dimensional path', () => {
+    expect(multiply3x3(A3, IDENTITY_3X3)).toEqual(A3);
+    expectMatrixClose(toMatrixN(multiply3x3(A3, A3)), multiplyN(toMatrixN(A3), toMatrixN(A3)));
+    expect(transform3x3({ x: 1, y: 1, z: 1 }, A3)).toEqual({ x: 3, y: 6, z: 4 });
+  });
+
+  it('computes determinant, transpose and inverse', () => {
+    expect(determinant3x3(A3)).toBe(6);
+    expect(transpose3x3(A3)).toEqual({ a: 2, b: 1, c: 1, d: 0, e: 3, f: 1, g: 1, h: 2, i: 2 });
+    expectMatrixClose(toMatrixN(multiply3x3(A3, inverse3x3(A3)!)), identityN(3));
+  });
+
+  it('has no inverse when singular', () => {
+    expect(inverse3x3({ a: 1, b: 2, c: 3, d: 4, e: 5, f: 6, g: 7, h: 8, i: 9 })).toBeNull();
+  });
+});
+
+describe('NxN matrices', () => {
+  const M: MatrixN = [
+    [4, 3, 2, 1],
+    [0, 1, 2, 3],
+    [1, 0, 1, 0],
+    [2, 1, 0, 1]
+  ];
+
+  it('converts to and from the fixed size types', () => {
+    expect(fromMatrixN(toMatrixN(A2))).toEqual(A2);
+    expect(fromMatrixN(toMatrixN(A3))).toEqual(A3);
+    expect(() => fromMatrixN(identityN(4))).toThrow();
+  });
+
+  it('transposes and transforms', () => {
+    expect(transposeN([[1, 2, 3], [4, 5, 6]])).toEqual([[1, 4], [2, 5], [3, 6]]);
+    expect(transposeN([])).toEqual([]);
+    expect(transformN(M, [1, 0, 0, 0])).toEqual([4, 0, 1, 2]);
+  });
+
+  it('multiplies rectangular matrices and rejects mismatched ones', () => {
+    expect(multiplyN([[1, 2, 3]], [[1], [2], [3]])).toEqual([[14]]);
+    expect(() => multiplyN([[1, 2]], [[1, 2]])).toThrow(/Dimension mismatch/);
+  });
+
+  it('matches the cofactor determinant, including row swaps', () => {
+    expect(determinantN(toMatrixN(A3))).toBeCloseTo(determinant3x3(A3));
+    expect(determinantN([[0, 1], [1, 0]])).toBeCloseTo(-1);
+    expect(determinantN(M)).toBeCloseTo(16);
+    expect(determinantN([[1, 2], [2, 4]])).toBe(0);
+  });
+
+  it('inverts, and returns null when singular', () => {
+    expectMatrixClose(multiplyN(M, inverseN(M)!), identityN(4));
+    expect(inverseN([[1, 2, 3], [2, 4, 6], [0, 1, 1]])).toBeNull();
+  });
+
+  it('finds the rank with a tolerance relative to the size of M', () => {
+    const rank = (m: MatrixN) => columnSpaceBasis(m).length;
+    expect(rank([[1, 0.9], [1.1, 1]])).toBe(2); // det 0.01: nearly flat, still invertible
+    expect(rank([[1e-3, 0], [0, 1e-3]])).toBe(2);
+    expect(rank([[0.3, 0.6], [0.1, 0.2]])).toBe(1); // det is round-off only
+    expect(rank([[1e3, 2e3], [2e3, 4e3]])).toBe(1);
+    expect(rank(toMatrixN(A3))).toBe(3);
+    expect(rank([[1, 2, 3], [2, 4, 6], [0, 1, 1]])).toBe(2);
+    expect(rank([[0, 0], [0, 0]])).toBe(0);
+    const [u] = columnSpaceBasis([[1, 2], [2, 4]]);
+    expect(Math.abs(u[0] * 2 - u[1])).toBeLessThan(1e-12);
+    expect(normN(u)).toBeCloseTo(1);
+  });
+
+  it('computes the Frobenius norm', () => {
+    expect(frobeniusNorm([[1, 2], [2, 4]])).toBe(5);
+  });
+});
@@ -0,0 +1,255 @@
+import { Vector2D, Vector3D, VectorN, Matrix2x2, Matrix3x3, MatrixN } from '../types';
+
+// Values below this are treated as zero (singular matrices, null vectors...)
+export const EPSILON = 1e-9;
+
+// --- 2D VECTORS ---
+export const add2 = (u: Vector2D, v: Vector2D): Vector2D => ({ x: u.x + v.x, y: u.y + v.y });
+export const sub2 = (u: Vector2D, v: Vector2D): Vector2D => ({ x: u.x - v.x, y: u.y - v.y });
+export const scale2 = (v: Vector2D, k: number): Vector2D => ({ x: v.x * k, y: v.y * k });
+export const dot2 = (u: Vector2D, v: Vector2D): number => u.x * v.x + u.y * v.y;
+// Z component of the 3D cross product (signed parallelogram area)
+export const cross2 = (u: Vector2D, v: Vector2D): number => u.x * v.y - u.y * v.x;
+export const norm2 = (v: Vector2D): number => Math.sqrt(v.x * v.x + v.y * v.y);
+export const normalize2 = (v: Vector2D): Vector2D => {
+    const len = norm2(v);
+    return len < EPSILON ? { x: 0, y: 0 } : scale2(v, 1 / len);
+};
+// Angle in standard position, in degrees [0, 360)
+export const angle2Deg = (v: Vector2D): number => (Math.atan2(v.y, v.x) * 180 / Math.PI + 360) % 360;
+
+// --- 3D VECTORS ---
+export const ZERO_3D: Vector3D = { x: 0, y: 0, z: 0 };
+
+export const add3 = (u: Vector3D, v: Vector3D): Vector3D => ({ x: u.x + v.x, y: u.y + v.y, z: u.z + v.z });
+export const sub3 = (u: Vector3D, v: Vector3D): Vector3D => ({ x: u.x - v.x, y: u.y - v.y, z: u.z - v.z });
+export const scale3 = (v: Vector3D, k: number): Vector3D => ({ x: v.x * k, y: v.y * k, z: v.z * k });
+export const dot3 = (u: Vector3D, v: Vector3D): number => u.x * v.x + u.y * v.y + u.z * v.z;
+// Cx = AyBz - AzBy, Cy = AzBx - AxBz, Cz = AxBy - AyBx
+export const cross3 = (u: Vector3D, v: Vector3D): Vector3D => ({
+    x: u.y * v.z - u.z * v.y,
+    y: u.z * v.x - u.x * v.z,
+    z: u.x * v.y - u.y * v.x
+});
+export const norm3 = (v: Vector3D): number => Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z);
+export const normalize3 = (v: Vector3D): Vector3D => {
+    const len = norm3(v);
+    return len < EPSILON ? { ...ZERO_3D } : scale3(v, 1 / len);
+};
+export const lerp3 = (u: Vector3D, v: Vector3D, t: number): Vector3D => ({
+    x: u.x + (v.x - u.x) * t,
+    y: u.y + (v.y - u.y) * t,
+    z: u.z + (v.z - u.z) * t
+});
+// Angle between two vectors in radians (0 when either is null)
+export const angleBetween3 = (u: Vector3D, v: Vector3D): number => {
+    const denom = norm3(u) * norm3(v);
+    if (denom < EPSILON) return 0;
+    return Math.acos(Math.min(1, Math.max(-1, dot3(u, v) / denom)));
+};
+// Vector projection of u onto v: ((u·v) / |v|²) v
+export const project3 = (u: Vector3D, v: Vector3D): Vector3D => {
+    const lenSq = dot3(v, v);
+    return lenSq < EPSILON ? { ...ZERO_3D } : scale3(v, dot3(u, v) / lenSq);
+};
+
+// --- ROTATIONS (Right handed, Y up) ---
+export const rotateX = (v: Vector3D, angle: number): Vector3D => ({
+    x: v.x,
+    y: v.y * Math.cos(angle) - v.z * Math.sin(angle),
+    z: v.y * Math.sin(angle) + v.z * Math.cos(angle)
+});
+export const rotateY = (v: Vector3D, angle: number): Vector3D => ({
+    x: v.x * Math.cos(angle) + v.z * Math.sin(angle),
+    y: v.y,
+    z: -v.x * Math.sin(angle) + v.z * Math.cos(angle)
+});
+export const rotateZ = (v: Vector3D, angle: number): Vector3D => ({
+    x: v.x * Math.cos(angle) - v.y * Math.sin(angle),
+    y: v.x * Math.sin(angle) + v.y * Math.cos(angle),
+    z: v.z
+});
+
+// --- N-DIMENSIONAL VECTORS ---
+const assertSameLength = (u: VectorN, v: VectorN) => {
+    if (u.length !== v.length) throw new Error(`Dimension mismatch: ${u.length} vs ${v.length}`);
+};
+
+export const addN = (u: VectorN, v: VectorN): VectorN => { assertSameLength(u, v); return u.map((ui, i) => ui + v[i]); };
+export const subN = (u: VectorN, v: VectorN): VectorN => { assertSameLength(u, v); return u.map((ui, i) => ui - v[i]); };
+export const scaleN = (v: VectorN, k: number): VectorN => v.map(vi => vi * k);
+export const dotN = (u: VectorN, v: VectorN): number => { assertSameLength(u, v); return u.reduce((acc, ui, i) => acc + ui * v[i], 0); };
+
+// p-norm: 1 (Manhattan), 2 (Euclidean, default), Infinity (max component)
+export const normN = (v: VectorN, p: number = 2): number => {
+    if (p === Infinity) return v.reduce((acc, vi) => Math.max(acc, Math.abs(vi)), 0);
+    if (p === 1) return v.reduce((acc, vi) => acc + Math.abs(vi), 0);
+    return Math.pow(v.reduce((acc, vi) => acc + Math.pow(Math.abs(vi), p), 0), 1 / p);
+};
+export const normalizeN = (v: VectorN): VectorN => {
+    const len = normN(v);
+    return len < EPSILON ? v.map(() => 0) : scaleN(v, 1 / len);
+};
+
+export const toVectorN = (v: Vector2D | Vector3D): VectorN => 'z' in v ? [v.x, v.y, v.z] : [v.x, v.y];
+
+// --- 2x2 MATRICES ---
+export const IDENTITY_2X2: Matrix2x2 = { a: 1, b: 0, c: 0, d: 1 };
+
+// T(v) = Mv
+export const transform2x2 = (v: Vector2D, m: Matrix2x2): Vector2D => ({
+    x: m.a * v.x + m.b * v.y,
+    y: m.c * v.x + m.d * v.y
+});
+// (A * B) -> Apply B first, then A
+export const multiply2x2 = (m1: Matrix2x2, m2: Matrix2x2): Matrix2x2 => ({
+    a: m1.a * m2.a + m1.b * m2.c,
+    b: m1.a * m2.b + m1.b * m2.d,
+    c: m1.c * m2.a + m1.d * m2.c,
+    d: m1.c * m2.b + m1.d * m2.d
+});
+export const determinant2x2 = (m: Matrix2x2): number => m.a * m.d - m.b * m.c;
+export const transpose2x2 = (m: Matrix2x2): Matrix2x2 => ({ a: m.a, b: m.c, c: m.b, d: m.d });
+// Returns null when the matrix is singular (det ≈ 0)
+export const inverse2x2 = (m: Matrix2x2): Matrix2x2 | null => {
+    const det = determinant2x2(m);
+    if (Math.abs(det) < EPSILON) return null;
+    return { a: m.d / det, b: -m.b / det, c: -m.c / det, d: m.a / det };
+};
+export const lerp2x2 = (m1: Matrix2x2, m2: Matrix2x2, t: number): Matrix2x2 => ({
+    a: m1.a + (m2.a - m1.a) * t,
+    b: m1.b + (m2.b - m1.b) * t,
+    c: m1.c + (m2.c - m1.c) * t,
+    d: m1.d + (m2.d - m1.d) * t
+});
+
+// --- 3x3 MATRICES ---
+export const IDENTITY_3X3: Matrix3x3 = { a: 1, b: 0, c: 0, d: 0, e: 1, f: 0, g: 0, h: 0, i: 1 };
+
+export const transform3x3 = (v: Vector3D, m: Matrix3x3): Vector3D => ({
+    x: m.a * v.x + m.b * v.y + m.c * v.z,
+    y: m.d * v.x + m.e * v.y + m.f * v.z,
+    z: m.g * v.x + m.h * v.y + m.i * v.z
+});
+export const multiply3x3 = (m1: Matrix3x3, m2: Matrix3x3): Matrix3x3 => fromMatrixN(multiplyN(toMatrixN(m1), toMatrixN(m2))) as Matrix3x3;
+// Cofactor expansion along the first row
+export const determinant3x3 = (m: Matrix3x3): number =>
+    m.a * (m.e * m.i - m.f * m.h) - m.b * (m.d * m.i - m.f * m.g) + m.c * (m.d * m.h - m.e * m.g);
+export const transpose3x3 = (m: Matrix3x3): Matrix3x3 => ({
+    a: m.a, b: m.d, c: m.g,
+    d: m.b, e: m.e, f: m.h,
+    g: m.c, h: m.f, i: m.i
+});
+// Adjugate / determinant. Returns null when singular.
+export const inverse3x3 = (m: Matrix3x3): Matrix3x3 | null => {
+    const det = determinant3x3(m);
+    if (Math.abs(det) < EPSILON) return null;
+    return {
+        a: (m.e * m.i - m.f * m.h) / det, b: (m.c * m.h - m.b * m.i) / det, c: (m.b * m.f - m.c * m.e) / det,
+        d: (m.f * m.g - m.d * m.i) / det, e: (m.a * m.i - m.c * m.g) / det, f: (m.c * m.d - m.a * m.f) / det,
+        g: (m.d * m.h - m.e * m.g) / det, h: (m.b * m.g - m.a * m.h) / det, i: (m.a * m.e - m.b * m.d) / det
+    };
+};
+export const lerp3x3 = (m1: Matrix3x3, m2: Matrix3x3, t: number): Matrix3x3 => ({
+    a: m1.a + (m2.a - m1.a) * t, b: m1.b + (m2.b - m1.b) * t, c: m1.c + (m2.c - m1.c) * t,
+    d: m1.d + (m2.d - m1.d) * t, e: m1.e + (m2.e - m1.e) * t, f: m1.f + (m2.f - m1.f) * t,
+    g: m1.g + (m2.g - m1.g) * t, h: m1.h + (m2.h - m1.h) * t, i: m1.i + (m2.i - m1.i) * t
+});
+
+// --- CONVERSIONS ---
+export function toMatrixN(m: Matrix2x2 | Matrix3x3): MatrixN {
+    if ('i' in m) return [[m.a, m.b, m.c], [m.d, m.e, m.f], [m.g, m.h, m.i]];
+    return [[m.a, m.b], [m.c, m.d]];
+}
+export function fromMatrixN(m: MatrixN): Matrix2x2 | Matrix3x3 {
+    if (m.length === 2) return { a: m[0][0], b: m[0][1], c: m[1][0], d: m[1][1] };
+    if (m.length === 3) return {
+        a: m[0][0], b: m[0][1], c: m[0][2],
+        d: m[1][0], e: m[1][1], f: m[1][2],
+        g: m[2][0], h: m[2][1], i: m[2][2]
+    };
+    throw new Error(`Cannot convert a ${m.length}x${m.length} matrix to a fixed size type`);
+}
+
+// --- NxN MATRICES ---
+export const identityN = (n: number): MatrixN =>
+    Array.from({ length: n }, (_, r) => Array.from({ length: n }, (_, c) => (r === c ? 1 : 0)));
+
+export const transposeN = (m: MatrixN): MatrixN =>
+    m.length === 0 ? [] : m[0].map((_, c) => m.map(row => row[c]));
+
+export const transformN = (m: MatrixN, v: VectorN): VectorN => m.map(row => dotN(row, v));
+
+export function multiplyN(m1: MatrixN, m2: MatrixN): MatrixN {
+    const inner = m2.length;
+    if (m1.some(row => row.length !== inner)) throw new Error('Dimension mismatch in matrix multiplication');
+    const cols = inner === 0 ? 0 : m2[0].length;
+    return m1.map(row =>
+        Array.from({ length: cols }, (_, c) => row.reduce((acc, val, k) => acc + val * m2[k][c], 0))
+    );
+}
+
+// Gaussian elimination with partial pivoting
+export function determinantN(m: MatrixN): number {
+    const n = m.length;
+    const a = m.map(row => [...row]);
+    let det = 1;
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let r = col + 1; r < n; r++) {
+            if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+        }
+        if (Math.abs(a[pivot][col]) < EPSILON) return 0;
+        if (pivot !== col) {
+            [a[pivot], a[col]] = [a[col], a[pivot]];
+            det = -det;
+        }
+        det *= a[col][col];
+        for (let r = col + 1; r < n; r++) {
+            const factor = a[r][col] / a[col][col];
+            for (let c = col; c < n; c++) a[r][c] -= factor * a[col][c];
+        }
+    }
+    return det;
+}
+
+// Gauss-Jordan on [M | I]. Returns null when singular.
+export function inverseN(m: MatrixN): MatrixN | null {
+    const n = m.length;
+    const a = m.map((row, r) => [...row, ...identityN(n)[r]]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let r = col + 1; r < n; r++) {
+            if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+        }
+        if (Math.abs(a[pivot][col]) < EPSILON) return null;
+        [a[pivot], a[col]] = [a[col], a[pivot]];
+
+        const p = a[col][col];
+        for (let c = 0; c < 2 * n; c++) a[col][c] /= p;
+        for (let r = 0; r < n; r++) {
+            if (r === col) continue;
+            const factor = a[r][col];
+            for (let c = 0; c < 2 * n; c++) a[r][c] -= factor * a[col][c];
+        }
+    }
+    return a.map(row => row.slice(n));
+}
+
+// Orthonormal basis of the column space (the image of M), by Gram-Schmidt on the columns, longest
+// first. A residual shorter than `tolerance` times the longest column counts as dependent (relative,
+// so scaling M does not change its rank), and the basis length is the numerical rank.
+export const columnSpaceBasis = (m: MatrixN, tolerance = EPSILON): VectorN[] => {
+    const columns = transposeN(m).sort((u, v) => normN(v) - normN(u));
+    const cutoff = tolerance * (columns.length > 0 ? normN(columns[0]) : 0);
+    const basis: VectorN[] = [];
+    columns.forEach(column => {
+        const residual = basis.reduce((r, e) => subN(r, scaleN(e, dotN(r, e))), column);
+        const length = normN(residual);
+        if (length > cutoff) basis.push(scaleN(residual, 1 / length));
+    });
+    return basis;
+};
+
+// Frobenius norm: sqrt of the sum of squared entries
+export const frobeniusNorm = (m: MatrixN): number => Math.sqrt(m.reduce((acc, row) => acc + row.reduce((s, v) => s + v * v, 0), 0));
@@ -0,0 +1,30 @@
+import { ViewState } from '../types';
+
+// A level's goals, declared as predicates over a snapshot of its state.
+// Objectives are sticky: once a check passes it stays achieved for the session,
+// so momentary goals ("make A·B = 0") don't flicker while the student keeps dragging.
+
+export interface Objective<S> {
+  id: string;
+  label: string;
+  check: (state: S) => boolean;
+}
+
+export interface Mission<S> {
+  level: ViewState;
+  objectives: Objective<S>[];
+}
+
+export interface ObjectiveStatus {
+  id: string;
+  label: string;
+  done: boolean;
+}
+
+export interface MissionStatus {
+  objectives: ObjectiveStatus[];
+  completed: boolean; // Every objective achieved now, or the level was cleared before
+}
+
+// |a - b| <= tolerance, for "reach exactly this value" objectives driven by drags and sliders
+export const near = (a: number, b: number, tolerance = 0.05): boolean => Math.abs(a - b) <= tolerance;
@@ -0,0 +1,122 @@
+import { Vector2D } from '../types';
+import { EPSILON } from './linearAlgebra';
+
+// Optimizers for a two-parameter cost f(x, y). Each update is a pure function of the
+// optimizer's own state, so several of them can race from the same start on one surface.
+
+export interface Hessian2 {
+  xx: number;
+  xy: number;   // = yx
+  yy: number;
+}
+
+export interface CostSurface {
+  f: (x: number, y: number) => number;
+  df_dx: (x: number, y: number) => number;
+  df_dy: (x: number, y: number) => number;
+  hessian: (x: number, y: number) => Hessian2;
+}
+
+export interface OptimizerState {
+  position: Vector2D;
+  velocity: Vector2D;   // Momentum / Nesterov: accumulated direction. Adam: mean of the gradient
+  squared: Vector2D;    // RMSProp / Adam: running mean of the squared gradient
+  step: number;         // Updates done so far (Adam's bias correction)
+}
+
+export const initialOptimizerState = (position: Vector2D): OptimizerState => ({
+  position, velocity: { x: 0, y: 0 }, squared: { x: 0, y: 0 }, step: 0
+});
+
+export type OptimizerId = 'gd' | 'momentum' | 'nesterov' | 'rmsprop' | 'adam' | 'newton';
+
+export interface Optimizer {
+  id: OptimizerId;
+  name: string;
+  color: string;
+  rule: string;         // Update rule, as shown to the student
+  update: (s: OptimizerState, surface: CostSurface, learningRate: number) => OptimizerState;
+}
+
+// Usual defaults from the literature
+const MOMENTUM = 0.9;
+const RMS_DECAY = 0.9;
+const ADAM_BETA1 = 0.9;
+const ADAM_BETA2 = 0.999;
+const STABILITY = 1e-8;
+
+const gradientAt = (surface: CostSurface, p: Vector2D): Vector2D => ({ x: surface.df_dx(p.x, p.y), y: surface.df_dy(p.x, p.y) });
+
+const gd = (s: OptimizerState, surface: CostSurface, lr: number): OptimizerState => {
+  const g = gradientAt(surface, s.position);
+  return { ...s, position: { x: s.position.x - lr * g.x, y: s.position.y - lr * g.y }, step: s.step + 1 };
+};
+
+// v accumulates past gradients, so the ball keeps rolling through small bumps
+const momentum = (lookahead: boolean) => (s: OptimizerState, surface: CostSurface, lr: number): OptimizerState => {
+  const { position: p, velocity: v } = s;
+  // Nesterov measures the slope where the velocity is about to take it
+  const g = gradientAt(surface, lookahead ? { x: p.x - lr * MOMENTUM * v.x, y: p.y - lr * MOMENTUM * v.y } : p);
+  const velocity = { x: MOMENTUM * v.x + g.x, y: MOMENTUM * v.y + g.y };
+  return { ...s, velocity, position: { x: p.x - lr * velocity.x, y: p.y - lr * velocity.y }, step: s.step + 1 };
+};
+
+// Each coordinate is divided by its typical gradient size: flat directions get big steps
+const rmsprop = (s: OptimizerState, surface: CostSurface, lr: number): OptimizerState => {
+  const g = gradientAt(surface, s.position);
+  const squared = {
+    x: RMS_DECAY * s.squared.x + (1 - RMS_DECAY) * g.x * g.x,
+    y: RMS_DECAY * s.squared.y + (1 - RMS_DECAY) * g.y * g.y
+  };
+  return {
+    ...s, squared, step: s.step + 1,
+    position: {
+      x: s.position.x - lr * g.x / (Math.sqrt(squared.x) + STABILITY),
+      y: s.position.y - lr * g.y / (Math.sqrt(squared.y) + STABILITY)
+    }
+  };
+};
+
+// Momentum + RMSProp, with both averages corrected for starting at 0
+const adam = (s: OptimizerState, surface: CostSurface, lr: number): OptimizerState => {
+  const g = gradientAt(surface, s.position);
+  const step = s.step + 1;
+  const velocity = { x: ADAM_BETA1 * s.velocity.x + (1 - ADAM_BETA1) * g.x, y: ADAM_BETA1 * s.velocity.y + (1 - ADAM_BETA1) * g.y };
+  const squared = { x: ADAM_BETA2 * s.squared.x + (1 - ADAM_BETA2) * g.x * g.x, y: ADAM_BETA2 * s.squared.y + (1 - ADAM_BETA2) * g.y * g.y };
+  const c1 = 1 - Math.pow(ADAM_BETA1, step);
+  const c2 = 1 - Math.pow(ADAM_BETA2, step);
+  return {
+    velocity, squared, step,
+    position: {
+      x: s.position.x - lr * (velocity.x / c1) / (Math.sqrt(squared.x / c2) + STABILITY),
+      y: s.position.y - lr * (velocity.y / c1) / (Math.sqrt(squared.y / c2) + STABILITY)
+    }
+  };
+};
+
+// Full step to the critical point of the local quadratic: x ← x - H⁻¹∇f (α is not used).
+// Where the Hessian is singular it falls back to a gradient step.
+const newton = (s: OptimizerState, surface: CostSurface, lr: number): OptimizerState => {
+  const { x, y } = s.position;
+  const g = gradientAt(surface, s.position);
+  const h = surface.hessian(x, y);
+  const det = h.xx * h.yy - h.xy * h.xy;
+  if (!(Math.abs(det) > EPSILON)) return gd(s, surface, lr);
+  return {
+    ...s, step: s.step + 1,
+    position: { x: x - (h.yy * g.x - h.xy * g.y) / det, y: y - (h.xx * g.y - h.xy * g.x) / det }
+  };
+};
+
+export const OPTIMIZERS: Optimizer[] = [
+  { id: 'gd', name: 'GD clásico', color: '#22d3ee', rule: 'x ← x - α∇f', update: gd },
+  { id: 'momentum', name: 'Momentum', color: '#fb923c', rule: 'v ← 0.9v + ∇f,  x ← x - αv', update: momentum(false) },
+  { id: 'nesterov', name: 'Nesterov', color: '#facc15', rule: 'v ← 0.9v + ∇f(x - 0.9αv),  x ← x - αv', update: momentum(true) },
+  { id: 'rmsprop', name: 'RMSProp', color: '#c084fc', rule: 's ← 0.9s + 0.1∇f²,  x ← x - α∇f/√s', update: rmsprop },
+  { id: 'adam', name: 'Adam', color: '#4ade80', rule: 'm, s: medias de ∇f y ∇f²,  x ← x - α·m̂/√ŝ', update: adam },
+  { id: 'newton', name: 'Newton', color: '#60a5fa', rule: 'x ← x - H⁻¹∇f  (sin α)', update: newton }
+];
+
+export const OPTIMIZER_IDS = OPTIMIZERS.map(o => o.id);
+
+export const getOptimizer = (id: OptimizerId): Optimizer => OPTIMIZERS.find(o => o.id === id)!;
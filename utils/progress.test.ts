@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { PROGRESS_VERSION, createEmptyProgress, parseProgress, recordScore, getBestScore } from './progress';
+import { ViewState } from '../types';
+
+describe('parseProgress', () => {
+  it('keeps the valid parts of a save', () => {
+    const save = {
+      version: PROGRESS_VERSION,
+      lastVisited: ViewState.GRADIENT,
+      levels: {
+        [ViewState.GRADIENT]: { completed: true, completedAt: 1700000000000, bestScore: 'high', savedState: 'abc' },
+        NOT_A_LEVEL: { completed: true }
+      }
+    };
+    expect(parseProgress(JSON.stringify(save))).toEqual({
+      version: PROGRESS_VERSION,
+      lastVisited: ViewState.GRADIENT,
+      levels: { [ViewState.GRADIENT]: { completed: true, completedAt: 1700000000000, savedState: 'abc' } }
+    });
+  });
+
+  it('starts from scratch on corrupt, unknown or newer saves', () => {
+    ['', 'not json', 'null', '[1]', '{"version":"1"}', '{"version":0}', `{"version":${PROGRESS_VERSION + 1}}`]
+      .forEach(json => expect(parseProgress(json)).toEqual(createEmptyProgress()));
+  });
+
+  it('ignores malformed level entries', () => {
+    const json = JSON.stringify({ version: PROGRESS_VERSION, levels: { [ViewState.GRADIENT]: 'done' }, lastVisited: 42 });
+    expect(parseProgress(json)).toEqual(createEmptyProgress());
+  });
+});
+
+describe('recordScore', () => {
+  it('keeps the best score of each level', () => {
+    let state = recordScore(createEmptyProgress(), ViewState.GRADIENT, 0.5);
+    state = recordScore(state, ViewState.GRADIENT, 0.25);
+    expect(getBestScore(state, ViewState.GRADIENT)).toBe(0.5);
+    expect(recordScore(state, ViewState.GRADIENT, 0.5)).toBe(state);
+    expect(getBestScore(recordScore(state, ViewState.GRADIENT, 1), ViewState.GRADIENT)).toBe(1);
+    expect(getBestScore(state, ViewState.INTEGRAL)).toBeUndefined();
+  });
+});
@@ -0,0 +1,121 @@
+import { ViewState } from '../types';
+import { isRecord, readNumber } from './sceneState';
+
+// Player progress persisted in localStorage. The schema is versioned: bump PROGRESS_VERSION
+// and add a migration whenever the stored shape changes, so returning students keep their saves.
+
+export const PROGRESS_STORAGE_KEY = 'tangible-tensor.progress';
+export const PROGRESS_VERSION = 1;
+
+export interface LevelProgress {
+  completed: boolean;
+  completedAt?: number;   // ms timestamp of the first completion
+  bestScore?: number;     // Best share of the mission's objectives reached in one session, 0..1
+  savedState?: string;    // Encoded scene (see sceneState), restored when the level is reopened
+}
+
+export interface ProgressState {
+  version: number;
+  levels: Partial<Record<ViewState, LevelProgress>>;
+  lastVisited: ViewState | null;
+}
+
+export const createEmptyProgress = (): ProgressState => ({
+  version: PROGRESS_VERSION,
+  levels: {},
+  lastVisited: null
+});
+
+// MIGRATIONS[n] upgrades a version n save to version n + 1. Saves are as untrusted as a share link
+// (edited by hand, written by another build): everything read from them is narrowed from unknown.
+type RawProgress = Record<string, unknown>;
+const MIGRATIONS: Record<number, (old: RawProgress) => RawProgress> = {};
+
+const isViewState = (v: unknown): v is ViewState =>
+  typeof v === 'string' && (Object.values(ViewState) as string[]).includes(v);
+
+const sanitize = (raw: RawProgress): ProgressState => {
+  const levels: ProgressState['levels'] = {};
+  if (isRecord(raw.levels)) {
+    for (const [id, entry] of Object.entries(raw.levels)) {
+      if (!isViewState(id) || !isRecord(entry)) continue;
+      const completedAt = readNumber(entry.completedAt);
+      const bestScore = readNumber(entry.bestScore);
+      levels[id] = {
+        completed: entry.completed === true,
+        ...(completedAt !== null && { completedAt }),
+        ...(bestScore !== null && { bestScore }),
+        ...(typeof entry.savedState === 'string' && { savedState: entry.savedState })
+      };
+    }
+  }
+  return {
+    version: PROGRESS_VERSION,
+    levels,
+    lastVisited: isViewState(raw.lastVisited) ? raw.lastVisited : null
+  };
+};
+
+// Unknown, corrupt or newer-than-us saves start from scratch instead of crashing the app
+export const parseProgress = (json: string | null): ProgressState => {
+  if (!json) return createEmptyProgress();
+  try {
+    const parsed: unknown = JSON.parse(json);
+    if (!isRecord(parsed) || typeof parsed.version !== 'number' || !Number.isInteger(parsed.version)) return createEmptyProgress();
+    let raw = parsed;
+    let version = parsed.version;
+    while (version < PROGRESS_VERSION) {
+      const migrate = MIGRATIONS[version];
+      if (!migrate) return createEmptyProgress();
+      version++;
+      raw = { ...migrate(raw), version };
+    }
+    return version === PROGRESS_VERSION ? sanitize(raw) : createEmptyProgress();
+  } catch {
+    return createEmptyProgress();
+  }
+};
+
+export const loadProgress = (): ProgressState => {
+  try {
+    return parseProgress(window.localStorage.getItem(PROGRESS_STORAGE_KEY));
+  } catch {
+    return createEmptyProgress(); // Storage disabled (private mode, iframe sandbox...)
+  }
+};
+
+export const saveProgress = (state: ProgressState): void => {
+  try {
+    window.localStorage.setItem(PROGRESS_STORAGE_KEY, JSON.stringify(state));
+  } catch {
+    // Quota exceeded or storage disabled: progress just won't survive a reload
+  }
+};
+
+// --- UPDATES (pure) ---
+const updateLevel = (state: ProgressState, id: ViewState, patch: (prev: LevelProgress) => LevelProgress): ProgressState => ({
+  ...state,
+  levels: { ...state.levels, [id]: patch(state.levels[id] ?? { completed: false }) }
+});
+
+export const completeLevel = (state: ProgressState, id: ViewState): ProgressState =>
+  state.levels[id]?.completed ? state : updateLevel(state, id, prev => ({ ...prev, completed: true, completedAt: Date.now() }));
+
+export const recordScore = (state: ProgressState, id: ViewState, score: number): ProgressState => {
+  const best = state.levels[id]?.bestScore;
+  return best !== undefined && best >= score ? state : updateLevel(state, id, prev => ({ ...prev, bestScore: score }));
+};
+
+export const saveLevelState = (state: ProgressState, id: ViewState, savedState: string): ProgressState =>
+  state.levels[id]?.savedState === savedState ? state : updateLevel(state, id, prev => ({ ...prev, savedState }));
+
+export const setLastVisited = (state: ProgressState, id: ViewState): ProgressState =>
+  state.lastVisited === id ? state : { ...state, lastVisited: id };
+
+// --- QUERIES ---
+export const isCompleted = (state: ProgressState, id: ViewState): boolean => state.levels[id]?.completed === true;
+
+export const getBestScore = (state: ProgressState, id: ViewState): number | undefined => state.levels[id]?.bestScore;
+
+export const isUnlocked = (state: ProgressState, prerequisites: ViewState[]): boolean =>
+  prerequisites.every(id => isCompleted(state, id));
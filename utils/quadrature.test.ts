@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { adaptiveSimpson, adaptiveIntegral2D, riemannSum, convergenceOrder, convergenceStudy, STUDY_RESOLUTIONS } from './quadrature';
+import { compileRegion, REGION_PRESETS } from './region';
+
+const region = (id: string) => compileRegion(REGION_PRESETS.find(p => p.id === id)!.sources);
+
+describe('adaptiveSimpson', () => {
+  it('is exact on cubics', () => {
+    expect(adaptiveSimpson(x => x ** 3 - 2 * x + 1, 0, 2, 1e-8)).toBeCloseTo(2, 12);
+  });
+
+  it('reaches its tolerance on smooth functions', () => {
+    expect(adaptiveSimpson(Math.sin, 0, Math.PI, 1e-10)).toBeCloseTo(2, 9);
+  });
+});
+
+describe('adaptiveIntegral2D', () => {
+  it('measures the area of polar and type I regions', () => {
+    expect(adaptiveIntegral2D(() => 1, region('disk'))).toBeCloseTo(Math.PI * 2.5 ** 2, 8);
+    expect(adaptiveIntegral2D(() => 1, region('diskTypeI'))).toBeCloseTo(Math.PI * 2.5 ** 2, 5);
+    expect(adaptiveIntegral2D(() => 1, region('parabola'))).toBeCloseTo(8 * Math.SQRT2 / 3, 8); // ∫ (2 - x²) dx
+  });
+});
+
+describe('riemannSum', () => {
+  it('is exact for Simpson on a cubic in each variable, even with one cell', () => {
+    // ∫₀⁶ u³ du · ∫₀⁶ v² dv / 100 over [-3, 3]², with u = x + 3 and v = y + 3
+    const f = (x: number, y: number) => (x + 3) ** 3 * (y + 3) ** 2 / 100;
+    [1, 2, 5].forEach(n => expect(riemannSum(f, region('square'), n, 'simpson').volume).toBeCloseTo(233.28, 9));
+  });
+
+  it('is exact for the midpoint and trapezoid rules on a plane', () => {
+    const f = (x: number, y: number) => 2 + 0.3 * x - 0.5 * y;
+    expect(riemannSum(f, region('square'), 3, 'midpoint').volume).toBeCloseTo(72, 9);
+    expect(riemannSum(f, region('square'), 3, 'trapezoid').volume).toBeCloseTo(72, 9);
+  });
+
+  it('keeps lower and upper sums on either side of the integral', () => {
+    const f = (x: number, y: number) => 2 + Math.sin(x) * Math.cos(y);
+    const exact = adaptiveIntegral2D(f, region('square'));
+    expect(riemannSum(f, region('square'), 6, 'lower').volume).toBeLessThan(exact);
+    expect(riemannSum(f, region('square'), 6, 'upper').volume).toBeGreaterThan(exact);
+  });
+});
+
+describe('convergence study', () => {
+  it('recovers the order of each rule', () => {
+    const f = (x: number, y: number) => 1.5 + Math.exp(-((x - 1) ** 2 + (y - 0.5) ** 2) / 2);
+    const { orders } = convergenceStudy(f, region('square'));
+    expect(orders.left).toBeCloseTo(1, 0);
+    expect(orders.midpoint).toBeCloseTo(2, 0);
+    expect(orders.trapezoid).toBeCloseTo(2, 0);
+    expect(orders.simpson).toBeCloseTo(4, 0);
+  });
+
+  it('fits the slope of a power law and gives up on errors at the floor', () => {
+    expect(convergenceOrder(STUDY_RESOLUTIONS, STUDY_RESOLUTIONS.map(n => 3 / n ** 2))).toBeCloseTo(2, 12);
+    expect(convergenceOrder(STUDY_RESOLUTIONS, STUDY_RESOLUTIONS.map(() => 1e-12))).toBeNull();
+  });
+});
@@ -0,0 +1,220 @@
+import { Vector2D } from '../types';
+import { Region } from './region';
+
+// Approximations of ∫∫ f dA over a region, cell by cell on an n × n grid of its parameter square
+// (see region.ts), plus a reference value by adaptive quadrature to measure their error against.
+
+type Fn2 = (x: number, y: number) => number;
+
+export type RiemannRuleId = 'left' | 'right' | 'lower' | 'upper' | 'midpoint' | 'trapezoid' | 'simpson' | 'montecarlo';
+
+export interface RiemannRule {
+  id: RiemannRuleId;
+  name: string;
+  color: string;
+  formula: string;      // One term of the sum, as shown to the student
+  description: string;
+}
+
+export const RIEMANN_RULES: RiemannRule[] = [
+  { id: 'left', name: 'Izquierda', color: '#f472b6', formula: 'Σ f(xᵢ, yⱼ)·ΔA', description: 'Altura en la esquina inferior izquierda de cada celda.' },
+  { id: 'right', name: 'Derecha', color: '#fb923c', formula: 'Σ f(xᵢ₊₁, yⱼ₊₁)·ΔA', description: 'Altura en la esquina superior derecha de cada celda.' },
+  { id: 'lower', name: 'Inferior', color: '#60a5fa', formula: 'Σ mín f·ΔA', description: 'El mínimo de f en la celda: nunca sobrestima el volumen.' },
+  { id: 'upper', name: 'Superior', color: '#f87171', formula: 'Σ máx f·ΔA', description: 'El máximo de f en la celda: nunca lo subestima.' },
+  { id: 'midpoint', name: 'Punto medio', color: '#22d3ee', formula: 'Σ f(x̄ᵢ, ȳⱼ)·ΔA', description: 'Altura en el centro de cada celda.' },
+  { id: 'trapezoid', name: 'Trapecios', color: '#facc15', formula: 'Σ ¼·[f en las 4 esquinas]·ΔA', description: 'Promedio de las cuatro esquinas: aproxima f por un plano en cada celda.' },
+  { id: 'simpson', name: 'Simpson', color: '#4ade80', formula: 'Σ (1/36)·Σ wₖ f(nodoₖ)·ΔA', description: 'Pesos 1-4-1 en cada dirección: aproxima f por una parábola en cada celda.' },
+  { id: 'montecarlo', name: 'Monte Carlo', color: '#c084fc', formula: '(Área / N)·Σ f(pₖ)', description: 'N = n² puntos al azar en todo el dominio; cada prisma suma los que caen en él.' }
+];
+
+export const getRiemannRule = (id: RiemannRuleId): RiemannRule => RIEMANN_RULES.find(r => r.id === id)!;
+
+// Sampling nodes in cell coordinates (u, v ∈ [0, 1]) and their weights, summing to 1
+interface Node { u: number; v: number; weight: number; }
+
+const tensor = (nodes: [number, number][]): Node[] =>
+  nodes.flatMap(([u, wu]) => nodes.map(([v, wv]) => ({ u, v, weight: wu * wv })));
+
+// Lower/upper sums need inf/sup over the cell, estimated from this many samples per side
+const EXTREMA_SAMPLES = 5;
+const EXTREMA_NODES = tensor(Array.from({ length: EXTREMA_SAMPLES }, (_, k) => [k / (EXTREMA_SAMPLES - 1), 0] as [number, number]));
+
+const WEIGHTED_NODES: Record<'left' | 'right' | 'midpoint' | 'trapezoid' | 'simpson', Node[]> = {
+  left: [{ u: 0, v: 0, weight: 1 }],
+  right: [{ u: 1, v: 1, weight: 1 }],
+  midpoint: [{ u: 0.5, v: 0.5, weight: 1 }],
+  trapezoid: tensor([[0, 1 / 2], [1, 1 / 2]]),
+  simpson: tensor([[0, 1 / 6], [0.5, 4 / 6], [1, 1 / 6]])
+};
+
+export interface RiemannCell {
+  i: number;            // Cell along the outer (u) and inner (v) variable
+  j: number;
+  height: number;       // Its term of the sum is height · area
+  area: number;         // ΔA of the cell (r·Δr·Δθ in polar), as weighted by the rule
+  samples: Vector2D[];  // Where f was read (for the extrema, the point that won)
+}
+
+export interface RiemannSum {
+  cells: RiemannCell[];
+  volume: number;
+}
+
+// Small seeded PRNG (mulberry32): Monte Carlo samples must not change on every redraw
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// N = n² uniform samples of the parameter square (one per cell on average); each one's term is f·J / N
+const monteCarlo = (f: Fn2, region: Region, n: number, seed: number, visit: (u: number, v: number, p: Vector2D, term: number) => void): number => {
+  const random = seededRandom(seed * 7919 + n);
+  const count = n * n;
+  let total = 0;
+  for (let k = 0; k < count; k++) {
+    const u = random();
+    const v = random();
+    const p = region.map(u, v);
+    const term = f(p.x, p.y) * region.jacobian(u, v) / count;
+    total += term;
+    visit(u, v, p, term);
+  }
+  return total;
+};
+
+// Cell areas for the rules that do not weight f by the Jacobian themselves (extrema, Monte Carlo)
+const AREA_NODES = WEIGHTED_NODES.simpson;
+
+export const riemannSum = (f: Fn2, region: Region, n: number, ruleId: RiemannRuleId, seed = 1): RiemannSum => {
+  const step = 1 / n;
+  const cells: RiemannCell[] = [];
+  const { map, jacobian } = region;
+  const cellArea = (i: number, j: number) =>
+    AREA_NODES.reduce((s, node) => s + node.weight * jacobian((i + node.u) * step, (j + node.v) * step), 0) * step * step;
+
+  if (ruleId === 'montecarlo') {
+    // Each cell adds up its own samples, so an empty cell is flat and a lucky one is tall
+    const terms = Array.from({ length: n * n }, () => ({ term: 0, samples: [] as Vector2D[] }));
+    monteCarlo(f, region, n, seed, (u, v, p, term) => {
+      const cell = terms[Math.min(n - 1, Math.floor(u * n)) * n + Math.min(n - 1, Math.floor(v * n))];
+      cell.term += term;
+      cell.samples.push(p);
+    });
+    terms.forEach(({ term, samples }, k) => {
+      const i = Math.floor(k / n);
+      const j = k % n;
+      const area = cellArea(i, j);
+      cells.push({ i, j, height: area !== 0 ? term / area : 0, area, samples });
+    });
+  } else {
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        const at = (node: Node) => ({ u: (i + node.u) * step, v: (j + node.v) * step });
+        if (ruleId === 'lower' || ruleId === 'upper') {
+          const sign = ruleId === 'lower' ? 1 : -1;
+          const points = EXTREMA_NODES.map(node => { const q = at(node); return map(q.u, q.v); });
+          const values = points.map(p => f(p.x, p.y));
+          let best = 0;
+          values.forEach((v, k) => { if (sign * v < sign * values[best]) best = k; });
+          cells.push({ i, j, height: values[best], area: cellArea(i, j), samples: [points[best]] });
+        } else {
+          // Σ w·f·J over the nodes, shown as (its weighted mean of f) × (its area)
+          const nodes = WEIGHTED_NODES[ruleId];
+          let term = 0;
+          let area = 0;
+          const samples = nodes.map(node => {
+            const q = at(node);
+            const p = map(q.u, q.v);
+            const weight = node.weight * jacobian(q.u, q.v) * step * step;
+            term += weight * f(p.x, p.y);
+            area += weight;
+            return p;
+          });
+          cells.push({ i, j, height: area !== 0 ? term / area : 0, area, samples });
+        }
+      }
+    }
+  }
+
+  return { cells, volume: cells.reduce((s, c) => s + c.height * c.area, 0) };
+};
+
+// --- REFERENCE VALUE ---
+const ADAPTIVE_TOLERANCE = 1e-8;   // Lands around 1e-10 in practice; tighter gets slow without getting better
+const MIN_DEPTH = 4;    // Always split a few times so a lucky first sample can't stop the recursion
+const MAX_DEPTH = 18;
+
+// Adaptive Simpson with Richardson correction. Callers that already split the interval finely
+// (the Fubini sweep) can lower `minDepth`.
+export const adaptiveSimpson = (g: (t: number) => number, a: number, b: number, tolerance: number, minDepth = MIN_DEPTH): number => {
+  const recurse = (a: number, b: number, fa: number, fm: number, fb: number, whole: number, tolerance: number, depth: number): number => {
+    const m = (a + b) / 2;
+    const lm = (a + m) / 2;
+    const rm = (m + b) / 2;
+    const flm = g(lm);
+    const frm = g(rm);
+    const left = (m - a) / 6 * (fa + 4 * flm + fm);
+    const right = (b - m) / 6 * (fm + 4 * frm + fb);
+    const delta = left + right - whole;
+    if (depth >= MAX_DEPTH || (depth >= minDepth && Math.abs(delta) <= 15 * tolerance)) return left + right + delta / 15;
+    return recurse(a, m, fa, flm, fm, left, tolerance / 2, depth + 1) + recurse(m, b, fm, frm, fb, right, tolerance / 2, depth + 1);
+  };
+  const fa = g(a);
+  const fm = g((a + b) / 2);
+  const fb = g(b);
+  return recurse(a, b, fa, fm, fb, (b - a) / 6 * (fa + 4 * fm + fb), tolerance, 0);
+};
+
+// Iterated integral over the parameter square: adaptive in u of the adaptive integral in v
+export const adaptiveIntegral2D = (f: Fn2, region: Region, tolerance = ADAPTIVE_TOLERANCE): number =>
+  adaptiveSimpson(u => adaptiveSimpson(v => {
+    const p = region.map(u, v);
+    const j = region.jacobian(u, v);
+    return j === 0 ? 0 : f(p.x, p.y) * j;
+  }, 0, 1, tolerance), 0, 1, tolerance);
+
+// --- CONVERGENCE STUDY ---
+export const STUDY_RESOLUTIONS = [2, 3, 4, 6, 8, 12, 16, 24, 32];
+
+// Errors this small are the reference's own error (or round-off), not the method's
+export const ERROR_FLOOR = 1e-9;
+
+const ORDER_FIT_POINTS = 5;    // Finest resolutions only: coarse grids are not in the asymptotic regime yet
+const MONTE_CARLO_DRAWS = 24;   // Monte Carlo's error is random: the study uses its RMS over several draws
+
+// Slope p of log(error) ≈ c - p·log(n) by least squares: the method's error shrinks like 1/nᵖ = hᵖ.
+// Null when (almost) every error is at the floor, i.e. the method is exact for this f.
+export const convergenceOrder = (resolutions: number[], errors: number[]): number | null => {
+  const pts = resolutions.map((n, k) => [Math.log(n), Math.log(errors[k])]).filter((_, k) => errors[k] > ERROR_FLOOR).slice(-ORDER_FIT_POINTS);
+  if (pts.length < 3) return null;
+  const mx = pts.reduce((s, p) => s + p[0], 0) / pts.length;
+  const my = pts.reduce((s, p) => s + p[1], 0) / pts.length;
+  const sxy = pts.reduce((s, p) => s + (p[0] - mx) * (p[1] - my), 0);
+  const sxx = pts.reduce((s, p) => s + (p[0] - mx) ** 2, 0);
+  return -sxy / sxx;
+};
+
+export interface ConvergenceStudy {
+  exact: number;
+  errors: Record<RiemannRuleId, number[]>;          // |sum - exact| at each of STUDY_RESOLUTIONS
+  orders: Record<RiemannRuleId, number | null>;
+}
+
+// Pass the reference when the caller already has it: the adaptive integral is the costly part
+export const convergenceStudy = (f: Fn2, region: Region, exact = adaptiveIntegral2D(f, region)): ConvergenceStudy => {
+  const errorAt = (ruleId: RiemannRuleId, n: number): number => {
+    if (ruleId !== 'montecarlo') return Math.abs(riemannSum(f, region, n, ruleId).volume - exact);
+    let squared = 0;
+    for (let seed = 1; seed <= MONTE_CARLO_DRAWS; seed++) squared += (monteCarlo(f, region, n, seed, () => {}) - exact) ** 2;
+    return Math.sqrt(squared / MONTE_CARLO_DRAWS);
+  };
+  const errors = {} as Record<RiemannRuleId, number[]>;
+  const orders = {} as Record<RiemannRuleId, number | null>;
+  for (const rule of RIEMANN_RULES) {
+    errors[rule.id] = STUDY_RESOLUTIONS.map(n => errorAt(rule.id, n));
+    orders[rule.id] = convergenceOrder(STUDY_RESOLUTIONS, errors[rule.id]);
+  }
+  return { exact, errors, orders };
+};
@@ -0,0 +1,126 @@
+import { Vector2D } from '../types';
+import { ExpressionError, parseExpression, compileExpression } from './expression';
+
+// Integration regions set up as on paper: the outer variable runs between two constants and the
+// inner one between two curves of it. Each region is the image of the unit square (u, v) ∈ [0, 1]²
+//   Type I   x = a + (b-a)u,  y = g₁(x) + (g₂(x) - g₁(x))v     ∫∫ f dy dx
+//   Type II  y = c + (d-c)u,  x = h₁(y) + (h₂(y) - h₁(y))v     ∫∫ f dx dy
+//   Polar    θ = α + (β-α)u,  r = r₁(θ) + (r₂(θ) - r₁(θ))v     ∫∫ f r dr dθ
+// so the Riemann rules (quadrature.ts) only ever see a square, weighted by the Jacobian.
+
+export type RegionKind = 'typeI' | 'typeII' | 'polar';
+
+export interface RegionSources {
+  kind: RegionKind;
+  outerMin: string;   // Constants (pi, sqrt(2)... allowed)
+  outerMax: string;
+  innerMin: string;   // Functions of the outer variable
+  innerMax: string;
+}
+
+export type RegionBound = Exclude<keyof RegionSources, 'kind'>;
+
+export interface RegionVariables {
+  outer: string;
+  inner: string;
+  differential: string;
+  accepted: string[];   // Spellings of the outer variable in the bound formulas
+}
+
+export const REGION_VARIABLES: Record<RegionKind, RegionVariables> = {
+  typeI: { outer: 'x', inner: 'y', differential: 'dy dx', accepted: ['x'] },
+  typeII: { outer: 'y', inner: 'x', differential: 'dx dy', accepted: ['y'] },
+  polar: { outer: 'θ', inner: 'r', differential: 'r dr dθ', accepted: ['θ', 'theta', 't'] }
+};
+
+export interface Region {
+  sources: RegionSources;
+  outer: { min: number; max: number };
+  innerSpan: number | null;   // g₂ - g₁ when it does not depend on the outer variable
+  crossed: boolean;           // The inner bounds swap somewhere: the iterated integral counts that part negative
+  map: (u: number, v: number) => Vector2D;
+  jacobian: (u: number, v: number) => number;   // ∂(x,y)/∂(u,v), 0 outside the domain of the bounds
+  outline: Vector2D[];        // Boundary, as a closed polygon
+}
+
+// Error of one typed bound, so the UI can point at the right input
+export class RegionExpressionError extends ExpressionError {
+  constructor(public readonly bound: RegionBound, cause: ExpressionError) {
+    super(cause.message, cause.position);
+    this.name = 'RegionExpressionError';
+  }
+}
+
+const compileBound = (bound: RegionBound, source: string, variables: string[]): ((t: number) => number) => {
+  try {
+    const fn = compileExpression(parseExpression(source, variables), variables);
+    return t => fn(...variables.map(() => t));
+  } catch (e) {
+    throw e instanceof ExpressionError ? new RegionExpressionError(bound, e) : e;
+  }
+};
+
+const OUTLINE_SEGMENTS = 48;   // Per side of the unit square
+const CROSSING_SAMPLES = 64;
+const SPAN_TOLERANCE = 1e-9;   // Bounds meeting at an endpoint (x² = 2 at x = √2) are not crossed by round-off
+
+// Throws RegionExpressionError on the first invalid bound
+export const compileRegion = (sources: RegionSources): Region => {
+  const { accepted } = REGION_VARIABLES[sources.kind];
+  const a = compileBound('outerMin', sources.outerMin, [])(0);
+  const b = compileBound('outerMax', sources.outerMax, [])(0);
+  if (!Number.isFinite(a)) throw new RegionExpressionError('outerMin', new ExpressionError('El límite no es un número finito', 0));
+  if (!Number.isFinite(b)) throw new RegionExpressionError('outerMax', new ExpressionError('El límite no es un número finito', 0));
+  if (!(b > a)) throw new RegionExpressionError('outerMax', new ExpressionError('Debe ser mayor que el límite inferior', 0));
+  const lower = compileBound('innerMin', sources.innerMin, accepted);
+  const upper = compileBound('innerMax', sources.innerMax, accepted);
+
+  const outerAt = (u: number) => a + (b - a) * u;
+  const innerAt = (t: number, v: number) => lower(t) + (upper(t) - lower(t)) * v;
+  const toPlane = (t: number, s: number): Vector2D =>
+    sources.kind === 'typeI' ? { x: t, y: s }
+      : sources.kind === 'typeII' ? { x: s, y: t }
+      : { x: s * Math.cos(t), y: s * Math.sin(t) };
+
+  const map = (u: number, v: number) => {
+    const t = outerAt(u);
+    return toPlane(t, innerAt(t, v));
+  };
+  const jacobian = (u: number, v: number) => {
+    const t = outerAt(u);
+    const j = (b - a) * (upper(t) - lower(t)) * (sources.kind === 'polar' ? innerAt(t, v) : 1);
+    return Number.isFinite(j) ? j : 0;
+  };
+
+  const spans = Array.from({ length: CROSSING_SAMPLES + 1 }, (_, k) => {
+    const t = outerAt(k / CROSSING_SAMPLES);
+    return upper(t) - lower(t);
+  });
+  const constantSpan = spans.every(s => Math.abs(s - spans[0]) < SPAN_TOLERANCE);
+
+  const side = (from: Vector2D, to: Vector2D) => Array.from({ length: OUTLINE_SEGMENTS }, (_, k) => {
+    const s = k / OUTLINE_SEGMENTS;
+    return map(from.x + (to.x - from.x) * s, from.y + (to.y - from.y) * s);
+  });
+  const corners = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+  return {
+    sources,
+    outer: { min: a, max: b },
+    innerSpan: constantSpan ? spans[0] : null,
+    crossed: spans.some(s => s < -SPAN_TOLERANCE),
+    map,
+    jacobian,
+    outline: corners.flatMap((c, k) => side(c, corners[(k + 1) % 4]))
+  };
+};
+
+export const REGION_PRESETS: { id: string; name: string; sources: RegionSources }[] = [
+  { id: 'square', name: 'Cuadrado [-3, 3]²', sources: { kind: 'typeI', outerMin: '-3', outerMax: '3', innerMin: '-3', innerMax: '3' } },
+  { id: 'parabola', name: 'Tipo I: entre y = x² e y = 2', sources: { kind: 'typeI', outerMin: '-sqrt(2)', outerMax: 'sqrt(2)', innerMin: 'x^2', innerMax: '2' } },
+  { id: 'typeII', name: 'Tipo II: entre x = y²/2 - 2 y x = 1', sources: { kind: 'typeII', outerMin: '-sqrt(6)', outerMax: 'sqrt(6)', innerMin: 'y^2/2 - 2', innerMax: '1' } },
+  { id: 'disk', name: 'Disco r ≤ 2.5 (polares)', sources: { kind: 'polar', outerMin: '0', outerMax: '2pi', innerMin: '0', innerMax: '2.5' } },
+  { id: 'diskTypeI', name: 'Disco r ≤ 2.5 (como Tipo I)', sources: { kind: 'typeI', outerMin: '-2.5', outerMax: '2.5', innerMin: '-sqrt(6.25 - x^2)', innerMax: 'sqrt(6.25 - x^2)' } },
+  { id: 'sector', name: 'Sector anular: 1 ≤ r ≤ 3, 0 ≤ θ ≤ 3π/4', sources: { kind: 'polar', outerMin: '0', outerMax: '3pi/4', innerMin: '1', innerMax: '3' } },
+  { id: 'cardioid', name: 'Cardioide: r ≤ 1.5(1 + cos θ)', sources: { kind: 'polar', outerMin: '0', outerMax: '2pi', innerMin: '0', innerMax: '1.5(1 + cos(θ))' } }
+];
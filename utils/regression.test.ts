@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { DatasetError, parseCsvDataset } from './regression';
+
+describe('parseCsvDataset', () => {
+  it('reads the header labels and the points', () => {
+    const dataset = parseCsvDataset('superficie m²;precio €\n50;120,5\n80;190\n', '価格.csv');
+    expect(dataset).toMatchObject({ name: '価格.csv', xLabel: 'superficie m²', yLabel: 'precio €' });
+    expect(dataset.points).toEqual([{ x: 50, y: 120.5 }, { x: 80, y: 190 }]);
+  });
+
+  it('names the axes x and y when there is no header', () => {
+    expect(parseCsvDataset('1,2\n3,4.5\n', 'datos.csv')).toMatchObject({ xLabel: 'x', yLabel: 'y', points: [{ x: 1, y: 2 }, { x: 3, y: 4.5 }] });
+  });
+
+  it('rejects rows that are not two numbers', () => {
+    expect(() => parseCsvDataset('x;y\n1;2\n3;abc\n', 'malo.csv')).toThrow(DatasetError);
+    expect(() => parseCsvDataset('x;y\n1;2\n', 'corto.csv')).toThrow(DatasetError);
+  });
+});
@@ -0,0 +1,155 @@
+import { Vector2D } from '../types';
+import { CostSurface } from './optimizers';
+
+// Linear regression y = w·x + b as an optimization problem: the cost surface is the MSE over a
+// small 2D dataset and the ball's coordinates are the parameters (x = w, y = b).
+
+export interface Dataset {
+  id: string;
+  name: string;
+  xLabel: string;
+  yLabel: string;
+  points: Vector2D[];   // In the data's own units
+}
+
+// Bundled samples, hand-made to look like real measurements
+export const DATASETS: Dataset[] = [
+  {
+    id: 'study', name: 'Horas de estudio → nota', xLabel: 'horas', yLabel: 'nota',
+    points: [
+      { x: 0.5, y: 2.1 }, { x: 1, y: 3.4 }, { x: 1.5, y: 2.9 }, { x: 2, y: 4.2 }, { x: 2.5, y: 3.6 },
+      { x: 3, y: 5.1 }, { x: 3.5, y: 4.4 }, { x: 4, y: 5.8 }, { x: 5, y: 6.3 }, { x: 5.5, y: 5.7 },
+      { x: 6, y: 7.4 }, { x: 7, y: 7.1 }, { x: 7.5, y: 8.6 }, { x: 8, y: 8.2 }, { x: 9, y: 9.5 }
+    ]
+  },
+  {
+    id: 'outlier', name: 'Estudio + un valor atípico', xLabel: 'horas', yLabel: 'nota',
+    points: [
+      { x: 0.5, y: 2.1 }, { x: 1, y: 3.4 }, { x: 1.5, y: 2.9 }, { x: 2, y: 4.2 }, { x: 2.5, y: 3.6 },
+      { x: 3, y: 5.1 }, { x: 3.5, y: 4.4 }, { x: 4, y: 5.8 }, { x: 5, y: 6.3 }, { x: 5.5, y: 5.7 },
+      { x: 6, y: 7.4 }, { x: 7, y: 7.1 }, { x: 7.5, y: 8.6 }, { x: 8, y: 8.2 }, { x: 9, y: 0.5 }
+    ]
+  },
+  {
+    id: 'icecream', name: 'Temperatura → helados vendidos', xLabel: '°C', yLabel: 'ventas',
+    points: [
+      { x: 14, y: 95 }, { x: 16, y: 160 }, { x: 17, y: 130 }, { x: 19, y: 210 }, { x: 21, y: 240 },
+      { x: 22, y: 205 }, { x: 24, y: 300 }, { x: 25, y: 330 }, { x: 27, y: 310 }, { x: 28, y: 390 },
+      { x: 30, y: 420 }, { x: 31, y: 460 }, { x: 33, y: 445 }, { x: 34, y: 530 }
+    ]
+  },
+  {
+    id: 'cars', name: 'Peso del coche → consumo', xLabel: 'toneladas', yLabel: 'L/100km',
+    points: [
+      { x: 0.9, y: 5.1 }, { x: 1.0, y: 4.7 }, { x: 1.1, y: 5.9 }, { x: 1.2, y: 6.2 }, { x: 1.3, y: 5.8 },
+      { x: 1.4, y: 7.0 }, { x: 1.5, y: 6.6 }, { x: 1.6, y: 7.9 }, { x: 1.7, y: 7.4 }, { x: 1.8, y: 8.8 },
+      { x: 1.9, y: 8.1 }, { x: 2.0, y: 9.6 }, { x: 2.2, y: 10.4 }
+    ]
+  }
+];
+
+export const MAX_DATASET_POINTS = 200;
+
+// Message is shown to the user as is
+export class DatasetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatasetError';
+  }
+}
+
+const readCell = (cell: string): number | null => {
+  const n = cell === '' ? NaN : Number(cell);
+  return Number.isFinite(n) ? n : null;
+};
+
+// Two numeric columns (x, y), separated by ',', ';' or tabs. A non-numeric first row is taken
+// as the header (column names become the axis labels). With ';' decimals may use a comma.
+export const parseCsvDataset = (text: string, name: string): Dataset => {
+  const rows = text.split(/\r?\n/).map(l => l.trim()).filter(l => l !== '' && !l.startsWith('#'));
+  if (rows.length === 0) throw new DatasetError('El archivo está vacío');
+
+  const separator = rows[0].includes(';') ? ';' : rows[0].includes('\t') ? '\t' : ',';
+  const split = (row: string) => row.split(separator).map(c => separator === ';' ? c.trim().replace(',', '.') : c.trim());
+
+  const first = split(rows[0]);
+  const hasHeader = readCell(first[0]) === null || readCell(first[1] ?? '') === null;
+  const points: Vector2D[] = [];
+  rows.slice(hasHeader ? 1 : 0).forEach((row, i) => {
+    const cells = split(row);
+    const x = readCell(cells[0]);
+    const y = readCell(cells[1] ?? '');
+    if (x === null || y === null) throw new DatasetError(`Fila ${i + (hasHeader ? 2 : 1)}: se esperaban dos números (x, y)`);
+    points.push({ x, y });
+  });
+
+  if (points.length < 2) throw new DatasetError('Hacen falta al menos 2 filas de datos');
+  if (points.length > MAX_DATASET_POINTS) throw new DatasetError(`Máximo ${MAX_DATASET_POINTS} filas de datos`);
+  if (points.every(p => p.x === points[0].x)) throw new DatasetError('La columna x necesita al menos dos valores distintos');
+
+  return {
+    id: 'csv', name,
+    xLabel: hasHeader ? first[0] : 'x',
+    yLabel: hasHeader ? first[1] ?? 'y' : 'y',
+    points
+  };
+};
+
+// --- THE LOSS ---
+// L(w, b) = 1/(2n) Σ (w·xᵢ + b - yᵢ)², a bowl whose Hessian does not depend on (w, b)
+export const lossSurface = (points: Vector2D[]): CostSurface => {
+  const n = points.length;
+  const meanX = points.reduce((s, p) => s + p.x, 0) / n;
+  const meanXX = points.reduce((s, p) => s + p.x * p.x, 0) / n;
+  const mean = (term: (residual: number, p: Vector2D) => number) => (w: number, b: number) =>
+    points.reduce((s, p) => s + term(w * p.x + b - p.y, p), 0) / n;
+  return {
+    f: mean(r => r * r / 2),
+    df_dx: mean((r, p) => r * p.x),
+    df_dy: mean(r => r),
+    hessian: () => ({ xx: meanXX, xy: meanX, yy: 1 })
+  };
+};
+
+// Mini-batch: `size` distinct points picked at random
+export const sampleBatch = (points: Vector2D[], size: number): Vector2D[] => {
+  const pool = [...points];
+  const count = Math.min(size, pool.length);
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(Math.random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, count);
+};
+
+export interface Interval { min: number; max: number; }
+
+export interface RegressionProblem {
+  dataset: Dataset;
+  points: Vector2D[];           // Rescaled into [-1, 1] on both axes
+  xRange: Interval;             // Original units, for the axis labels
+  yRange: Interval;
+  loss: CostSurface;
+  optimum: Vector2D;            // (w, b) from the normal equations
+}
+
+// Min-max scaling keeps the surface (and its minimum) near the origin whatever the units
+const rescale = (v: number, { min, max }: Interval) => max - min > 0 ? 2 * (v - min) / (max - min) - 1 : 0;
+
+const intervalOf = (values: number[]): Interval => ({ min: Math.min(...values), max: Math.max(...values) });
+
+export const buildRegression = (dataset: Dataset): RegressionProblem => {
+  const xRange = intervalOf(dataset.points.map(p => p.x));
+  const yRange = intervalOf(dataset.points.map(p => p.y));
+  const points = dataset.points.map(p => ({ x: rescale(p.x, xRange), y: rescale(p.y, yRange) }));
+
+  // w = cov(x, y) / var(x), b = ȳ - w·x̄
+  const n = points.length;
+  const meanX = points.reduce((s, p) => s + p.x, 0) / n;
+  const meanY = points.reduce((s, p) => s + p.y, 0) / n;
+  const cov = points.reduce((s, p) => s + (p.x - meanX) * (p.y - meanY), 0);
+  const varX = points.reduce((s, p) => s + (p.x - meanX) ** 2, 0);
+  const w = cov / varX;
+
+  return { dataset, points, xRange, yRange, loss: lossSurface(points), optimum: { x: w, y: meanY - w * meanX } };
+};
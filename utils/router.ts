@@ -0,0 +1,46 @@
+import { ViewState } from '../types';
+
+// URL path (after '#/') for every view. These are the links course pages use, keep them stable.
+export const VIEW_PATHS: Record<ViewState, string> = {
+  [ViewState.HOME]: '',
+
+  // Linear Algebra World
+  [ViewState.LEVEL_SELECT_LIN_ALG]: 'algebra-lineal',
+  [ViewState.LEVEL_1_VECTOR]: 'algebra-lineal/vector',
+  [ViewState.VECTORS]: 'algebra-lineal/suma',
+  [ViewState.SCALAR_MULTIPLICATION]: 'algebra-lineal/escalar',
+  [ViewState.LINE_EQUATION]: 'algebra-lineal/recta',
+  [ViewState.DOT_PRODUCT]: 'algebra-lineal/producto-punto',
+  [ViewState.CROSS_PRODUCT]: 'algebra-lineal/producto-cruz',
+  [ViewState.MATRICES]: 'algebra-lineal/matrices',
+  [ViewState.MATRIX_MULTIPLICATION]: 'algebra-lineal/multiplicacion-matrices',
+  [ViewState.EIGENVECTORS]: 'algebra-lineal/eigenvectores',
+
+  // Vector Calculus World
+  [ViewState.LEVEL_SELECT_CALCULUS]: 'calculo',
+  [ViewState.DERIVATIVE_DEFINITION]: 'calculo/derivada',
+  [ViewState.GRADIENT]: 'calculo/gradiente',
+  [ViewState.INTEGRAL]: 'calculo/integral',
+  [ViewState.ROTATIONAL]: 'calculo/rotacional',
+  [ViewState.DIVERGENCE]: 'calculo/divergencia',
+  [ViewState.GREEN]: 'calculo/green',
+
+  [ViewState.COMING_SOON]: 'proximamente',
+  [ViewState.THEORY]: 'teoria'
+};
+
+const PATH_TO_VIEW = new Map<string, ViewState>(
+  (Object.keys(VIEW_PATHS) as ViewState[]).map(view => [VIEW_PATHS[view], view])
+);
+
+export const hashFromView = (view: ViewState): string => `#/${VIEW_PATHS[view]}`;
+
+// '#/calculo/derivada?x=1' -> DERIVATIVE_DEFINITION. Unknown paths fall back to HOME.
+export const viewFromHash = (hash: string): ViewState => {
+  const path = hash
+    .replace(/^#\/?/, '')
+    .split('?')[0]
+    .replace(/\/+$/, '')
+    .toLowerCase();
+  return PATH_TO_VIEW.get(path) ?? ViewState.HOME;
+};
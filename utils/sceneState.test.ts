@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { SceneCodec, encodeScene, decodeScene } from './sceneState';
+import { parseCsvDataset } from './regression';
+import { CameraState } from './camera';
+import { GRADIENT_SCENE } from '../components/GradientDescent';
+import { CURL_SCENE } from '../components/CurlLevel';
+import { ViewState } from '../types';
+
+const codec: SceneCodec<Record<string, unknown>> = {
+  level: ViewState.GRADIENT,
+  version: 1,
+  parse: raw => raw
+};
+
+const camera: CameraState = { orientation: { w: 1, x: 0, y: 0, z: 0 }, pan: { x: 12, y: -8 }, scale: 45, projection: 'perspective', distance: 25 };
+
+const roundTrip = <T>(sceneCodec: SceneCodec<T>, scene: T): T | null => decodeScene(sceneCodec, encodeScene(sceneCodec, scene));
+
+describe('scene encoding', () => {
+  it('round-trips text outside Latin-1', () => {
+    const scene = { expression: 'π*x', other: 'x − y', name: 'precio €', label: '価格' };
+    const encoded = encodeScene(codec, scene);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeScene(codec, encoded)).toEqual(scene);
+  });
+
+  it('rounds numbers and rejects other versions', () => {
+    const encoded = encodeScene(codec, { x: 1.234567 });
+    expect(decodeScene(codec, encoded)).toEqual({ x: 1.2346 });
+    expect(decodeScene({ ...codec, version: 2 }, encoded)).toBeNull();
+    expect(decodeScene(codec, '!!!')).toBeNull();
+  });
+});
+
+describe('GRADIENT_SCENE', () => {
+  type GradientScene = NonNullable<ReturnType<typeof GRADIENT_SCENE.parse>>;
+  const scene: GradientScene = {
+    funcIndex: 0, expression: 'π*x − y²', learningRate: 0.1, schedule: 'constant', optimizers: ['gd', 'adam'],
+    dataset: 'csv', csv: { ...parseCsvDataset('superficie m²;precio €\n50;120,5\n80;190\n', '価格.csv'), id: 'csv' },
+    batchSize: 2, position: { x: 1.5, y: -2 }, camera
+  };
+
+  it('round-trips a typed formula and a loaded CSV', () => {
+    expect(roundTrip(GRADIENT_SCENE, scene)).toEqual(scene);
+  });
+
+  it('rejects scenes with missing or invalid fields', () => {
+    const { optimizers: _, ...withoutOptimizers } = scene;
+    expect(decodeScene(GRADIENT_SCENE, encodeScene(codec, withoutOptimizers))).toBeNull();
+    expect(roundTrip(GRADIENT_SCENE, { ...scene, expression: 'x +' })).toBeNull();
+    expect(roundTrip(GRADIENT_SCENE, { ...scene, csv: null })).toBeNull(); // dataset 'csv' without its data
+  });
+});
+
+describe('CURL_SCENE', () => {
+  type CurlScene = NonNullable<ReturnType<typeof CURL_SCENE.parse>>;
+  const scene: CurlScene = {
+    fieldIndex: 1, custom: { P: '−y', Q: 'π*x', R: '' }, position: { x: 0.5, y: -1 }, is3D: true, camera,
+    showParticles: false, seeds: [{ x: 1, y: 1 }], space: true, spaceFieldIndex: 0,
+    spaceCustom: { P: 'y*z', Q: '-x', R: 'x*y' }, height: 0.5, axis: 'z'
+  };
+
+  it('round-trips plane and space settings', () => {
+    expect(roundTrip(CURL_SCENE, scene)).toEqual(scene);
+  });
+
+  it('rejects scenes with missing fields', () => {
+    const { axis: _, ...withoutAxis } = scene;
+    expect(decodeScene(CURL_SCENE, encodeScene(codec, withoutAxis))).toBeNull();
+    const { camera: { distance: __, ...flatCamera } } = scene;
+    expect(decodeScene(CURL_SCENE, encodeScene(codec, { ...scene, camera: flatCamera }))).toBeNull();
+  });
+});
@@ -0,0 +1,141 @@
+import { Vector2D, Vector3D, ViewState } from '../types';
+import { CameraState, quatNormalize } from './camera';
+import { parseExpression } from './expression';
+
+// Shareable scenes live in the hash query: #/algebra-lineal/producto-punto?s=<base64url JSON>.
+// Each level owns a SceneCodec describing what it stores; the payload carries the codec version,
+// so bump it whenever a released level's state changes shape and old links are rejected.
+// The same encoding is used to keep each level's last scene in the player progress.
+
+export const SCENE_PARAM = 's';
+
+export interface SceneCodec<T> {
+  level: ViewState;
+  version: number;
+  // Validate the decoded JSON. Return null to ignore the link and start from defaults.
+  parse: (raw: Record<string, unknown>) => T | null;
+}
+
+interface ScenePayload { v: number; d: unknown; }
+
+// --- ENCODING ---
+// btoa/atob only take Latin-1, and scenes carry typed formulas (π, −) and CSV headers: go through UTF-8 bytes
+const toBase64Url = (text: string): string => {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): string => {
+  const b64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(b64 + '='.repeat((4 - b64.length % 4) % 4));
+  return new TextDecoder('utf-8', { fatal: true }).decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+// Keeps URLs short; 4 decimals is well below what a drag can resolve
+const roundDeep = (value: unknown): unknown => {
+  if (typeof value === 'number') return Math.round(value * 1e4) / 1e4;
+  if (Array.isArray(value)) return value.map(roundDeep);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, roundDeep(v)]));
+  }
+  return value;
+};
+
+export const encodeScene = <T>(codec: SceneCodec<T>, state: T): string =>
+  toBase64Url(JSON.stringify({ v: codec.version, d: roundDeep(state) } as ScenePayload));
+
+export const decodeScene = <T>(codec: SceneCodec<T>, encoded: string): T | null => {
+  try {
+    const payload = JSON.parse(fromBase64Url(encoded)) as ScenePayload;
+    if (!payload || payload.v !== codec.version || !isRecord(payload.d)) return null;
+    return codec.parse(payload.d);
+  } catch {
+    return null;
+  }
+};
+
+// --- URL ---
+const hashParts = (hash: string): { path: string; params: URLSearchParams } => {
+  const i = hash.indexOf('?');
+  return i < 0
+    ? { path: hash, params: new URLSearchParams() }
+    : { path: hash.slice(0, i), params: new URLSearchParams(hash.slice(i + 1)) };
+};
+
+export const readSceneParam = (hash: string = window.location.hash): string | null =>
+  hashParts(hash).params.get(SCENE_PARAM);
+
+// Absolute URL of the current view with the scene attached
+export const buildShareUrl = <T>(codec: SceneCodec<T>, state: T): string => {
+  const { path, params } = hashParts(window.location.hash || '#/');
+  params.set(SCENE_PARAM, encodeScene(codec, state));
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}${path}?${params.toString()}`;
+};
+
+// --- VALIDATORS (for codec.parse) ---
+export const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+export const readNumber = (v: unknown, min = -Infinity, max = Infinity): number | null =>
+  typeof v === 'number' && Number.isFinite(v) ? Math.max(min, Math.min(max, v)) : null;
+
+export const readIndex = (v: unknown, length: number): number | null =>
+  Number.isInteger(v) && (v as number) >= 0 && (v as number) < length ? (v as number) : null;
+
+export const readBoolean = (v: unknown): boolean | null => typeof v === 'boolean' ? v : null;
+
+// Non-empty list of distinct ids, all from `allowed`
+export const readIdList = <T extends string>(v: unknown, allowed: readonly T[]): T[] | null => {
+  if (!Array.isArray(v) || v.length === 0 || v.some(id => !allowed.includes(id))) return null;
+  return Array.from(new Set(v as T[]));
+};
+
+// A user-typed formula (see expression.ts) that must still parse with the given variables
+export const readExpression = (v: unknown, variables: readonly string[] = ['x', 'y'], maxLength = 200): string | null => {
+  if (typeof v !== 'string' || v.length > maxLength) return null;
+  try {
+    parseExpression(v, variables);
+    return v;
+  } catch {
+    return null;
+  }
+};
+
+export const readVector2 = (v: unknown, limit = Infinity): Vector2D | null => {
+  if (!isRecord(v)) return null;
+  const x = readNumber(v.x, -limit, limit);
+  const y = readNumber(v.y, -limit, limit);
+  return x === null || y === null ? null : { x, y };
+};
+
+export const readVector3 = (v: unknown, limit = Infinity): Vector3D | null => {
+  if (!isRecord(v)) return null;
+  const x = readNumber(v.x, -limit, limit);
+  const y = readNumber(v.y, -limit, limit);
+  const z = readNumber(v.z, -limit, limit);
+  return x === null || y === null || z === null ? null : { x, y, z };
+};
+
+// Numbers of a fixed-size record (e.g. a Matrix2x2), all required
+export const readNumberRecord = <K extends string>(v: unknown, keys: readonly K[], limit = Infinity): Record<K, number> | null => {
+  if (!isRecord(v)) return null;
+  const out = {} as Record<K, number>;
+  for (const k of keys) {
+    const n = readNumber(v[k], -limit, limit);
+    if (n === null) return null;
+    out[k] = n;
+  }
+  return out;
+};
+
+export const readCamera = (v: unknown, minScale = 1, maxScale = 500): CameraState | null => {
+  if (!isRecord(v)) return null;
+  const orientation = readNumberRecord(v.orientation, ['w', 'x', 'y', 'z'] as const);
+  const pan = readVector2(v.pan, 1e5);
+  const scale = readNumber(v.scale, minScale, maxScale);
+  const projection = v.projection === 'perspective' || v.projection === 'orthographic' ? v.projection : null;
+  const distance = readNumber(v.distance, 1, 1000);
+  if (!orientation || !pan || scale === null || !projection || distance === null) return null;
+  return { orientation: quatNormalize(orientation), pan, scale, projection, distance };
+};
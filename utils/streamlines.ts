@@ -0,0 +1,122 @@
+import { Vector2D } from '../types';
+import { VectorField } from './vectorField';
+
+// The flow of a plane field F = <P, Q>: a particle dropped in the fluid follows dr/dt = F(r).
+// Integrated with classic Runge-Kutta (RK4), accurate enough that a particle in the vortex keeps
+// its circle instead of spiralling out as it would with Euler steps.
+
+export const rk4Step = (field: VectorField, p: Vector2D, dt: number): Vector2D => {
+  const f = (x: number, y: number): Vector2D => ({ x: field.P(x, y), y: field.Q(x, y) });
+  const k1 = f(p.x, p.y);
+  const k2 = f(p.x + k1.x * dt / 2, p.y + k1.y * dt / 2);
+  const k3 = f(p.x + k2.x * dt / 2, p.y + k2.y * dt / 2);
+  const k4 = f(p.x + k3.x * dt, p.y + k3.y * dt);
+  return {
+    x: p.x + (k1.x + 2 * k2.x + 2 * k3.x + k4.x) * dt / 6,
+    y: p.y + (k1.y + 2 * k2.y + 2 * k3.y + k4.y) * dt / 6
+  };
+};
+
+const speedAt = (field: VectorField, p: Vector2D) => Math.hypot(field.P(p.x, p.y), field.Q(p.x, p.y));
+const inside = (p: Vector2D, range: number) => Math.abs(p.x) <= range && Math.abs(p.y) <= range;
+
+// --- PARTICLES ---
+export interface Particle {
+  position: Vector2D;
+  previous: Vector2D;   // Where it was a frame ago: particles are drawn as short streaks
+  speed: number;        // |F| at `position`
+  age: number;          // Frames lived
+  lifetime: number;     // Frames before it is respawned somewhere else
+}
+
+const MIN_LIFETIME = 60;
+const MAX_LIFETIME = 180;
+const STALL_SPEED = 1e-3;   // Slower than this and the particle sits on a fixed point: respawn it
+const MAX_JUMP = 0.5;       // A step longer than this means the field blows up there: respawn
+
+const spawn = (field: VectorField, range: number, random: () => number): Particle => {
+  const position = { x: (random() * 2 - 1) * range, y: (random() * 2 - 1) * range };
+  return {
+    position, previous: position,
+    speed: speedAt(field, position),
+    // Start at a random age so the whole set does not respawn at once
+    age: Math.floor(random() * MIN_LIFETIME),
+    lifetime: MIN_LIFETIME + Math.floor(random() * (MAX_LIFETIME - MIN_LIFETIME))
+  };
+};
+
+export const seedParticles = (field: VectorField, count: number, range: number, random = Math.random): Particle[] =>
+  Array.from({ length: count }, () => spawn(field, range, random));
+
+// One RK4 step for every particle. Those that leave the square, stall, get too old or hit an
+// undefined value are respawned at random.
+export const advectParticles = (field: VectorField, particles: Particle[], dt: number, range: number, random = Math.random): Particle[] =>
+  particles.map(particle => {
+    if (particle.age >= particle.lifetime) return spawn(field, range, random);
+    const next = rk4Step(field, particle.position, dt);
+    const speed = speedAt(field, next);
+    const jump = Math.hypot(next.x - particle.position.x, next.y - particle.position.y);
+    if (!inside(next, range) || !Number.isFinite(speed) || !(jump <= MAX_JUMP) || speed < STALL_SPEED) {
+      return spawn(field, range, random);
+    }
+    return { ...particle, position: next, previous: particle.position, speed, age: particle.age + 1 };
+  });
+
+// --- STREAMLINES ---
+export interface StreamlinePoint extends Vector2D {
+  speed: number;
+}
+
+const STREAM_STEP = 0.02;   // Arc length between points
+const STREAM_POINTS = 1200; // Per direction: enough for a whole turn of the widest vortex circle
+
+// Walk the curve tangent to F through `seed` at a fixed arc length per step (dt = step / |F|),
+// so slow and fast parts are equally resolved. `direction` -1 walks against the flow.
+const walk = (field: VectorField, seed: Vector2D, direction: 1 | -1, range: number): StreamlinePoint[] => {
+  const points: StreamlinePoint[] = [];
+  let p = seed;
+  for (let k = 0; k < STREAM_POINTS; k++) {
+    const speed = speedAt(field, p);
+    if (!Number.isFinite(speed) || speed < STALL_SPEED) break;
+    const next = rk4Step(field, p, direction * STREAM_STEP / speed);
+    if (!inside(next, range) || !Number.isFinite(next.x) || !Number.isFinite(next.y)) break;
+    if (Math.hypot(next.x - p.x, next.y - p.y) > 4 * STREAM_STEP) break; // Stepped over a singularity
+    points.push({ ...next, speed: speedAt(field, next) });
+    // Closed orbit (vortex): stop after one turn instead of drawing it over and over
+    if (k > 20 && Math.hypot(next.x - seed.x, next.y - seed.y) < STREAM_STEP) break;
+    p = next;
+  }
+  return points;
+};
+
+// The streamline through `seed`, upstream to downstream
+export const traceStreamline = (field: VectorField, seed: Vector2D, range: number): StreamlinePoint[] => {
+  const speed = speedAt(field, seed);
+  if (!Number.isFinite(speed)) return [];
+  const forward = walk(field, seed, 1, range);
+  // A closed orbit already came back to the seed
+  const closed = forward.length > 0 && Math.hypot(forward[forward.length - 1].x - seed.x, forward[forward.length - 1].y - seed.y) < STREAM_STEP;
+  const backward = closed ? [] : walk(field, seed, -1, range).reverse();
+  return [...backward, { ...seed, speed }, ...forward];
+};
+
+// --- COLORMAP ---
+// Slow blue to fast red, by speed relative to the fastest point of the field
+const SPEED_STOPS: [number, number, number][] = [
+  [59, 130, 246],   // #3b82f6
+  [34, 211, 238],   // #22d3ee
+  [74, 222, 128],   // #4ade80
+  [250, 204, 21],   // #facc15
+  [248, 113, 113]   // #f87171
+];
+
+export const speedColor = (speed: number, maxSpeed: number, alpha = 1): string => {
+  const t = Math.max(0, Math.min(1, maxSpeed > 0 ? speed / maxSpeed : 0)) * (SPEED_STOPS.length - 1);
+  const i = Math.min(SPEED_STOPS.length - 2, Math.floor(t));
+  const u = t - i;
+  const [r, g, b] = SPEED_STOPS[i].map((c, k) => Math.round(c + (SPEED_STOPS[i + 1][k] - c) * u));
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+};
+
+// For the legend
+export const SPEED_GRADIENT = `linear-gradient(to right, ${SPEED_STOPS.map(([r, g, b]) => `rgb(${r}, ${g}, ${b})`).join(', ')})`;
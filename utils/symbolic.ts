@@ -0,0 +1,326 @@
+import { ExprNode, BinaryOp, FunctionName, parseExpression, compileExpression, formatExpression } from './expression';
+
+// Symbolic differentiation of parsed expressions (see expression.ts).
+// Every tree is built through the smart constructors below, which simplify as they go
+// (constant folding, neutral elements, like terms), so derivatives come out readable:
+// d/dx (x^2 - 3xy + sin(y)) = 2x - 3y, not 2·x^1·1 - (0·x·y + 3·(1·y + x·0)) + cos(y)·0.
+
+export class DifferentiationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DifferentiationError';
+  }
+}
+
+// Past this size a derivative is not worth printing nor cheaper than finite differences
+const MAX_NODES = 400;
+
+// --- STRUCTURE HELPERS ---
+const num = (value: number): ExprNode => ({ type: 'num', value });
+const isNum = (n: ExprNode): n is { type: 'num'; value: number } => n.type === 'num';
+const isValue = (n: ExprNode, value: number): boolean => n.type === 'num' && n.value === value;
+const binary = (op: BinaryOp, left: ExprNode, right: ExprNode): ExprNode => ({ type: 'binary', op, left, right });
+
+// Folding only keeps "nice" results, so 1/3 stays a fraction instead of becoming 0.3333
+const isNice = (v: number) => Number.isFinite(v) && Math.abs(v * 1000 - Math.round(v * 1000)) < 1e-9;
+
+export const equal = (a: ExprNode, b: ExprNode): boolean => {
+  if (a.type !== b.type) return false;
+  switch (a.type) {
+    case 'num': return a.value === (b as typeof a).value;
+    case 'var': return a.name === (b as typeof a).name;
+    case 'neg': return equal(a.arg, (b as typeof a).arg);
+    case 'call': return a.fn === (b as typeof a).fn && equal(a.arg, (b as typeof a).arg);
+    case 'binary': {
+      const o = b as typeof a;
+      return a.op === o.op && equal(a.left, o.left) && equal(a.right, o.right);
+    }
+  }
+};
+
+export const dependsOn = (n: ExprNode, variable: string): boolean => {
+  switch (n.type) {
+    case 'num': return false;
+    case 'var': return n.name === variable;
+    case 'neg': case 'call': return dependsOn(n.arg, variable);
+    case 'binary': return dependsOn(n.left, variable) || dependsOn(n.right, variable);
+  }
+};
+
+export const countNodes = (n: ExprNode): number => {
+  switch (n.type) {
+    case 'num': case 'var': return 1;
+    case 'neg': case 'call': return 1 + countNodes(n.arg);
+    case 'binary': return 1 + countNodes(n.left) + countNodes(n.right);
+  }
+};
+
+// c·rest -> [c, rest]; used to merge like terms (2x + 3x = 5x)
+const splitCoefficient = (n: ExprNode): [number, ExprNode] =>
+  n.type === 'binary' && n.op === '*' && isNum(n.left) ? [n.left.value, n.right] : [1, n];
+
+// base^k -> [base, k]; used to merge powers (x·x² = x³)
+const splitPower = (n: ExprNode): [ExprNode, number] =>
+  n.type === 'binary' && n.op === '^' && isNum(n.right) ? [n.left, n.right.value] : [n, 1];
+
+// rest ± c -> [rest, ±c]; used to fold constants in sums (y - 1 - 1 = y - 2)
+const splitConstant = (n: ExprNode): [ExprNode, number] =>
+  n.type === 'binary' && (n.op === '+' || n.op === '-') && isNum(n.right)
+    ? [n.left, n.op === '+' ? n.right.value : -n.right.value]
+    : [n, 0];
+
+// x, y, x² ... written before other factors: 2x·exp(x), not 2·exp(x)·x
+const isMonomial = (n: ExprNode): boolean =>
+  n.type === 'var' || n.type === 'binary' && n.op === '^' && n.left.type === 'var' && isNum(n.right);
+
+const variableOf = (monomial: ExprNode): string =>
+  monomial.type === 'var' ? monomial.name : variableOf((monomial as { left: ExprNode }).left);
+
+const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b);
+
+// --- SIMPLIFYING CONSTRUCTORS ---
+export const neg = (a: ExprNode): ExprNode => {
+  if (isNum(a)) return num(-a.value);
+  if (a.type === 'neg') return a.arg;
+  return { type: 'neg', arg: a };
+};
+
+export const add = (a: ExprNode, b: ExprNode): ExprNode => {
+  if (isNum(a) && isNum(b)) return num(a.value + b.value);
+  if (isValue(a, 0)) return b;
+  if (isValue(b, 0)) return a;
+  if (b.type === 'neg') return sub(a, b.arg);
+  if (isNum(b) && b.value < 0) return sub(a, num(-b.value));
+  if (a.type === 'neg') return sub(b, a.arg);
+  if (isNum(b)) {
+    const [ra, k] = splitConstant(a);
+    if (k !== 0) return add(ra, num(k + b.value));
+  }
+  const [ca, ra] = splitCoefficient(a);
+  const [cb, rb] = splitCoefficient(b);
+  if (equal(ra, rb)) return mul(num(ca + cb), ra);
+  return binary('+', a, b);
+};
+
+export const sub = (a: ExprNode, b: ExprNode): ExprNode => {
+  if (isNum(a) && isNum(b)) return num(a.value - b.value);
+  if (isValue(b, 0)) return a;
+  if (isValue(a, 0)) return neg(b);
+  if (b.type === 'neg') return add(a, b.arg);
+  if (isNum(b) && b.value < 0) return add(a, num(-b.value));
+  if (isNum(b)) {
+    const [ra, k] = splitConstant(a);
+    if (k !== 0) return add(ra, num(k - b.value));
+  }
+  const [ca, ra] = splitCoefficient(a);
+  const [cb, rb] = splitCoefficient(b);
+  if (equal(ra, rb)) return mul(num(ca - cb), ra);
+  return binary('-', a, b);
+};
+
+export const mul = (a: ExprNode, b: ExprNode): ExprNode => {
+  if (isNum(a) && isNum(b)) return num(a.value * b.value);
+  if (isValue(a, 0) || isValue(b, 0)) return num(0);
+  if (isValue(a, 1)) return b;
+  if (isValue(b, 1)) return a;
+  if (isValue(a, -1)) return neg(b);
+  if (isValue(b, -1)) return neg(a);
+  if (a.type === 'neg') return neg(mul(a.arg, b));
+  if (b.type === 'neg') return neg(mul(a, b.arg));
+  if (isNum(a) && a.value < 0) return neg(mul(num(-a.value), b));
+  if (isNum(b)) return mul(b, a); // Coefficient first
+  // Single fraction: a·(n/d) = a·n / d
+  if (b.type === 'binary' && b.op === '/') return div(mul(a, b.left), b.right);
+  if (a.type === 'binary' && a.op === '/') return div(mul(a.left, b), a.right);
+  if (isNum(a)) {
+    const [cb, rb] = splitCoefficient(b);
+    if (cb !== 1) return mul(num(a.value * cb), rb);
+  } else {
+    // Pull coefficients of either factor to the front: x·(2y) = 2xy
+    const [cb, rb] = splitCoefficient(b);
+    if (cb !== 1) return mul(num(cb), mul(a, rb));
+    const [ca, ra] = splitCoefficient(a);
+    if (ca !== 1) return mul(num(ca), mul(ra, b));
+    if (isMonomial(b) && !isMonomial(a)) return mul(b, a);
+  }
+  const [ba, ka] = splitPower(a);
+  const [bb, kb] = splitPower(b);
+  if (equal(ba, bb)) return pow(ba, num(ka + kb));
+  if (b.type === 'binary' && b.op === '*' && !isNum(b.left)) {
+    // Merge into, or sort a monomial into, a product chain: x·(x·u) = x²·u, y·(x·u) = x·(y·u)
+    const [bl, kl] = splitPower(b.left);
+    if (equal(ba, bl)) return mul(pow(ba, num(ka + kl)), b.right);
+    if (isMonomial(a) && isMonomial(b.left) && variableOf(b.left) < variableOf(a)) return mul(b.left, mul(a, b.right));
+  }
+  if (isMonomial(a) && isMonomial(b) && variableOf(b) < variableOf(a)) return binary('*', b, a); // xy, not yx
+  return binary('*', a, b);
+};
+
+export const div = (a: ExprNode, b: ExprNode): ExprNode => {
+  if (isValue(b, 0)) return binary('/', a, b); // Left for evaluation to turn into ±Infinity / NaN
+  if (isValue(a, 0)) return num(0);
+  if (isValue(b, 1)) return a;
+  if (isValue(b, -1)) return neg(a);
+  if (isNum(a) && isNum(b) && isNice(a.value / b.value)) return num(a.value / b.value);
+  if (a.type === 'neg') return neg(div(a.arg, b));
+  if (b.type === 'neg') return neg(div(a, b.arg));
+  if (isNum(a) && a.value < 0) return neg(div(num(-a.value), b)); // So an outer neg can cancel it
+  if (equal(a, b)) return num(1);
+  // Cancel integer coefficients: 2x / 4 = x / 2, 2x / (2·sqrt(u)) = x / sqrt(u)
+  const [ca, ra] = splitCoefficient(a);
+  const [cb, rb] = isNum(b) ? [b.value, num(1)] : splitCoefficient(b);
+  if (Number.isInteger(ca) && Number.isInteger(cb)) {
+    const g = gcd(Math.abs(ca), Math.abs(cb));
+    if (g > 1) return div(mul(num(ca / g), ra), mul(num(cb / g), rb));
+  }
+  const [ba, ka] = splitPower(a);
+  const [bb, kb] = splitPower(b);
+  if (equal(ba, bb)) return ka >= kb ? pow(ba, num(ka - kb)) : div(num(1), pow(ba, num(kb - ka)));
+  return binary('/', a, b);
+};
+
+export const pow = (a: ExprNode, b: ExprNode): ExprNode => {
+  if (isValue(b, 0)) return num(1);
+  if (isValue(b, 1)) return a;
+  if (isValue(a, 1)) return num(1);
+  if (isValue(a, 0) && isNum(b) && b.value > 0) return num(0);
+  if (isNum(a) && isNum(b) && isNice(Math.pow(a.value, b.value))) return num(Math.pow(a.value, b.value));
+  if (isNum(b) && b.value < 0) return div(num(1), pow(a, num(-b.value)));
+  // (u^m)^k = u^(m·k) for integer k (exact even for negative u)
+  if (a.type === 'binary' && a.op === '^' && isNum(a.right) && isNum(b) && Number.isInteger(b.value)) {
+    return pow(a.left, num(a.right.value * b.value));
+  }
+  return binary('^', a, b);
+};
+
+export const call = (fn: FunctionName, a: ExprNode): ExprNode => {
+  if (isNum(a)) {
+    const value = compileExpression({ type: 'call', fn, arg: a }, [])();
+    if (Number.isInteger(value)) return num(value); // sin(0), exp(0), sqrt(4)...
+  }
+  if (fn === 'log' && a.type === 'call' && a.fn === 'exp') return a.arg;
+  // Parity: cos(-u) = cos(u), sin(-u) = -sin(u)
+  if ((fn === 'cos' || fn === 'abs') && a.type === 'neg') return call(fn, a.arg);
+  if ((fn === 'sin' || fn === 'tan') && a.type === 'neg') return neg(call(fn, a.arg));
+  return { type: 'call', fn, arg: a };
+};
+
+// Rebuilds a tree through the constructors
+export const simplify = (n: ExprNode): ExprNode => {
+  switch (n.type) {
+    case 'num': case 'var': return n;
+    case 'neg': return neg(simplify(n.arg));
+    case 'call': return call(n.fn, simplify(n.arg));
+    case 'binary': {
+      const l = simplify(n.left);
+      const r = simplify(n.right);
+      switch (n.op) {
+        case '+': return add(l, r);
+        case '-': return sub(l, r);
+        case '*': return mul(l, r);
+        case '/': return div(l, r);
+        case '^': return pow(l, r);
+      }
+    }
+  }
+};
+
+// --- DIFFERENTIATION ---
+// Chain rule for each function: d/dv fn(u) given u and u' = du/dv
+const DERIVATIVES: Partial<Record<FunctionName, (u: ExprNode, du: ExprNode) => ExprNode>> = {
+  sin: (u, du) => mul(du, call('cos', u)),
+  cos: (u, du) => neg(mul(du, call('sin', u))),
+  tan: (u, du) => div(du, pow(call('cos', u), num(2))),
+  exp: (u, du) => mul(du, call('exp', u)),
+  log: (u, du) => div(du, u),
+  sqrt: (u, du) => div(du, mul(num(2), call('sqrt', u))),
+  abs: (u, du) => div(mul(u, du), call('abs', u)) // sign(u)·u', undefined at 0
+};
+
+export const differentiate = (n: ExprNode, variable: string): ExprNode => {
+  if (!dependsOn(n, variable)) return num(0);
+  switch (n.type) {
+    case 'num': return num(0);
+    case 'var': return num(1);
+    case 'neg': return neg(differentiate(n.arg, variable));
+    case 'call': {
+      const outer = DERIVATIVES[n.fn];
+      if (!outer) throw new DifferentiationError(`No se conoce la derivada de ${n.fn}`);
+      return outer(n.arg, differentiate(n.arg, variable));
+    }
+    case 'binary': {
+      const { left: u, right: v } = n;
+      const du = () => differentiate(u, variable);
+      const dv = () => differentiate(v, variable);
+      switch (n.op) {
+        case '+': return add(du(), dv());
+        case '-': return sub(du(), dv());
+        case '*': return add(mul(du(), v), mul(u, dv()));
+        case '/':
+          if (!dependsOn(v, variable)) return div(du(), v);
+          return div(sub(mul(du(), v), mul(u, dv())), pow(v, num(2)));
+        case '^':
+          // Power rule, exponential rule, or the general u^v = e^(v·log u) form
+          if (!dependsOn(v, variable)) return mul(mul(v, pow(u, sub(v, num(1)))), du());
+          if (!dependsOn(u, variable)) return mul(mul(n, call('log', u)), dv());
+          return mul(n, add(mul(dv(), call('log', u)), div(mul(v, du()), u)));
+      }
+    }
+  }
+};
+
+// --- SURFACES z = f(x, y) ---
+type Fn2 = (x: number, y: number) => number;
+
+export interface SurfaceDerivative {
+  evaluate: Fn2;
+  formula: string;     // Pretty-printed, or a note when it had to be computed numerically
+  symbolic: boolean;
+  node: ExprNode | null;
+}
+
+export interface CompiledSurface {
+  source: string;      // Text as typed
+  formula: string;     // Pretty-printed f
+  f: Fn2;
+  dx: SurfaceDerivative;
+  dy: SurfaceDerivative;
+  hessian: { xx: SurfaceDerivative; xy: SurfaceDerivative; yy: SurfaceDerivative }; // f_yx = f_xy
+}
+
+const DIFF_STEP = 1e-4;
+
+const numericPartial = (fn: Fn2, variable: 'x' | 'y'): Fn2 => variable === 'x'
+  ? (x, y) => (fn(x + DIFF_STEP, y) - fn(x - DIFF_STEP, y)) / (2 * DIFF_STEP)
+  : (x, y) => (fn(x, y + DIFF_STEP) - fn(x, y - DIFF_STEP)) / (2 * DIFF_STEP);
+
+// Symbolic when possible; central differences on `of` otherwise
+const partial = (of: { node: ExprNode | null; evaluate: Fn2 }, variable: 'x' | 'y'): SurfaceDerivative => {
+  if (of.node) {
+    try {
+      const node = differentiate(of.node, variable);
+      if (countNodes(node) > MAX_NODES) throw new DifferentiationError('Derivada demasiado grande');
+      return { node, evaluate: compileExpression(node) as Fn2, formula: formatExpression(node), symbolic: true };
+    } catch (e) {
+      if (!(e instanceof DifferentiationError)) throw e;
+    }
+  }
+  return { node: null, evaluate: numericPartial(of.evaluate, variable), formula: '(numérica)', symbolic: false };
+};
+
+// Parses and compiles a user surface with its first and second partial derivatives.
+// Throws ExpressionError on invalid input.
+export const compileSurface = (source: string): CompiledSurface => {
+  const node = simplify(parseExpression(source, ['x', 'y']));
+  const f = compileExpression(node) as Fn2;
+  const dx = partial({ node, evaluate: f }, 'x');
+  const dy = partial({ node, evaluate: f }, 'y');
+  return {
+    source,
+    formula: formatExpression(node),
+    f,
+    dx,
+    dy,
+    hessian: { xx: partial(dx, 'x'), xy: partial(dx, 'y'), yy: partial(dy, 'y') }
+  };
+};
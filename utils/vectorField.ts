@@ -0,0 +1,215 @@
+import { Vector3D } from '../types';
+import { ExpressionError, parseExpression, compileExpression } from './expression';
+
+// Plane vector fields F(x,y) = <P, Q, R> (R optional, 0 when omitted) and their
+// differential operators, evaluated numerically from the field itself at a point.
+
+type Fn2 = (x: number, y: number) => number;
+
+export interface VectorField {
+  P: Fn2;
+  Q: Fn2;
+  R?: Fn2;
+}
+
+export interface FieldAnalysis {
+  dP_dx: number; dP_dy: number;
+  dQ_dx: number; dQ_dy: number;
+  dR_dx: number; dR_dy: number;
+  curl: Vector3D;        // (∂R/∂y, -∂R/∂x, ∂Q/∂x - ∂P/∂y): nothing depends on z
+  divergence: number;    // ∂P/∂x + ∂Q/∂y
+}
+
+const DIFF_STEP = 1e-4;
+
+const partialX = (fn: Fn2, x: number, y: number) => (fn(x + DIFF_STEP, y) - fn(x - DIFF_STEP, y)) / (2 * DIFF_STEP);
+const partialY = (fn: Fn2, x: number, y: number) => (fn(x, y + DIFF_STEP) - fn(x, y - DIFF_STEP)) / (2 * DIFF_STEP);
+
+// Central differences of every component at (x, y)
+export const analyzeField = (field: VectorField, x: number, y: number): FieldAnalysis => {
+  const dP_dx = partialX(field.P, x, y);
+  const dP_dy = partialY(field.P, x, y);
+  const dQ_dx = partialX(field.Q, x, y);
+  const dQ_dy = partialY(field.Q, x, y);
+  const dR_dx = field.R ? partialX(field.R, x, y) : 0;
+  const dR_dy = field.R ? partialY(field.R, x, y) : 0;
+  return {
+    dP_dx, dP_dy, dQ_dx, dQ_dy, dR_dx, dR_dy,
+    curl: { x: dR_dy, y: -dR_dx, z: dQ_dx - dP_dy },
+    divergence: dP_dx + dQ_dy
+  };
+};
+
+// --- PRESETS ---
+// The plane fields of the Curl level, shared with the levels that build on it
+export interface FieldPreset extends VectorField {
+  id: string;
+  name: string;
+  desc: string;
+  eq: string;
+}
+
+export const FIELD_PRESETS: FieldPreset[] = [
+  {
+    id: 'vortex',
+    name: 'Remolino (Vortex)',
+    desc: 'Un campo clásico con rotación pura. El agua gira alrededor del centro.',
+    P: (x: number, y: number) => -y,
+    Q: (x: number, y: number) => x,
+    eq: 'F = <-y, x>'
+  },
+  {
+    id: 'shear',
+    name: 'Río (Cizalla)',
+    desc: 'Las líneas son rectas, pero la velocidad varía. Imagina una tabla flotando: un lado va más rápido que el otro, haciéndola girar.',
+    P: (x: number, y: number) => y, // Speed increases with Y
+    Q: (x: number, y: number) => 0,
+    eq: 'F = <y, 0>'
+  },
+  {
+    id: 'expansion',
+    name: 'Explosión (Divergencia)',
+    desc: 'Todo se aleja del centro. Hay movimiento, pero NO hay giro. La rueda no rota.',
+    P: (x: number, y: number) => x,
+    Q: (x: number, y: number) => y,
+    eq: 'F = <x, y>'
+  },
+  {
+    id: 'varying',
+    name: 'Giro Variable',
+    desc: 'Aquí el rotacional no es constante: vale 3x. Lleva la rueda de derecha a izquierda y verás cómo frena, se detiene en x = 0 y gira al revés.',
+    P: (x: number, y: number) => -y * x,
+    Q: (x: number, y: number) => x * x,
+    eq: 'F = <-y·x, x²>'
+  }
+];
+
+export interface FieldSources {
+  P: string;
+  Q: string;
+  R: string;   // Empty = no vertical component
+}
+
+export type FieldComponent = keyof FieldSources;
+
+// Error of one typed component, so the UI can point at the right input
+export class FieldExpressionError extends ExpressionError {
+  constructor(public readonly component: FieldComponent, cause: ExpressionError) {
+    super(cause.message, cause.position);
+    this.name = 'FieldExpressionError';
+  }
+}
+
+const compileComponent = (component: FieldComponent, source: string, variables = ['x', 'y']) => {
+  try {
+    return compileExpression(parseExpression(source, variables), variables);
+  } catch (e) {
+    throw e instanceof ExpressionError ? new FieldExpressionError(component, e) : e;
+  }
+};
+
+// Throws FieldExpressionError on the first invalid component
+export const compileField = (sources: FieldSources): VectorField => ({
+  P: compileComponent('P', sources.P),
+  Q: compileComponent('Q', sources.Q),
+  ...(sources.R.trim() !== '' && { R: compileComponent('R', sources.R) })
+});
+
+// --- SPACE FIELDS ---
+// Genuinely 3D fields F(x,y,z) = <P, Q, R>: every component may depend on z too, so the curl
+// can point in any direction and not only along z as for the plane fields above.
+
+type Fn3 = (x: number, y: number, z: number) => number;
+
+export interface SpaceField {
+  P: Fn3;
+  Q: Fn3;
+  R: Fn3;
+}
+
+export interface SpaceFieldAnalysis {
+  jacobian: number[][];  // jacobian[i][j] = ∂(P, Q, R)[i] / ∂(x, y, z)[j]
+  curl: Vector3D;        // (∂R/∂y - ∂Q/∂z, ∂P/∂z - ∂R/∂x, ∂Q/∂x - ∂P/∂y)
+  divergence: number;    // ∂P/∂x + ∂Q/∂y + ∂R/∂z
+}
+
+const gradient3 = (fn: Fn3, p: Vector3D): number[] => [
+  (fn(p.x + DIFF_STEP, p.y, p.z) - fn(p.x - DIFF_STEP, p.y, p.z)) / (2 * DIFF_STEP),
+  (fn(p.x, p.y + DIFF_STEP, p.z) - fn(p.x, p.y - DIFF_STEP, p.z)) / (2 * DIFF_STEP),
+  (fn(p.x, p.y, p.z + DIFF_STEP) - fn(p.x, p.y, p.z - DIFF_STEP)) / (2 * DIFF_STEP)
+];
+
+// Central differences of every component at p
+export const analyzeSpaceField = (field: SpaceField, p: Vector3D): SpaceFieldAnalysis => {
+  const jacobian = [gradient3(field.P, p), gradient3(field.Q, p), gradient3(field.R, p)];
+  const [[, dP_dy, dP_dz], [dQ_dx, , dQ_dz], [dR_dx, dR_dy]] = jacobian;
+  return {
+    jacobian,
+    curl: { x: dR_dy - dQ_dz, y: dP_dz - dR_dx, z: dQ_dx - dP_dy },
+    divergence: jacobian[0][0] + jacobian[1][1] + jacobian[2][2]
+  };
+};
+
+export interface SpaceFieldPreset extends SpaceField {
+  id: string;
+  name: string;
+  desc: string;
+  eq: string;
+}
+
+export const SPACE_FIELD_PRESETS: SpaceFieldPreset[] = [
+  {
+    id: 'tilted',
+    name: 'Rotación Inclinada',
+    desc: 'Un sólido que gira alrededor del eje (1, 1, 1). El rotacional es el mismo en todas partes y apunta a lo largo de ese eje: alinea la rueda con él y gira a la máxima velocidad.',
+    P: (x: number, y: number, z: number) => (z - y) / 2,
+    Q: (x: number, y: number, z: number) => (x - z) / 2,
+    R: (x: number, y: number, z: number) => (y - x) / 2,
+    eq: 'F = ½<z - y, x - z, y - x>'
+  },
+  {
+    id: 'tornado',
+    name: 'Tornado',
+    desc: 'Gira alrededor del eje z mientras sube. Subir no añade giro: el rotacional sigue siendo vertical.',
+    P: (x: number, y: number, z: number) => -y,
+    Q: (x: number, y: number, z: number) => x,
+    R: (x: number, y: number, z: number) => 0.5,
+    eq: 'F = <-y, x, 0.5>'
+  },
+  {
+    id: 'windShear',
+    name: 'Viento en Altura',
+    desc: 'Sopla en dirección x, más fuerte cuanto más alto. Una rueda de eje vertical no gira; una de eje horizontal a lo largo de y, sí: el rotacional es (0, 1, 0).',
+    P: (x: number, y: number, z: number) => z,
+    Q: (x: number, y: number, z: number) => 0,
+    R: (x: number, y: number, z: number) => 0,
+    eq: 'F = <z, 0, 0>'
+  },
+  {
+    id: 'twist',
+    name: 'Giro Variable 3D',
+    desc: 'El rotacional (x, -y, 0) es horizontal y cambia de dirección de un punto a otro: mueve la sonda y mira cómo se reorienta el eje de la rueda.',
+    P: (x: number, y: number, z: number) => 0,
+    Q: (x: number, y: number, z: number) => 0,
+    R: (x: number, y: number, z: number) => x * y,
+    eq: 'F = <0, 0, x·y>'
+  },
+  {
+    id: 'gradient',
+    name: 'Gradiente de xyz',
+    desc: 'Es el gradiente de f = xyz. Hay movimiento en todas partes, pero ninguna rueda gira, la orientes como la orientes: rot(∇f) = 0.',
+    P: (x: number, y: number, z: number) => y * z,
+    Q: (x: number, y: number, z: number) => x * z,
+    R: (x: number, y: number, z: number) => x * y,
+    eq: 'F = <yz, xz, xy>'
+  }
+];
+
+const SPACE_VARIABLES = ['x', 'y', 'z'];
+
+// Same as compileField but over x, y and z; an empty R is the zero component
+export const compileSpaceField = (sources: FieldSources): SpaceField => ({
+  P: compileComponent('P', sources.P, SPACE_VARIABLES),
+  Q: compileComponent('Q', sources.Q, SPACE_VARIABLES),
+  R: sources.R.trim() === '' ? () => 0 : compileComponent('R', sources.R, SPACE_VARIABLES)
+});